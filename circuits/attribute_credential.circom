@@ -0,0 +1,135 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/comparators.circom";
+include "../node_modules/circomlib/circuits/bitify.circom";
+include "merkle.circom";
+
+// Whether `value` satisfies `op` against `operand`. Operators match
+// PREDICATE_OPCODES in src/core/verifier/AttributeStatement.ts:
+// 0 = none, 1 = eq, 2 = neq, 3 = gte, 4 = lte.
+template AttributePredicate(nBits) {
+    signal input value;
+    signal input op;
+    signal input operand;
+
+    // One-hot decode; exactly one selector is set, so op is 0..4
+    component isOp[5];
+    var selected = 0;
+    for (var k = 0; k < 5; k++) {
+        isOp[k] = IsEqual();
+        isOp[k].in[0] <== op;
+        isOp[k].in[1] <== k;
+        selected += isOp[k].out;
+    }
+    selected === 1;
+
+    component equal = IsEqual();
+    equal.in[0] <== value;
+    equal.in[1] <== operand;
+
+    // Only gte and lte see the operands, so eq and neq also work on
+    // attributes wider than nBits (hashed strings)
+    signal cmpValue;
+    signal cmpOperand;
+    cmpValue <== value * (isOp[3].out + isOp[4].out);
+    cmpOperand <== operand * (isOp[3].out + isOp[4].out);
+
+    component valueBits = Num2Bits(nBits);
+    valueBits.in <== cmpValue;
+    component operandBits = Num2Bits(nBits);
+    operandBits.in <== cmpOperand;
+
+    component gte = GreaterEqThan(nBits);
+    gte.in[0] <== cmpValue;
+    gte.in[1] <== cmpOperand;
+    component lte = LessEqThan(nBits);
+    lte.in[0] <== cmpValue;
+    lte.in[1] <== cmpOperand;
+
+    // The selected operator must hold
+    signal holdsEq;
+    signal holdsNeq;
+    signal holdsGte;
+    signal holdsLte;
+    holdsEq <== isOp[1].out * equal.out;
+    holdsNeq <== isOp[2].out * (1 - equal.out);
+    holdsGte <== isOp[3].out * gte.out;
+    holdsLte <== isOp[4].out * lte.out;
+    isOp[0].out + holdsEq + holdsNeq + holdsGte + holdsLte === 1;
+}
+
+// Proves membership of an attribute credential
+// Poseidon(Poseidon(secret, nullifier), schemaHash, Poseidon(attributes))
+// in a credential set, reveals the attributes selected by disclosureMask and
+// proves each predicate slot on the hidden ones.
+template AttributeCredentialProof(nLevels, nAttributes, nPredicates) {
+    signal input identitySecret;
+    signal input identityNullifier;
+    signal input attributes[nAttributes];
+    signal input pathElements[nLevels];
+    signal input pathIndices[nLevels];
+    signal input schemaHash;                      // Public
+    signal input disclosureMask[nAttributes];     // Public: 1 reveals the attribute
+    signal input predicateAttribute[nPredicates]; // Public: attribute slot
+    signal input predicateOp[nPredicates];        // Public
+    signal input predicateValue[nPredicates];     // Public
+    signal output root;
+    signal output disclosed[nAttributes];
+
+    // 1. Recompute the credential leaf
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== identitySecret;
+    commitment.inputs[1] <== identityNullifier;
+
+    component attributesHash = Poseidon(nAttributes);
+    for (var i = 0; i < nAttributes; i++) {
+        attributesHash.inputs[i] <== attributes[i];
+    }
+
+    component leaf = Poseidon(3);
+    leaf.inputs[0] <== commitment.out;
+    leaf.inputs[1] <== schemaHash;
+    leaf.inputs[2] <== attributesHash.out;
+
+    // 2. Compute Root
+    component tree = MerkleTreeInclusionProof(nLevels);
+    tree.leaf <== leaf.out;
+    for (var i = 0; i < nLevels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    root <== tree.root;
+
+    // 3. Reveal the selected attributes
+    for (var i = 0; i < nAttributes; i++) {
+        disclosureMask[i] * (disclosureMask[i] - 1) === 0;
+        disclosed[i] <== attributes[i] * disclosureMask[i];
+    }
+
+    // 4. Check each predicate against the attribute in its slot
+    component isAttribute[nPredicates][nAttributes];
+    signal picked[nPredicates][nAttributes];
+    component predicate[nPredicates];
+    for (var p = 0; p < nPredicates; p++) {
+        var matches = 0;
+        var value = 0;
+        for (var i = 0; i < nAttributes; i++) {
+            isAttribute[p][i] = IsEqual();
+            isAttribute[p][i].in[0] <== predicateAttribute[p];
+            isAttribute[p][i].in[1] <== i;
+            picked[p][i] <== isAttribute[p][i].out * attributes[i];
+            matches += isAttribute[p][i].out;
+            value += picked[p][i];
+        }
+        matches === 1;
+
+        predicate[p] = AttributePredicate(64);
+        predicate[p].value <== value;
+        predicate[p].op <== predicateOp[p];
+        predicate[p].operand <== predicateValue[p];
+    }
+}
+
+component main {public [schemaHash, disclosureMask, predicateAttribute, predicateOp, predicateValue]} = AttributeCredentialProof(20, 8, 4);
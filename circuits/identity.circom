@@ -0,0 +1,31 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "merkle.circom";
+
+// Proves knowledge of an identity (secret, nullifier) whose commitment
+// Poseidon(secret, nullifier) is a leaf of the tree with the given root.
+template IdentityProof(nLevels) {
+    signal input identitySecret;
+    signal input identityNullifier;
+    signal input pathElements[nLevels];
+    signal input pathIndices[nLevels];
+    signal output root;
+
+    // 1. Recompute the identity commitment (the leaf)
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== identitySecret;
+    commitment.inputs[1] <== identityNullifier;
+
+    // 2. Compute Root
+    component tree = MerkleTreeInclusionProof(nLevels);
+    tree.leaf <== commitment.out;
+    for (var i = 0; i < nLevels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    root <== tree.root;
+}
+
+component main = IdentityProof(20);
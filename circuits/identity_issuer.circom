@@ -0,0 +1,48 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/eddsaposeidon.circom";
+include "merkle.circom";
+
+// Same membership statement as IdentityProof, plus proof that the identity
+// commitment carries an EdDSA-Poseidon signature from the issuer whose
+// BabyJubJub public key is (issuerAx, issuerAy). The signature stays private.
+template IdentityIssuerProof(nLevels) {
+    signal input identitySecret;
+    signal input identityNullifier;
+    signal input pathElements[nLevels];
+    signal input pathIndices[nLevels];
+    signal input issuerAx; // Public
+    signal input issuerAy; // Public
+    signal input signatureR8x;
+    signal input signatureR8y;
+    signal input signatureS;
+    signal output root;
+
+    // 1. Recompute the identity commitment (the leaf)
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== identitySecret;
+    commitment.inputs[1] <== identityNullifier;
+
+    // 2. Compute Root
+    component tree = MerkleTreeInclusionProof(nLevels);
+    tree.leaf <== commitment.out;
+    for (var i = 0; i < nLevels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    root <== tree.root;
+
+    // 3. Check the issuer's signature over the commitment
+    component signature = EdDSAPoseidonVerifier();
+    signature.enabled <== 1;
+    signature.Ax <== issuerAx;
+    signature.Ay <== issuerAy;
+    signature.S <== signatureS;
+    signature.R8x <== signatureR8x;
+    signature.R8y <== signatureR8y;
+    signature.M <== commitment.out;
+}
+
+component main {public [issuerAx, issuerAy]} = IdentityIssuerProof(20);
@@ -0,0 +1,39 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "merkle.circom";
+
+// Same membership statement as IdentityProof, plus a nullifier that is
+// unique per (identity, externalNullifier) and unlinkable across scopes.
+template IdentityNullifierProof(nLevels) {
+    signal input identitySecret;
+    signal input identityNullifier;
+    signal input externalNullifier; // Public scope, e.g. a poll ID
+    signal input pathElements[nLevels];
+    signal input pathIndices[nLevels];
+    signal output root;
+    signal output nullifierHash;
+
+    // 1. Recompute the identity commitment (the leaf)
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== identitySecret;
+    commitment.inputs[1] <== identityNullifier;
+
+    // 2. Compute Root
+    component tree = MerkleTreeInclusionProof(nLevels);
+    tree.leaf <== commitment.out;
+    for (var i = 0; i < nLevels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    root <== tree.root;
+
+    // 3. Nullifier = Poseidon(identityNullifier, externalNullifier)
+    component nullifier = Poseidon(2);
+    nullifier.inputs[0] <== identityNullifier;
+    nullifier.inputs[1] <== externalNullifier;
+    nullifierHash <== nullifier.out;
+}
+
+component main {public [externalNullifier]} = IdentityNullifierProof(20);
@@ -0,0 +1,60 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/smt/smtverifier.circom";
+include "merkle.circom";
+
+// IdentityNullifierProof and IdentityRevocationProof in one: membership, a
+// scoped nullifier, and absence from the set's revocation tree. Sets that
+// publish revocations need it for single-use proofs.
+template IdentityNullifierRevocationProof(nLevels, revocationLevels) {
+    signal input identitySecret;
+    signal input identityNullifier;
+    signal input externalNullifier; // Public scope, e.g. a poll ID
+    signal input pathElements[nLevels];
+    signal input pathIndices[nLevels];
+    signal input revocationRoot; // Public: the set's published revocation root
+    signal input revocationSiblings[revocationLevels];
+    signal input revocationOldKey;
+    signal input revocationOldValue;
+    signal input revocationIsOld0;
+    signal output root;
+    signal output nullifierHash;
+
+    // 1. Recompute the identity commitment (the leaf)
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== identitySecret;
+    commitment.inputs[1] <== identityNullifier;
+
+    // 2. Compute Root
+    component tree = MerkleTreeInclusionProof(nLevels);
+    tree.leaf <== commitment.out;
+    for (var i = 0; i < nLevels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    root <== tree.root;
+
+    // 3. Nullifier = Poseidon(identityNullifier, externalNullifier)
+    component nullifier = Poseidon(2);
+    nullifier.inputs[0] <== identityNullifier;
+    nullifier.inputs[1] <== externalNullifier;
+    nullifierHash <== nullifier.out;
+
+    // 4. The commitment is not a key of the revocation tree
+    component revocation = SMTVerifier(revocationLevels);
+    revocation.enabled <== 1;
+    revocation.fnc <== 1; // Verify non-inclusion
+    revocation.root <== revocationRoot;
+    for (var i = 0; i < revocationLevels; i++) {
+        revocation.siblings[i] <== revocationSiblings[i];
+    }
+    revocation.oldKey <== revocationOldKey;
+    revocation.oldValue <== revocationOldValue;
+    revocation.isOld0 <== revocationIsOld0;
+    revocation.key <== commitment.out;
+    revocation.value <== 0;
+}
+
+component main {public [externalNullifier, revocationRoot]} = IdentityNullifierRevocationProof(20, 40);
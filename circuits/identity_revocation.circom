@@ -0,0 +1,52 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+include "../node_modules/circomlib/circuits/smt/smtverifier.circom";
+include "merkle.circom";
+
+// Same membership statement as IdentityProof, plus proof that the identity
+// commitment is absent from the credential set's revocation tree (a sparse
+// Merkle tree of revoked commitments with Poseidon hashing).
+template IdentityRevocationProof(nLevels, revocationLevels) {
+    signal input identitySecret;
+    signal input identityNullifier;
+    signal input pathElements[nLevels];
+    signal input pathIndices[nLevels];
+    signal input revocationRoot; // Public: the set's published revocation root
+    signal input revocationSiblings[revocationLevels];
+    signal input revocationOldKey;
+    signal input revocationOldValue;
+    signal input revocationIsOld0;
+    signal output root;
+
+    // 1. Recompute the identity commitment (the leaf)
+    component commitment = Poseidon(2);
+    commitment.inputs[0] <== identitySecret;
+    commitment.inputs[1] <== identityNullifier;
+
+    // 2. Compute Root
+    component tree = MerkleTreeInclusionProof(nLevels);
+    tree.leaf <== commitment.out;
+    for (var i = 0; i < nLevels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    root <== tree.root;
+
+    // 3. The commitment is not a key of the revocation tree
+    component revocation = SMTVerifier(revocationLevels);
+    revocation.enabled <== 1;
+    revocation.fnc <== 1; // Verify non-inclusion
+    revocation.root <== revocationRoot;
+    for (var i = 0; i < revocationLevels; i++) {
+        revocation.siblings[i] <== revocationSiblings[i];
+    }
+    revocation.oldKey <== revocationOldKey;
+    revocation.oldValue <== revocationOldValue;
+    revocation.isOld0 <== revocationIsOld0;
+    revocation.key <== commitment.out;
+    revocation.value <== 0;
+}
+
+component main {public [revocationRoot]} = IdentityRevocationProof(20, 40);
@@ -34,7 +34,8 @@ export interface CredentialSet {
     id: string;
     name: string;
     description: string;
-    credentials: string[];
+    credentialCount: number;
+    treeDepth: number;
     merkleRoot: string;
     createdAt: string;
     version: string;
@@ -88,7 +89,7 @@ export async function listCredentialSets(): Promise<CredentialSetListResponse> {
 
 export async function createCredentialSet(body: {
     name: string;
-    credentials: string[];
+    commitments: string[];
     description?: string;
     type?: string;
 }): Promise<CreateSetResponse> {
@@ -100,7 +101,9 @@ export async function createCredentialSet(body: {
 
 export async function generateProof(body: {
     credentialSetId: string;
-    credential: string;
+    identitySecret: string;
+    identityNullifier: string;
+    externalNullifier?: string;
 }): Promise<GenerateProofResponse> {
     return request<GenerateProofResponse>('/proof/generate', {
         method: 'POST',
@@ -37,18 +37,18 @@ export function CredentialSets({ onSetsChange }: Props) {
         setLoading(true);
         setMsg(null);
         try {
-            const credentials = creds
+            const commitments = creds
                 .split('\n')
                 .map((s) => s.trim())
                 .filter(Boolean);
-            if (credentials.length === 0) {
-                setMsg({ type: 'error', text: 'Enter at least one credential' });
+            if (commitments.length === 0) {
+                setMsg({ type: 'error', text: 'Enter at least one identity commitment' });
                 setLoading(false);
                 return;
             }
             await createCredentialSet({
                 name,
-                credentials,
+                commitments,
                 description: description || undefined,
                 type,
             });
@@ -109,12 +109,12 @@ export function CredentialSets({ onSetsChange }: Props) {
                         />
                     </div>
                     <div className="form-group">
-                        <label className="form-label">Credentials (one per line)</label>
+                        <label className="form-label">Identity commitments (hex, one per line)</label>
                         <textarea
                             className="form-textarea"
                             value={creds}
                             onChange={(e) => setCreds(e.target.value)}
-                            placeholder={'MIT\nStanford\nHarvard\nBerkeley'}
+                            placeholder={'0c1f…\n2a9e…'}
                             rows={4}
                             required
                         />
@@ -161,7 +161,7 @@ export function CredentialSets({ onSetsChange }: Props) {
                             {sets.map((s) => (
                                 <tr key={s.id}>
                                     <td style={{ fontWeight: 500, color: 'var(--text-primary)' }}>{s.name}</td>
-                                    <td>{s.credentials.length}</td>
+                                    <td>{s.credentialCount}</td>
                                     <td className="hash-cell" title={s.merkleRoot}>
                                         {s.merkleRoot.slice(0, 8)}…{s.merkleRoot.slice(-6)}
                                     </td>
@@ -1,5 +1,7 @@
 import { useState } from 'react';
-import { generateProof, type CredentialSet, type GenerateProofResponse } from '../api/client';
+import { type CredentialSet } from '../api/client';
+import { generateIdentity, getCommitment } from '../prover/identity';
+import { proveMembership, type SerializedProof } from '../prover/prover';
 
 interface Props {
     sets: CredentialSet[];
@@ -7,9 +9,12 @@ interface Props {
 
 export function ProofGenerator({ sets }: Props) {
     const [setId, setSetId] = useState('');
-    const [credential, setCredential] = useState('');
+    const [identitySecret, setIdentitySecret] = useState('');
+    const [identityNullifier, setIdentityNullifier] = useState('');
     const [loading, setLoading] = useState(false);
-    const [result, setResult] = useState<GenerateProofResponse | null>(null);
+    const [externalNullifier, setExternalNullifier] = useState('');
+    const [commitment, setCommitment] = useState('');
+    const [result, setResult] = useState<SerializedProof | null>(null);
     const [error, setError] = useState('');
 
     const handleGenerate = async (e: React.FormEvent) => {
@@ -18,8 +23,13 @@ export function ProofGenerator({ sets }: Props) {
         setResult(null);
         setError('');
         try {
-            const res = await generateProof({ credentialSetId: setId, credential });
-            setResult(res);
+            // Proving runs in the browser; only the commitment is sent to the server
+            const proof = await proveMembership({
+                credentialSetId: setId,
+                identity: { secret: identitySecret, nullifier: identityNullifier },
+                externalNullifier: externalNullifier || undefined,
+            });
+            setResult(proof);
         } catch (err: unknown) {
             setError(err instanceof Error ? err.message : 'Proof generation failed');
         } finally {
@@ -27,8 +37,12 @@ export function ProofGenerator({ sets }: Props) {
         }
     };
 
-    // Get credentials list for selected set
-    const selectedSet = sets.find((s) => s.id === setId);
+    const handleNewIdentity = async () => {
+        const identity = generateIdentity();
+        setIdentitySecret(identity.secret);
+        setIdentityNullifier(identity.nullifier);
+        setCommitment(await getCommitment(identity));
+    };
 
     return (
         <div className="card">
@@ -45,7 +59,6 @@ export function ProofGenerator({ sets }: Props) {
                         value={setId}
                         onChange={(e) => {
                             setSetId(e.target.value);
-                            setCredential('');
                             setResult(null);
                             setError('');
                         }}
@@ -54,37 +67,71 @@ export function ProofGenerator({ sets }: Props) {
                         <option value="">Select a set…</option>
                         {sets.map((s) => (
                             <option key={s.id} value={s.id}>
-                                {s.name} ({s.credentials.length} credentials)
+                                {s.name} ({s.credentialCount} members)
                             </option>
                         ))}
                     </select>
                 </div>
 
-                {selectedSet && (
-                    <div className="form-group">
-                        <label className="form-label">Credential</label>
-                        <select
-                            className="form-select"
-                            value={credential}
-                            onChange={(e) => setCredential(e.target.value)}
-                            required
-                        >
-                            <option value="">Select a credential…</option>
-                            {selectedSet.credentials.map((c) => (
-                                <option key={c} value={c}>
-                                    {c}
-                                </option>
-                            ))}
-                        </select>
+                <div className="form-group">
+                    <label className="form-label">Identity secret (hex)</label>
+                    <input
+                        className="form-input"
+                        value={identitySecret}
+                        onChange={(e) => {
+                            setIdentitySecret(e.target.value.trim());
+                            setCommitment('');
+                        }}
+                        placeholder="64 hex characters"
+                        required
+                    />
+                </div>
+
+                <div className="form-group">
+                    <label className="form-label">Identity nullifier (hex)</label>
+                    <input
+                        className="form-input"
+                        value={identityNullifier}
+                        onChange={(e) => {
+                            setIdentityNullifier(e.target.value.trim());
+                            setCommitment('');
+                        }}
+                        placeholder="64 hex characters"
+                        required
+                    />
+                </div>
+
+                <div className="form-group">
+                    <label className="form-label">External nullifier (optional)</label>
+                    <input
+                        className="form-input"
+                        value={externalNullifier}
+                        onChange={(e) => setExternalNullifier(e.target.value)}
+                        placeholder="e.g. poll-42 for a single-use proof"
+                    />
+                </div>
+
+                <button
+                    className="btn btn-secondary btn-block"
+                    type="button"
+                    onClick={handleNewIdentity}
+                >
+                    ＋ New identity
+                </button>
+                {commitment && (
+                    <div className="result-box success">
+                        <span className="text-xs">
+                            Register this commitment with the issuer: {commitment}
+                        </span>
                     </div>
                 )}
 
                 <button
                     className="btn btn-primary btn-block"
                     type="submit"
-                    disabled={loading || !setId || !credential}
+                    disabled={loading || !setId || !identitySecret || !identityNullifier}
                 >
-                    {loading ? <span className="spinner" /> : '🛡️'} Generate Merkle Proof
+                    {loading ? <span className="spinner" /> : '🛡️'} Generate Proof Locally
                 </button>
             </form>
 
@@ -103,7 +150,7 @@ export function ProofGenerator({ sets }: Props) {
                             className="btn btn-secondary btn-sm"
                             type="button"
                             onClick={() => {
-                                navigator.clipboard.writeText(JSON.stringify(result.data, null, 2));
+                                navigator.clipboard.writeText(JSON.stringify(result, null, 2));
                             }}
                             title="Copy full JSON for verification"
                         >
@@ -111,7 +158,7 @@ export function ProofGenerator({ sets }: Props) {
                         </button>
                     </div>
                     <div className="result-json">
-                        {JSON.stringify(result.data, null, 2)}
+                        {JSON.stringify(result, null, 2)}
                     </div>
                 </div>
             )}
@@ -0,0 +1,101 @@
+/* ───────────────────────────────────────────────
+   Holder identity — field helpers shared by the prover
+   Mirrors src/core/crypto/Identity.ts on the server
+   ─────────────────────────────────────────────── */
+
+import { buildPoseidon } from 'circomlibjs';
+
+/** Order of the BN254 scalar field; every circuit signal is below it. */
+export const SNARK_SCALAR_FIELD = BigInt(
+    '21888242871839275222246405745257275088548364400416034343698204186575808495617',
+);
+
+/** Hex-encoded identity, as accepted by `POST /api/proof/generate`. */
+export interface SerializedIdentity {
+    secret: string;
+    nullifier: string;
+}
+
+type Poseidon = Awaited<ReturnType<typeof buildPoseidon>>;
+
+let poseidonPromise: Promise<Poseidon> | null = null;
+
+function getPoseidon(): Promise<Poseidon> {
+    poseidonPromise ??= buildPoseidon();
+    return poseidonPromise;
+}
+
+export function toHex(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+function parseFieldHex(value: string, label: string): bigint {
+    if (!/^[a-f0-9]{64}$/i.test(value)) {
+        throw new Error(`${label}: must be a 64-character hex string`);
+    }
+    const parsed = BigInt('0x' + value);
+    if (parsed === BigInt(0) || parsed >= SNARK_SCALAR_FIELD) {
+        throw new Error(`${label}: must be a non-zero field element`);
+    }
+    return parsed;
+}
+
+export async function poseidonHash(elements: bigint[]): Promise<bigint> {
+    const poseidon = await getPoseidon();
+    return poseidon.F.toObject(poseidon(elements));
+}
+
+/**
+ * SHA-256 of the UTF-8 string, reduced into the field — the same mapping as
+ * `PoseidonManager.stringToField`, so external nullifiers agree with the verifier.
+ */
+export async function stringToField(str: string): Promise<bigint> {
+    const digest = await globalThis.crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(str),
+    );
+    const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+    return BigInt('0x' + hex) % SNARK_SCALAR_FIELD;
+}
+
+/**
+ * Create a fresh identity from 248 bits of randomness per component,
+ * which always fits in the field without reduction.
+ */
+export function generateIdentity(): SerializedIdentity {
+    const random = () => {
+        const bytes = globalThis.crypto.getRandomValues(new Uint8Array(31));
+        return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('').padStart(64, '0');
+    };
+    return { secret: random(), nullifier: random() };
+}
+
+/**
+ * Parse and range-check both identity components.
+ */
+export function parseIdentity(identity: SerializedIdentity): { secret: bigint; nullifier: bigint } {
+    return {
+        secret: parseFieldHex(identity.secret, 'Identity secret'),
+        nullifier: parseFieldHex(identity.nullifier, 'Identity nullifier'),
+    };
+}
+
+/**
+ * The value an issuer registers in a credential set: Poseidon(secret, nullifier) as hex.
+ */
+export async function getCommitment(identity: SerializedIdentity): Promise<string> {
+    const { secret, nullifier } = parseIdentity(identity);
+    return toHex(await poseidonHash([secret, nullifier]));
+}
+
+/**
+ * Poseidon(nullifier, externalNullifier) as a decimal string.
+ */
+export async function getNullifierHash(
+    identity: SerializedIdentity,
+    externalNullifier: string,
+): Promise<string> {
+    const { nullifier } = parseIdentity(identity);
+    const scope = await stringToField(externalNullifier);
+    return (await poseidonHash([nullifier, scope])).toString();
+}
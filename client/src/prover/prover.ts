@@ -0,0 +1,216 @@
+/* ───────────────────────────────────────────────
+   Client-side prover — the identity never leaves the holder
+   Produces the SerializedProof accepted by POST /api/verify
+   ─────────────────────────────────────────────── */
+
+import { groth16 } from 'snarkjs';
+import {
+    getCommitment,
+    getNullifierHash,
+    parseIdentity,
+    stringToField,
+    type SerializedIdentity,
+} from './identity';
+
+export interface MerkleProof {
+    leaf: string;
+    leafIndex: number;
+    root: string;
+    siblings: { hash: string; position: 'left' | 'right' }[];
+    pathIndices: number[];
+}
+
+/** Absence of the commitment from the set's published revocation tree. */
+export interface NonMembershipProof {
+    root: string;
+    siblings: string[];
+    oldKey: string;
+    oldValue: string;
+    isOld0: boolean;
+}
+
+/** A circuit the server can verify for the set's tree depth. */
+export interface PathCircuit {
+    circuitId: string;
+    nullifier: boolean;
+    revocation: boolean;
+    /** Artifact paths relative to `circuitsBaseUrl`. */
+    wasm: string;
+    zkey: string;
+}
+
+export interface MerklePath {
+    treeDepth: number;
+    merkleProof: MerkleProof;
+    /** Present once the set has published revocations; selects a revocation circuit. */
+    nonRevocation?: NonMembershipProof;
+    circuits: PathCircuit[];
+}
+
+/** Wire format of a proof, identical to the server's `SerializedProof`. */
+export interface SerializedProof {
+    proof: string;
+    publicSignals: string[];
+    metadata: {
+        proofId: string;
+        credentialSetId: string;
+        merkleRoot: string;
+        timestamp: string;
+        expiresAt: string;
+        version: string;
+        circuitId: string;
+        externalNullifier?: string;
+        nullifierHash?: string;
+        revocationRoot?: string;
+    };
+}
+
+export interface ProverOptions {
+    /** Base URL of the API (default `/api`); use an absolute URL from Node. */
+    apiBaseUrl?: string;
+    /** Base URL the circuit artifacts are served from (default `/circuits`). */
+    circuitsBaseUrl?: string;
+    /** Sent as `X-API-Key` when the server requires one. */
+    apiKey?: string;
+    /** Lifetime written into the proof metadata (default 24h, as on the server). */
+    proofExpiryHours?: number;
+}
+
+export interface ProveRequest {
+    credentialSetId: string;
+    identity: SerializedIdentity;
+    /** Scope for a single-use proof; selects the nullifier circuit. */
+    externalNullifier?: string;
+}
+
+const CIRCUIT_VERSION = '1.0.0';
+
+/**
+ * Fetch the Merkle path for `commitment` in a credential set, along with the
+ * circuits that prove a tree of its depth.
+ * Only the commitment is sent; the server already knows it as a member.
+ */
+export async function fetchMerklePath(
+    credentialSetId: string,
+    commitment: string,
+    options: ProverOptions = {},
+): Promise<MerklePath> {
+    const base = options.apiBaseUrl ?? '/api';
+    const url =
+        `${base}/proof/credential-sets/${encodeURIComponent(credentialSetId)}/path` +
+        `?commitment=${commitment}`;
+    const res = await fetch(url, {
+        headers: options.apiKey ? { 'X-API-Key': options.apiKey } : undefined,
+    });
+    const json = await res.json();
+    if (!res.ok) {
+        throw new Error(json.error?.message || `Request failed (${res.status})`);
+    }
+    const { treeDepth, merkleProof, nonRevocation, circuits } = json.data;
+    return { treeDepth, merkleProof, nonRevocation, circuits } as MerklePath;
+}
+
+/**
+ * Generate a membership proof locally with `groth16.fullProve`.
+ * The circuit is the first one the server lists for the set's depth with the
+ * needed nullifier and revocation features; its WASM and proving key are
+ * fetched from `circuitsBaseUrl`.
+ */
+export async function proveMembership(
+    request: ProveRequest,
+    options: ProverOptions = {},
+): Promise<SerializedProof> {
+    const { credentialSetId, identity, externalNullifier } = request;
+    const { secret, nullifier } = parseIdentity(identity);
+
+    const commitment = await getCommitment(identity);
+    const { treeDepth, merkleProof, nonRevocation, circuits } = await fetchMerklePath(
+        credentialSetId,
+        commitment,
+        options,
+    );
+
+    if (merkleProof.leaf !== commitment) {
+        throw new Error('Merkle path does not belong to this identity');
+    }
+    if (merkleProof.siblings.length !== treeDepth) {
+        throw new Error(`Merkle proof depth must be ${treeDepth} to match the circuit`);
+    }
+
+    let scope: { externalNullifier: string; field: string; nullifierHash: string } | undefined;
+    if (externalNullifier !== undefined) {
+        scope = {
+            externalNullifier,
+            field: (await stringToField(externalNullifier)).toString(),
+            nullifierHash: await getNullifierHash(identity, externalNullifier),
+        };
+    }
+    const revocable = nonRevocation !== undefined;
+    const circuit = circuits.find(
+        (c) => c.nullifier === (scope !== undefined) && c.revocation === revocable,
+    );
+    if (!circuit) {
+        const kind = [scope && 'nullifier', revocable && 'revocation'].filter(Boolean).join(' ');
+        throw new Error(
+            `No ${kind ? `${kind} ` : ''}circuit available for tree depth ${treeDepth}`,
+        );
+    }
+    const field = (hex: string) => BigInt('0x' + hex).toString();
+    const circuitsBase = options.circuitsBaseUrl ?? '/circuits';
+
+    const input = {
+        identitySecret: secret.toString(),
+        identityNullifier: nullifier.toString(),
+        ...(scope && { externalNullifier: scope.field }),
+        pathElements: merkleProof.siblings.map((s) => field(s.hash)),
+        pathIndices: merkleProof.pathIndices,
+        ...(nonRevocation && {
+            revocationRoot: field(nonRevocation.root),
+            revocationSiblings: nonRevocation.siblings.map(field),
+            revocationOldKey: field(nonRevocation.oldKey),
+            revocationOldValue: field(nonRevocation.oldValue),
+            revocationIsOld0: nonRevocation.isOld0 ? '1' : '0',
+        }),
+    };
+
+    const { proof, publicSignals } = await groth16.fullProve(
+        input,
+        `${circuitsBase}/${circuit.wasm}`,
+        `${circuitsBase}/${circuit.zkey}`,
+    );
+
+    // Same check the server prover makes: never emit a proof the verifier
+    // would reject as relabeled
+    const expectedSignals = [field(merkleProof.root)];
+    if (scope) {
+        expectedSignals.push(scope.nullifierHash, scope.field);
+    }
+    if (nonRevocation) {
+        expectedSignals.push(field(nonRevocation.root));
+    }
+    if (expectedSignals.some((signal, i) => publicSignals[i] !== signal)) {
+        throw new Error('Public signals do not match the Merkle root');
+    }
+
+    const now = Date.now();
+    const expiryMs = (options.proofExpiryHours ?? 24) * 60 * 60 * 1000;
+
+    return {
+        proof: JSON.stringify(proof),
+        publicSignals,
+        metadata: {
+            proofId: globalThis.crypto.randomUUID(),
+            credentialSetId,
+            merkleRoot: merkleProof.root,
+            timestamp: new Date(now).toISOString(),
+            expiresAt: new Date(now + expiryMs).toISOString(),
+            version: CIRCUIT_VERSION,
+            circuitId: circuit.circuitId,
+            ...(scope && {
+                externalNullifier: scope.externalNullifier,
+                nullifierHash: scope.nullifierHash,
+            }),
+            ...(nonRevocation && { revocationRoot: nonRevocation.root }),
+        },
+    };
+}
@@ -0,0 +1,34 @@
+/**
+ * Type declarations for the ZK libraries used by the client-side prover
+ * (neither ships its own types).
+ */
+declare module 'circomlibjs' {
+    interface PoseidonField {
+        toObject(value: Uint8Array): bigint;
+    }
+
+    interface Poseidon {
+        (inputs: bigint[]): Uint8Array;
+        F: PoseidonField;
+    }
+
+    export function buildPoseidon(): Promise<Poseidon>;
+}
+
+declare module 'snarkjs' {
+    export interface Groth16Proof {
+        pi_a: string[];
+        pi_b: string[][];
+        pi_c: string[];
+        protocol: string;
+        curve: string;
+    }
+
+    export namespace groth16 {
+        function fullProve(
+            input: Record<string, unknown>,
+            wasmFile: string | Uint8Array,
+            zkeyFile: string | Uint8Array,
+        ): Promise<{ proof: Groth16Proof; publicSignals: string[] }>;
+    }
+}
@@ -6,13 +6,28 @@
 # Prerequisites:
 #   - circom (https://docs.circom.io/getting-started/installation/)
 #   - snarkjs (npm install -g snarkjs)
+#
+# Usage: ./scripts/setup-circuits.sh [circuit-name] [tree-depth]
+#   circuit-name defaults to "identity"; use "identity_nullifier" for the
+#   variant that outputs a scoped nullifier, "identity_revocation" for the
+#   variant that also proves the identity is not revoked,
+#   "identity_nullifier_revocation" for both, "identity_issuer" for the
+#   variant that checks the issuer's signature on the commitment, or
+#   "attribute_credential" for selective disclosure of credential attributes.
+#   tree-depth defaults to 20. Other depths are built as "<name>_d<depth>",
+#   the names used in circuits/manifest.json.
+#   Deeper trees need more constraints; raise PTAU_POWER (default 12) to fit.
+#   identity_revocation and identity_nullifier_revocation verify a 40-level
+#   sparse Merkle tree and need PTAU_POWER=16; attribute_credential and
+#   identity_issuer need PTAU_POWER=14.
 
 set -euo pipefail
 
-CIRCUIT_NAME="credential"
+BASE_NAME="${1:-identity}"
+TREE_DEPTH="${2:-20}"
+PTAU_POWER="${PTAU_POWER:-12}"
 BUILD_DIR="./circuits/build"
 SETUP_DIR="./circuits/setup/powers-of-tau"
-CIRCUIT_PATH="./circuits/${CIRCUIT_NAME}.circom"
 
 echo "=== ZK Credential Circuit Setup ==="
 
@@ -20,9 +35,26 @@ echo "=== ZK Credential Circuit Setup ==="
 mkdir -p "$BUILD_DIR"
 mkdir -p "$SETUP_DIR"
 
+if [ "$TREE_DEPTH" = "20" ]; then
+  CIRCUIT_NAME="$BASE_NAME"
+  CIRCUIT_PATH="./circuits/${CIRCUIT_NAME}.circom"
+else
+  # Same template, different main: rewrite the depth argument of the main component
+  CIRCUIT_NAME="${BASE_NAME}_d${TREE_DEPTH}"
+  CIRCUIT_PATH="${BUILD_DIR}/src/${CIRCUIT_NAME}.circom"
+  mkdir -p "${BUILD_DIR}/src"
+  sed "/^component main/s/(20\([,)]\)/(${TREE_DEPTH}\1/" "./circuits/${BASE_NAME}.circom" > "$CIRCUIT_PATH"
+fi
+
+# The manifest tells the server which circuit serves which tree depth
+if [ ! -f "${BUILD_DIR}/manifest.json" ]; then
+  cp ./circuits/manifest.json "${BUILD_DIR}/manifest.json"
+fi
+
 # Step 1: Compile the circuit
 echo "[1/7] Compiling circuit..."
 circom "$CIRCUIT_PATH" \
+  -l ./circuits \
   --r1cs \
   --wasm \
   --sym \
@@ -32,20 +64,20 @@ echo "  R1CS constraints: $(snarkjs r1cs info "${BUILD_DIR}/${CIRCUIT_NAME}.r1cs
 
 # Step 2: Powers of Tau ceremony (Phase 1)
 echo "[2/7] Starting Powers of Tau ceremony..."
-PTAU_FILE="${SETUP_DIR}/pot12_0000.ptau"
+PTAU_FILE="${SETUP_DIR}/pot${PTAU_POWER}_0000.ptau"
 if [ ! -f "$PTAU_FILE" ]; then
-  snarkjs powersoftau new bn128 12 "$PTAU_FILE" -v
+  snarkjs powersoftau new bn128 "$PTAU_POWER" "$PTAU_FILE" -v
 fi
 
 # Step 3: Contribute to ceremony
 echo "[3/7] Contributing to ceremony..."
-PTAU_CONTRIB="${SETUP_DIR}/pot12_0001.ptau"
+PTAU_CONTRIB="${SETUP_DIR}/pot${PTAU_POWER}_0001.ptau"
 snarkjs powersoftau contribute "$PTAU_FILE" "$PTAU_CONTRIB" \
   --name="First contribution" -v -e="random-entropy-$(date +%s)"
 
 # Step 4: Prepare Phase 2
 echo "[4/7] Preparing Phase 2..."
-PTAU_FINAL="${SETUP_DIR}/pot12_final.ptau"
+PTAU_FINAL="${SETUP_DIR}/pot${PTAU_POWER}_final.ptau"
 snarkjs powersoftau prepare phase2 "$PTAU_CONTRIB" "$PTAU_FINAL" -v
 
 # Step 5: Generate zkey (Phase 2)
@@ -61,7 +93,7 @@ snarkjs zkey contribute "$ZKEY_INIT" "$ZKEY_FINAL" \
 
 # Step 7: Export verification key
 echo "[7/7] Exporting verification key..."
-snarkjs zkey export verificationkey "$ZKEY_FINAL" "${BUILD_DIR}/verification_key.json"
+snarkjs zkey export verificationkey "$ZKEY_FINAL" "${BUILD_DIR}/${CIRCUIT_NAME}_verification_key.json"
 
 # Verify the setup
 echo ""
@@ -72,6 +104,6 @@ echo ""
 echo "=== Setup Complete ==="
 echo "  WASM:             ${BUILD_DIR}/${CIRCUIT_NAME}_js/${CIRCUIT_NAME}.wasm"
 echo "  Proving key:      ${ZKEY_FINAL}"
-echo "  Verification key: ${BUILD_DIR}/verification_key.json"
+echo "  Verification key: ${BUILD_DIR}/${CIRCUIT_NAME}_verification_key.json"
 echo ""
 echo "IMPORTANT: For production, run a multi-party ceremony with 50+ participants."
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiKey, ApiKeyManager } from '../../core/auth/ApiKeyManager';
+import { ErrorCode, NotFoundError } from '../../utils/errors';
+import { ApiKeyResponse, CreateApiKeyRequest } from '../../types/api.types';
+
+/**
+ * Controller for API key administration.
+ */
+export class AdminController {
+    private readonly apiKeys: ApiKeyManager;
+
+    constructor(apiKeys: ApiKeyManager) {
+        this.apiKeys = apiKeys;
+    }
+
+    /**
+     * POST /api/admin/keys
+     * Mint an API key. The key is in the response only; it cannot be
+     * retrieved later.
+     */
+    public createKey(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { name, roles, credentialSetIds, tenant } = req.body as CreateApiKeyRequest;
+            const { key, apiKey } = this.apiKeys.mint(
+                { name, roles, credentialSetIds, tenant },
+                actorOf(req),
+            );
+
+            res.status(201).json({
+                success: true,
+                data: { ...toApiKeyResponse(apiKey), key },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/admin/keys
+     * List minted keys that have not been revoked, without their secrets.
+     */
+    public getKeys(_req: Request, res: Response): void {
+        res.status(200).json({
+            success: true,
+            data: this.apiKeys.getKeys().map(toApiKeyResponse),
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * DELETE /api/admin/keys/:id
+     * Revoke a key; requests presenting it fail from then on.
+     */
+    public revokeKey(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const keyId = req.params.id;
+            if (!this.apiKeys.revoke(keyId, actorOf(req))) {
+                throw new NotFoundError(ErrorCode.API_KEY_NOT_FOUND, `API key not found: ${keyId}`);
+            }
+
+            res.status(200).json({
+                success: true,
+                data: { id: keyId, message: 'API key revoked' },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+// Key changes are attributed to the key that made them
+function actorOf(req: Request): string {
+    return req.principal?.keyId ?? req.ip ?? 'unknown';
+}
+
+function toApiKeyResponse(apiKey: ApiKey): ApiKeyResponse {
+    return {
+        id: apiKey.id,
+        name: apiKey.name,
+        roles: apiKey.roles,
+        credentialSetIds: apiKey.credentialSetIds,
+        tenant: apiKey.tenant,
+        createdAt: apiKey.createdAt.toISOString(),
+    };
+}
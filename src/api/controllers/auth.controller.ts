@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import { JwtManager } from '../../core/auth/JwtManager';
+import { AuthenticationError } from '../../utils/errors';
+import { CreateTokenRequest, TokenResponse } from '../../types/api.types';
+
+/**
+ * Controller for access tokens.
+ */
+export class AuthController {
+    private readonly tokens: JwtManager;
+
+    constructor(tokens: JwtManager) {
+        this.tokens = tokens;
+    }
+
+    /**
+     * POST /api/auth/token
+     * Issue an access token to the API key the request presents, for use as
+     * `Authorization: Bearer <token>` until it expires.
+     */
+    public createToken(req: Request, res: Response, next: NextFunction): void {
+        try {
+            if (!req.principal) {
+                throw new AuthenticationError('Missing API key');
+            }
+
+            const { roles } = req.body as CreateTokenRequest;
+            const { token, claims } = this.tokens.issue(req.principal, roles);
+
+            const data: TokenResponse = {
+                token,
+                tokenType: 'Bearer',
+                expiresAt: new Date(claims.exp * 1000).toISOString(),
+                roles: claims.roles,
+            };
+
+            res.status(201).json({
+                success: true,
+                data,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { CircuitRegistry } from '../../core/prover/CircuitRegistry';
+import { renderSolidityVerifier } from '../../core/verifier/SolidityVerifier';
+import { ErrorCode, NotFoundError } from '../../utils/errors';
+
+/**
+ * Controller for registered circuit endpoints.
+ */
+export class CircuitController {
+    private readonly circuitRegistry: CircuitRegistry;
+
+    constructor(circuitRegistry: CircuitRegistry) {
+        this.circuitRegistry = circuitRegistry;
+    }
+
+    /**
+     * GET /api/circuits/:id/verifier.sol
+     * Solidity contract verifying the circuit's proofs on-chain, generated
+     * from its registered verification key.
+     */
+    public getSolidityVerifier(req: Request, res: Response, next: NextFunction): void {
+        const circuitId = req.params.id;
+        const circuit = this.circuitRegistry.get(circuitId);
+        if (!circuit) {
+            next(new NotFoundError(ErrorCode.CIRCUIT_NOT_FOUND, `Circuit not found: ${circuitId}`));
+            return;
+        }
+
+        circuit
+            .loadVerificationKey()
+            .then((vkey) => {
+                res.status(200)
+                    .attachment(`${circuitId}_verifier.sol`)
+                    .type('text/plain')
+                    .send(renderSolidityVerifier(vkey));
+            })
+            .catch(next);
+    }
+}
@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction } from 'express';
+import { constants } from 'fs';
+import { access, mkdir } from 'fs/promises';
+import { getHeapStatistics } from 'v8';
+import { CircuitRegistry } from '../../core/prover/CircuitRegistry';
+import { ZKProver } from '../../core/prover/ZKProver';
+import { ProverPool } from '../../core/prover/ProverPool';
+import { ZKVerifier } from '../../core/verifier/ZKVerifier';
+import { PoseidonManager } from '../../core/crypto/PoseidonManager';
+import { config, StorageBackend } from '../../config/environment';
+import {
+    CircuitHealth,
+    HealthCheck,
+    HealthResponse,
+    HealthStatus,
+    LivenessResponse,
+} from '../../types/api.types';
+
+const startTime = Date.now();
+
+const HEALTHY: HealthCheck = { status: 'healthy' };
+
+const SEVERITY: Record<HealthStatus, number> = { healthy: 0, degraded: 1, unhealthy: 2 };
+
+/**
+ * Healthy when every item is available, unhealthy when none is, and
+ * degraded in between.
+ */
+function coverage(available: number, total: number, message: string): HealthCheck {
+    if (available === total) {
+        return HEALTHY;
+    }
+    return { status: available === 0 ? 'unhealthy' : 'degraded', message };
+}
+
+function uptimeSeconds(): number {
+    return Math.floor((Date.now() - startTime) / 1000);
+}
+
+/**
+ * Controller for liveness and readiness endpoints.
+ */
+export class HealthController {
+    private readonly circuitRegistry: CircuitRegistry;
+    private readonly prover: ZKProver;
+    private readonly verifier: ZKVerifier;
+    private readonly proverPool: ProverPool;
+    private readonly storageBackend: StorageBackend;
+    private readonly dataDir: string;
+
+    constructor(
+        circuitRegistry: CircuitRegistry,
+        prover: ZKProver,
+        verifier: ZKVerifier,
+        proverPool: ProverPool,
+        storageBackend: StorageBackend = config.storageBackend,
+        dataDir: string = config.dataDir,
+    ) {
+        this.circuitRegistry = circuitRegistry;
+        this.prover = prover;
+        this.verifier = verifier;
+        this.proverPool = proverPool;
+        this.storageBackend = storageBackend;
+        this.dataDir = dataDir;
+    }
+
+    /**
+     * GET /api/health/live
+     * Whether the process is up and serving requests. Checks nothing else,
+     * so a missing circuit or key does not get the process restarted.
+     */
+    public getLiveness(_req: Request, res: Response): void {
+        const data: LivenessResponse = {
+            status: 'healthy',
+            uptime: uptimeSeconds(),
+            timestamp: new Date().toISOString(),
+        };
+        res.status(200).json({ success: true, data });
+    }
+
+    /**
+     * GET /api/health/ready
+     * Whether the server can generate and verify proofs, with the details
+     * of each check. Responds 503 when unhealthy.
+     */
+    public getReadiness(_req: Request, res: Response, next: NextFunction): void {
+        this.checkReadiness()
+            .then((data) => {
+                res.status(data.status === 'unhealthy' ? 503 : 200).json({
+                    success: data.status !== 'unhealthy',
+                    data,
+                });
+            })
+            .catch(next);
+    }
+
+    private async checkReadiness(): Promise<HealthResponse> {
+        const circuits = await this.getCircuitHealth();
+        const complete = circuits.filter((circuit) => circuit.missingFiles.length === 0);
+        const loaded = circuits.filter((circuit) => circuit.verificationKeyLoaded);
+        const memUsage = process.memoryUsage();
+        // heapTotal grows on demand and is often nearly full; the limit is what runs out
+        const heapLimit = getHeapStatistics().heap_size_limit;
+
+        const checks: HealthResponse['checks'] = {
+            circuits: {
+                ...coverage(
+                    complete.length,
+                    circuits.length,
+                    `${circuits.length - complete.length} of ${circuits.length} circuits ` +
+                        'are missing files',
+                ),
+                circuits,
+            },
+            prover: this.prover.isInitialized()
+                ? HEALTHY
+                : { status: 'unhealthy', message: 'Prover is not initialized' },
+            verifier: coverage(
+                loaded.length,
+                circuits.length,
+                `${circuits.length - loaded.length} of ${circuits.length} verification keys ` +
+                    'are not loaded',
+            ),
+            poseidon: PoseidonManager.isInitialized()
+                ? HEALTHY
+                : { status: 'unhealthy', message: 'Poseidon is not initialized' },
+            storage: await this.checkStorage(),
+            memory:
+                memUsage.heapUsed < heapLimit * 0.9
+                    ? HEALTHY
+                    : { status: 'degraded', message: 'Heap is over 90% of its limit' },
+            proverQueue: this.proverPool.hasCapacity()
+                ? HEALTHY
+                : { status: 'degraded', message: 'Prover queue is full' },
+        };
+
+        const status = Object.values(checks)
+            .map((check: HealthCheck) => check.status)
+            .reduce((worst, current) => (SEVERITY[current] > SEVERITY[worst] ? current : worst));
+
+        return {
+            status,
+            version: '1.0.0',
+            uptime: uptimeSeconds(),
+            timestamp: new Date().toISOString(),
+            checks,
+            memory: {
+                heapUsed: Math.round(memUsage.heapUsed / 1024 / 1024),
+                heapTotal: Math.round(memUsage.heapTotal / 1024 / 1024),
+                rss: Math.round(memUsage.rss / 1024 / 1024),
+            },
+            prover: this.proverPool.getStats(),
+        };
+    }
+
+    private async getCircuitHealth(): Promise<CircuitHealth[]> {
+        return Promise.all(
+            this.circuitRegistry.getAll().map(async (circuit) => ({
+                circuitId: circuit.getCircuitId(),
+                missingFiles: await circuit.getMissingFiles(),
+                verificationKeyLoaded: this.verifier.hasVerificationKey(circuit.getCircuitId()),
+            })),
+        );
+    }
+
+    /**
+     * The file backend appends to logs in the data directory, creating it
+     * on first write, so it must exist or be creatable and be writable.
+     */
+    private async checkStorage(): Promise<HealthCheck> {
+        if (this.storageBackend === 'memory') {
+            return HEALTHY;
+        }
+
+        try {
+            await mkdir(this.dataDir, { recursive: true });
+            await access(this.dataDir, constants.R_OK | constants.W_OK);
+            return HEALTHY;
+        } catch {
+            return { status: 'unhealthy', message: 'Data directory is not writable' };
+        }
+    }
+}
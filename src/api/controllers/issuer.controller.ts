@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { IssuerKeyManager } from '../../core/issuer/IssuerKeyManager';
+import { Logger } from '../../utils/logger';
+import { ErrorCode, NotFoundError } from '../../utils/errors';
+import { Issuer } from '../../types/issuer.types';
+import {
+    CreateIssuerRequest,
+    IssueCredentialRequest,
+    IssuerResponse,
+} from '../../types/api.types';
+
+/**
+ * Controller for issuer key management and credential issuance.
+ */
+export class IssuerController {
+    private readonly issuerKeyManager: IssuerKeyManager;
+    private readonly logger: Logger;
+
+    constructor(issuerKeyManager: IssuerKeyManager) {
+        this.logger = new Logger('IssuerController');
+        this.issuerKeyManager = issuerKeyManager;
+    }
+
+    /**
+     * POST /api/issuers
+     * Create an issuer with a new signing key. Verifiers accept its
+     * signatures once its public key is registered as trusted.
+     */
+    public createIssuer(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { name } = req.body as CreateIssuerRequest;
+            const issuer = this.issuerKeyManager.createIssuer(name, req.ip ?? 'unknown');
+
+            res.status(201).json({
+                success: true,
+                data: toIssuerResponse(issuer),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/issuers
+     * List issuers and their public keys.
+     */
+    public getAllIssuers(_req: Request, res: Response): void {
+        res.status(200).json({
+            success: true,
+            data: this.issuerKeyManager.getAllIssuers().map(toIssuerResponse),
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * GET /api/issuers/:id
+     */
+    public getIssuer(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const issuer = this.issuerKeyManager.getIssuer(req.params.id);
+            if (!issuer) {
+                throw new NotFoundError(
+                    ErrorCode.ISSUER_NOT_FOUND,
+                    `Issuer not found: ${req.params.id}`,
+                );
+            }
+
+            res.status(200).json({
+                success: true,
+                data: toIssuerResponse(issuer),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/issuers/:id/credentials
+     * Sign a holder's identity commitment as the issuer. The holder proves
+     * the signature with an issuer circuit without revealing it.
+     */
+    public issueCredential(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { commitment } = req.body as IssueCredentialRequest;
+            const issued = this.issuerKeyManager.issueCredential(req.params.id, commitment);
+
+            this.logger.info('Credential issued', {
+                issuerId: issued.issuerId,
+                commitment: issued.commitment.substring(0, 16) + '...',
+            });
+
+            res.status(201).json({
+                success: true,
+                data: issued,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
+
+function toIssuerResponse(issuer: Issuer): IssuerResponse {
+    return {
+        id: issuer.id,
+        name: issuer.name,
+        publicKey: issuer.publicKey,
+        createdAt: issuer.createdAt.toISOString(),
+    };
+}
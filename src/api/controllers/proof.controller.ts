@@ -2,77 +2,230 @@ import { Request, Response, NextFunction } from 'express';
 import { CredentialSetManager } from '../../core/merkle/CredentialSet';
 import { ZKProver } from '../../core/prover/ZKProver';
 import { Logger } from '../../utils/logger';
-import { CircuitManager } from '../../core/prover/CircuitManager';
-import { config } from '../../config/environment';
+import { CircuitRegistry, getCircuitFeatures } from '../../core/prover/CircuitRegistry';
+import { RevocationRegistry } from '../../core/merkle/RevocationRegistry';
+import { ProverPool } from '../../core/prover/ProverPool';
+import { toProofResponse } from '../../core/prover/ProofSerializer';
+import { ProofJobManager, serializeProofJob } from '../../core/prover/ProofJobManager';
+import { Identity } from '../../core/crypto/Identity';
+import { AttributeCredential } from '../../core/crypto/AttributeCredential';
+import { buildAttributeStatement } from '../../core/verifier/AttributeStatement';
+import { AttributeProofInput } from '../../core/prover/ZKProver';
+import { IssuerKeyManager } from '../../core/issuer/IssuerKeyManager';
+import { ProofValidator } from '../../core/verifier/ProofValidator';
+import { exportSolidityCalldata } from '../../core/verifier/SolidityVerifier';
+import { coversCredentialSet } from '../middleware/auth.middleware';
+import {
+    CredentialError,
+    ErrorCode,
+    NotFoundError,
+    ProofError,
+    ServiceUnavailableError,
+    ValidationError,
+} from '../../utils/errors';
+import { DEFAULT_TREE_DEPTH } from '../../core/merkle/MerkleTree';
+import {
+    AttributeCredentialInput,
+    AttributeSchema,
+    CredentialSet,
+} from '../../types/credential.types';
+import { ZKProof } from '../../types/proof.types';
+import { CircuitFeatures } from '../../types/circuit.types';
+import { IssuedCredential } from '../../types/issuer.types';
+import {
+    CreateCredentialSetRequest,
+    GenerateProofRequest,
+    SubmitProofJobRequest,
+    UpdateCredentialSetRequest,
+} from '../../types/api.types';
 
 /**
  * Controller for proof generation endpoints.
  */
 export class ProofController {
     private readonly prover: ZKProver;
+    private readonly circuitRegistry: CircuitRegistry;
     private readonly credentialSetManager: CredentialSetManager;
+    private readonly revocationRegistry: RevocationRegistry;
+    private readonly proofJobManager: ProofJobManager;
+    private readonly proverPool?: ProverPool;
+    private readonly issuerKeyManager?: IssuerKeyManager;
+    private readonly proofValidator: ProofValidator;
     private readonly logger: Logger;
 
-    constructor(credentialSetManager: CredentialSetManager) {
+    /**
+     * @param prover - Initialized by the server; until it is, proof
+     *   generation fails.
+     * @param proverPool - Worker threads the prover generates proofs on;
+     *   new proofs are refused while its queue is full.
+     * @param issuerKeyManager - Signs commitments for issuer-signed sets;
+     *   without one, such sets cannot be created.
+     */
+    constructor(
+        prover: ZKProver,
+        circuitRegistry: CircuitRegistry,
+        credentialSetManager: CredentialSetManager,
+        revocationRegistry: RevocationRegistry,
+        proofJobManager: ProofJobManager,
+        proverPool?: ProverPool,
+        issuerKeyManager?: IssuerKeyManager,
+    ) {
         this.logger = new Logger('ProofController');
-        const circuitManager = new CircuitManager(
-            config.circuitName,
-            config.circuitsPath,
-            this.logger,
-        );
-        this.prover = new ZKProver(circuitManager, this.logger);
+        this.circuitRegistry = circuitRegistry;
+        this.prover = prover;
         this.credentialSetManager = credentialSetManager;
+        this.revocationRegistry = revocationRegistry;
+        this.proofJobManager = proofJobManager;
+        this.proverPool = proverPool;
+        this.issuerKeyManager = issuerKeyManager;
+        this.proofValidator = new ProofValidator(this.logger);
     }
 
     /**
-     * Initialize the prover. Must be called before handling requests.
+     * POST /api/proof/generate
+     * Generate a ZK proof for a holder identity. Passing `externalNullifier`
+     * produces a single-use proof for that scope. In an attribute set, the
+     * holder's `attributes` are required and `disclose` and `predicates`
+     * choose what the proof reveals and proves about them.
      */
-    public async initialize(): Promise<void> {
+    public async generateProof(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            await this.prover.initialize();
-        } catch {
-            this.logger.warn('Prover initialization deferred — circuit files may not be available');
+            // Stop proving if the client goes away before the proof is ready
+            const abort = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    abort.abort();
+                }
+            });
+
+            const prove = this.prepareProof(req.body as GenerateProofRequest);
+            const zkProof = await prove(abort.signal);
+
+            // Sanitize response — remove sensitive data
+            const response = {
+                success: true,
+                data: toProofResponse(zkProof),
+                timestamp: new Date().toISOString(),
+            };
+
+            res.status(200).json(response);
+        } catch (error) {
+            next(error);
         }
     }
 
     /**
-     * POST /api/proof/generate
-     * Generate a ZK proof for a credential.
+     * POST /api/proof/jobs
+     * Start generating a proof in the background and return the job to poll.
+     * With `callbackUrl`, the finished job is also POSTed there.
      */
-    public async generateProof(req: Request, res: Response, next: NextFunction): Promise<void> {
+    public submitProofJob(req: Request, res: Response, next: NextFunction): void {
         try {
-            const { credentialSetId, credential } = req.body as {
-                credentialSetId: string;
-                credential: string;
-            };
+            const request = req.body as SubmitProofJobRequest;
 
-            // Generate Merkle proof
-            const merkleProof = this.credentialSetManager.generateProof(credentialSetId, credential);
+            // Fail now rather than accept a job the pool would reject
+            if (this.proverPool?.isClosed()) {
+                throw new ServiceUnavailableError(
+                    ErrorCode.PROVER_SHUTTING_DOWN,
+                    'Proof generation is shutting down',
+                );
+            }
+            if (this.proverPool && !this.proverPool.hasCapacity()) {
+                throw new ServiceUnavailableError(
+                    ErrorCode.PROVER_QUEUE_FULL,
+                    'Proof generation queue is full; retry later',
+                );
+            }
 
-            // Generate ZK proof
-            const zkProof = await this.prover.generateProof(credentialSetId, merkleProof, credential);
+            // Membership is checked before the job is accepted
+            const prove = this.prepareProof(request);
+            const job = this.proofJobManager.submit(
+                request.credentialSetId,
+                prove,
+                request.callbackUrl,
+            );
 
-            // Sanitize response — remove sensitive data
-            const response = {
+            res.status(202)
+                .location(`${req.baseUrl}/jobs/${job.id}`)
+                .json({
+                    success: true,
+                    data: serializeProofJob(job),
+                    timestamp: new Date().toISOString(),
+                });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/proof/jobs/:id
+     * Status of a proof job, with the proof once it has completed. Jobs of
+     * sets the caller's key does not cover are reported as not found.
+     */
+    public getProofJob(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const job = this.proofJobManager.get(req.params.id);
+            if (!job || !coversCredentialSet(req.principal, job.credentialSetId)) {
+                throw new NotFoundError(
+                    ErrorCode.PROOF_JOB_NOT_FOUND,
+                    `Proof job not found: ${req.params.id}`,
+                );
+            }
+
+            res.status(200).json({
+                success: true,
+                data: serializeProofJob(job),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/proof/:id/calldata
+     * Arguments and calldata for the `verifyProof` function of the proof
+     * circuit's Solidity verifier (GET /api/circuits/:id/verifier.sol).
+     * The proof is encoded as given; it is not verified here.
+     */
+    public async getSolidityCalldata(
+        req: Request,
+        res: Response,
+        next: NextFunction,
+    ): Promise<void> {
+        try {
+            const zkProof = this.proofValidator.validateAndDeserialize(req.body);
+            if (zkProof.metadata.proofId !== req.params.id) {
+                throw new ValidationError('metadata.proofId does not match the proof ID');
+            }
+
+            const circuit = this.circuitRegistry.get(zkProof.metadata.circuitId);
+            if (!circuit) {
+                throw new ProofError(
+                    ErrorCode.CIRCUIT_NOT_FOUND,
+                    `Unknown circuit: ${zkProof.metadata.circuitId}`,
+                );
+            }
+            if (zkProof.publicSignals.length !== circuit.getPublicSignalSchema().length) {
+                throw new ProofError(
+                    ErrorCode.INVALID_PROOF_STRUCTURE,
+                    'Public signal count does not match the circuit',
+                );
+            }
+
+            const circuitId = circuit.getCircuitId();
+            const calldata = await exportSolidityCalldata(zkProof);
+
+            res.status(200).json({
                 success: true,
                 data: {
                     proofId: zkProof.metadata.proofId,
-                    proof: zkProof.proof,
-                    publicSignals: zkProof.publicSignals,
-                    metadata: {
-                        credentialSetId: zkProof.metadata.credentialSetId,
-                        merkleRoot: zkProof.metadata.merkleRoot,
-                        expiresAt: zkProof.metadata.expiresAt.toISOString(),
-                        timestamp: zkProof.metadata.timestamp.toISOString(),
-                        version: zkProof.metadata.version,
-                        proofId: zkProof.metadata.proofId,
-                        circuitId: zkProof.metadata.circuitId,
-                    },
+                    circuitId,
+                    verifier: `/api/circuits/${encodeURIComponent(circuitId)}/verifier.sol`,
+                    ...calldata,
                 },
                 timestamp: new Date().toISOString(),
-            };
-
-            res.status(200).json(response);
+            });
         } catch (error) {
             next(error);
         }
@@ -80,7 +233,10 @@ export class ProofController {
 
     /**
      * POST /api/credential-sets
-     * Create a new credential set.
+     * Create a new credential set from identity commitments. With an
+     * `attributeSchema`, the set holds attribute credentials; `credentials`
+     * are issued into it by computing their leaves. With an `issuerId`, the
+     * issuer signs every member's commitment.
      */
     public async createCredentialSet(
         req: Request,
@@ -88,18 +244,55 @@ export class ProofController {
         next: NextFunction,
     ): Promise<void> {
         try {
-            const { name, credentials, description, type } = req.body as {
-                name: string;
-                credentials: string[];
-                description?: string;
-                type?: string;
-            };
+            const {
+                name,
+                commitments,
+                description,
+                type,
+                treeDepth,
+                attributeSchema,
+                credentials,
+                issuerId,
+            } = req.body as CreateCredentialSetRequest;
+
+            if (issuerId !== undefined) {
+                this.requireIssuer(issuerId);
+                if (attributeSchema !== undefined) {
+                    throw new ValidationError(
+                        'Issuer-signed sets cannot hold attribute credentials',
+                    );
+                }
+            }
+
+            // Only create sets that some registered circuit can prove
+            const depth = treeDepth ?? DEFAULT_TREE_DEPTH;
+            const supported = this.circuitRegistry
+                .getAll()
+                .filter((circuit) =>
+                    provesSetKind(getCircuitFeatures(circuit), { attributeSchema, issuerId }),
+                )
+                .map((circuit) => circuit.getDepth());
+            if (!supported.includes(depth)) {
+                throw new ValidationError(
+                    `treeDepth must be one of: ${Array.from(new Set(supported))
+                        .sort((a, b) => a - b)
+                        .join(', ')}`,
+                );
+            }
+
+            const leaves = [
+                ...(commitments ?? []),
+                ...this.issueCredentials(attributeSchema, credentials),
+            ];
 
             const credSet = this.credentialSetManager.createCredentialSet(
                 name,
-                credentials,
+                leaves,
                 description,
                 type as any,
+                depth,
+                attributeSchema,
+                issuerId,
             );
 
             res.status(201).json({
@@ -108,10 +301,13 @@ export class ProofController {
                     id: credSet.id,
                     name: credSet.name,
                     description: credSet.description,
-                    credentialCount: credSet.credentials.length,
+                    credentialCount: credSet.commitments.length,
+                    treeDepth: credSet.treeDepth,
                     merkleRoot: credSet.merkleRoot,
                     createdAt: credSet.createdAt.toISOString(),
                     version: credSet.version,
+                    attributeSchema: credSet.attributeSchema,
+                    issuerId: credSet.issuerId,
                 },
                 timestamp: new Date().toISOString(),
             });
@@ -120,19 +316,179 @@ export class ProofController {
         }
     }
 
+    /**
+     * PATCH /api/proof/credential-sets/:id
+     * Add and/or remove commitments, producing a new version of the set.
+     * Attribute sets also take `credentials` to issue.
+     */
+    public updateCredentialSet(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { add, remove, credentials } = req.body as UpdateCredentialSetRequest;
+
+            const issued = credentials
+                ? this.issueCredentials(this.requireSet(req.params.id).attributeSchema, credentials)
+                : [];
+            const credSet = this.credentialSetManager.updateCredentialSet(req.params.id, {
+                add: add || issued.length > 0 ? [...(add ?? []), ...issued] : undefined,
+                remove,
+            });
+            const previous = credSet.rootHistory[credSet.rootHistory.length - 1];
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    id: credSet.id,
+                    name: credSet.name,
+                    credentialCount: credSet.commitments.length,
+                    merkleRoot: credSet.merkleRoot,
+                    previousMerkleRoot: previous.merkleRoot,
+                    updatedAt: previous.supersededAt.toISOString(),
+                    version: credSet.version,
+                },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/proof/credential-sets/:id/path?commitment=
+     * Return the Merkle path for a member's commitment, so the holder can
+     * generate the proof locally without sending its identity. In an
+     * issuer-signed set, the issuer's signature on the commitment comes with it.
+     */
+    public getMerklePath(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const commitment = req.query.commitment as string;
+            const merkleProof = this.credentialSetManager.generateProof(req.params.id, commitment);
+            const credSet = this.credentialSetManager.getCredentialSet(req.params.id);
+            const nonRevocation = this.revocationRegistry.getNonMembershipProof(
+                req.params.id,
+                commitment,
+            );
+
+            const issuer = credSet?.issuerId
+                ? this.issueCredential(credSet.issuerId, commitment)
+                : undefined;
+
+            // Circuits the holder can prove this path with, in preference order
+            const circuits = this.circuitRegistry
+                .getAll()
+                .filter(
+                    (circuit) =>
+                        circuit.getDepth() === merkleProof.siblings.length &&
+                        provesSetKind(getCircuitFeatures(circuit), credSet ?? {}),
+                )
+                .map((circuit) => ({
+                    circuitId: circuit.getCircuitId(),
+                    ...getCircuitFeatures(circuit),
+                    wasm: circuit.getDefinition().wasm,
+                    zkey: circuit.getDefinition().zkey,
+                }));
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    credentialSetId: req.params.id,
+                    version: credSet?.version,
+                    treeDepth: merkleProof.siblings.length,
+                    attributeSchema: credSet?.attributeSchema,
+                    merkleProof,
+                    nonRevocation,
+                    issuer,
+                    circuits,
+                },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/proof/credential-sets/:id/revocations
+     * Stage member commitments for revocation. They take effect on publish.
+     */
+    public revokeCredentials(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { commitments } = req.body as { commitments: string[] };
+            const credSet = this.requireSet(req.params.id);
+            this.requireRevocationCircuits(credSet);
+
+            // Only members can be revoked; generic error as on set updates
+            const members = new Set(credSet.commitments.map((c) => c.toLowerCase()));
+            if (commitments.some((commitment) => !members.has(commitment.toLowerCase()))) {
+                throw new CredentialError(ErrorCode.CREDENTIAL_NOT_FOUND, 'Invalid credential');
+            }
+
+            this.revocationRegistry.revoke(credSet.id, commitments, req.ip ?? 'unknown');
+
+            res.status(200).json({
+                success: true,
+                data: this.serializeRevocationStatus(credSet.id),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/proof/credential-sets/:id/revocations/publish
+     * Publish the set's revocation root; from then on proofs must show
+     * non-membership in it.
+     */
+    public publishRevocations(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const credSet = this.requireSet(req.params.id);
+            this.requireRevocationCircuits(credSet);
+            this.revocationRegistry.publish(credSet.id, req.ip ?? 'unknown');
+
+            res.status(200).json({
+                success: true,
+                data: this.serializeRevocationStatus(credSet.id),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/proof/credential-sets/:id/revocations
+     * Revocation status of a set.
+     */
+    public getRevocationStatus(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const credSet = this.requireSet(req.params.id);
+
+            res.status(200).json({
+                success: true,
+                data: this.serializeRevocationStatus(credSet.id),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * GET /api/credential-sets
-     * List all credential sets.
+     * List all credential sets. Members are not included.
      */
     public getAllSets(_req: Request, res: Response): void {
         const sets = this.credentialSetManager.getAllSets().map((s) => ({
             id: s.id,
             name: s.name,
             description: s.description,
-            credentials: s.credentials,
-            credentialCount: s.credentials.length,
+            credentialCount: s.commitments.length,
+            treeDepth: s.treeDepth,
             merkleRoot: s.merkleRoot,
             createdAt: s.createdAt.toISOString(),
+            version: s.version,
+            attributeSchema: s.attributeSchema,
+            issuerId: s.issuerId,
         }));
 
         res.status(200).json({
@@ -141,4 +497,164 @@ export class ProofController {
             timestamp: new Date().toISOString(),
         });
     }
+
+    /**
+     * Check the holder's membership and return the function that proves it.
+     * Request errors are thrown here, before any proving work starts.
+     */
+    private prepareProof(
+        request: GenerateProofRequest,
+    ): (signal?: AbortSignal) => Promise<ZKProof> {
+        const { credentialSetId, identitySecret, identityNullifier, externalNullifier } = request;
+
+        const identity = Identity.fromJSON({
+            secret: identitySecret,
+            nullifier: identityNullifier,
+        });
+
+        // In an attribute set, the leaf also commits to the holder's attributes
+        const attributes = this.prepareAttributes(request);
+        const leaf = attributes
+            ? attributes.credential.getLeaf(identity.getCommitment())
+            : identity.getCommitment();
+
+        // Generate Merkle proof
+        const merkleProof = this.credentialSetManager.generateProof(credentialSetId, leaf);
+
+        // Once the set has published revocations, prove the identity is not revoked
+        const nonRevocation = this.revocationRegistry.getNonMembershipProof(credentialSetId, leaf);
+
+        // In an issuer-signed set, also prove the issuer's signature on the commitment
+        const { issuerId } = this.requireSet(credentialSetId);
+        const issued = issuerId
+            ? this.issueCredential(issuerId, identity.getCommitment())
+            : undefined;
+
+        // Generate ZK proof with the circuit for this set's tree depth
+        return (signal) =>
+            this.prover.generateProof(
+                credentialSetId,
+                merkleProof,
+                identity,
+                externalNullifier,
+                nonRevocation,
+                attributes,
+                issued,
+                signal,
+            );
+    }
+
+    /**
+     * The holder's attribute credential and the statement to prove about it,
+     * or undefined outside attribute sets.
+     */
+    private prepareAttributes(request: GenerateProofRequest): AttributeProofInput | undefined {
+        const { attributeSchema } = this.requireSet(request.credentialSetId);
+
+        if (!attributeSchema) {
+            if (request.attributes || request.disclose || request.predicates) {
+                throw new ValidationError('Credential set does not hold attribute credentials');
+            }
+            return undefined;
+        }
+
+        if (!request.attributes) {
+            throw new ValidationError('attributes are required for attribute credential sets');
+        }
+
+        const credential = new AttributeCredential(attributeSchema, request.attributes);
+        return {
+            credential,
+            statement: buildAttributeStatement(credential, request.disclose, request.predicates),
+        };
+    }
+
+    /**
+     * Leaves for attribute credentials issued into a set with `attributeSchema`.
+     */
+    private issueCredentials(
+        attributeSchema: AttributeSchema | undefined,
+        credentials: readonly AttributeCredentialInput[] | undefined,
+    ): string[] {
+        if (!credentials) {
+            return [];
+        }
+        if (!attributeSchema) {
+            throw new ValidationError('credentials require an attributeSchema');
+        }
+
+        return credentials.map((input) =>
+            new AttributeCredential(attributeSchema, input.attributes).getLeaf(input.commitment),
+        );
+    }
+
+    private issueCredential(issuerId: string, commitment: string): IssuedCredential {
+        if (!this.issuerKeyManager) {
+            throw new NotFoundError(ErrorCode.ISSUER_NOT_FOUND, `Issuer not found: ${issuerId}`);
+        }
+        return this.issuerKeyManager.issueCredential(issuerId, commitment);
+    }
+
+    private requireIssuer(issuerId: string): void {
+        if (!this.issuerKeyManager?.getIssuer(issuerId)) {
+            throw new NotFoundError(ErrorCode.ISSUER_NOT_FOUND, `Issuer not found: ${issuerId}`);
+        }
+    }
+
+    private requireSet(setId: string): CredentialSet {
+        const credSet = this.credentialSetManager.getCredentialSet(setId);
+        if (!credSet) {
+            throw new CredentialError(
+                ErrorCode.CREDENTIAL_SET_NOT_FOUND,
+                `Credential set not found: ${setId}`,
+            );
+        }
+        return credSet;
+    }
+
+    /**
+     * Once a set publishes revocations, the verifier accepts only proofs of
+     * non-revocation, so every circuit proving the set needs a revocation
+     * variant; without one, the set's holders could no longer prove.
+     */
+    private requireRevocationCircuits(credSet: CredentialSet): void {
+        for (const circuit of this.circuitRegistry.getAll()) {
+            const features = getCircuitFeatures(circuit);
+            if (
+                circuit.getDepth() === credSet.treeDepth &&
+                !features.revocation &&
+                provesSetKind(features, credSet) &&
+                !this.circuitRegistry.has(credSet.treeDepth, { ...features, revocation: true })
+            ) {
+                throw new ValidationError(
+                    `Revocation unsupported: ${circuit.getCircuitId()} has no revocation variant`,
+                );
+            }
+        }
+    }
+
+    private serializeRevocationStatus(credentialSetId: string): Record<string, unknown> {
+        const status = this.revocationRegistry.getStatus(credentialSetId);
+        return {
+            credentialSetId: status.credentialSetId,
+            revocationRoot: status.revocationRoot,
+            publishedAt: status.publishedAt?.toISOString(),
+            revokedCount: status.revokedCount,
+            pendingCount: status.pendingCount,
+        };
+    }
+}
+
+/**
+ * Whether a circuit with `features` proves membership in a set of this kind:
+ * attribute circuits for attribute sets, issuer circuits for issuer-signed sets.
+ */
+function provesSetKind(
+    features: CircuitFeatures,
+    set: Pick<CredentialSet, 'attributeSchema' | 'issuerId'>,
+): boolean {
+    return (
+        features.attributes === (set.attributeSchema !== undefined) &&
+        features.issuer === (set.issuerId !== undefined)
+    );
 }
@@ -1,10 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import { ZKVerifier } from '../../core/verifier/ZKVerifier';
-import { RootManager } from '../../core/verifier/RootManager';
+import { RootManager, TrustedRoot } from '../../core/verifier/RootManager';
+import { IssuerRegistry } from '../../core/verifier/IssuerRegistry';
 import { ProofValidator } from '../../core/verifier/ProofValidator';
-import { CircuitManager } from '../../core/prover/CircuitManager';
+import { CredentialSetManager } from '../../core/merkle/CredentialSet';
 import { Logger } from '../../utils/logger';
-import { config } from '../../config/environment';
+import { CredentialError, ErrorCode, NotFoundError, ProofError } from '../../utils/errors';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { securityConfig } from '../../config/security.config';
+import {
+    AddTrustedIssuerRequest,
+    AddTrustedRootRequest,
+    BatchVerificationItem,
+    BatchVerifyRequest,
+    TrustedRootResponse,
+    UpdateTrustedRootRequest,
+    VerifyProofRequest,
+} from '../../types/api.types';
+import { VerificationOptions, ZKProof } from '../../types/proof.types';
 
 /**
  * Controller for proof verification endpoints.
@@ -13,34 +26,36 @@ export class VerifyController {
     private readonly verifier: ZKVerifier;
     private readonly proofValidator: ProofValidator;
     private readonly rootManager: RootManager;
+    private readonly issuerRegistry?: IssuerRegistry;
+    private readonly credentialSetManager?: CredentialSetManager;
     private readonly logger: Logger;
 
-    constructor(rootManager: RootManager) {
+    /**
+     * @param verifier - Initialized by the server; until it is, every proof
+     *   is rejected.
+     * @param credentialSetManager - Sets served by the prover in this process;
+     *   when given, registered roots must be roots of one of them.
+     */
+    constructor(
+        verifier: ZKVerifier,
+        rootManager: RootManager,
+        issuerRegistry?: IssuerRegistry,
+        credentialSetManager?: CredentialSetManager,
+    ) {
         this.logger = new Logger('VerifyController');
-        const circuitManager = new CircuitManager(
-            config.circuitName,
-            config.circuitsPath,
-            this.logger,
-        );
         this.rootManager = rootManager;
-        this.verifier = new ZKVerifier(circuitManager, rootManager, this.logger);
+        this.issuerRegistry = issuerRegistry;
+        this.credentialSetManager = credentialSetManager;
+        this.verifier = verifier;
         this.proofValidator = new ProofValidator(this.logger);
     }
 
-    /**
-     * Initialize the verifier.
-     */
-    public async initialize(): Promise<void> {
-        try {
-            await this.verifier.initialize();
-        } catch {
-            this.logger.warn('Verifier initialization deferred — verification key may not be available');
-        }
-    }
-
     /**
      * POST /api/verify
-     * Verify a ZK proof.
+     * Verify a ZK proof. A top-level `externalNullifier` requires a
+     * single-use proof for that scope; `predicates` and `disclose` require
+     * an attribute proof establishing them; `issuerId` requires a proof
+     * signed by that trusted issuer.
      */
     public async verifyProof(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
@@ -65,8 +80,15 @@ export class VerifyController {
                 return;
             }
 
-            // Full verification
-            const result = await this.verifier.verifyProof(zkProof);
+            // Full verification; the circuit is selected by metadata.circuitId
+            const { externalNullifier, predicates, disclose, issuerId } =
+                req.body as VerifyProofRequest;
+            const result = await this.verifier.verifyProof(zkProof, {
+                externalNullifier,
+                predicates,
+                disclose,
+                issuerId,
+            });
 
             res.status(200).json({
                 success: true,
@@ -85,27 +107,71 @@ export class VerifyController {
     }
 
     /**
-     * POST /api/verify/roots
-     * Register a trusted root.
+     * POST /api/verify/batch
+     * Verify many proofs in one request. Each proof gets its own result;
+     * a malformed proof fails only its own item.
      */
-    public async addTrustedRoot(req: Request, res: Response, next: NextFunction): Promise<void> {
+    public async verifyBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const { credentialSetId, merkleRoot } = req.body as {
-                credentialSetId: string;
-                merkleRoot: string;
+            const { proofs, externalNullifier, predicates, disclose, issuerId } =
+                req.body as BatchVerifyRequest;
+            const options: VerificationOptions = {
+                externalNullifier,
+                predicates,
+                disclose,
+                issuerId,
             };
 
-            this.rootManager.addTrustedRoot({
+            const results = await mapWithConcurrency(
+                proofs as unknown[],
+                securityConfig.batchVerification.concurrency,
+                (proof, index) => this.verifyBatchItem(proof, index, options),
+            );
+
+            const valid = results.filter((result) => result.valid).length;
+            this.logger.info('Batch verified', { total: results.length, valid });
+
+            res.status(200).json({
+                success: true,
+                data: {
+                    results,
+                    summary: {
+                        total: results.length,
+                        valid,
+                        invalid: results.length - valid,
+                    },
+                },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/verify/roots
+     * Register a trusted root, optionally expiring and with metadata.
+     */
+    public addTrustedRoot(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { credentialSetId, merkleRoot, expiresAt, metadata } =
+                req.body as AddTrustedRootRequest;
+
+            this.checkRootOfKnownSet(credentialSetId, merkleRoot);
+
+            const root: TrustedRoot = {
                 credentialSetId,
                 merkleRoot,
                 addedAt: new Date(),
-            });
+                expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+                metadata,
+            };
+            this.rootManager.addTrustedRoot(root, req.ip ?? 'unknown');
 
             res.status(201).json({
                 success: true,
                 data: {
-                    credentialSetId,
-                    merkleRoot,
+                    ...this.toRootResponse(root),
                     message: 'Trusted root registered',
                 },
                 timestamp: new Date().toISOString(),
@@ -114,4 +180,278 @@ export class VerifyController {
             next(error);
         }
     }
+
+    /**
+     * GET /api/verify/roots
+     * List registered roots, including expired ones, optionally for one set.
+     */
+    public getTrustedRoots(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const credentialSetId =
+                typeof req.query.credentialSetId === 'string'
+                    ? req.query.credentialSetId
+                    : undefined;
+
+            res.status(200).json({
+                success: true,
+                data: this.rootManager
+                    .listTrustedRoots(credentialSetId)
+                    .map((root) => this.toRootResponse(root)),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/verify/roots/:credentialSetId/:merkleRoot
+     * Get a registered root.
+     */
+    public getTrustedRoot(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { credentialSetId, merkleRoot } = req.params;
+
+            res.status(200).json({
+                success: true,
+                data: this.toRootResponse(this.requireRoot(credentialSetId, merkleRoot)),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * PATCH /api/verify/roots/:credentialSetId/:merkleRoot
+     * Set a root's expiry, or remove it with `expiresAt: null`.
+     */
+    public updateTrustedRoot(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { credentialSetId, merkleRoot } = req.params;
+            const { expiresAt } = req.body as UpdateTrustedRootRequest;
+
+            this.requireRoot(credentialSetId, merkleRoot);
+            this.rootManager.updateRootExpiry(
+                credentialSetId,
+                merkleRoot,
+                expiresAt === null ? undefined : new Date(expiresAt),
+                req.ip ?? 'unknown',
+            );
+
+            res.status(200).json({
+                success: true,
+                data: this.toRootResponse(this.requireRoot(credentialSetId, merkleRoot)),
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * DELETE /api/verify/roots/:credentialSetId/:merkleRoot
+     * Stop trusting a root; proofs against it are rejected from then on.
+     */
+    public revokeTrustedRoot(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { credentialSetId, merkleRoot } = req.params;
+            const actor = req.ip ?? 'unknown';
+            if (!this.rootManager.revokeTrustedRoot(credentialSetId, merkleRoot, actor)) {
+                throw this.rootNotFound(credentialSetId, merkleRoot);
+            }
+
+            res.status(200).json({
+                success: true,
+                data: { credentialSetId, merkleRoot, message: 'Trusted root revoked' },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * POST /api/verify/issuers
+     * Trust an issuer's public key.
+     */
+    public addTrustedIssuer(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { issuerId, publicKey, expiresAt } = req.body as AddTrustedIssuerRequest;
+
+            this.requireIssuerRegistry().addTrustedIssuer(
+                {
+                    issuerId,
+                    publicKey,
+                    addedAt: new Date(),
+                    expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+                },
+                req.ip ?? 'unknown',
+            );
+
+            res.status(201).json({
+                success: true,
+                data: {
+                    issuerId,
+                    publicKey: { x: publicKey.x.toLowerCase(), y: publicKey.y.toLowerCase() },
+                    expiresAt,
+                    message: 'Trusted issuer registered',
+                },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * GET /api/verify/issuers
+     * List trusted issuers.
+     */
+    public getTrustedIssuers(_req: Request, res: Response, next: NextFunction): void {
+        try {
+            const issuers = this.requireIssuerRegistry()
+                .getTrustedIssuers()
+                .map((issuer) => ({
+                    issuerId: issuer.issuerId,
+                    publicKey: issuer.publicKey,
+                    addedAt: issuer.addedAt.toISOString(),
+                    expiresAt: issuer.expiresAt?.toISOString(),
+                }));
+
+            res.status(200).json({
+                success: true,
+                data: issuers,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * DELETE /api/verify/issuers/:issuerId
+     * Stop trusting an issuer; its proofs are rejected from then on.
+     */
+    public revokeTrustedIssuer(req: Request, res: Response, next: NextFunction): void {
+        try {
+            const { issuerId } = req.params;
+            if (!this.requireIssuerRegistry().revokeTrustedIssuer(issuerId, req.ip ?? 'unknown')) {
+                throw new NotFoundError(
+                    ErrorCode.ISSUER_NOT_FOUND,
+                    `Trusted issuer not found: ${issuerId}`,
+                );
+            }
+
+            res.status(200).json({
+                success: true,
+                data: { issuerId, message: 'Trusted issuer revoked' },
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * With the prover in this process, a root can only be registered for a
+     * set it serves, and must be the set's current or a previous root.
+     */
+    private checkRootOfKnownSet(credentialSetId: string, merkleRoot: string): void {
+        if (!this.credentialSetManager) {
+            return;
+        }
+
+        const credentialSet = this.credentialSetManager.getCredentialSet(credentialSetId);
+        if (!credentialSet) {
+            throw new CredentialError(
+                ErrorCode.CREDENTIAL_SET_NOT_FOUND,
+                `Credential set not found: ${credentialSetId}`,
+            );
+        }
+
+        const root = merkleRoot.toLowerCase();
+        const known =
+            credentialSet.merkleRoot === root ||
+            credentialSet.rootHistory.some((entry) => entry.merkleRoot === root);
+        if (!known) {
+            throw new CredentialError(
+                ErrorCode.ROOT_SET_MISMATCH,
+                'merkleRoot is not a root of the credential set',
+            );
+        }
+    }
+
+    private requireRoot(credentialSetId: string, merkleRoot: string): TrustedRoot {
+        const root = this.rootManager.getTrustedRoot(credentialSetId, merkleRoot);
+        if (!root) {
+            throw this.rootNotFound(credentialSetId, merkleRoot);
+        }
+        return root;
+    }
+
+    private rootNotFound(credentialSetId: string, merkleRoot: string): NotFoundError {
+        return new NotFoundError(
+            ErrorCode.ROOT_NOT_FOUND,
+            `Trusted root not found: ${credentialSetId}/${merkleRoot}`,
+        );
+    }
+
+    private toRootResponse(root: TrustedRoot): TrustedRootResponse {
+        return {
+            credentialSetId: root.credentialSetId,
+            merkleRoot: root.merkleRoot,
+            addedAt: root.addedAt.toISOString(),
+            expiresAt: root.expiresAt?.toISOString(),
+            expired: root.expiresAt !== undefined && root.expiresAt < new Date(),
+            metadata: root.metadata,
+        };
+    }
+
+    private requireIssuerRegistry(): IssuerRegistry {
+        if (!this.issuerRegistry) {
+            throw new NotFoundError(ErrorCode.NOT_FOUND, 'No issuer registry configured');
+        }
+        return this.issuerRegistry;
+    }
+
+    private async verifyBatchItem(
+        input: unknown,
+        index: number,
+        options: VerificationOptions,
+    ): Promise<BatchVerificationItem> {
+        const invalid = (errors: string[]): BatchVerificationItem => ({
+            index,
+            valid: false,
+            verifiedAt: new Date().toISOString(),
+            credentialSetId: 'unknown',
+            errors,
+        });
+
+        let zkProof: ZKProof;
+        try {
+            zkProof = this.proofValidator.validateAndDeserialize(input);
+        } catch (error) {
+            if (error instanceof ProofError) {
+                return invalid([error.message]);
+            }
+            throw error;
+        }
+
+        const preErrors = this.proofValidator.preValidate(zkProof);
+        if (preErrors.length > 0) {
+            return { ...invalid(preErrors), proofId: zkProof.metadata.proofId };
+        }
+
+        const result = await this.verifier.verifyProof(zkProof, options);
+        return {
+            index,
+            proofId: zkProof.metadata.proofId,
+            valid: result.valid,
+            verifiedAt: result.verifiedAt.toISOString(),
+            credentialSetId: result.credentialSetId,
+            errors: result.errors,
+            warnings: result.warnings,
+        };
+    }
 }
@@ -1,43 +1,142 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { config } from '../../config/environment';
-import { AuthenticationError } from '../../utils/errors';
+import { securityConfig } from '../../config/security.config';
+import { AuthenticationError, ForbiddenError } from '../../utils/errors';
+import { ApiKeyManager, ApiKeyPrincipal } from '../../core/auth/ApiKeyManager';
+import { JwtManager } from '../../core/auth/JwtManager';
+import { API_KEY_ROLES, ApiKeyRole } from '../../core/auth/ApiKeyStore';
+
+/** Acts for requests without a key in development when no key exists */
+const OPEN_ACCESS: ApiKeyPrincipal = { keyId: 'anonymous', roles: API_KEY_ROLES };
+
+/**
+ * The credential sets a request acts on, for keys limited to some sets:
+ * a set ID or a list of them, or `any` for routes whose data is not tied
+ * to a set the caller does not already hold.
+ */
+export type SetScope = ((req: Request) => unknown) | 'any';
 
 /**
- * API key authentication middleware.
- * Validates the X-API-Key header against the configured key.
- * Skipped in development mode if no API key is configured.
+ * Authentication middleware.
+ * Resolves the X-API-Key header, or else a `Bearer` access token in the
+ * Authorization header, to the principal the request acts as; an unknown
+ * or revoked key and an invalid or expired token are rejected. Requests
+ * without either continue unauthenticated and are rejected by
+ * {@link authorize} on protected routes, except in development and test
+ * while no key exists at all.
  */
-export function authMiddleware(req: Request, _res: Response, next: NextFunction): void {
-    // Skip auth in development/test if no key is configured
-    if ((config.nodeEnv === 'development' || config.nodeEnv === 'test') && !config.apiKey) {
+export function createAuthMiddleware(apiKeys: ApiKeyManager, tokens?: JwtManager): RequestHandler {
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        const apiKey = req.headers[securityConfig.apiKeyHeader];
+        const authorization = req.headers.authorization;
+
+        if (apiKey === undefined && authorization !== undefined) {
+            const [scheme, token] = authorization.split(' ');
+            if (scheme.toLowerCase() !== 'bearer' || !token || !tokens) {
+                next(new AuthenticationError('Unsupported authorization scheme'));
+                return;
+            }
+            try {
+                req.principal = tokens.verify(token);
+                next();
+            } catch (error) {
+                next(error);
+            }
+            return;
+        }
+
+        if (apiKey === undefined) {
+            const development = config.nodeEnv === 'development' || config.nodeEnv === 'test';
+            if (development && !apiKeys.hasKeys()) {
+                req.principal = OPEN_ACCESS;
+            }
+            next();
+            return;
+        }
+
+        const principal = typeof apiKey === 'string' ? apiKeys.authenticate(apiKey) : undefined;
+        if (!principal) {
+            next(new AuthenticationError('Invalid API key'));
+            return;
+        }
+
+        req.principal = principal;
         next();
-        return;
-    }
+    };
+}
 
-    const apiKey = req.headers['x-api-key'] as string | undefined;
+/**
+ * Require a principal holding one of `roles`. Keys limited to credential
+ * sets must also cover every set the request acts on; without a `scope`,
+ * the route is open to unlimited keys only.
+ */
+export function authorize(
+    roles: ApiKeyRole | readonly ApiKeyRole[],
+    scope?: SetScope,
+): RequestHandler {
+    const allowed: readonly ApiKeyRole[] = typeof roles === 'string' ? [roles] : roles;
 
-    if (!apiKey) {
-        next(new AuthenticationError('Missing API key'));
-        return;
-    }
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        const { principal } = req;
 
-    // Constant-time comparison to prevent timing attacks
-    if (!constantTimeCompare(apiKey, config.apiKey)) {
-        next(new AuthenticationError('Invalid API key'));
-        return;
-    }
+        if (!principal) {
+            next(new AuthenticationError('Missing API key'));
+            return;
+        }
 
-    next();
+        if (!principal.roles.some((role) => allowed.includes(role))) {
+            next(new ForbiddenError(`API key lacks the ${allowed.join(' or ')} role`));
+            return;
+        }
+
+        if (principal.credentialSetIds && scope !== 'any') {
+            const requested = scope ? scope(req) : undefined;
+            const setIds = Array.isArray(requested) ? (requested as unknown[]) : [requested];
+            const covered =
+                setIds.length > 0 && setIds.every((setId) => coversCredentialSet(principal, setId));
+            if (!covered) {
+                next(new ForbiddenError('API key is not valid for this credential set'));
+                return;
+            }
+        }
+
+        next();
+    };
 }
 
-function constantTimeCompare(a: string, b: string): boolean {
-    if (a.length !== b.length) {
-        return false;
+/**
+ * Whether `principal` may act on the credential set `setId`. For routes
+ * authorized with scope `any` whose set is only known once the resource
+ * is loaded.
+ */
+export function coversCredentialSet(
+    principal: ApiKeyPrincipal | undefined,
+    setId: unknown,
+): boolean {
+    const permitted = principal?.credentialSetIds;
+    if (!permitted) {
+        return principal !== undefined;
     }
+    return typeof setId === 'string' && permitted.includes(setId);
+}
 
-    let result = 0;
-    for (let i = 0; i < a.length; i++) {
-        result |= a.charCodeAt(i) ^ b.charCodeAt(i);
-    }
-    return result === 0;
+/** The set named by `credentialSetId` in the request body */
+export function credentialSetInBody(req: Request): unknown {
+    return (req.body as { credentialSetId?: unknown } | undefined)?.credentialSetId;
+}
+
+/** The set named by a route parameter */
+export function credentialSetInParam(name: string): (req: Request) => unknown {
+    return (req: Request) => req.params[name];
+}
+
+/** The set named by the `credentialSetId` query parameter */
+export function credentialSetInQuery(req: Request): unknown {
+    return req.query.credentialSetId;
+}
+
+/** The set of a serialized proof, from its `metadata` */
+export function credentialSetOfProof(proof: unknown): unknown {
+    return (proof as { metadata?: { credentialSetId?: unknown } } | undefined)?.metadata
+        ?.credentialSetId;
 }
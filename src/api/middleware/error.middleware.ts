@@ -1,14 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from '../../utils/errors';
 import { Logger } from '../../utils/logger';
+import { metrics } from '../../utils/metrics';
+import { getRequestContext } from '../../utils/requestContext';
 
 /**
  * Global error handling middleware.
  * Operational errors return appropriate HTTP status codes.
  * Programmer errors log the stack trace and return 500.
+ * Both carry the request ID, to match the response to its log lines.
  */
 export function errorHandler(logger: Logger) {
     return (err: Error, _req: Request, res: Response, _next: NextFunction): void => {
+        metrics.errors.inc({ code: err instanceof AppError ? err.code : 'INTERNAL_ERROR' });
+        const requestId = getRequestContext()?.requestId;
+
         if (err instanceof AppError) {
             // Operational error — expected, safe to expose
             logger.warn('Operational error', {
@@ -23,6 +29,7 @@ export function errorHandler(logger: Logger) {
                     code: err.code,
                     message: err.message,
                     details: err.details,
+                    requestId,
                 },
                 timestamp: new Date().toISOString(),
             });
@@ -40,6 +47,7 @@ export function errorHandler(logger: Logger) {
             error: {
                 code: 'INTERNAL_ERROR',
                 message: 'An internal server error occurred',
+                requestId,
             },
             timestamp: new Date().toISOString(),
         });
@@ -1,5 +1,17 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { RateLimitExceededEventHandler } from 'express-rate-limit';
 import { securityConfig } from '../../config/security.config';
+import { metrics } from '../../utils/metrics';
+
+/**
+ * Send the limiter's message, counting the rejection under `limiter`.
+ */
+function rejectAs(limiter: string): RateLimitExceededEventHandler {
+    return (_req, res, _next, options) => {
+        metrics.rateLimitRejections.inc({ limiter });
+        metrics.errors.inc({ code: 'RATE_LIMIT_EXCEEDED' });
+        res.status(options.statusCode).send(options.message);
+    };
+}
 
 /**
  * Global rate limiter.
@@ -16,6 +28,7 @@ export const globalRateLimiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    handler: rejectAs('global'),
 });
 
 /**
@@ -33,6 +46,7 @@ export const proofGenerationLimiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    handler: rejectAs('proof-generation'),
 });
 
 /**
@@ -50,4 +64,23 @@ export const verificationLimiter = rateLimit({
     },
     standardHeaders: true,
     legacyHeaders: false,
+    handler: rejectAs('verification'),
+});
+
+/**
+ * Rate limiter for batch verification; each request may carry many proofs.
+ */
+export const batchVerificationLimiter = rateLimit({
+    windowMs: securityConfig.rateLimiting.batchVerification.windowMs,
+    max: securityConfig.rateLimiting.batchVerification.max,
+    message: {
+        success: false,
+        error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: 'Batch verification rate limit exceeded. Try again later.',
+        },
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: rejectAs('batch-verification'),
 });
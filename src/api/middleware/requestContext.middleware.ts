@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { securityConfig } from '../../config/security.config';
+import { runWithRequestContext } from '../../utils/requestContext';
+
+/**
+ * Request tracking middleware.
+ * Keeps the caller's `X-Request-Id` when it is a plausible ID, so a request
+ * can be traced across services, and generates one otherwise. The ID is
+ * sent back as `X-Request-Id` and the rest of the request is handled in
+ * its context, so every log line written for it carries the ID.
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const incoming = req.headers[securityConfig.requestId.header];
+    const requestId =
+        typeof incoming === 'string' && securityConfig.requestId.pattern.test(incoming)
+            ? incoming
+            : uuidv4();
+
+    res.setHeader('X-Request-Id', requestId);
+    runWithRequestContext({ requestId }, next);
+}
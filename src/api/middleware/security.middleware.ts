@@ -1,14 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 
 /**
- * Security middleware that adds protective headers and request tracking.
+ * Security middleware that adds protective headers.
  */
 export function securityMiddleware(_req: Request, res: Response, next: NextFunction): void {
-    // Add unique request ID for tracing
-    const requestId = uuidv4();
-    res.setHeader('X-Request-Id', requestId);
-
     // Prevent caching of sensitive responses
     res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
     res.setHeader('Pragma', 'no-cache');
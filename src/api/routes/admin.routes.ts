@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { AdminController } from '../controllers/admin.controller';
+import { validationMiddleware } from '../middleware/validation.middleware';
+import { authorize } from '../middleware/auth.middleware';
+import { ApiKeyManager } from '../../core/auth/ApiKeyManager';
+import { API_KEY_ROLES } from '../../core/auth/ApiKeyStore';
+
+export function createAdminRoutes(apiKeys: ApiKeyManager): Router {
+    const router = Router();
+    const controller = new AdminController(apiKeys);
+
+    // POST /api/admin/keys — mint an API key
+    router.post(
+        '/keys',
+        authorize('key-admin'),
+        [
+            body('name').isString().isLength({ min: 1, max: 100 }).withMessage('name is required'),
+            body('roles')
+                .isArray({ min: 1, max: API_KEY_ROLES.length })
+                .withMessage('roles must be a non-empty array'),
+            body('roles.*')
+                .isIn([...API_KEY_ROLES])
+                .withMessage(`each role must be one of: ${API_KEY_ROLES.join(', ')}`),
+            body('credentialSetIds')
+                .optional()
+                .isArray({ min: 1, max: 100 })
+                .withMessage('credentialSetIds must be an array (1-100 items)'),
+            body('credentialSetIds.*')
+                .isUUID()
+                .withMessage('each credentialSetId must be a valid UUID'),
+            body('tenant')
+                .optional()
+                .isString()
+                .isLength({ min: 1, max: 100 })
+                .withMessage('tenant must be 1-100 characters'),
+            validationMiddleware,
+        ],
+        controller.createKey.bind(controller),
+    );
+
+    // GET /api/admin/keys — list API keys
+    router.get('/keys', authorize('key-admin'), controller.getKeys.bind(controller));
+
+    // DELETE /api/admin/keys/:id — revoke an API key
+    router.delete(
+        '/keys/:id',
+        authorize('key-admin'),
+        [param('id').isUUID().withMessage('id must be a valid UUID'), validationMiddleware],
+        controller.revokeKey.bind(controller),
+    );
+
+    return router;
+}
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { AuthController } from '../controllers/auth.controller';
+import { validationMiddleware } from '../middleware/validation.middleware';
+import { authorize } from '../middleware/auth.middleware';
+import { JwtManager } from '../../core/auth/JwtManager';
+import { API_KEY_ROLES } from '../../core/auth/ApiKeyStore';
+
+export function createAuthRoutes(tokens: JwtManager): Router {
+    const router = Router();
+    const controller = new AuthController(tokens);
+
+    // POST /api/auth/token — issue an access token for the presented API key
+    router.post(
+        '/token',
+        authorize(API_KEY_ROLES, 'any'),
+        [
+            body('roles')
+                .optional()
+                .isArray({ min: 1, max: API_KEY_ROLES.length })
+                .withMessage('roles must be a non-empty array'),
+            body('roles.*')
+                .isIn([...API_KEY_ROLES])
+                .withMessage(`each role must be one of: ${API_KEY_ROLES.join(', ')}`),
+            validationMiddleware,
+        ],
+        controller.createToken.bind(controller),
+    );
+
+    return router;
+}
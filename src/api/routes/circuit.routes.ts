@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { CircuitController } from '../controllers/circuit.controller';
+import { CircuitRegistry } from '../../core/prover/CircuitRegistry';
+
+export function createCircuitRoutes(circuitRegistry: CircuitRegistry): Router {
+    const router = Router();
+    const controller = new CircuitController(circuitRegistry);
+
+    // GET /api/circuits/:id/verifier.sol — Solidity verifier for the circuit
+    router.get('/:id/verifier.sol', controller.getSolidityVerifier.bind(controller));
+
+    return router;
+}
@@ -1,35 +1,27 @@
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
+import { HealthController } from '../controllers/health.controller';
+import { CircuitRegistry } from '../../core/prover/CircuitRegistry';
+import { ZKProver } from '../../core/prover/ZKProver';
+import { ProverPool } from '../../core/prover/ProverPool';
+import { ZKVerifier } from '../../core/verifier/ZKVerifier';
 
-const router = Router();
+export function createHealthRoutes(
+    circuitRegistry: CircuitRegistry,
+    prover: ZKProver,
+    verifier: ZKVerifier,
+    proverPool: ProverPool,
+): Router {
+    const router = Router();
+    const controller = new HealthController(circuitRegistry, prover, verifier, proverPool);
 
-const startTime = Date.now();
+    // GET /api/health/live — the process is up
+    router.get('/live', controller.getLiveness.bind(controller));
 
-/**
- * GET /api/health
- * Health check endpoint for monitoring.
- */
-router.get('/', (_req: Request, res: Response) => {
-    const uptime = Math.floor((Date.now() - startTime) / 1000);
-    const memUsage = process.memoryUsage();
+    // GET /api/health/ready — circuits, keys, Poseidon and storage are available
+    router.get('/ready', controller.getReadiness.bind(controller));
 
-    res.status(200).json({
-        success: true,
-        data: {
-            status: 'healthy',
-            version: '1.0.0',
-            uptime,
-            timestamp: new Date().toISOString(),
-            checks: {
-                memory: memUsage.heapUsed < memUsage.heapTotal * 0.9,
-                uptime: uptime > 0,
-            },
-            memory: {
-                heapUsed: Math.round(memUsage.heapUsed / 1024 / 1024),
-                heapTotal: Math.round(memUsage.heapTotal / 1024 / 1024),
-                rss: Math.round(memUsage.rss / 1024 / 1024),
-            },
-        },
-    });
-});
+    // GET /api/health — same as /ready, for existing monitors
+    router.get('/', controller.getReadiness.bind(controller));
 
-export const healthRoutes = router;
+    return router;
+}
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { IssuerController } from '../controllers/issuer.controller';
+import { validationMiddleware } from '../middleware/validation.middleware';
+import { authorize } from '../middleware/auth.middleware';
+import { IssuerKeyManager } from '../../core/issuer/IssuerKeyManager';
+
+export function createIssuerRoutes(issuerKeyManager: IssuerKeyManager): Router {
+    const router = Router();
+    const controller = new IssuerController(issuerKeyManager);
+
+    // POST /api/issuers — create an issuer signing key
+    router.post(
+        '/',
+        authorize('issuer'),
+        [
+            body('name').isString().isLength({ min: 1, max: 256 }).withMessage('name is required'),
+            validationMiddleware,
+        ],
+        controller.createIssuer.bind(controller),
+    );
+
+    // GET /api/issuers — list issuers
+    router.get('/', authorize('issuer'), controller.getAllIssuers.bind(controller));
+
+    // GET /api/issuers/:id — one issuer and its public key
+    router.get(
+        '/:id',
+        authorize('issuer'),
+        [param('id').isUUID().withMessage('id must be a valid UUID'), validationMiddleware],
+        controller.getIssuer.bind(controller),
+    );
+
+    // POST /api/issuers/:id/credentials — sign a holder's commitment
+    router.post(
+        '/:id/credentials',
+        authorize('issuer'),
+        [
+            param('id').isUUID().withMessage('id must be a valid UUID'),
+            body('commitment')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('commitment must be a 64-char hex string'),
+            validationMiddleware,
+        ],
+        controller.issueCredential.bind(controller),
+    );
+
+    return router;
+}
@@ -0,0 +1,18 @@
+import { Router, Request, Response } from 'express';
+import { metricsRegistry } from '../../utils/metrics';
+
+export function createMetricsRoutes(): Router {
+    const router = Router();
+
+    /**
+     * GET /api/metrics
+     * Metrics in the Prometheus text exposition format, for scraping.
+     */
+    router.get('/', (_req: Request, res: Response) => {
+        res.status(200)
+            .type('text/plain; version=0.0.4; charset=utf-8')
+            .send(metricsRegistry.render());
+    });
+
+    return router;
+}
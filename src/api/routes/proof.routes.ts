@@ -1,58 +1,319 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { ProofController } from '../controllers/proof.controller';
 import { validationMiddleware } from '../middleware/validation.middleware';
-import { authMiddleware } from '../middleware/auth.middleware';
+import {
+    authorize,
+    credentialSetInBody,
+    credentialSetInParam,
+    credentialSetOfProof,
+} from '../middleware/auth.middleware';
 import { proofGenerationLimiter } from '../middleware/rateLimit.middleware';
 import { CredentialSetManager } from '../../core/merkle/CredentialSet';
+import { CircuitRegistry } from '../../core/prover/CircuitRegistry';
+import { ZKProver } from '../../core/prover/ZKProver';
+import { RevocationRegistry } from '../../core/merkle/RevocationRegistry';
+import { ProverPool } from '../../core/prover/ProverPool';
+import { ProofJobManager } from '../../core/prover/ProofJobManager';
+import { IssuerKeyManager } from '../../core/issuer/IssuerKeyManager';
+import { isIP } from 'net';
+import { config } from '../../config/environment';
+import { isPublicAddress } from '../../utils/network';
+import { CREDENTIAL_CONSTRAINTS } from '../../types/credential.types';
+import { MAX_PREDICATE_SLOTS } from '../../core/verifier/AttributeStatement';
 
-export function createProofRoutes(credentialSetManager: CredentialSetManager): Router {
-    const router = Router();
-    const controller = new ProofController(credentialSetManager);
+const ATTRIBUTE_TYPES = ['integer', 'date', 'string'];
+const PREDICATE_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between'];
+
+// Attribute credential inputs of /generate and /jobs; values are checked against the set's schema
+const attributeProofValidators = [
+    body('attributes').optional().isObject().withMessage('attributes must be an object'),
+    body('disclose')
+        .optional()
+        .isArray({ max: CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES })
+        .withMessage('disclose must be an array of attribute names'),
+    body('disclose.*').isString().withMessage('disclose must list attribute names'),
+    body('predicates')
+        .optional()
+        .isArray({ max: MAX_PREDICATE_SLOTS })
+        .withMessage(`predicates must be an array (up to ${MAX_PREDICATE_SLOTS} items)`),
+    body('predicates.*.attribute').isString().withMessage('each predicate needs an attribute'),
+    body('predicates.*.op')
+        .isIn(PREDICATE_OPERATORS)
+        .withMessage(`predicate op must be one of: ${PREDICATE_OPERATORS.join(', ')}`),
+];
+
+// A credential set's attribute schema and the attribute credentials issued into it
+const attributeSchemaValidators = [
+    body('attributeSchema')
+        .optional()
+        .isArray({ min: 1, max: CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES })
+        .withMessage(
+            `attributeSchema must be an array (1-${CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES} items)`,
+        ),
+    body('attributeSchema.*.name').isString().withMessage('each attribute needs a name'),
+    body('attributeSchema.*.type')
+        .isIn(ATTRIBUTE_TYPES)
+        .withMessage(`attribute type must be one of: ${ATTRIBUTE_TYPES.join(', ')}`),
+];
+
+const credentialValidators = [
+    body('credentials')
+        .optional()
+        .isArray({ min: 1, max: 1024 })
+        .withMessage('credentials must be an array (1-1024 items)'),
+    body('credentials.*.commitment')
+        .isString()
+        .matches(/^[a-f0-9]{64}$/i)
+        .withMessage('each credential commitment must be a 64-char hex string'),
+    body('credentials.*.attributes')
+        .isObject()
+        .withMessage('each credential needs an attributes object'),
+];
 
-    // Initialize prover in background
-    controller.initialize().catch(() => {
-        // Initialization deferred
-    });
+// Callbacks leave the server, so production only posts to HTTPS domain names
+const isProduction = config.nodeEnv === 'production';
+const callbackUrlOptions = {
+    protocols: isProduction ? ['https'] : ['http', 'https'],
+    require_protocol: true,
+    require_tld: isProduction,
+};
+
+/**
+ * Refuse callback hosts that are plainly internal. What a name resolves to
+ * is checked again when the callback is delivered.
+ */
+function isAllowedCallbackHost(url: string): boolean {
+    const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    if (config.webhookAllowPrivateNetworks) {
+        return !isProduction || isIP(host) === 0;
+    }
+    if (isIP(host) !== 0) {
+        return !isProduction && isPublicAddress(host);
+    }
+    return host !== 'localhost' && !host.endsWith('.localhost');
+}
+
+export function createProofRoutes(
+    prover: ZKProver,
+    circuitRegistry: CircuitRegistry,
+    credentialSetManager: CredentialSetManager,
+    revocationRegistry: RevocationRegistry,
+    proofJobManager: ProofJobManager,
+    proverPool?: ProverPool,
+    issuerKeyManager?: IssuerKeyManager,
+): Router {
+    const router = Router();
+    const controller = new ProofController(
+        prover,
+        circuitRegistry,
+        credentialSetManager,
+        revocationRegistry,
+        proofJobManager,
+        proverPool,
+        issuerKeyManager,
+    );
 
     // POST /api/proof/generate — generate a ZK proof
     router.post(
         '/generate',
-        authMiddleware,
+        authorize('holder-prover', credentialSetInBody),
         proofGenerationLimiter,
         [
             body('credentialSetId').isUUID().withMessage('credentialSetId must be a valid UUID'),
-            body('credential')
+            body('identitySecret')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('identitySecret must be a 64-char hex string'),
+            body('identityNullifier')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('identityNullifier must be a 64-char hex string'),
+            body('externalNullifier')
+                .optional()
                 .isString()
                 .isLength({ min: 1, max: 256 })
-                .withMessage('credential must be a string (1-256 chars)'),
+                .withMessage('externalNullifier must be a string (1-256 chars)'),
+            ...attributeProofValidators,
             validationMiddleware,
         ],
         controller.generateProof.bind(controller),
     );
 
+    // POST /api/proof/jobs — generate a ZK proof in the background
+    router.post(
+        '/jobs',
+        authorize('holder-prover', credentialSetInBody),
+        proofGenerationLimiter,
+        [
+            body('credentialSetId').isUUID().withMessage('credentialSetId must be a valid UUID'),
+            body('identitySecret')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('identitySecret must be a 64-char hex string'),
+            body('identityNullifier')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('identityNullifier must be a 64-char hex string'),
+            body('externalNullifier')
+                .optional()
+                .isString()
+                .isLength({ min: 1, max: 256 })
+                .withMessage('externalNullifier must be a string (1-256 chars)'),
+            ...attributeProofValidators,
+            body('callbackUrl')
+                .optional()
+                .isString()
+                .isLength({ max: 2048 })
+                .isURL(callbackUrlOptions)
+                .custom(isAllowedCallbackHost)
+                .withMessage(
+                    `callbackUrl must be an ${isProduction ? 'https' : 'http(s)'} URL ` +
+                        'of a public host',
+                ),
+            validationMiddleware,
+        ],
+        controller.submitProofJob.bind(controller),
+    );
+
+    // GET /api/proof/jobs/:id — proof job status and result
+    // The job's set is only known once it is loaded; the controller checks it
+    router.get(
+        '/jobs/:id',
+        authorize('holder-prover', 'any'),
+        [param('id').isUUID().withMessage('id must be a valid UUID'), validationMiddleware],
+        controller.getProofJob.bind(controller),
+    );
+
+    // POST /api/proof/:id/calldata — calldata for the circuit's Solidity verifier
+    router.post(
+        '/:id/calldata',
+        authorize(['holder-prover', 'verifier'], (req) =>
+            credentialSetOfProof(req.body),
+        ),
+        [param('id').isUUID().withMessage('id must be a valid UUID'), validationMiddleware],
+        controller.getSolidityCalldata.bind(controller),
+    );
+
     // POST /api/proof/credential-sets — create a credential set
     router.post(
         '/credential-sets',
-        authMiddleware,
+        authorize('issuer'),
         [
             body('name').isString().isLength({ min: 1, max: 100 }).withMessage('name is required'),
-            body('credentials')
+            body('commitments')
+                .optional()
                 .isArray({ min: 1, max: 1024 })
-                .withMessage('credentials must be an array (1-1024 items)'),
-            body('credentials.*')
+                .withMessage('commitments must be an array (1-1024 items)'),
+            body('commitments.*')
                 .isString()
-                .isLength({ min: 1, max: 256 })
-                .withMessage('each credential must be a string'),
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('each commitment must be a 64-char hex string'),
             body('description').optional().isString(),
             body('type').optional().isString(),
+            body('treeDepth')
+                .optional()
+                .isInt({ min: 1, max: 32 })
+                .withMessage('treeDepth must be an integer (1-32)'),
+            ...attributeSchemaValidators,
+            ...credentialValidators,
+            body('issuerId').optional().isUUID().withMessage('issuerId must be a valid UUID'),
+            body()
+                .custom(
+                    (value: Record<string, unknown>) =>
+                        'commitments' in value || 'credentials' in value,
+                )
+                .withMessage('commitments or credentials is required'),
             validationMiddleware,
         ],
         controller.createCredentialSet.bind(controller),
     );
 
+    // PATCH /api/proof/credential-sets/:id — add/remove commitments, issue credentials
+    router.patch(
+        '/credential-sets/:id',
+        authorize('issuer', credentialSetInParam('id')),
+        [
+            param('id').isUUID().withMessage('id must be a valid UUID'),
+            body('add')
+                .optional()
+                .isArray({ min: 1, max: 1024 })
+                .withMessage('add must be an array (1-1024 items)'),
+            body('add.*')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('each commitment must be a 64-char hex string'),
+            body('remove')
+                .optional()
+                .isArray({ min: 1, max: 1024 })
+                .withMessage('remove must be an array (1-1024 items)'),
+            body('remove.*')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('each commitment must be a 64-char hex string'),
+            ...credentialValidators,
+            body()
+                .custom(
+                    (value: Record<string, unknown>) =>
+                        'add' in value || 'remove' in value || 'credentials' in value,
+                )
+                .withMessage('add, remove or credentials is required'),
+            validationMiddleware,
+        ],
+        controller.updateCredentialSet.bind(controller),
+    );
+
     // GET /api/proof/credential-sets — list credential sets
-    router.get('/credential-sets', authMiddleware, controller.getAllSets.bind(controller));
+    router.get('/credential-sets', authorize('issuer'), controller.getAllSets.bind(controller));
+
+    // GET /api/proof/credential-sets/:id/path — Merkle path for client-side proving
+    router.get(
+        '/credential-sets/:id/path',
+        authorize('holder-prover', credentialSetInParam('id')),
+        [
+            param('id').isUUID().withMessage('id must be a valid UUID'),
+            query('commitment')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('commitment must be a 64-char hex string'),
+            validationMiddleware,
+        ],
+        controller.getMerklePath.bind(controller),
+    );
+
+    // POST /api/proof/credential-sets/:id/revocations — stage revocations
+    router.post(
+        '/credential-sets/:id/revocations',
+        authorize('issuer', credentialSetInParam('id')),
+        [
+            param('id').isUUID().withMessage('id must be a valid UUID'),
+            body('commitments')
+                .isArray({ min: 1, max: 1024 })
+                .withMessage('commitments must be an array (1-1024 items)'),
+            body('commitments.*')
+                .isString()
+                .matches(/^[a-f0-9]{64}$/i)
+                .withMessage('each commitment must be a 64-char hex string'),
+            validationMiddleware,
+        ],
+        controller.revokeCredentials.bind(controller),
+    );
+
+    // POST /api/proof/credential-sets/:id/revocations/publish — publish the revocation root
+    router.post(
+        '/credential-sets/:id/revocations/publish',
+        authorize('issuer', credentialSetInParam('id')),
+        [param('id').isUUID().withMessage('id must be a valid UUID'), validationMiddleware],
+        controller.publishRevocations.bind(controller),
+    );
+
+    // GET /api/proof/credential-sets/:id/revocations — revocation status
+    router.get(
+        '/credential-sets/:id/revocations',
+        authorize(['issuer', 'verifier'], credentialSetInParam('id')),
+        [param('id').isUUID().withMessage('id must be a valid UUID'), validationMiddleware],
+        controller.getRevocationStatus.bind(controller),
+    );
 
     return router;
 }
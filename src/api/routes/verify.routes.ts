@@ -1,23 +1,80 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { VerifyController } from '../controllers/verify.controller';
 import { validationMiddleware } from '../middleware/validation.middleware';
-import { authMiddleware } from '../middleware/auth.middleware';
-import { verificationLimiter } from '../middleware/rateLimit.middleware';
+import {
+    authorize,
+    credentialSetInBody,
+    credentialSetInParam,
+    credentialSetInQuery,
+    credentialSetOfProof,
+} from '../middleware/auth.middleware';
+import {
+    batchVerificationLimiter,
+    verificationLimiter,
+} from '../middleware/rateLimit.middleware';
+import { securityConfig } from '../../config/security.config';
 import { RootManager } from '../../core/verifier/RootManager';
+import { ZKVerifier } from '../../core/verifier/ZKVerifier';
+import { IssuerRegistry } from '../../core/verifier/IssuerRegistry';
+import { CredentialSetManager } from '../../core/merkle/CredentialSet';
 
-export function createVerifyRoutes(rootManager: RootManager): Router {
-    const router = Router();
-    const controller = new VerifyController(rootManager);
+const PREDICATE_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between'];
+
+// What the caller requires of the proof's attributes; checked against its statement
+const attributeRequirementValidators = [
+    body('predicates')
+        .optional()
+        .isArray({ max: 16 })
+        .withMessage('predicates must be an array (up to 16 items)'),
+    body('predicates.*.attribute').isString().withMessage('each predicate needs an attribute'),
+    body('predicates.*.op')
+        .isIn(PREDICATE_OPERATORS)
+        .withMessage(`predicate op must be one of: ${PREDICATE_OPERATORS.join(', ')}`),
+    body('disclose')
+        .optional()
+        .isArray({ max: 16 })
+        .withMessage('disclose must be an array of attribute names'),
+    body('disclose.*').isString().withMessage('disclose must list attribute names'),
+];
+
+const issuerRequirementValidators = [
+    body('issuerId')
+        .optional()
+        .isString()
+        .isLength({ min: 1, max: 256 })
+        .withMessage('issuerId must be a string (1-256 chars)'),
+];
 
-    // Initialize verifier in background
-    controller.initialize().catch(() => {
-        // Initialization deferred
-    });
+const HEX_64 = /^[a-f0-9]{64}$/i;
+
+const rootParamValidators = [
+    param('credentialSetId').isUUID().withMessage('credentialSetId must be a valid UUID'),
+    param('merkleRoot')
+        .matches(HEX_64)
+        .withMessage('merkleRoot must be a 64-char hex string')
+        // Roots are stored in lowercase; echo them back as stored
+        .toLowerCase(),
+];
+
+export function createVerifyRoutes(
+    verifier: ZKVerifier,
+    rootManager: RootManager,
+    issuerRegistry?: IssuerRegistry,
+    credentialSetManager?: CredentialSetManager,
+): Router {
+    const router = Router();
+    const controller = new VerifyController(
+        verifier,
+        rootManager,
+        issuerRegistry,
+        credentialSetManager,
+    );
 
     // POST /api/verify — verify a ZK proof
     router.post(
         '/',
+        authorize('verifier', (req) => credentialSetOfProof(req.body)),
         verificationLimiter,
         [
             body('proof')
@@ -34,25 +91,165 @@ export function createVerifyRoutes(rootManager: RootManager): Router {
             body('metadata.expiresAt').isISO8601().withMessage('expiresAt must be ISO 8601'),
             body('metadata.version').isString().withMessage('version is required'),
             body('metadata.circuitId').isString().withMessage('circuitId is required'),
+            body('metadata.externalNullifier')
+                .optional()
+                .isString()
+                .withMessage('externalNullifier must be a string'),
+            body('metadata.nullifierHash')
+                .optional()
+                .isString()
+                .withMessage('nullifierHash must be a string'),
+            body('metadata.revocationRoot')
+                .optional()
+                .isString()
+                .withMessage('revocationRoot must be a string'),
+            body('metadata.attributes')
+                .optional()
+                .isObject()
+                .withMessage('attributes must be an object'),
+            body('metadata.issuerPublicKey')
+                .optional()
+                .isObject()
+                .withMessage('issuerPublicKey must be an object'),
+            body('externalNullifier')
+                .optional()
+                .isString()
+                .isLength({ min: 1, max: 256 })
+                .withMessage('externalNullifier must be a string (1-256 chars)'),
+            ...attributeRequirementValidators,
+            ...issuerRequirementValidators,
             validationMiddleware,
         ],
         controller.verifyProof.bind(controller),
     );
 
-    // POST /api/verify/roots — register a trusted root (admin)
+    // POST /api/verify/batch — verify many proofs; each is validated on its own
+    router.post(
+        '/batch',
+        authorize('verifier', (req) => {
+            const { proofs } = req.body as { proofs?: unknown };
+            return Array.isArray(proofs) ? proofs.map(credentialSetOfProof) : undefined;
+        }),
+        batchVerificationLimiter,
+        [
+            body('proofs')
+                .isArray({ min: 1, max: securityConfig.batchVerification.maxBatchSize })
+                .withMessage(
+                    'proofs must be an array of 1-' +
+                        `${securityConfig.batchVerification.maxBatchSize} proofs`,
+                ),
+            body('externalNullifier')
+                .optional()
+                .isString()
+                .isLength({ min: 1, max: 256 })
+                .withMessage('externalNullifier must be a string (1-256 chars)'),
+            ...attributeRequirementValidators,
+            ...issuerRequirementValidators,
+            validationMiddleware,
+        ],
+        controller.verifyBatch.bind(controller),
+    );
+
+    // POST /api/verify/roots — register a trusted root (root-admin)
     router.post(
         '/roots',
-        authMiddleware,
+        authorize('root-admin', credentialSetInBody),
         [
             body('credentialSetId').isUUID().withMessage('credentialSetId must be a valid UUID'),
             body('merkleRoot')
                 .isString()
                 .matches(/^[a-f0-9]{64}$/i)
-                .withMessage('merkleRoot must be a 64-char hex string'),
+                .withMessage('merkleRoot must be a 64-char hex string')
+                .toLowerCase(),
+            body('expiresAt')
+                .optional()
+                .isISO8601()
+                .isAfter()
+                .withMessage('expiresAt must be a future ISO 8601 date'),
+            body('metadata').optional().isObject().withMessage('metadata must be an object'),
             validationMiddleware,
         ],
         controller.addTrustedRoot.bind(controller),
     );
 
+    // GET /api/verify/roots — list registered roots (root-admin)
+    router.get(
+        '/roots',
+        authorize('root-admin', credentialSetInQuery),
+        [
+            query('credentialSetId')
+                .optional()
+                .isUUID()
+                .withMessage('credentialSetId must be a valid UUID'),
+            validationMiddleware,
+        ],
+        controller.getTrustedRoots.bind(controller),
+    );
+
+    // GET /api/verify/roots/:credentialSetId/:merkleRoot — get a registered root (root-admin)
+    router.get(
+        '/roots/:credentialSetId/:merkleRoot',
+        authorize('root-admin', credentialSetInParam('credentialSetId')),
+        [...rootParamValidators, validationMiddleware],
+        controller.getTrustedRoot.bind(controller),
+    );
+
+    // PATCH /api/verify/roots/:credentialSetId/:merkleRoot — change a root's expiry (root-admin)
+    router.patch(
+        '/roots/:credentialSetId/:merkleRoot',
+        authorize('root-admin', credentialSetInParam('credentialSetId')),
+        [
+            ...rootParamValidators,
+            body('expiresAt').exists().withMessage('expiresAt is required; null removes it'),
+            body('expiresAt')
+                .optional({ values: 'null' })
+                .isISO8601()
+                .withMessage('expiresAt must be an ISO 8601 date or null'),
+            validationMiddleware,
+        ],
+        controller.updateTrustedRoot.bind(controller),
+    );
+
+    // DELETE /api/verify/roots/:credentialSetId/:merkleRoot — revoke a trusted root (root-admin)
+    router.delete(
+        '/roots/:credentialSetId/:merkleRoot',
+        authorize('root-admin', credentialSetInParam('credentialSetId')),
+        [...rootParamValidators, validationMiddleware],
+        controller.revokeTrustedRoot.bind(controller),
+    );
+
+    // POST /api/verify/issuers — trust an issuer public key (root-admin)
+    router.post(
+        '/issuers',
+        authorize('root-admin'),
+        [
+            body('issuerId')
+                .isString()
+                .isLength({ min: 1, max: 256 })
+                .withMessage('issuerId must be a string (1-256 chars)'),
+            body('publicKey.x')
+                .isString()
+                .matches(HEX_64)
+                .withMessage('publicKey.x must be a 64-char hex string'),
+            body('publicKey.y')
+                .isString()
+                .matches(HEX_64)
+                .withMessage('publicKey.y must be a 64-char hex string'),
+            body('expiresAt').optional().isISO8601().withMessage('expiresAt must be ISO 8601'),
+            validationMiddleware,
+        ],
+        controller.addTrustedIssuer.bind(controller),
+    );
+
+    // GET /api/verify/issuers — list trusted issuers (root-admin)
+    router.get('/issuers', authorize('root-admin'), controller.getTrustedIssuers.bind(controller));
+
+    // DELETE /api/verify/issuers/:issuerId — stop trusting an issuer (root-admin)
+    router.delete(
+        '/issuers/:issuerId',
+        authorize('root-admin'),
+        controller.revokeTrustedIssuer.bind(controller),
+    );
+
     return router;
 }
@@ -6,12 +6,45 @@ import { securityConfig } from '../config/security.config';
 import { Logger } from '../utils/logger';
 import { createProofRoutes } from './routes/proof.routes';
 import { createVerifyRoutes } from './routes/verify.routes';
-import { healthRoutes } from './routes/health.routes';
+import { createHealthRoutes } from './routes/health.routes';
+import { createIssuerRoutes } from './routes/issuer.routes';
+import { createCircuitRoutes } from './routes/circuit.routes';
+import { createAdminRoutes } from './routes/admin.routes';
+import { createAuthRoutes } from './routes/auth.routes';
+import { createMetricsRoutes } from './routes/metrics.routes';
 import { errorHandler } from './middleware/error.middleware';
 import { securityMiddleware } from './middleware/security.middleware';
+import { requestContextMiddleware } from './middleware/requestContext.middleware';
+import { createAuthMiddleware } from './middleware/auth.middleware';
 import { globalRateLimiter } from './middleware/rateLimit.middleware';
 import { CredentialSetManager } from '../core/merkle/CredentialSet';
+import { createCredentialSetStore } from '../core/merkle/CredentialSetStore';
+import { RevocationRegistry } from '../core/merkle/RevocationRegistry';
+import { createRevocationStore } from '../core/merkle/RevocationStore';
 import { RootManager } from '../core/verifier/RootManager';
+import { createTrustedRootStore } from '../core/verifier/TrustedRootStore';
+import { createRootSource, RootSource } from '../core/verifier/RootSource';
+import { RootLifecyclePolicy } from '../core/verifier/RootLifecyclePolicy';
+import { EventBus } from '../core/events/EventBus';
+import { CredentialSetEvents } from '../types/credential.types';
+import { NullifierRegistry } from '../core/verifier/NullifierRegistry';
+import { createNullifierStore } from '../core/verifier/NullifierStore';
+import { CircuitRegistry } from '../core/prover/CircuitRegistry';
+import { ZKProver } from '../core/prover/ZKProver';
+import { ZKVerifier } from '../core/verifier/ZKVerifier';
+import { ProverPool } from '../core/prover/ProverPool';
+import { ProofJobManager } from '../core/prover/ProofJobManager';
+import { createProofJobStore } from '../core/prover/ProofJobStore';
+import { KeyManager } from '../core/crypto/KeyManager';
+import { IssuerKeyManager } from '../core/issuer/IssuerKeyManager';
+import { createIssuerStore } from '../core/issuer/IssuerStore';
+import { IssuerRegistry } from '../core/verifier/IssuerRegistry';
+import { createTrustedIssuerStore } from '../core/verifier/TrustedIssuerStore';
+import { ApiKeyManager } from '../core/auth/ApiKeyManager';
+import { createApiKeyStore } from '../core/auth/ApiKeyStore';
+import { JwtManager } from '../core/auth/JwtManager';
+import { metrics } from '../utils/metrics';
+import { getRequestContext } from '../utils/requestContext';
 
 /**
  * Production Express server with security hardening.
@@ -19,14 +52,109 @@ import { RootManager } from '../core/verifier/RootManager';
 export class Server {
     private readonly app: Express;
     private readonly logger: Logger;
+    private readonly credentialSetEvents: EventBus<CredentialSetEvents>;
     private readonly credentialSetManager: CredentialSetManager;
     private readonly rootManager: RootManager;
+    private readonly rootSource?: RootSource;
+    private readonly nullifierRegistry: NullifierRegistry;
+    private readonly revocationRegistry: RevocationRegistry;
+    private readonly circuitRegistry: CircuitRegistry;
+    private readonly proverPool: ProverPool;
+    private readonly prover: ZKProver;
+    private readonly verifier: ZKVerifier;
+    private readonly proofJobManager: ProofJobManager;
+    private readonly issuerKeyManager: IssuerKeyManager;
+    private readonly issuerRegistry: IssuerRegistry;
+    private readonly apiKeyManager: ApiKeyManager;
+    private readonly jwtManager: JwtManager;
 
     constructor(logger: Logger) {
         this.logger = logger;
         this.app = express();
-        this.credentialSetManager = new CredentialSetManager(logger);
-        this.rootManager = new RootManager(logger);
+        this.circuitRegistry = CircuitRegistry.load(logger);
+        this.proverPool = new ProverPool(
+            {
+                size: config.proverPoolSize,
+                queueSize: config.proverQueueSize,
+                timeoutMs: config.proverTimeoutMs,
+            },
+            logger,
+        );
+        this.proofJobManager = new ProofJobManager(
+            logger,
+            createProofJobStore(config.storageBackend, config.dataDir, logger),
+        );
+        this.credentialSetEvents = new EventBus<CredentialSetEvents>(logger);
+        this.credentialSetManager = new CredentialSetManager(
+            logger,
+            createCredentialSetStore(config.storageBackend, config.dataDir, logger),
+            this.credentialSetEvents,
+        );
+        this.rootSource = createRootSource(
+            config.rootSource,
+            {
+                rpcUrl: config.ethereumRpcUrl,
+                chainId: config.ethereumChainId,
+                registryAddress: config.rootRegistryAddress,
+                cacheTtlMs: config.rootSourceCacheTtlMs,
+                timeoutMs: config.rootSourceTimeoutMs,
+            },
+            logger,
+        );
+        this.rootManager = new RootManager(
+            logger,
+            createTrustedRootStore(config.storageBackend, config.dataDir, logger),
+            this.rootSource,
+        );
+        new RootLifecyclePolicy(this.rootManager, logger).subscribe(this.credentialSetEvents);
+        this.nullifierRegistry = new NullifierRegistry(
+            logger,
+            createNullifierStore(config.storageBackend, config.dataDir, logger),
+        );
+        this.revocationRegistry = new RevocationRegistry(
+            logger,
+            createRevocationStore(config.storageBackend, config.dataDir, logger),
+        );
+
+        const keyManager = new KeyManager(logger);
+        keyManager.initialize(config.masterKey || undefined);
+        this.issuerKeyManager = new IssuerKeyManager(
+            logger,
+            keyManager,
+            createIssuerStore(config.storageBackend, config.dataDir, logger),
+        );
+        this.issuerRegistry = new IssuerRegistry(
+            logger,
+            createTrustedIssuerStore(config.storageBackend, config.dataDir, logger),
+        );
+        this.apiKeyManager = new ApiKeyManager(
+            logger,
+            createApiKeyStore(config.storageBackend, config.dataDir, logger),
+            config.apiKey,
+        );
+        this.jwtManager = new JwtManager(this.apiKeyManager, logger);
+
+        this.prover = new ZKProver(this.circuitRegistry, logger, this.proverPool);
+        this.verifier = new ZKVerifier(
+            this.circuitRegistry,
+            this.rootManager,
+            logger,
+            this.nullifierRegistry,
+            this.revocationRegistry,
+            this.issuerRegistry,
+        );
+        // Initialized in the background; /api/health/ready reports what is missing
+        this.prover.initialize().catch(() => {
+            logger.warn('Prover initialization deferred — circuit files may not be available');
+        });
+        this.verifier.initialize().catch(() => {
+            logger.warn(
+                'Verifier initialization deferred — verification keys may not be available',
+            );
+        });
+
+        metrics.credentialSets.collectWith(() => this.credentialSetManager.getSetCount());
+        metrics.trustedRoots.collectWith(() => this.rootManager.getTotalRootCount());
 
         this.setupMiddleware();
         this.setupRoutes();
@@ -34,6 +162,9 @@ export class Server {
     }
 
     private setupMiddleware(): void {
+        // Request ID, first so that every later log line and error carries it
+        this.app.use(requestContextMiddleware);
+
         // Security headers via Helmet
         this.app.use(
             helmet({
@@ -64,7 +195,12 @@ export class Server {
         // Global rate limiting
         this.app.use('/api/', globalRateLimiter);
 
-        // Body parsing with size limits
+        // Body parsing with size limits. Batches are parsed first with their
+        // own limit; the global parser skips bodies that are already parsed.
+        this.app.use(
+            '/api/verify/batch',
+            express.json({ limit: securityConfig.batchVerification.jsonBodyLimit }),
+        );
         this.app.use(express.json({ limit: securityConfig.requestLimits.jsonBodyLimit }));
         this.app.use(
             express.urlencoded({
@@ -76,6 +212,9 @@ export class Server {
         // Custom security middleware
         this.app.use(securityMiddleware);
 
+        // API key or access token authentication; routes check roles and credential set scope
+        this.app.use('/api/', createAuthMiddleware(this.apiKeyManager, this.jwtManager));
+
         // Request logging
         this.app.use((req, _res, next) => {
             this.logger.http('Request', {
@@ -88,17 +227,49 @@ export class Server {
     }
 
     private setupRoutes(): void {
-        this.app.use('/api/health', healthRoutes);
-        this.app.use('/api/proof', createProofRoutes(this.credentialSetManager));
-        this.app.use('/api/verify', createVerifyRoutes(this.rootManager));
+        this.app.use(
+            '/api/health',
+            createHealthRoutes(this.circuitRegistry, this.prover, this.verifier, this.proverPool),
+        );
+        this.app.use('/api/metrics', createMetricsRoutes());
+        this.app.use(
+            '/api/proof',
+            createProofRoutes(
+                this.prover,
+                this.circuitRegistry,
+                this.credentialSetManager,
+                this.revocationRegistry,
+                this.proofJobManager,
+                this.proverPool,
+                this.issuerKeyManager,
+            ),
+        );
+        this.app.use(
+            '/api/verify',
+            createVerifyRoutes(
+                this.verifier,
+                this.rootManager,
+                this.issuerRegistry,
+                this.credentialSetManager,
+            ),
+        );
+        this.app.use('/api/issuers', createIssuerRoutes(this.issuerKeyManager));
+        this.app.use('/api/circuits', createCircuitRoutes(this.circuitRegistry));
+        this.app.use('/api/admin', createAdminRoutes(this.apiKeyManager));
+        this.app.use('/api/auth', createAuthRoutes(this.jwtManager));
+
+        // Circuit WASM and proving keys for client-side proving
+        this.app.use('/circuits', express.static(config.circuitsPath, { index: false }));
 
         // 404 handler
         this.app.use((_req, res) => {
+            metrics.errors.inc({ code: 'NOT_FOUND' });
             res.status(404).json({
                 success: false,
                 error: {
                     code: 'NOT_FOUND',
                     message: 'The requested resource does not exist',
+                    requestId: getRequestContext()?.requestId,
                 },
                 timestamp: new Date().toISOString(),
             });
@@ -118,10 +289,24 @@ export class Server {
         });
     }
 
+    /**
+     * Stop the prover workers, failing any proofs still in progress, close
+     * the root source, and wait for proof jobs to record the outcome.
+     */
+    public async stop(): Promise<void> {
+        await this.proverPool.close();
+        this.rootSource?.close();
+        await this.proofJobManager.idle();
+    }
+
     public getApp(): Express {
         return this.app;
     }
 
+    public getCredentialSetEvents(): EventBus<CredentialSetEvents> {
+        return this.credentialSetEvents;
+    }
+
     public getCredentialSetManager(): CredentialSetManager {
         return this.credentialSetManager;
     }
@@ -129,4 +314,48 @@ export class Server {
     public getRootManager(): RootManager {
         return this.rootManager;
     }
+
+    public getNullifierRegistry(): NullifierRegistry {
+        return this.nullifierRegistry;
+    }
+
+    public getRevocationRegistry(): RevocationRegistry {
+        return this.revocationRegistry;
+    }
+
+    public getCircuitRegistry(): CircuitRegistry {
+        return this.circuitRegistry;
+    }
+
+    public getProverPool(): ProverPool {
+        return this.proverPool;
+    }
+
+    public getProver(): ZKProver {
+        return this.prover;
+    }
+
+    public getVerifier(): ZKVerifier {
+        return this.verifier;
+    }
+
+    public getProofJobManager(): ProofJobManager {
+        return this.proofJobManager;
+    }
+
+    public getIssuerKeyManager(): IssuerKeyManager {
+        return this.issuerKeyManager;
+    }
+
+    public getApiKeyManager(): ApiKeyManager {
+        return this.apiKeyManager;
+    }
+
+    public getJwtManager(): JwtManager {
+        return this.jwtManager;
+    }
+
+    public getIssuerRegistry(): IssuerRegistry {
+        return this.issuerRegistry;
+    }
 }
@@ -0,0 +1,44 @@
+import { writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { Logger } from '../utils/logger';
+import { CircuitRegistry } from '../core/prover/CircuitRegistry';
+import { renderSolidityVerifier } from '../core/verifier/SolidityVerifier';
+
+/**
+ * Write the Solidity verifier of a registered circuit, generated from its
+ * verification key.
+ *
+ * Usage: npm run export:verifier -- <circuit-id> [output-file]
+ * The contract is written next to the verification key unless an output
+ * file is given.
+ */
+
+const logger = new Logger('ExportVerifier');
+
+async function main(): Promise<void> {
+    const [circuitId, output] = process.argv.slice(2);
+    const registry = CircuitRegistry.load(logger);
+
+    const circuit = circuitId ? registry.get(circuitId) : undefined;
+    if (!circuit) {
+        logger.error('Usage: npm run export:verifier -- <circuit-id> [output-file]', {
+            circuits: registry.getAll().map((registered) => registered.getCircuitId()),
+        });
+        process.exit(1);
+    }
+
+    const source = renderSolidityVerifier(await circuit.loadVerificationKey());
+    const path =
+        output ??
+        join(dirname(circuit.getVerificationKeyPath()), `${circuit.getCircuitId()}_verifier.sol`);
+    await writeFile(path, source);
+
+    logger.info('Solidity verifier written', { circuitId: circuit.getCircuitId(), path });
+}
+
+main().catch((error) => {
+    logger.error('Failed to export verifier', {
+        message: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+});
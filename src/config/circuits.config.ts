@@ -1,35 +1,96 @@
-import path from 'path';
 import { config } from './environment';
+import { PublicSignalSchema } from '../types/proof.types';
+import { CircuitDefinition, CircuitManifest } from '../types/circuit.types';
+import { DEFAULT_TREE_DEPTH } from '../core/merkle/MerkleTree';
+import { attributeSignalSchema } from '../core/verifier/AttributeStatement';
+
+const CIRCUIT_VERSION = '1.0.0';
+
+/**
+ * Public signal layout of each circuit, keyed by circuit name.
+ */
+const publicSignalSchemas: Readonly<Record<string, PublicSignalSchema>> = {
+    credential: [{ name: 'root', metadataField: 'merkleRoot', encoding: 'hex' }],
+    identity: [{ name: 'root', metadataField: 'merkleRoot', encoding: 'hex' }],
+    identity_nullifier: [
+        { name: 'root', metadataField: 'merkleRoot', encoding: 'hex' },
+        { name: 'nullifierHash', metadataField: 'nullifierHash', encoding: 'decimal' },
+        { name: 'externalNullifier', metadataField: 'externalNullifier', encoding: 'string' },
+    ],
+    identity_revocation: [
+        { name: 'root', metadataField: 'merkleRoot', encoding: 'hex' },
+        { name: 'revocationRoot', metadataField: 'revocationRoot', encoding: 'hex' },
+    ],
+    identity_nullifier_revocation: [
+        { name: 'root', metadataField: 'merkleRoot', encoding: 'hex' },
+        { name: 'nullifierHash', metadataField: 'nullifierHash', encoding: 'decimal' },
+        { name: 'externalNullifier', metadataField: 'externalNullifier', encoding: 'string' },
+        { name: 'revocationRoot', metadataField: 'revocationRoot', encoding: 'hex' },
+    ],
+    identity_issuer: [
+        { name: 'root', metadataField: 'merkleRoot', encoding: 'hex' },
+        { name: 'issuerAx', metadataField: 'issuerPublicKey', encoding: 'point', index: 0 },
+        { name: 'issuerAy', metadataField: 'issuerPublicKey', encoding: 'point', index: 1 },
+    ],
+    attribute_credential: attributeSignalSchema(),
+};
+
+/**
+ * Manifest entry for a circuit built by `scripts/setup-circuits.sh` under
+ * its conventional file names.
+ */
+function conventionalDefinition(circuitName: string, depth: number): CircuitDefinition {
+    const schema = publicSignalSchemas[circuitName];
+    if (!schema) {
+        throw new Error(`No public signal schema defined for circuit: ${circuitName}`);
+    }
+
+    return {
+        id: `${circuitName}-v${CIRCUIT_VERSION}`,
+        version: CIRCUIT_VERSION,
+        depth,
+        wasm: `${circuitName}_js/${circuitName}.wasm`,
+        zkey: `${circuitName}_final.zkey`,
+        vkey: `${circuitName}_verification_key.json`,
+        publicSignals: schema,
+    };
+}
 
 /**
  * Circuit-related configuration.
  */
 export const circuitsConfig = {
-    /** Name of the primary circuit */
-    circuitName: config.circuitName,
-
     /** Base path where compiled circuits live */
     basePath: config.circuitsPath,
 
-    /** Maximum Merkle tree depth supported by the circuit */
+    /** Circuit manifest; when absent, {@link getDefaultManifest} is used */
+    manifestPath: config.circuitManifestPath,
+
+    /** Maximum Merkle tree depth supported by any circuit */
     maxDepth: config.maxMerkleDepth,
 
-    /** Get full path to the circuit WASM file */
-    getWasmPath(): string {
-        return path.join(
-            this.basePath,
-            `${this.circuitName}_js`,
-            `${this.circuitName}.wasm`,
-        );
-    },
+    /** Default tree depth for new credential sets */
+    defaultDepth: DEFAULT_TREE_DEPTH,
 
-    /** Get full path to the circuit final zkey */
-    getZkeyPath(): string {
-        return path.join(this.basePath, `${this.circuitName}_final.zkey`);
+    /** The configured membership, nullifier, revocation, attribute and issuer circuits at the default depth */
+    getDefaultManifest(): CircuitManifest {
+        return {
+            circuits: [
+                conventionalDefinition(config.circuitName, DEFAULT_TREE_DEPTH),
+                conventionalDefinition(config.nullifierCircuitName, DEFAULT_TREE_DEPTH),
+                conventionalDefinition(config.revocationCircuitName, DEFAULT_TREE_DEPTH),
+                conventionalDefinition(config.nullifierRevocationCircuitName, DEFAULT_TREE_DEPTH),
+                conventionalDefinition(config.attributeCircuitName, DEFAULT_TREE_DEPTH),
+                conventionalDefinition(config.issuerCircuitName, DEFAULT_TREE_DEPTH),
+            ],
+        };
     },
 
-    /** Get full path to the verification key JSON */
-    getVerificationKeyPath(): string {
-        return path.join(this.basePath, 'verification_key.json');
+    /** Manifest entry for a named circuit with conventional file names */
+    getConventionalDefinition(
+        circuitName: string,
+        depth: number = DEFAULT_TREE_DEPTH,
+    ): CircuitDefinition {
+        return conventionalDefinition(circuitName, depth);
     },
 } as const;
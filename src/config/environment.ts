@@ -1,9 +1,32 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { cpus } from 'os';
 
 // Load .env file
 dotenv.config();
 
+/**
+ * Supported persistence backends for credential sets and trusted roots.
+ */
+export type StorageBackend = 'memory' | 'file';
+
+/**
+ * External registries consulted for published roots besides the local trust set.
+ */
+export type RootSourceKind = 'none' | 'ethereum';
+
+/**
+ * What the verifier does when the root source cannot be reached: reject
+ * every proof (`fail-closed`) or decide on the local trust set alone.
+ */
+export type RootSourceFailureMode = 'fail-closed' | 'fallback';
+
+/**
+ * Algorithms for signing access tokens: HMAC with `JWT_SECRET`, or RSA and
+ * Ed25519 with key files.
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'EdDSA';
+
 /**
  * Strongly-typed application configuration derived from environment variables.
  */
@@ -13,16 +36,46 @@ export interface AppConfig {
     readonly host: string;
     readonly apiKey: string;
     readonly jwtSecret: string;
+    readonly jwtAlgorithm: JwtAlgorithm;
+    readonly jwtPrivateKeyFile: string;
+    readonly jwtPublicKeyFile: string;
+    readonly jwtIssuer: string;
+    readonly jwtExpirySeconds: number;
+    readonly jwtClockSkewSeconds: number;
+    readonly masterKey: string;
     readonly corsOrigin: string;
     readonly rateLimitWindowMs: number;
     readonly rateLimitMaxRequests: number;
     readonly logLevel: string;
     readonly logFile: string;
     readonly circuitName: string;
+    readonly nullifierCircuitName: string;
+    readonly revocationCircuitName: string;
+    readonly nullifierRevocationCircuitName: string;
+    readonly attributeCircuitName: string;
+    readonly issuerCircuitName: string;
     readonly circuitsPath: string;
+    readonly circuitManifestPath: string;
     readonly proofExpiryHours: number;
+    readonly rootGracePeriodHours: number;
     readonly maxCredentialsPerSet: number;
     readonly maxMerkleDepth: number;
+    readonly storageBackend: StorageBackend;
+    readonly dataDir: string;
+    readonly proverPoolSize: number;
+    readonly proverQueueSize: number;
+    readonly proverTimeoutMs: number;
+    readonly webhookSecret: string;
+    readonly webhookTimeoutMs: number;
+    readonly webhookAllowPrivateNetworks: boolean;
+    readonly rootAutoTrust: boolean;
+    readonly rootSource: RootSourceKind;
+    readonly ethereumRpcUrl: string;
+    readonly ethereumChainId: number;
+    readonly rootRegistryAddress: string;
+    readonly rootSourceCacheTtlMs: number;
+    readonly rootSourceTimeoutMs: number;
+    readonly rootSourceFailureMode: RootSourceFailureMode;
 }
 
 function getEnv(key: string, defaultValue: string): string {
@@ -38,22 +91,64 @@ function getEnvInt(key: string, defaultValue: number): number {
     return isNaN(parsed) ? defaultValue : parsed;
 }
 
+const circuitsPath = getEnv(
+    'CIRCUITS_PATH',
+    path.join(process.cwd(), 'public/circuits/credential'),
+);
+
 export const config: AppConfig = {
     nodeEnv: getEnv('NODE_ENV', 'development'),
     port: getEnvInt('PORT', 3000),
     host: getEnv('HOST', 'localhost'),
     apiKey: getEnv('API_KEY', ''),
     jwtSecret: getEnv('JWT_SECRET', ''),
+    jwtAlgorithm: getEnv('JWT_ALGORITHM', 'HS256') as JwtAlgorithm,
+    jwtPrivateKeyFile: getEnv('JWT_PRIVATE_KEY_FILE', ''),
+    jwtPublicKeyFile: getEnv('JWT_PUBLIC_KEY_FILE', ''),
+    jwtIssuer: getEnv('JWT_ISSUER', 'anonymous-credentials'),
+    jwtExpirySeconds: getEnvInt('JWT_EXPIRY_SECONDS', 900),
+    jwtClockSkewSeconds: getEnvInt('JWT_CLOCK_SKEW_SECONDS', 30),
+    masterKey: getEnv('MASTER_KEY', ''),
     corsOrigin: getEnv('CORS_ORIGIN', 'http://localhost:3000'),
     rateLimitWindowMs: getEnvInt('RATE_LIMIT_WINDOW_MS', 900000),
     rateLimitMaxRequests: getEnvInt('RATE_LIMIT_MAX_REQUESTS', 100),
     logLevel: getEnv('LOG_LEVEL', 'info'),
     logFile: getEnv('LOG_FILE', ''),
-    circuitName: getEnv('CIRCUIT_NAME', 'credential'),
-    circuitsPath: getEnv('CIRCUITS_PATH', path.join(process.cwd(), 'public/circuits/credential')),
+    circuitName: getEnv('CIRCUIT_NAME', 'identity'),
+    nullifierCircuitName: getEnv('NULLIFIER_CIRCUIT_NAME', 'identity_nullifier'),
+    revocationCircuitName: getEnv('REVOCATION_CIRCUIT_NAME', 'identity_revocation'),
+    nullifierRevocationCircuitName: getEnv(
+        'NULLIFIER_REVOCATION_CIRCUIT_NAME',
+        'identity_nullifier_revocation',
+    ),
+    attributeCircuitName: getEnv('ATTRIBUTE_CIRCUIT_NAME', 'attribute_credential'),
+    issuerCircuitName: getEnv('ISSUER_CIRCUIT_NAME', 'identity_issuer'),
+    circuitsPath,
+    circuitManifestPath: getEnv('CIRCUIT_MANIFEST', path.join(circuitsPath, 'manifest.json')),
     proofExpiryHours: getEnvInt('PROOF_EXPIRY_HOURS', 24),
+    rootGracePeriodHours: getEnvInt('ROOT_GRACE_PERIOD_HOURS', 24),
     maxCredentialsPerSet: getEnvInt('MAX_CREDENTIALS_PER_SET', 1024),
-    maxMerkleDepth: getEnvInt('MAX_MERKLE_DEPTH', 10),
+    maxMerkleDepth: getEnvInt('MAX_MERKLE_DEPTH', 32),
+    storageBackend: getEnv('STORAGE_BACKEND', 'memory') as StorageBackend,
+    dataDir: getEnv('DATA_DIR', path.join(process.cwd(), 'data')),
+    // Leave a core for the event loop
+    proverPoolSize: getEnvInt('PROVER_POOL_SIZE', Math.max(1, cpus().length - 1)),
+    proverQueueSize: getEnvInt('PROVER_QUEUE_SIZE', 32),
+    proverTimeoutMs: getEnvInt('PROVER_TIMEOUT_MS', 120000),
+    webhookSecret: getEnv('WEBHOOK_SECRET', ''),
+    webhookTimeoutMs: getEnvInt('WEBHOOK_TIMEOUT_MS', 10000),
+    webhookAllowPrivateNetworks: getEnv('WEBHOOK_ALLOW_PRIVATE_NETWORKS', 'false') === 'true',
+    rootAutoTrust: getEnv('ROOT_AUTO_TRUST', 'false') === 'true',
+    rootSource: getEnv('ROOT_SOURCE', 'none') as RootSourceKind,
+    ethereumRpcUrl: getEnv('ETHEREUM_RPC_URL', ''),
+    ethereumChainId: getEnvInt('ETHEREUM_CHAIN_ID', 1),
+    rootRegistryAddress: getEnv('ROOT_REGISTRY_ADDRESS', ''),
+    rootSourceCacheTtlMs: getEnvInt('ROOT_SOURCE_CACHE_TTL_MS', 60000),
+    rootSourceTimeoutMs: getEnvInt('ROOT_SOURCE_TIMEOUT_MS', 5000),
+    rootSourceFailureMode: getEnv(
+        'ROOT_SOURCE_FAILURE_MODE',
+        'fail-closed',
+    ) as RootSourceFailureMode,
 };
 
 /**
@@ -66,14 +161,97 @@ export function validateConfig(): string[] {
         if (!config.apiKey) {
             errors.push('API_KEY must be set in production');
         }
-        if (!config.jwtSecret) {
-            errors.push('JWT_SECRET must be set in production');
+        // Tokens signed with key files do not use the secret
+        if (config.jwtAlgorithm === 'HS256') {
+            if (!config.jwtSecret) {
+                errors.push('JWT_SECRET must be set in production');
+            }
+            if (config.jwtSecret.length < 32) {
+                errors.push('JWT_SECRET must be at least 32 characters');
+            }
+        }
+        // Issuer signing keys are derived from it, so it must outlive restarts
+        if (!config.masterKey) {
+            errors.push('MASTER_KEY must be set in production');
         }
-        if (config.jwtSecret.length < 32) {
-            errors.push('JWT_SECRET must be at least 32 characters');
+        if (config.webhookAllowPrivateNetworks) {
+            errors.push('WEBHOOK_ALLOW_PRIVATE_NETWORKS must not be enabled in production');
         }
     }
 
+    if (config.masterKey && !/^[a-f0-9]{64}$/i.test(config.masterKey)) {
+        errors.push('MASTER_KEY must be a 64-character hex string');
+    }
+
+    if (!['HS256', 'RS256', 'EdDSA'].includes(config.jwtAlgorithm)) {
+        errors.push('JWT_ALGORITHM must be one of: HS256, RS256, EdDSA');
+    }
+
+    if (config.jwtAlgorithm !== 'HS256' && !config.jwtPrivateKeyFile && !config.jwtPublicKeyFile) {
+        errors.push(
+            `JWT_PRIVATE_KEY_FILE or JWT_PUBLIC_KEY_FILE must be set for ${config.jwtAlgorithm}`,
+        );
+    }
+
+    if (config.jwtExpirySeconds < 1) {
+        errors.push('JWT_EXPIRY_SECONDS must be positive');
+    }
+
+    if (config.jwtClockSkewSeconds < 0) {
+        errors.push('JWT_CLOCK_SKEW_SECONDS must not be negative');
+    }
+
+    if (config.storageBackend !== 'memory' && config.storageBackend !== 'file') {
+        errors.push('STORAGE_BACKEND must be one of: memory, file');
+    }
+
+    if (config.proverPoolSize < 1) {
+        errors.push('PROVER_POOL_SIZE must be at least 1');
+    }
+
+    if (config.proverQueueSize < 0) {
+        errors.push('PROVER_QUEUE_SIZE must not be negative');
+    }
+
+    if (config.proverTimeoutMs < 1) {
+        errors.push('PROVER_TIMEOUT_MS must be positive');
+    }
+
+    if (config.webhookTimeoutMs < 1) {
+        errors.push('WEBHOOK_TIMEOUT_MS must be positive');
+    }
+
+    if (config.rootSource !== 'none' && config.rootSource !== 'ethereum') {
+        errors.push('ROOT_SOURCE must be one of: none, ethereum');
+    }
+
+    if (config.rootSource === 'ethereum') {
+        if (!config.ethereumRpcUrl) {
+            errors.push('ETHEREUM_RPC_URL must be set when ROOT_SOURCE=ethereum');
+        }
+        if (!/^0x[a-f0-9]{40}$/i.test(config.rootRegistryAddress)) {
+            errors.push('ROOT_REGISTRY_ADDRESS must be a 20-byte hex address');
+        }
+        if (config.ethereumChainId < 1) {
+            errors.push('ETHEREUM_CHAIN_ID must be positive');
+        }
+    }
+
+    if (
+        config.rootSourceFailureMode !== 'fail-closed' &&
+        config.rootSourceFailureMode !== 'fallback'
+    ) {
+        errors.push('ROOT_SOURCE_FAILURE_MODE must be one of: fail-closed, fallback');
+    }
+
+    if (config.rootSourceCacheTtlMs < 0) {
+        errors.push('ROOT_SOURCE_CACHE_TTL_MS must not be negative');
+    }
+
+    if (config.rootSourceTimeoutMs < 1) {
+        errors.push('ROOT_SOURCE_TIMEOUT_MS must be positive');
+    }
+
     if (config.port < 1 || config.port > 65535) {
         errors.push('PORT must be between 1 and 65535');
     }
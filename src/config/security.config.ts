@@ -36,6 +36,19 @@ export const securityConfig = {
             windowMs: 60 * 1000, // 1 minute
             max: 50,
         },
+        batchVerification: {
+            windowMs: 60 * 1000, // 1 minute
+            max: 10,
+        },
+    },
+
+    /** Batch verification limits */
+    batchVerification: {
+        maxBatchSize: 50,
+        /** Proofs verified at once within a batch */
+        concurrency: 4,
+        /** Body limit for /api/verify/batch only; other routes keep requestLimits */
+        jsonBodyLimit: '256kb',
     },
 
     /** Request size limits */
@@ -46,8 +59,8 @@ export const securityConfig = {
 
     /** CORS configuration */
     cors: {
-        methods: ['GET', 'POST'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+        methods: ['GET', 'POST', 'PATCH', 'DELETE'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
         exposedHeaders: ['X-Request-Id'],
         credentials: true,
         maxAge: 86400, // 24 hours
@@ -56,6 +69,12 @@ export const securityConfig = {
     /** API key header name */
     apiKeyHeader: 'x-api-key',
 
+    /** Request ID header; an incoming ID is kept only if it matches the pattern */
+    requestId: {
+        header: 'x-request-id',
+        pattern: /^[A-Za-z0-9._:-]{1,128}$/,
+    },
+
     /** Proof expiration defaults */
     proofExpiry: {
         defaultHours: 24,
@@ -0,0 +1,257 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
+import { HashManager } from '../crypto/HashManager';
+import { RandomGenerator } from '../crypto/RandomGenerator';
+import {
+    API_KEY_ROLES,
+    ApiKeyLogEntry,
+    ApiKeyRole,
+    ApiKeyStore,
+    InMemoryApiKeyStore,
+} from './ApiKeyStore';
+
+/** Key ID of the configured `API_KEY`, which holds every role */
+export const MASTER_KEY_ID = 'master';
+
+const KEY_PREFIX = 'zkc_';
+
+/**
+ * What a key is minted for.
+ */
+export interface ApiKeyGrant {
+    readonly name: string;
+    readonly roles: readonly ApiKeyRole[];
+    /** Credential sets the key is limited to; unlimited when absent */
+    readonly credentialSetIds?: readonly string[];
+    /** Tenant the key acts for, carried into the tokens issued to it */
+    readonly tenant?: string;
+}
+
+/**
+ * A minted API key as stored: its grants and the hash it is looked up by.
+ */
+export interface ApiKey extends ApiKeyGrant {
+    readonly id: string;
+    readonly keyHash: string;
+    readonly createdAt: Date;
+}
+
+/**
+ * Who a request was authenticated as.
+ */
+export interface ApiKeyPrincipal {
+    readonly keyId: string;
+    readonly roles: readonly ApiKeyRole[];
+    readonly credentialSetIds?: readonly string[];
+    readonly tenant?: string;
+    /** ID of the access token the request presented instead of the key */
+    readonly tokenId?: string;
+}
+
+/**
+ * Manages API keys scoped to roles and, optionally, to credential sets.
+ *
+ * Keys are random and shown once when minted; only their SHA-256 hash is
+ * kept. Every change is appended to an {@link ApiKeyStore} before it takes
+ * effect, and the store is replayed on construction. The configured
+ * `API_KEY`, if any, is accepted alongside minted keys with every role.
+ */
+export class ApiKeyManager {
+    private readonly keys: Map<string, ApiKey>;
+    private readonly keyIdsByHash: Map<string, string>;
+    private readonly store: ApiKeyStore;
+    private readonly masterKeyHash?: Buffer;
+    private readonly hashManager: HashManager;
+    private readonly randomGenerator: RandomGenerator;
+    private readonly logger: Logger;
+
+    constructor(
+        logger: Logger,
+        store: ApiKeyStore = new InMemoryApiKeyStore(),
+        masterKey: string = '',
+    ) {
+        this.keys = new Map();
+        this.keyIdsByHash = new Map();
+        this.store = store;
+        this.hashManager = new HashManager(logger);
+        this.randomGenerator = new RandomGenerator(logger);
+        this.masterKeyHash = masterKey ? this.hashManager.sha256(masterKey) : undefined;
+        this.logger = logger;
+
+        this.replay();
+    }
+
+    /**
+     * Mint a key. The returned `key` is the only copy of the secret.
+     */
+    public mint(grant: ApiKeyGrant, actor: string = 'system'): { key: string; apiKey: ApiKey } {
+        const { name, roles, credentialSetIds, tenant } = grant;
+
+        if (typeof name !== 'string' || name.length === 0 || name.length > 100) {
+            throw new ValidationError('API key name must be 1-100 characters');
+        }
+        if (roles.length === 0 || roles.some((role) => !API_KEY_ROLES.includes(role))) {
+            throw new ValidationError(
+                `roles must be a non-empty list of: ${API_KEY_ROLES.join(', ')}`,
+            );
+        }
+        if (credentialSetIds !== undefined && credentialSetIds.length === 0) {
+            throw new ValidationError('credentialSetIds must not be empty; omit it for all sets');
+        }
+        if (tenant !== undefined && (tenant.length === 0 || tenant.length > 100)) {
+            throw new ValidationError('tenant must be 1-100 characters');
+        }
+
+        const key = KEY_PREFIX + this.randomGenerator.generateBytes(32).toString('base64url');
+        const apiKey: ApiKey = {
+            id: uuidv4(),
+            name,
+            keyHash: this.hashManager.sha256Hex(key),
+            roles: Array.from(new Set(roles)),
+            credentialSetIds: credentialSetIds && Array.from(new Set(credentialSetIds)),
+            tenant,
+            createdAt: new Date(),
+        };
+
+        this.store.append({
+            action: 'mint',
+            keyId: apiKey.id,
+            actor,
+            at: apiKey.createdAt,
+            name: apiKey.name,
+            keyHash: apiKey.keyHash,
+            roles: apiKey.roles,
+            credentialSetIds: apiKey.credentialSetIds,
+            tenant: apiKey.tenant,
+        });
+        this.applyMint(apiKey);
+
+        this.logger.info('API key minted', {
+            keyId: apiKey.id,
+            roles: apiKey.roles,
+            scoped: apiKey.credentialSetIds !== undefined,
+            tenant: apiKey.tenant,
+            actor,
+        });
+
+        return { key, apiKey };
+    }
+
+    /**
+     * Revoke a minted key. Returns false if there is no such key.
+     */
+    public revoke(keyId: string, actor: string = 'system'): boolean {
+        if (!this.keys.has(keyId)) {
+            return false;
+        }
+
+        this.store.append({ action: 'revoke', keyId, actor, at: new Date() });
+        this.applyRevoke(keyId);
+
+        this.logger.info('API key revoked', { keyId, actor });
+
+        return true;
+    }
+
+    /**
+     * Resolve a presented key. Returns undefined for unknown or revoked keys.
+     */
+    public authenticate(key: string): ApiKeyPrincipal | undefined {
+        const presentedHash = this.hashManager.sha256(key);
+
+        if (
+            this.masterKeyHash &&
+            this.hashManager.constantTimeEqualBuffers(presentedHash, this.masterKeyHash)
+        ) {
+            return { keyId: MASTER_KEY_ID, roles: API_KEY_ROLES };
+        }
+
+        const keyId = this.keyIdsByHash.get(presentedHash.toString('hex'));
+        return keyId ? this.getPrincipal(keyId) : undefined;
+    }
+
+    /**
+     * The principal of a key that is still valid, by key ID. Used to check
+     * that the key an access token was issued to has not been revoked since.
+     */
+    public getPrincipal(keyId: string): ApiKeyPrincipal | undefined {
+        if (keyId === MASTER_KEY_ID) {
+            return this.masterKeyHash ? { keyId, roles: API_KEY_ROLES } : undefined;
+        }
+
+        const apiKey = this.keys.get(keyId);
+        if (!apiKey) {
+            return undefined;
+        }
+
+        return {
+            keyId: apiKey.id,
+            roles: apiKey.roles,
+            credentialSetIds: apiKey.credentialSetIds,
+            tenant: apiKey.tenant,
+        };
+    }
+
+    /**
+     * Whether any key, configured or minted, can authenticate requests.
+     */
+    public hasKeys(): boolean {
+        return this.masterKeyHash !== undefined || this.keys.size > 0;
+    }
+
+    /**
+     * List minted keys that have not been revoked.
+     */
+    public getKeys(): ApiKey[] {
+        return Array.from(this.keys.values());
+    }
+
+    /**
+     * Return the full history of key changes, optionally for one key.
+     */
+    public getAuditLog(keyId?: string): ApiKeyLogEntry[] {
+        const entries = this.store.readAll();
+        return keyId ? entries.filter((entry) => entry.keyId === keyId) : entries;
+    }
+
+    private replay(): void {
+        const entries = this.store.readAll();
+
+        for (const entry of entries) {
+            if (entry.action === 'revoke') {
+                this.applyRevoke(entry.keyId);
+            } else if (entry.keyHash && entry.roles) {
+                this.applyMint({
+                    id: entry.keyId,
+                    name: entry.name ?? '',
+                    keyHash: entry.keyHash,
+                    roles: entry.roles,
+                    credentialSetIds: entry.credentialSetIds,
+                    tenant: entry.tenant,
+                    createdAt: entry.at,
+                });
+            }
+        }
+
+        if (entries.length > 0) {
+            this.logger.info('API keys restored from log', {
+                entries: entries.length,
+                keys: this.keys.size,
+            });
+        }
+    }
+
+    private applyMint(apiKey: ApiKey): void {
+        this.keys.set(apiKey.id, apiKey);
+        this.keyIdsByHash.set(apiKey.keyHash, apiKey.id);
+    }
+
+    private applyRevoke(keyId: string): void {
+        const apiKey = this.keys.get(keyId);
+        if (apiKey) {
+            this.keyIdsByHash.delete(apiKey.keyHash);
+            this.keys.delete(keyId);
+        }
+    }
+}
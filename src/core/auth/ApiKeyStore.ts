@@ -0,0 +1,138 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+
+/**
+ * What an API key may do:
+ * - `issuer`: manage issuers, credential sets and their revocations
+ * - `holder-prover`: fetch Merkle paths and generate proofs
+ * - `verifier`: verify proofs
+ * - `root-admin`: manage trusted roots and trusted issuer keys
+ * - `key-admin`: mint and revoke API keys
+ */
+export type ApiKeyRole = 'issuer' | 'holder-prover' | 'verifier' | 'root-admin' | 'key-admin';
+
+export const API_KEY_ROLES: readonly ApiKeyRole[] = [
+    'issuer',
+    'holder-prover',
+    'verifier',
+    'root-admin',
+    'key-admin',
+];
+
+/**
+ * Kinds of change recorded in the API key log.
+ */
+export type ApiKeyLogAction = 'mint' | 'revoke';
+
+/**
+ * A single entry in the API key log. `mint` entries carry the key's
+ * SHA-256 hash and grants; the key itself is never stored.
+ */
+export interface ApiKeyLogEntry {
+    readonly action: ApiKeyLogAction;
+    readonly keyId: string;
+    readonly actor: string;
+    readonly at: Date;
+    readonly name?: string;
+    readonly keyHash?: string;
+    readonly roles?: readonly ApiKeyRole[];
+    readonly credentialSetIds?: readonly string[];
+    readonly tenant?: string;
+}
+
+/**
+ * Append-only storage for API key changes.
+ * The current keys are obtained by replaying entries in order.
+ */
+export interface ApiKeyStore {
+    append(entry: ApiKeyLogEntry): void;
+    readAll(): ApiKeyLogEntry[];
+}
+
+/**
+ * Keeps the API key log in process memory. Contents are lost on restart.
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+    private readonly entries: ApiKeyLogEntry[] = [];
+
+    public append(entry: ApiKeyLogEntry): void {
+        this.entries.push(entry);
+    }
+
+    public readAll(): ApiKeyLogEntry[] {
+        return [...this.entries];
+    }
+}
+
+interface SerializedApiKeyLogEntry {
+    readonly action: ApiKeyLogAction;
+    readonly keyId: string;
+    readonly actor: string;
+    readonly at: string;
+    readonly name?: string;
+    readonly keyHash?: string;
+    readonly roles?: readonly ApiKeyRole[];
+    readonly credentialSetIds?: readonly string[];
+    readonly tenant?: string;
+}
+
+const apiKeyCodec: LogCodec<ApiKeyLogEntry, SerializedApiKeyLogEntry> = {
+    serialize: (entry) => ({
+        action: entry.action,
+        keyId: entry.keyId,
+        actor: entry.actor,
+        at: entry.at.toISOString(),
+        name: entry.name,
+        keyHash: entry.keyHash,
+        roles: entry.roles,
+        credentialSetIds: entry.credentialSetIds,
+        tenant: entry.tenant,
+    }),
+    deserialize: (line) => ({
+        action: line.action,
+        keyId: line.keyId,
+        actor: line.actor,
+        at: new Date(line.at),
+        name: line.name,
+        keyHash: line.keyHash,
+        roles: line.roles,
+        credentialSetIds: line.credentialSetIds,
+        tenant: line.tenant,
+    }),
+};
+
+/**
+ * Persists the API key log as newline-delimited JSON, one entry per line.
+ * Entries are only ever appended, so the file doubles as an audit trail.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+    private readonly log: AppendOnlyLog<ApiKeyLogEntry, SerializedApiKeyLogEntry>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(filePath, 'API key', apiKeyCodec, logger);
+    }
+
+    public append(entry: ApiKeyLogEntry): void {
+        this.log.append(entry);
+    }
+
+    public readAll(): ApiKeyLogEntry[] {
+        return this.log.readAll();
+    }
+}
+
+/**
+ * Create the API key store for the configured backend.
+ */
+export function createApiKeyStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): ApiKeyStore {
+    if (backend === 'file') {
+        return new FileApiKeyStore(join(dataDir, 'api-keys.log'), logger);
+    }
+    return new InMemoryApiKeyStore();
+}
@@ -0,0 +1,306 @@
+import {
+    KeyObject,
+    createHmac,
+    createPrivateKey,
+    createPublicKey,
+    sign as cryptoSign,
+    verify as cryptoVerify,
+} from 'crypto';
+import { readFileSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { config, JwtAlgorithm } from '../../config/environment';
+import {
+    AuthenticationError,
+    ErrorCode,
+    ForbiddenError,
+    ServiceUnavailableError,
+} from '../../utils/errors';
+import { HashManager } from '../crypto/HashManager';
+import { RandomGenerator } from '../crypto/RandomGenerator';
+import { ApiKeyManager, ApiKeyPrincipal } from './ApiKeyManager';
+import { API_KEY_ROLES, ApiKeyRole } from './ApiKeyStore';
+
+/**
+ * Claims of an access token. `sub` is the ID of the API key it was issued
+ * to; `roles` may be narrower than the key's.
+ */
+export interface JwtClaims {
+    readonly iss: string;
+    readonly sub: string;
+    readonly jti: string;
+    readonly iat: number;
+    readonly nbf: number;
+    readonly exp: number;
+    readonly roles: readonly ApiKeyRole[];
+    readonly tenant?: string;
+}
+
+export interface JwtOptions {
+    readonly algorithm: JwtAlgorithm;
+    /** HMAC secret for HS256; an ephemeral one is generated when empty */
+    readonly secret: string;
+    /** PEM private key for RS256 and EdDSA; without it tokens are only verified */
+    readonly privateKeyFile: string;
+    /** PEM public key; derived from the private key when empty */
+    readonly publicKeyFile: string;
+    readonly issuer: string;
+    readonly expirySeconds: number;
+    /** Leeway for clock differences when checking `exp`, `nbf` and `iat` */
+    readonly clockSkewSeconds: number;
+}
+
+const defaultOptions: JwtOptions = {
+    algorithm: config.jwtAlgorithm,
+    secret: config.jwtSecret,
+    privateKeyFile: config.jwtPrivateKeyFile,
+    publicKeyFile: config.jwtPublicKeyFile,
+    issuer: config.jwtIssuer,
+    expirySeconds: config.jwtExpirySeconds,
+    clockSkewSeconds: config.jwtClockSkewSeconds,
+};
+
+// Node key types each asymmetric algorithm signs with
+const KEY_TYPES: Partial<Record<JwtAlgorithm, string>> = {
+    RS256: 'rsa',
+    EdDSA: 'ed25519',
+};
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Issues and verifies access tokens (compact JWS) for API key holders.
+ *
+ * A token stands in for the API key it was issued to: it is accepted only
+ * while that key is valid, with the key's credential set limits and the
+ * roles it was issued with. Only the configured algorithm is accepted, so
+ * a token cannot pick how it is checked.
+ */
+export class JwtManager {
+    private readonly apiKeys: ApiKeyManager;
+    private readonly options: JwtOptions;
+    private readonly secret?: Buffer;
+    private readonly privateKey?: KeyObject;
+    private readonly publicKey?: KeyObject;
+    private readonly hashManager: HashManager;
+    private readonly logger: Logger;
+
+    constructor(apiKeys: ApiKeyManager, logger: Logger, options: JwtOptions = defaultOptions) {
+        this.apiKeys = apiKeys;
+        this.options = options;
+        this.hashManager = new HashManager(logger);
+        this.logger = logger;
+
+        if (options.algorithm === 'HS256') {
+            if (options.secret) {
+                this.secret = Buffer.from(options.secret, 'utf-8');
+            } else {
+                this.secret = new RandomGenerator(logger).generateBytes(32);
+                logger.warn('Using ephemeral JWT secret. Set JWT_SECRET in production.');
+            }
+        } else {
+            if (options.privateKeyFile) {
+                this.privateKey = createPrivateKey(readFileSync(options.privateKeyFile));
+            }
+            this.publicKey = options.publicKeyFile
+                ? createPublicKey(readFileSync(options.publicKeyFile))
+                : this.privateKey && createPublicKey(this.privateKey);
+
+            if (!this.publicKey) {
+                throw new Error(`${options.algorithm} requires a private or public key file`);
+            }
+            if (this.publicKey.asymmetricKeyType !== KEY_TYPES[options.algorithm]) {
+                throw new Error(
+                    `${options.algorithm} requires an ${KEY_TYPES[options.algorithm]} key`,
+                );
+            }
+        }
+
+        logger.info('JWT manager initialized', {
+            algorithm: options.algorithm,
+            issuing: this.canIssue(),
+        });
+    }
+
+    /**
+     * Whether tokens can be issued here, not only verified.
+     */
+    public canIssue(): boolean {
+        return this.secret !== undefined || this.privateKey !== undefined;
+    }
+
+    /**
+     * Issue a token to the API key a request authenticated with, for all of
+     * its roles or the given subset.
+     */
+    public issue(
+        principal: ApiKeyPrincipal,
+        roles: readonly ApiKeyRole[] = principal.roles,
+    ): { token: string; claims: JwtClaims } {
+        if (principal.tokenId !== undefined || !this.apiKeys.getPrincipal(principal.keyId)) {
+            throw new AuthenticationError('Tokens are issued only for an API key');
+        }
+        if (!this.canIssue()) {
+            throw new ServiceUnavailableError(
+                ErrorCode.TOKEN_ISSUANCE_UNAVAILABLE,
+                'Token issuance requires JWT_PRIVATE_KEY_FILE',
+            );
+        }
+
+        const missing = roles.filter((role) => !principal.roles.includes(role));
+        if (missing.length > 0) {
+            throw new ForbiddenError(`API key lacks the ${missing.join(', ')} role`);
+        }
+
+        const now = nowSeconds();
+        const claims: JwtClaims = {
+            iss: this.options.issuer,
+            sub: principal.keyId,
+            jti: uuidv4(),
+            iat: now,
+            nbf: now,
+            exp: now + this.options.expirySeconds,
+            roles: Array.from(new Set(roles)),
+            tenant: principal.tenant,
+        };
+
+        const signingInput = [
+            encodeSegment({ alg: this.options.algorithm, typ: 'JWT' }),
+            encodeSegment(claims),
+        ].join('.');
+        const token = `${signingInput}.${this.sign(signingInput).toString('base64url')}`;
+
+        this.logger.info('Access token issued', {
+            keyId: claims.sub,
+            tokenId: claims.jti,
+            roles: claims.roles,
+        });
+
+        return { token, claims };
+    }
+
+    /**
+     * Verify a token and resolve the principal it acts as.
+     * Throws {@link AuthenticationError} for any token that is not accepted.
+     */
+    public verify(token: string): ApiKeyPrincipal {
+        const segments = token.split('.');
+        if (segments.length !== 3) {
+            throw new AuthenticationError('Malformed token');
+        }
+        const [encodedHeader, encodedClaims, encodedSignature] = segments;
+
+        const header = decodeSegment(encodedHeader);
+        if (header.alg !== this.options.algorithm) {
+            throw new AuthenticationError('Unsupported token algorithm');
+        }
+
+        const signingInput = `${encodedHeader}.${encodedClaims}`;
+        if (!this.checkSignature(signingInput, Buffer.from(encodedSignature, 'base64url'))) {
+            throw new AuthenticationError('Invalid token signature');
+        }
+
+        const claims = toClaims(decodeSegment(encodedClaims));
+        if (claims.iss !== this.options.issuer) {
+            throw new AuthenticationError('Token issuer not accepted');
+        }
+
+        const now = nowSeconds();
+        const skew = this.options.clockSkewSeconds;
+        if (now >= claims.exp + skew) {
+            throw new AuthenticationError('Token expired');
+        }
+        if (claims.nbf > now + skew || claims.iat > now + skew) {
+            throw new AuthenticationError('Token not yet valid');
+        }
+
+        // The key must still be valid and hold every role the token carries
+        const keyPrincipal = this.apiKeys.getPrincipal(claims.sub);
+        if (!keyPrincipal) {
+            throw new AuthenticationError('Token was issued to a revoked API key');
+        }
+        if (!claims.roles.every((role) => keyPrincipal.roles.includes(role))) {
+            throw new AuthenticationError('Token roles exceed its API key');
+        }
+
+        return {
+            keyId: keyPrincipal.keyId,
+            roles: claims.roles,
+            credentialSetIds: keyPrincipal.credentialSetIds,
+            tenant: keyPrincipal.tenant,
+            tokenId: claims.jti,
+        };
+    }
+
+    private sign(signingInput: string): Buffer {
+        const data = Buffer.from(signingInput);
+        switch (this.options.algorithm) {
+            case 'HS256':
+                return createHmac('sha256', this.secret as Buffer).update(data).digest();
+            case 'RS256':
+                return cryptoSign('sha256', data, this.privateKey as KeyObject);
+            case 'EdDSA':
+                return cryptoSign(null, data, this.privateKey as KeyObject);
+        }
+    }
+
+    private checkSignature(signingInput: string, signature: Buffer): boolean {
+        const data = Buffer.from(signingInput);
+        switch (this.options.algorithm) {
+            case 'HS256':
+                return this.hashManager.constantTimeEqualBuffers(
+                    createHmac('sha256', this.secret as Buffer).update(data).digest(),
+                    signature,
+                );
+            case 'RS256':
+                return cryptoVerify('sha256', data, this.publicKey as KeyObject, signature);
+            case 'EdDSA':
+                return cryptoVerify(null, data, this.publicKey as KeyObject, signature);
+        }
+    }
+}
+
+function encodeSegment(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+    try {
+        const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            return value as Record<string, unknown>;
+        }
+    } catch {
+        // Reported below
+    }
+    throw new AuthenticationError('Malformed token');
+}
+
+function toClaims(payload: Record<string, unknown>): JwtClaims {
+    const { iss, sub, jti, iat, nbf, exp, roles, tenant } = payload;
+
+    const valid =
+        typeof iss === 'string' &&
+        typeof sub === 'string' &&
+        typeof jti === 'string' &&
+        typeof iat === 'number' &&
+        typeof exp === 'number' &&
+        (nbf === undefined || typeof nbf === 'number') &&
+        (tenant === undefined || typeof tenant === 'string') &&
+        Array.isArray(roles) &&
+        roles.every((role) => API_KEY_ROLES.includes(role as ApiKeyRole));
+    if (!valid) {
+        throw new AuthenticationError('Malformed token claims');
+    }
+
+    return {
+        iss,
+        sub,
+        jti,
+        iat,
+        nbf: nbf ?? iat,
+        exp,
+        roles: roles as ApiKeyRole[],
+        tenant,
+    };
+}
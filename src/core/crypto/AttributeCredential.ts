@@ -0,0 +1,233 @@
+import { PoseidonManager } from './PoseidonManager';
+import {
+    AttributeDefinition,
+    AttributeSchema,
+    AttributeType,
+    AttributeValues,
+    CREDENTIAL_CONSTRAINTS,
+} from '../../types/credential.types';
+import { ValidationError } from '../../utils/errors';
+import { validateCommitment } from '../../utils/validators';
+
+/** Integer and date attributes are compared as unsigned values of this width */
+export const ATTRIBUTE_VALUE_BITS = 64;
+
+const ATTRIBUTE_TYPES: readonly AttributeType[] = ['integer', 'date', 'string'];
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_VALUE = (BigInt(1) << BigInt(ATTRIBUTE_VALUE_BITS)) - BigInt(1);
+
+/**
+ * Check that a schema fits the attribute circuit: 1 to `MAX_ATTRIBUTES`
+ * uniquely named attributes of known types.
+ */
+export function validateAttributeSchema(schema: AttributeSchema): void {
+    if (!Array.isArray(schema) || schema.length === 0) {
+        throw new ValidationError('attributeSchema must list at least one attribute');
+    }
+    if (schema.length > CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES) {
+        throw new ValidationError(
+            `Maximum ${CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES} attributes per credential`,
+        );
+    }
+
+    // Array.isArray widens a readonly array to any[]; iterate the declared type
+    const definitions: readonly AttributeDefinition[] = schema;
+    const names = new Set<string>();
+    for (const definition of definitions) {
+        if (
+            typeof definition?.name !== 'string' ||
+            definition.name.length > CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTE_NAME_LENGTH ||
+            !NAME_PATTERN.test(definition.name)
+        ) {
+            throw new ValidationError(`Invalid attribute name: ${String(definition?.name)}`);
+        }
+        if (!ATTRIBUTE_TYPES.includes(definition.type)) {
+            throw new ValidationError(`Attribute ${definition.name}: invalid type`);
+        }
+        if (names.has(definition.name)) {
+            throw new ValidationError(`Duplicate attribute: ${definition.name}`);
+        }
+        names.add(definition.name);
+    }
+}
+
+/**
+ * Canonical issued form of an attribute value: a decimal string for
+ * integers, `YYYY-MM-DD` for dates.
+ */
+export function normalizeAttributeValue(
+    definition: AttributeDefinition,
+    value: string | number,
+): string {
+    encodeAttributeValue(definition, value);
+    return String(value);
+}
+
+/**
+ * Map an attribute value to the field element the circuit sees.
+ */
+export function encodeAttributeValue(
+    definition: AttributeDefinition,
+    value: string | number,
+): bigint {
+    const label = `Attribute ${definition.name}`;
+
+    if (definition.type === 'string') {
+        if (
+            typeof value !== 'string' ||
+            value.length === 0 ||
+            value.length > CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTE_STRING_LENGTH
+        ) {
+            throw new ValidationError(
+                `${label}: must be a string (1-${CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTE_STRING_LENGTH} chars)`,
+            );
+        }
+        return PoseidonManager.stringToField(value);
+    }
+
+    if (definition.type === 'date') {
+        const days = typeof value === 'string' ? parseDate(value) : null;
+        if (days === null) {
+            throw new ValidationError(`${label}: must be a date (YYYY-MM-DD) from 1970-01-01`);
+        }
+        return BigInt(days);
+    }
+
+    const text = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : value;
+    if (typeof text !== 'string' || !DECIMAL_PATTERN.test(text) || BigInt(text) > MAX_VALUE) {
+        throw new ValidationError(
+            `${label}: must be an integer from 0 to 2^${ATTRIBUTE_VALUE_BITS} - 1`,
+        );
+    }
+    return BigInt(text);
+}
+
+/**
+ * Poseidon hash of the schema's `name:type` pairs, padded with zeros to
+ * `MAX_ATTRIBUTES` slots. Distinguishes credentials issued under different
+ * schemas even when their values coincide.
+ */
+export function hashAttributeSchema(schema: AttributeSchema): bigint {
+    validateAttributeSchema(schema);
+    return PoseidonManager.hash(
+        padSlots(
+            schema.map((definition) =>
+                PoseidonManager.stringToField(`${definition.name}:${definition.type}`),
+            ),
+        ),
+    );
+}
+
+/**
+ * The attributes an issuer attests for a holder.
+ *
+ * The credential's Merkle leaf is
+ * Poseidon(identityCommitment, schemaHash, Poseidon(attributes)), so a proof
+ * of membership also proves the holder was issued exactly these attributes,
+ * while revealing only those the holder discloses.
+ */
+export class AttributeCredential {
+    public readonly schema: AttributeSchema;
+    private readonly values: ReadonlyMap<string, string>;
+
+    constructor(schema: AttributeSchema, values: AttributeValues) {
+        validateAttributeSchema(schema);
+        if (!values || typeof values !== 'object') {
+            throw new ValidationError('attributes must be an object');
+        }
+
+        const known = new Set(schema.map((definition) => definition.name));
+        const unknown = Object.keys(values).find((name) => !known.has(name));
+        if (unknown !== undefined) {
+            throw new ValidationError(`Unknown attribute: ${unknown}`);
+        }
+
+        const normalized = new Map<string, string>();
+        for (const definition of schema) {
+            if (!Object.prototype.hasOwnProperty.call(values, definition.name)) {
+                throw new ValidationError(`Missing attribute: ${definition.name}`);
+            }
+            normalized.set(
+                definition.name,
+                normalizeAttributeValue(definition, values[definition.name]),
+            );
+        }
+
+        this.schema = schema;
+        this.values = normalized;
+    }
+
+    /**
+     * An attribute's value in its issued form.
+     */
+    public getValue(name: string): string {
+        const value = this.values.get(name);
+        if (value === undefined) {
+            throw new ValidationError(`Unknown attribute: ${name}`);
+        }
+        return value;
+    }
+
+    /**
+     * Field elements of the attributes in schema order, padded with zeros
+     * to `MAX_ATTRIBUTES` slots.
+     */
+    public getEncodedValues(): bigint[] {
+        return padSlots(
+            this.schema.map((definition) =>
+                encodeAttributeValue(definition, this.getValue(definition.name)),
+            ),
+        );
+    }
+
+    public getAttributesHash(): bigint {
+        return PoseidonManager.hash(this.getEncodedValues());
+    }
+
+    /**
+     * The leaf registered for the holder with `identityCommitment`, as a
+     * 64-char hex string.
+     */
+    public getLeaf(identityCommitment: string): string {
+        validateCommitment(identityCommitment);
+        return PoseidonManager.hash([
+            BigInt('0x' + identityCommitment),
+            hashAttributeSchema(this.schema),
+            this.getAttributesHash(),
+        ])
+            .toString(16)
+            .padStart(64, '0');
+    }
+}
+
+function padSlots(values: bigint[]): bigint[] {
+    return [
+        ...values,
+        ...Array<bigint>(CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES - values.length).fill(BigInt(0)),
+    ];
+}
+
+// Days since 1970-01-01, or null unless `value` is a real calendar date from then on
+function parseDate(value: string): number | null {
+    const match = DATE_PATTERN.exec(value);
+    if (!match) {
+        return null;
+    }
+
+    const [year, month, day] = match.slice(1).map(Number);
+    const time = Date.UTC(year, month - 1, day);
+    const date = new Date(time);
+    if (
+        date.getUTCFullYear() !== year ||
+        date.getUTCMonth() !== month - 1 ||
+        date.getUTCDate() !== day ||
+        time < 0
+    ) {
+        return null;
+    }
+
+    return time / MS_PER_DAY;
+}
@@ -0,0 +1,105 @@
+import { buildEddsa, Eddsa } from 'circomlibjs';
+import { IssuerPublicKey, IssuerSignature } from '../../types/issuer.types';
+
+const HEX_PATTERN = /^[a-f0-9]{64}$/i;
+
+/**
+ * Manages EdDSA over the BabyJubJub curve, with Poseidon as the message
+ * hash, so signatures can be checked in-circuit by circomlib's
+ * `EdDSAPoseidonVerifier`.
+ */
+export class EdDSAManager {
+    private static eddsa?: Eddsa;
+
+    /**
+     * Initialize the curve and hash. Must be called before signing.
+     */
+    public static async initialize(): Promise<void> {
+        if (!this.eddsa) {
+            this.eddsa = await buildEddsa();
+        }
+    }
+
+    /**
+     * The public key of a 32-byte private key.
+     */
+    public static derivePublicKey(privateKey: Buffer): IssuerPublicKey {
+        const eddsa = this.getEddsa();
+        validatePrivateKey(privateKey);
+
+        const [x, y] = eddsa.prv2pub(privateKey);
+        return { x: toHex(eddsa.babyJub.F.toObject(x)), y: toHex(eddsa.babyJub.F.toObject(y)) };
+    }
+
+    /**
+     * Sign a field element. Signatures are deterministic.
+     */
+    public static sign(privateKey: Buffer, message: bigint): IssuerSignature {
+        const eddsa = this.getEddsa();
+        const { F } = eddsa.babyJub;
+        validatePrivateKey(privateKey);
+
+        const signature = eddsa.signPoseidon(privateKey, F.e(message));
+        return {
+            R8x: toHex(F.toObject(signature.R8[0])),
+            R8y: toHex(F.toObject(signature.R8[1])),
+            S: toHex(signature.S),
+        };
+    }
+
+    /**
+     * Check a signature over a field element. Malformed keys and signatures
+     * do not verify.
+     */
+    public static verify(
+        message: bigint,
+        signature: IssuerSignature,
+        publicKey: IssuerPublicKey,
+    ): boolean {
+        const eddsa = this.getEddsa();
+        const { F } = eddsa.babyJub;
+
+        const parts: unknown[] = [
+            signature?.R8x,
+            signature?.R8y,
+            signature?.S,
+            publicKey?.x,
+            publicKey?.y,
+        ];
+        if (!parts.every((part) => typeof part === 'string' && HEX_PATTERN.test(part))) {
+            return false;
+        }
+
+        const [r8x, r8y, s, ax, ay] = (parts as string[]).map((part) => BigInt('0x' + part));
+        if ([r8x, r8y, ax, ay].some((coordinate) => coordinate >= F.p)) {
+            return false;
+        }
+
+        try {
+            return eddsa.verifyPoseidon(
+                F.e(message),
+                { R8: [F.e(r8x), F.e(r8y)], S: s },
+                [F.e(ax), F.e(ay)],
+            );
+        } catch {
+            return false;
+        }
+    }
+
+    private static getEddsa(): Eddsa {
+        if (!this.eddsa) {
+            throw new Error('EdDSA not initialized. Call initialize() first.');
+        }
+        return this.eddsa;
+    }
+}
+
+function toHex(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+function validatePrivateKey(privateKey: Buffer): void {
+    if (!Buffer.isBuffer(privateKey) || privateKey.length !== 32) {
+        throw new Error('EdDSA private key must be 32 bytes');
+    }
+}
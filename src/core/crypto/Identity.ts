@@ -0,0 +1,87 @@
+import { randomBytes } from 'crypto';
+import { PoseidonManager, SNARK_SCALAR_FIELD } from './PoseidonManager';
+import { SerializedIdentity } from '../../types/credential.types';
+import { ValidationError } from '../../utils/errors';
+
+const HEX_FIELD_PATTERN = /^[a-f0-9]{64}$/i;
+
+function toHex(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+function parseFieldHex(value: string, label: string): bigint {
+    if (typeof value !== 'string' || !HEX_FIELD_PATTERN.test(value)) {
+        throw new ValidationError(`${label}: must be a 64-character hex string`);
+    }
+    return BigInt('0x' + value);
+}
+
+/**
+ * A holder's identity: two random field elements that stay with the holder.
+ *
+ * Only the identity commitment Poseidon(secret, nullifier) is registered in a
+ * credential set. Proofs show knowledge of the commitment's preimage, and
+ * nullifier hashes are derived from `nullifier` alone, so `secret` is never
+ * used outside the commitment.
+ */
+export class Identity {
+    public readonly secret: bigint;
+    public readonly nullifier: bigint;
+
+    constructor(secret: bigint, nullifier: bigint) {
+        for (const [label, value] of [
+            ['Identity secret', secret],
+            ['Identity nullifier', nullifier],
+        ] as const) {
+            if (value <= BigInt(0) || value >= SNARK_SCALAR_FIELD) {
+                throw new ValidationError(`${label}: must be a non-zero field element`);
+            }
+        }
+
+        this.secret = secret;
+        this.nullifier = nullifier;
+    }
+
+    /**
+     * Create a fresh identity from 248 bits of randomness per component,
+     * which always fits in the field without reduction.
+     */
+    public static generate(): Identity {
+        return new Identity(
+            BigInt('0x' + randomBytes(31).toString('hex')),
+            BigInt('0x' + randomBytes(31).toString('hex')),
+        );
+    }
+
+    /**
+     * Restore an identity from its hex-encoded components.
+     */
+    public static fromJSON(serialized: SerializedIdentity): Identity {
+        return new Identity(
+            parseFieldHex(serialized.secret, 'Identity secret'),
+            parseFieldHex(serialized.nullifier, 'Identity nullifier'),
+        );
+    }
+
+    public toJSON(): SerializedIdentity {
+        return { secret: toHex(this.secret), nullifier: toHex(this.nullifier) };
+    }
+
+    /**
+     * The value registered in a credential set, as a 64-char hex string.
+     */
+    public getCommitment(): string {
+        return toHex(PoseidonManager.hashLeftRight(this.secret, this.nullifier));
+    }
+
+    /**
+     * The nullifier this identity produces in a scope:
+     * Poseidon(nullifier, externalNullifier) as a decimal string.
+     */
+    public getNullifierHash(externalNullifier: string): string {
+        return PoseidonManager.hashLeftRight(
+            this.nullifier,
+            PoseidonManager.stringToField(externalNullifier),
+        ).toString();
+    }
+}
@@ -47,16 +47,6 @@ export class KeyManager {
             .digest();
     }
 
-    /**
-     * Generate a nullifier from a credential and secret.
-     * The nullifier is deterministic for the same inputs but reveals nothing about the credential.
-     */
-    public generateNullifier(credential: string, secret: Buffer): string {
-        const key = this.deriveKey('nullifier');
-        const data = Buffer.concat([Buffer.from(credential), secret]);
-        return createHmac('sha256', key).update(data).digest('hex');
-    }
-
     /**
      * Generate a commitment to a credential value.
      */
@@ -1,6 +1,13 @@
 import { buildPoseidon } from 'circomlibjs';
 import { createHash } from 'crypto';
 
+/**
+ * Order of the BN254 scalar field; every circuit signal is below it.
+ */
+export const SNARK_SCALAR_FIELD = BigInt(
+    '21888242871839275222246405745257275088548364400416034343698204186575808495617',
+);
+
 /**
  * Manages the Poseidon hash function initialization and usage.
  * Poseidon is used for the Merkle Tree and ZK proofs.
@@ -18,6 +25,13 @@ export class PoseidonManager {
         }
     }
 
+    /**
+     * Whether {@link initialize} has completed.
+     */
+    public static isInitialized(): boolean {
+        return Boolean(this.poseidon);
+    }
+
     /**
      * Compute the Poseidon hash of an array of bigints (field elements).
      * Returns a bigint (field element).
@@ -0,0 +1,50 @@
+import { Logger } from '../../utils/logger';
+
+export type EventHandler<T> = (event: T) => void;
+
+/**
+ * In-process publish/subscribe for domain events, typed by an event map of
+ * event name to payload.
+ *
+ * Handlers run synchronously in subscription order, after the change that
+ * raised the event has been stored. A handler that throws is logged and
+ * does not affect the emitter or the other handlers.
+ */
+export class EventBus<Events extends object> {
+    private readonly handlers: Map<keyof Events, Set<EventHandler<never>>>;
+    private readonly logger: Logger;
+
+    constructor(logger: Logger) {
+        this.handlers = new Map();
+        this.logger = logger;
+    }
+
+    /**
+     * Subscribe to an event. Returns a function that unsubscribes.
+     */
+    public on<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): () => void {
+        let handlers = this.handlers.get(type);
+        if (!handlers) {
+            handlers = new Set();
+            this.handlers.set(type, handlers);
+        }
+        handlers.add(handler);
+
+        return () => {
+            handlers.delete(handler);
+        };
+    }
+
+    public emit<K extends keyof Events>(type: K, event: Events[K]): void {
+        for (const handler of this.handlers.get(type) ?? []) {
+            try {
+                (handler as EventHandler<Events[K]>)(event);
+            } catch (error) {
+                this.logger.error('Event handler failed', {
+                    event: String(type),
+                    message: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+    }
+}
@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { AppError, ErrorCode, NotFoundError, ValidationError } from '../../utils/errors';
+import { validateCommitment } from '../../utils/validators';
+import { EdDSAManager } from '../crypto/EdDSAManager';
+import { KeyManager } from '../crypto/KeyManager';
+import { Issuer, IssuedCredential } from '../../types/issuer.types';
+import { InMemoryIssuerStore, IssuerStore } from './IssuerStore';
+
+const MAX_NAME_LENGTH = 256;
+
+/**
+ * Holds the signing keys of the issuers this server acts for.
+ *
+ * Each issuer's BabyJubJub private key is derived from the master key by
+ * the issuer's ID, so it is never stored; the {@link IssuerStore} only
+ * records which issuers exist and their public keys. Restarting with a
+ * different master key leaves existing issuers unable to sign.
+ */
+export class IssuerKeyManager {
+    private readonly issuers: Map<string, Issuer>;
+    private readonly keyManager: KeyManager;
+    private readonly store: IssuerStore;
+    private readonly logger: Logger;
+
+    constructor(
+        logger: Logger,
+        keyManager: KeyManager,
+        store: IssuerStore = new InMemoryIssuerStore(),
+    ) {
+        this.issuers = new Map();
+        this.keyManager = keyManager;
+        this.store = store;
+        this.logger = logger;
+
+        for (const issuer of this.store.readAll()) {
+            this.issuers.set(issuer.id, issuer);
+        }
+    }
+
+    /**
+     * Create an issuer with a fresh signing key.
+     */
+    public createIssuer(name: string, actor: string = 'system'): Issuer {
+        if (typeof name !== 'string' || name.length === 0 || name.length > MAX_NAME_LENGTH) {
+            throw new ValidationError(`Issuer name must be 1-${MAX_NAME_LENGTH} characters`);
+        }
+
+        const id = uuidv4();
+        const issuer: Issuer = {
+            id,
+            name,
+            publicKey: EdDSAManager.derivePublicKey(this.getPrivateKey(id)),
+            createdAt: new Date(),
+        };
+
+        this.store.append(issuer);
+        this.issuers.set(id, issuer);
+
+        this.logger.info('Issuer created', {
+            issuerId: id,
+            publicKey: issuer.publicKey.x.substring(0, 16) + '...',
+            actor,
+        });
+
+        return issuer;
+    }
+
+    public getIssuer(issuerId: string): Issuer | undefined {
+        return this.issuers.get(issuerId);
+    }
+
+    public getAllIssuers(): Issuer[] {
+        return Array.from(this.issuers.values());
+    }
+
+    /**
+     * Sign a holder's identity commitment (or credential leaf) as the issuer.
+     */
+    public issueCredential(issuerId: string, commitment: string): IssuedCredential {
+        validateCommitment(commitment);
+
+        const issuer = this.issuers.get(issuerId);
+        if (!issuer) {
+            throw new NotFoundError(ErrorCode.ISSUER_NOT_FOUND, `Issuer not found: ${issuerId}`);
+        }
+
+        // A key derived under another master key would sign for a different public key
+        const privateKey = this.getPrivateKey(issuerId);
+        const publicKey = EdDSAManager.derivePublicKey(privateKey);
+        if (publicKey.x !== issuer.publicKey.x || publicKey.y !== issuer.publicKey.y) {
+            this.logger.error('Issuer key does not match the master key', { issuerId });
+            throw new AppError(
+                ErrorCode.ISSUER_KEY_UNAVAILABLE,
+                'Issuer signing key is unavailable',
+                500,
+            );
+        }
+
+        const normalized = commitment.toLowerCase();
+        return {
+            issuerId,
+            commitment: normalized,
+            publicKey: issuer.publicKey,
+            signature: EdDSAManager.sign(privateKey, BigInt('0x' + normalized)),
+        };
+    }
+
+    private getPrivateKey(issuerId: string): Buffer {
+        return this.keyManager.deriveKey(`issuer:${issuerId}`);
+    }
+}
@@ -0,0 +1,84 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+import { Issuer, IssuerPublicKey } from '../../types/issuer.types';
+
+/**
+ * Append-only storage for issuers created on this server. Private keys are
+ * derived from the master key, so only public keys are stored.
+ */
+export interface IssuerStore {
+    append(issuer: Issuer): void;
+    readAll(): Issuer[];
+}
+
+/**
+ * Keeps issuers in process memory. Contents are lost on restart.
+ */
+export class InMemoryIssuerStore implements IssuerStore {
+    private readonly issuers: Issuer[] = [];
+
+    public append(issuer: Issuer): void {
+        this.issuers.push(issuer);
+    }
+
+    public readAll(): Issuer[] {
+        return [...this.issuers];
+    }
+}
+
+interface SerializedIssuer {
+    readonly id: string;
+    readonly name: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly createdAt: string;
+}
+
+const issuerCodec: LogCodec<Issuer, SerializedIssuer> = {
+    serialize: (issuer) => ({
+        id: issuer.id,
+        name: issuer.name,
+        publicKey: issuer.publicKey,
+        createdAt: issuer.createdAt.toISOString(),
+    }),
+    deserialize: (line) => ({
+        id: line.id,
+        name: line.name,
+        publicKey: line.publicKey,
+        createdAt: new Date(line.createdAt),
+    }),
+};
+
+/**
+ * Persists issuers as newline-delimited JSON, one issuer per line.
+ */
+export class FileIssuerStore implements IssuerStore {
+    private readonly log: AppendOnlyLog<Issuer, SerializedIssuer>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(filePath, 'issuer', issuerCodec, logger);
+    }
+
+    public append(issuer: Issuer): void {
+        this.log.append(issuer);
+    }
+
+    public readAll(): Issuer[] {
+        return this.log.readAll();
+    }
+}
+
+/**
+ * Create the issuer store for the configured backend.
+ */
+export function createIssuerStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): IssuerStore {
+    if (backend === 'file') {
+        return new FileIssuerStore(join(dataDir, 'issuers.log'), logger);
+    }
+    return new InMemoryIssuerStore();
+}
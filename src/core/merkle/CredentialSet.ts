@@ -1,77 +1,147 @@
 import { v4 as uuidv4 } from 'uuid';
-import { SecureMerkleTree } from './MerkleTree';
-import { CredentialSet, CredentialSetType } from '../../types/credential.types';
+import { DEFAULT_TREE_DEPTH, SecureMerkleTree } from './MerkleTree';
+import {
+    AttributeSchema,
+    CredentialSet,
+    CredentialSetEvents,
+    CredentialSetType,
+    CredentialSetUpdate,
+} from '../../types/credential.types';
+import { validateAttributeSchema } from '../crypto/AttributeCredential';
 import { MerkleProof } from '../../types/proof.types';
 import { Logger } from '../../utils/logger';
-import { validateCredentials } from '../../utils/validators';
-import { CredentialError, ErrorCode } from '../../utils/errors';
-
-interface CredentialSetData {
-    credentialSet: CredentialSet;
-    tree: SecureMerkleTree;
-    type: CredentialSetType;
-}
+import { validateCommitments } from '../../utils/validators';
+import { CredentialError, ErrorCode, StorageError, ValidationError } from '../../utils/errors';
+import { CredentialSetStore, InMemoryCredentialSetStore } from './CredentialSetStore';
+import { config } from '../../config/environment';
+import { EventBus } from '../events/EventBus';
 
 /**
- * Manages credential sets — groups of credentials with associated Merkle trees.
- * Provides proof generation and credential verification capabilities.
+ * Manages credential sets — groups of identity commitments with associated
+ * Merkle trees. Provides proof generation and membership verification.
+ *
+ * Holders keep their identity secrets; only commitments are registered, so
+ * a set reveals nothing about who or what its members are.
+ *
+ * Sets are kept in a pluggable {@link CredentialSetStore}; Merkle trees are
+ * cached in memory and rebuilt lazily from the stored commitments.
+ *
+ * Creations, updates and deletions are announced on the optional event bus
+ * once stored.
  */
 export class CredentialSetManager {
-    private readonly credentialSets: Map<string, CredentialSetData>;
+    private readonly store: CredentialSetStore;
+    private readonly trees: Map<string, SecureMerkleTree>;
+    private readonly events?: EventBus<CredentialSetEvents>;
     private readonly logger: Logger;
 
-    constructor(logger: Logger) {
-        this.credentialSets = new Map();
+    constructor(
+        logger: Logger,
+        store: CredentialSetStore = new InMemoryCredentialSetStore(),
+        events?: EventBus<CredentialSetEvents>,
+    ) {
+        this.store = store;
+        this.trees = new Map();
+        this.events = events;
         this.logger = logger;
     }
 
     /**
-     * Create a new credential set with an associated Merkle tree.
+     * Create a new credential set from identity commitments.
+     *
+     * @param treeDepth - Depth of the set's Merkle tree; proofs for the set
+     *   use a circuit compiled for this depth. Fixed for the life of the set.
+     * @param attributeSchema - Makes the set an attribute set, whose leaves
+     *   are `AttributeCredential` leaves issued under this schema rather
+     *   than bare commitments. Fixed for the life of the set.
+     * @param issuerId - Issuer that signs the set's commitments. Fixed for
+     *   the life of the set.
      */
     public createCredentialSet(
         name: string,
-        credentials: string[],
+        commitments: string[],
         description: string = '',
         type: CredentialSetType = CredentialSetType.CUSTOM,
+        treeDepth: number = DEFAULT_TREE_DEPTH,
+        attributeSchema?: AttributeSchema,
+        issuerId?: string,
     ): CredentialSet {
-        // Validate all credentials
-        validateCredentials(credentials);
+        // Validate all commitments
+        validateCommitments(commitments);
+        if (attributeSchema !== undefined) {
+            validateAttributeSchema(attributeSchema);
+        }
 
-        const tree = new SecureMerkleTree(credentials, this.logger);
+        if (!Number.isInteger(treeDepth) || treeDepth < 1 || treeDepth > config.maxMerkleDepth) {
+            throw new ValidationError(
+                `treeDepth must be an integer from 1 to ${config.maxMerkleDepth}`,
+            );
+        }
+        if (commitments.length > 2 ** treeDepth) {
+            throw new ValidationError(`Too many commitments for a tree of depth ${treeDepth}`);
+        }
+
+        const normalized = commitments.map((commitment) => commitment.toLowerCase());
+        const tree = new SecureMerkleTree(normalized, this.logger, treeDepth);
         const id = uuidv4();
 
         const credentialSet: CredentialSet = {
             id,
             name,
             description,
-            credentials: Object.freeze([...credentials]),
+            commitments: Object.freeze(normalized),
+            treeDepth,
             merkleRoot: tree.getRoot(),
             createdAt: new Date(),
             version: '1.0.0',
+            rootHistory: [],
+            ...(attributeSchema !== undefined && {
+                attributeSchema: Object.freeze(
+                    attributeSchema.map((definition) => ({
+                        name: definition.name,
+                        type: definition.type,
+                    })),
+                ),
+            }),
+            ...(issuerId !== undefined && { issuerId }),
         };
 
-        this.credentialSets.set(id, {
-            credentialSet,
-            tree,
-            type,
-        });
+        this.store.save({ credentialSet, type });
+        this.trees.set(id, tree);
 
         this.logger.info('Credential set created', {
             id,
             name,
-            credentialsCount: credentials.length,
+            commitmentsCount: normalized.length,
+            treeDepth,
             merkleRoot: tree.getRoot(),
         });
+        this.events?.emit('credential-set.created', { credentialSet });
 
         return credentialSet;
     }
 
     /**
-     * Generate a Merkle inclusion proof for a credential in a set.
+     * Register commitments in an existing set. New commitments are appended,
+     * so existing members keep their leaf positions.
      */
-    public generateProof(setId: string, credential: string): MerkleProof {
-        const data = this.credentialSets.get(setId);
+    public addCommitments(setId: string, commitments: string[]): CredentialSet {
+        return this.updateCredentialSet(setId, { add: commitments });
+    }
+
+    /**
+     * Remove commitments from an existing set.
+     */
+    public removeCommitments(setId: string, commitments: string[]): CredentialSet {
+        return this.updateCredentialSet(setId, { remove: commitments });
+    }
 
+    /**
+     * Apply additions and removals to a set as a single new version.
+     * The previous root is recorded in the set's root history.
+     */
+    public updateCredentialSet(setId: string, update: CredentialSetUpdate): CredentialSet {
+        const data = this.store.get(setId);
         if (!data) {
             throw new CredentialError(
                 ErrorCode.CREDENTIAL_SET_NOT_FOUND,
@@ -79,11 +149,82 @@ export class CredentialSetManager {
             );
         }
 
-        const { credentialSet, tree } = data;
-        const index = credentialSet.credentials.indexOf(credential);
+        const previous = data.credentialSet;
+        const toAdd = (update.add ?? []).map((commitment) => commitment.toLowerCase());
+        const toRemove = new Set(
+            (update.remove ?? []).map((commitment) => commitment.toLowerCase()),
+        );
+
+        if (toAdd.length === 0 && toRemove.size === 0) {
+            throw new ValidationError('Update must add or remove at least one commitment');
+        }
+
+        for (const commitment of toRemove) {
+            if (!previous.commitments.includes(commitment)) {
+                // Generic error message — don't reveal which commitments exist
+                throw new CredentialError(ErrorCode.CREDENTIAL_NOT_FOUND, 'Invalid credential');
+            }
+        }
+
+        const commitments = [
+            ...previous.commitments.filter((commitment) => !toRemove.has(commitment)),
+            ...toAdd,
+        ];
+        validateCommitments(commitments);
+        if (commitments.length > 2 ** previous.treeDepth) {
+            throw new ValidationError(
+                `Too many commitments for a tree of depth ${previous.treeDepth}`,
+            );
+        }
+
+        const tree = new SecureMerkleTree(commitments, this.logger, previous.treeDepth);
+        const now = new Date();
+
+        const credentialSet: CredentialSet = {
+            ...previous,
+            commitments: Object.freeze(commitments),
+            merkleRoot: tree.getRoot(),
+            updatedAt: now,
+            version: bumpVersion(previous.version),
+            rootHistory: [
+                ...previous.rootHistory,
+                {
+                    merkleRoot: previous.merkleRoot,
+                    version: previous.version,
+                    supersededAt: now,
+                },
+            ],
+        };
+
+        this.store.save({ credentialSet, type: data.type });
+        this.trees.set(setId, tree);
+
+        this.logger.info('Credential set updated', {
+            id: setId,
+            version: credentialSet.version,
+            added: toAdd.length,
+            removed: toRemove.size,
+            merkleRoot: credentialSet.merkleRoot,
+        });
+        this.events?.emit('credential-set.updated', {
+            credentialSet,
+            previous: credentialSet.rootHistory[credentialSet.rootHistory.length - 1],
+        });
+
+        return credentialSet;
+    }
+
+    /**
+     * Generate a Merkle inclusion proof for a leaf of a set: an identity
+     * commitment, or a credential leaf in an attribute set.
+     */
+    public generateProof(setId: string, commitment: string): MerkleProof {
+        const credentialSet = this.requireSet(setId);
+        const tree = this.getTree(credentialSet);
+        const index = credentialSet.commitments.indexOf(commitment.toLowerCase());
 
         if (index === -1) {
-            // Generic error message — don't reveal which credentials exist
+            // Generic error message — don't reveal which commitments exist
             throw new CredentialError(ErrorCode.CREDENTIAL_NOT_FOUND, 'Invalid credential');
         }
 
@@ -91,20 +232,13 @@ export class CredentialSetManager {
     }
 
     /**
-     * Verify a credential's membership using a Merkle proof.
+     * Verify a commitment's membership using a Merkle proof.
      */
     public verifyCredential(setId: string, proof: MerkleProof): boolean {
-        const data = this.credentialSets.get(setId);
-
-        if (!data) {
-            throw new CredentialError(
-                ErrorCode.CREDENTIAL_SET_NOT_FOUND,
-                `Credential set not found: ${setId}`,
-            );
-        }
+        const credentialSet = this.requireSet(setId);
 
         // Verify root matches
-        if (proof.root !== data.credentialSet.merkleRoot) {
+        if (proof.root !== credentialSet.merkleRoot) {
             return false;
         }
 
@@ -116,24 +250,28 @@ export class CredentialSetManager {
      * Retrieve a credential set by ID. Returns undefined if not found.
      */
     public getCredentialSet(setId: string): CredentialSet | undefined {
-        const data = this.credentialSets.get(setId);
-        return data?.credentialSet;
+        return this.store.get(setId)?.credentialSet;
     }
 
     /**
      * List all credential sets.
      */
     public getAllSets(): CredentialSet[] {
-        return Array.from(this.credentialSets.values()).map((data) => data.credentialSet);
+        return this.store.getAll().map((data) => data.credentialSet);
     }
 
     /**
      * Delete a credential set.
      */
     public deleteCredentialSet(setId: string): boolean {
-        const existed = this.credentialSets.delete(setId);
+        const existed = this.store.delete(setId);
+        this.trees.delete(setId);
         if (existed) {
             this.logger.info('Credential set deleted', { setId });
+            this.events?.emit('credential-set.deleted', {
+                credentialSetId: setId,
+                deletedAt: new Date(),
+            });
         }
         return existed;
     }
@@ -142,6 +280,57 @@ export class CredentialSetManager {
      * Get the number of managed credential sets.
      */
     public getSetCount(): number {
-        return this.credentialSets.size;
+        return this.store.count();
+    }
+
+    private requireSet(setId: string): CredentialSet {
+        const data = this.store.get(setId);
+
+        if (!data) {
+            throw new CredentialError(
+                ErrorCode.CREDENTIAL_SET_NOT_FOUND,
+                `Credential set not found: ${setId}`,
+            );
+        }
+
+        return data.credentialSet;
+    }
+
+    /**
+     * Return the cached tree for a set, rebuilding it from the stored
+     * commitments on first use. A rebuilt root that differs from the stored
+     * root means the stored set has been tampered with or corrupted.
+     */
+    private getTree(credentialSet: CredentialSet): SecureMerkleTree {
+        const cached = this.trees.get(credentialSet.id);
+        if (cached) {
+            return cached;
+        }
+
+        const tree = new SecureMerkleTree(
+            [...credentialSet.commitments],
+            this.logger,
+            credentialSet.treeDepth,
+        );
+        if (tree.getRoot() !== credentialSet.merkleRoot) {
+            this.logger.error('Rebuilt Merkle root does not match stored root', {
+                id: credentialSet.id,
+            });
+            throw new StorageError(`Stored credential set is inconsistent: ${credentialSet.id}`);
+        }
+
+        this.trees.set(credentialSet.id, tree);
+        return tree;
+    }
+}
+
+/**
+ * Increment the minor component of a semantic version string.
+ */
+function bumpVersion(version: string): string {
+    const [major, minor] = version.split('.').map((part) => parseInt(part, 10));
+    if (isNaN(major) || isNaN(minor)) {
+        return '1.0.0';
     }
+    return `${major}.${minor + 1}.0`;
 }
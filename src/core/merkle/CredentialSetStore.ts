@@ -0,0 +1,220 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { AttributeSchema, CredentialSet, CredentialSetType } from '../../types/credential.types';
+import { Logger } from '../../utils/logger';
+import { StorageError } from '../../utils/errors';
+import { StorageBackend } from '../../config/environment';
+import { DEFAULT_TREE_DEPTH } from './MerkleTree';
+
+/**
+ * A credential set as persisted by a store. Merkle trees are never persisted;
+ * they are rebuilt from the commitments when first needed.
+ */
+export interface StoredCredentialSet {
+    readonly credentialSet: CredentialSet;
+    readonly type: CredentialSetType;
+}
+
+/**
+ * Storage backend for credential sets.
+ */
+export interface CredentialSetStore {
+    get(setId: string): StoredCredentialSet | undefined;
+    getAll(): StoredCredentialSet[];
+    save(record: StoredCredentialSet): void;
+    delete(setId: string): boolean;
+    count(): number;
+}
+
+/**
+ * Keeps credential sets in process memory. Contents are lost on restart.
+ */
+export class InMemoryCredentialSetStore implements CredentialSetStore {
+    protected readonly records: Map<string, StoredCredentialSet> = new Map();
+
+    public get(setId: string): StoredCredentialSet | undefined {
+        return this.records.get(setId);
+    }
+
+    public getAll(): StoredCredentialSet[] {
+        return Array.from(this.records.values());
+    }
+
+    public save(record: StoredCredentialSet): void {
+        this.records.set(record.credentialSet.id, record);
+    }
+
+    public delete(setId: string): boolean {
+        return this.records.delete(setId);
+    }
+
+    public count(): number {
+        return this.records.size;
+    }
+}
+
+interface CredentialSetFile {
+    readonly version: number;
+    readonly sets: SerializedCredentialSet[];
+}
+
+interface SerializedCredentialSet {
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+    readonly commitments: string[];
+    /** Absent in files written before per-set depths; those sets are depth 20 */
+    readonly treeDepth?: number;
+    readonly merkleRoot: string;
+    readonly createdAt: string;
+    readonly updatedAt?: string;
+    readonly version: string;
+    readonly rootHistory?: SerializedRootHistoryEntry[];
+    readonly attributeSchema?: AttributeSchema;
+    readonly issuerId?: string;
+    readonly type: CredentialSetType;
+}
+
+interface SerializedRootHistoryEntry {
+    readonly merkleRoot: string;
+    readonly version: string;
+    readonly supersededAt: string;
+}
+
+// Version 1 stored plaintext credentials and cannot be migrated to commitments
+const FILE_FORMAT_VERSION = 2;
+
+/**
+ * Persists credential sets to a local JSON file.
+ *
+ * The whole file is rewritten on every change via write-to-temp + rename,
+ * so a crash mid-write never leaves a truncated file behind. Memory is
+ * only updated once the file is written, so a failed write changes nothing.
+ */
+export class FileCredentialSetStore extends InMemoryCredentialSetStore {
+    private readonly filePath: string;
+    private readonly logger: Logger;
+
+    constructor(filePath: string, logger: Logger) {
+        super();
+        this.filePath = filePath;
+        this.logger = logger;
+        this.load();
+    }
+
+    public save(record: StoredCredentialSet): void {
+        const records = new Map(this.records).set(record.credentialSet.id, record);
+        this.flush(Array.from(records.values()));
+        super.save(record);
+    }
+
+    public delete(setId: string): boolean {
+        if (!this.records.has(setId)) {
+            return false;
+        }
+        this.flush(this.getAll().filter(({ credentialSet }) => credentialSet.id !== setId));
+        return super.delete(setId);
+    }
+
+    private load(): void {
+        if (!existsSync(this.filePath)) {
+            return;
+        }
+
+        let parsed: CredentialSetFile;
+        try {
+            parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as CredentialSetFile;
+        } catch (error) {
+            this.logger.error('Failed to read credential set store', {
+                filePath: this.filePath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new StorageError('Credential set store is unreadable');
+        }
+
+        if (parsed.version !== FILE_FORMAT_VERSION || !Array.isArray(parsed.sets)) {
+            throw new StorageError(`Unsupported credential set store format: ${this.filePath}`);
+        }
+
+        for (const entry of parsed.sets) {
+            this.records.set(entry.id, {
+                credentialSet: {
+                    id: entry.id,
+                    name: entry.name,
+                    description: entry.description,
+                    commitments: Object.freeze([...entry.commitments]),
+                    treeDepth: entry.treeDepth ?? DEFAULT_TREE_DEPTH,
+                    merkleRoot: entry.merkleRoot,
+                    createdAt: new Date(entry.createdAt),
+                    updatedAt: entry.updatedAt ? new Date(entry.updatedAt) : undefined,
+                    version: entry.version,
+                    rootHistory: (entry.rootHistory ?? []).map((h) => ({
+                        merkleRoot: h.merkleRoot,
+                        version: h.version,
+                        supersededAt: new Date(h.supersededAt),
+                    })),
+                    attributeSchema: entry.attributeSchema,
+                    issuerId: entry.issuerId,
+                },
+                type: entry.type,
+            });
+        }
+
+        this.logger.info('Credential sets loaded from disk', {
+            filePath: this.filePath,
+            count: this.records.size,
+        });
+    }
+
+    private flush(records: readonly StoredCredentialSet[]): void {
+        const contents: CredentialSetFile = {
+            version: FILE_FORMAT_VERSION,
+            sets: records.map(({ credentialSet, type }) => ({
+                id: credentialSet.id,
+                name: credentialSet.name,
+                description: credentialSet.description,
+                commitments: [...credentialSet.commitments],
+                treeDepth: credentialSet.treeDepth,
+                merkleRoot: credentialSet.merkleRoot,
+                createdAt: credentialSet.createdAt.toISOString(),
+                updatedAt: credentialSet.updatedAt?.toISOString(),
+                version: credentialSet.version,
+                rootHistory: credentialSet.rootHistory.map((h) => ({
+                    merkleRoot: h.merkleRoot,
+                    version: h.version,
+                    supersededAt: h.supersededAt.toISOString(),
+                })),
+                attributeSchema: credentialSet.attributeSchema,
+                issuerId: credentialSet.issuerId,
+                type,
+            })),
+        };
+
+        const tmpPath = `${this.filePath}.tmp`;
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            writeFileSync(tmpPath, JSON.stringify(contents, null, 2), { mode: 0o600 });
+            renameSync(tmpPath, this.filePath);
+        } catch (error) {
+            this.logger.error('Failed to write credential set store', {
+                filePath: this.filePath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new StorageError('Failed to persist credential sets');
+        }
+    }
+}
+
+/**
+ * Create the credential set store for the configured backend.
+ */
+export function createCredentialSetStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): CredentialSetStore {
+    if (backend === 'file') {
+        return new FileCredentialSetStore(join(dataDir, 'credential-sets.json'), logger);
+    }
+    return new InMemoryCredentialSetStore();
+}
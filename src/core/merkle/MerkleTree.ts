@@ -1,65 +1,91 @@
-import { MerkleTree as MerkleTreeJS } from 'merkletreejs';
 import { MerkleProof, MerkleProofElement } from '../../types/proof.types';
 import { Logger } from '../../utils/logger';
 import { PoseidonManager } from '../../core/crypto/PoseidonManager';
 
 /**
- * Secure Merkle Tree using Poseidon hash for ZK compatibility.
- * 
- * Features:
- * - Poseidon hashing (ZK-friendly)
- * - Sorted pairs
- * - Constant-time root comparison
+ * Depth of the Merkle tree proven by `circuits/identity.circom`
+ * (`component main = IdentityProof(20)`).
+ */
+export const DEFAULT_TREE_DEPTH = 20;
+
+/** Value of an unused leaf slot. */
+const EMPTY_LEAF = BigInt(0);
+
+const zeroHashCache: bigint[] = [EMPTY_LEAF];
+
+/**
+ * Root of an empty subtree at each level: zeros[0] is the empty leaf and
+ * zeros[i + 1] = Poseidon(zeros[i], zeros[i]).
+ */
+function getZeroHashes(depth: number): bigint[] {
+    while (zeroHashCache.length <= depth) {
+        const below = zeroHashCache[zeroHashCache.length - 1];
+        zeroHashCache.push(PoseidonManager.hashLeftRight(below, below));
+    }
+    return zeroHashCache.slice(0, depth + 1);
+}
+
+function toHex(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+/**
+ * Fixed-depth, index-ordered Poseidon Merkle tree.
+ *
+ * Construction is bit-for-bit compatible with `MerkleTreeInclusionProof` in
+ * `circuits/merkle.circom`:
+ * - Leaf i sits at position i; unused positions hold the empty leaf (0)
+ * - Leaves are field elements given as 64-char hex strings and are inserted
+ *   as-is; for credential sets they are identity commitments
+ * - At each level, pathIndices[i] = 0 hashes (current, sibling) and
+ *   pathIndices[i] = 1 hashes (sibling, current)
+ * - Empty subtrees use precomputed zero hashes, so proofs always carry
+ *   exactly `depth` siblings and need no padding
  */
 export class SecureMerkleTree {
-    private readonly tree: MerkleTreeJS;
-    private readonly leaves: Buffer[];
+    private readonly depth: number;
+    private readonly layers: bigint[][];
+    private readonly zeros: bigint[];
     private readonly logger: Logger;
 
-    constructor(leaves: string[], logger: Logger) {
+    constructor(leaves: string[], logger: Logger, depth: number = DEFAULT_TREE_DEPTH) {
         this.logger = logger;
 
         if (!leaves || leaves.length === 0) {
             throw new Error('Cannot create Merkle tree with empty leaves');
         }
 
-        // 1. Convert leaves to Field Elements (BigInt) via SHA256 % p
-        this.leaves = leaves.map((leaf) => {
-            const bi = PoseidonManager.stringToField(leaf);
-            // Store as 32-byte BE Buffer for merkletreejs
-            return Buffer.from(bi.toString(16).padStart(64, '0'), 'hex');
+        if (!Number.isInteger(depth) || depth < 1 || depth > 32) {
+            throw new Error(`Invalid tree depth: ${depth}`);
+        }
+
+        if (leaves.length > 2 ** depth) {
+            throw new Error(`Too many leaves for a tree of depth ${depth}`);
+        }
+
+        leaves.forEach((leaf, i) => {
+            if (!/^[a-f0-9]{64}$/i.test(leaf)) {
+                throw new Error(`Invalid leaf at index ${i}: must be a 64-character hex string`);
+            }
         });
 
-        // 2. Build tree using Poseidon hash
-        this.tree = new MerkleTreeJS(
-            this.leaves,
-            (data: Buffer) => {
-                // merkletreejs passes concatenated children (left + right)
-                // We assume 32-byte hash size
-                if (data.length !== 64) {
-                    // If data length is not 64, it implies odd leaf being hashed?
-                    // But we use sortPairs and 2-arity.
-                    // If only one node, it might duplicate?
-                    // merkletreejs behavior: hash(node) if single?
-                    // But we set fillDefaultHash usually...
-                    // Let's assume standard interaction.
-                    // If odd, merkletreejs duplicates last?
-                    throw new Error(`Unexpected data length for internal node hash: ${data.length}`);
-                }
-                const left = BigInt('0x' + data.subarray(0, 32).toString('hex'));
-                const right = BigInt('0x' + data.subarray(32).toString('hex'));
-                const hash = PoseidonManager.hashLeftRight(left, right);
-                return Buffer.from(hash.toString(16).padStart(64, '0'), 'hex');
-            },
-            {
-                sortPairs: true,
-                hashLeaves: false, // input leaves are already hashed/converted
-            },
-        );
+        this.depth = depth;
+        this.zeros = getZeroHashes(depth);
+        this.layers = [leaves.map((leaf) => BigInt('0x' + leaf))];
+
+        for (let level = 0; level < depth; level++) {
+            const current = this.layers[level];
+            const next: bigint[] = [];
+            for (let i = 0; i < current.length; i += 2) {
+                const right = i + 1 < current.length ? current[i + 1] : this.zeros[level];
+                next.push(PoseidonManager.hashLeftRight(current[i], right));
+            }
+            this.layers.push(next);
+        }
 
         this.logger.info('Merkle tree created', {
             leavesCount: leaves.length,
-            treeDepth: this.tree.getDepth(),
+            treeDepth: depth,
             root: this.getRoot(),
         });
     }
@@ -68,33 +94,36 @@ export class SecureMerkleTree {
      * Returns the hex-encoded root hash.
      */
     public getRoot(): string {
-        return this.tree.getRoot().toString('hex');
+        return toHex(this.layers[this.depth][0]);
     }
 
     /**
      * Generate a Merkle inclusion proof for a leaf at the given index.
      */
     public getProof(leafIndex: number): MerkleProof {
-        if (leafIndex < 0 || leafIndex >= this.leaves.length) {
+        if (leafIndex < 0 || leafIndex >= this.layers[0].length) {
             throw new Error(`Invalid leaf index: ${leafIndex}`);
         }
 
-        const leaf = this.leaves[leafIndex];
-        const proof = this.tree.getProof(leaf);
+        const siblings: MerkleProofElement[] = [];
+        const pathIndices: number[] = [];
+
+        let index = leafIndex;
+        for (let level = 0; level < this.depth; level++) {
+            const isRight = index & 1;
+            const sibling = this.layers[level][index ^ 1] ?? this.zeros[level];
 
-        const siblings: MerkleProofElement[] = proof.map(
-            (element: { data: Buffer; position: string }) => ({
-                hash: element.data.toString('hex'),
-                position: element.position as 'left' | 'right',
-            }),
-        );
+            siblings.push({
+                hash: toHex(sibling),
+                position: isRight ? 'left' : 'right',
+            });
+            pathIndices.push(isRight);
 
-        const pathIndices = proof.map((element: { position: string }) =>
-            element.position === 'right' ? 1 : 0,
-        );
+            index >>= 1;
+        }
 
         return {
-            leaf: leaf.toString('hex'),
+            leaf: this.getLeafHash(leafIndex),
             leafIndex,
             root: this.getRoot(),
             siblings,
@@ -103,42 +132,48 @@ export class SecureMerkleTree {
     }
 
     /**
-     * Verify a Merkle proof using Poseidon.
+     * Verify a Merkle proof using Poseidon, following the circuit's
+     * index-ordered hashing.
      */
     public static verify(proof: MerkleProof): boolean {
-        const { leaf, root, siblings } = proof;
+        const { leaf, root, siblings, pathIndices } = proof;
 
-        let currentHash = BigInt('0x' + leaf);
+        if (siblings.length === 0 || siblings.length !== pathIndices.length) {
+            return false;
+        }
 
-        for (const sibling of siblings) {
-            const siblingHash = BigInt('0x' + sibling.hash);
+        let currentHash = BigInt('0x' + leaf);
 
-            // Sort pairs to match tree construction (sortPairs: true)
-            // Left is smaller
-            const left = currentHash <= siblingHash ? currentHash : siblingHash;
-            const right = currentHash <= siblingHash ? siblingHash : currentHash;
+        for (let i = 0; i < siblings.length; i++) {
+            const siblingHash = BigInt('0x' + siblings[i].hash);
 
-            currentHash = PoseidonManager.hashLeftRight(left, right);
+            if (pathIndices[i] === 0) {
+                currentHash = PoseidonManager.hashLeftRight(currentHash, siblingHash);
+            } else if (pathIndices[i] === 1) {
+                currentHash = PoseidonManager.hashLeftRight(siblingHash, currentHash);
+            } else {
+                return false;
+            }
         }
 
-        const calculatedRoot = currentHash;
-        const expectedRoot = BigInt('0x' + root);
-
-        return calculatedRoot === expectedRoot;
+        return currentHash === BigInt('0x' + root);
     }
 
+    /**
+     * Fixed depth of the tree (number of siblings in every proof).
+     */
     public getDepth(): number {
-        return this.tree.getDepth();
+        return this.depth;
     }
 
     public getLeafCount(): number {
-        return this.leaves.length;
+        return this.layers[0].length;
     }
 
     public getLeafHash(index: number): string {
-        if (index < 0 || index >= this.leaves.length) {
+        if (index < 0 || index >= this.layers[0].length) {
             throw new Error(`Invalid leaf index: ${index}`);
         }
-        return this.leaves[index].toString('hex');
+        return toHex(this.layers[0][index]);
     }
 }
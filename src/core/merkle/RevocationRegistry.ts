@@ -0,0 +1,203 @@
+import { Logger } from '../../utils/logger';
+import { CredentialError, ErrorCode, StorageError, ValidationError } from '../../utils/errors';
+import { validateCommitments } from '../../utils/validators';
+import { NonMembershipProof } from '../../types/proof.types';
+import { SparseMerkleTree } from './SparseMerkleTree';
+import { InMemoryRevocationStore, RevocationLogEntry, RevocationStore } from './RevocationStore';
+
+/**
+ * Revocation state of one credential set.
+ */
+export interface RevocationStatus {
+    readonly credentialSetId: string;
+    /** Root verifiers require non-membership in; absent until first published */
+    readonly revocationRoot?: string;
+    readonly publishedAt?: Date;
+    /** Commitments in the published tree */
+    readonly revokedCount: number;
+    /** Commitments revoked but not yet published */
+    readonly pendingCount: number;
+}
+
+interface SetRevocations {
+    readonly tree: SparseMerkleTree;
+    readonly pending: string[];
+    publishedAt?: Date;
+}
+
+/**
+ * Revokes individual identity commitments without changing a set's issuance
+ * tree. Each set has a sparse Merkle tree of revoked commitments; holders
+ * prove non-membership in it alongside membership in the set.
+ *
+ * Revocations are staged and take effect when published: publishing adds the
+ * staged commitments to the tree, and from then on verifiers accept only
+ * proofs against the new root. Every change is appended to a
+ * {@link RevocationStore} first, and the store is replayed on construction.
+ */
+export class RevocationRegistry {
+    private readonly sets: Map<string, SetRevocations>;
+    private readonly store: RevocationStore;
+    private readonly logger: Logger;
+
+    constructor(logger: Logger, store: RevocationStore = new InMemoryRevocationStore()) {
+        this.sets = new Map();
+        this.store = store;
+        this.logger = logger;
+
+        for (const entry of this.store.readAll()) {
+            this.apply(entry);
+        }
+    }
+
+    /**
+     * Stage commitments for revocation. Returns the number now pending.
+     */
+    public revoke(
+        credentialSetId: string,
+        commitments: string[],
+        actor: string = 'system',
+    ): number {
+        validateCommitments(commitments);
+
+        const revocations = this.getOrCreate(credentialSetId);
+        const normalized = commitments.map((commitment) => commitment.toLowerCase());
+        for (const commitment of normalized) {
+            if (revocations.tree.has(commitment) || revocations.pending.includes(commitment)) {
+                throw new ValidationError('Commitment is already revoked');
+            }
+        }
+
+        const at = new Date();
+        for (const commitment of normalized) {
+            const entry: RevocationLogEntry = {
+                action: 'revoke',
+                credentialSetId,
+                commitment,
+                actor,
+                at,
+            };
+            this.store.append(entry);
+            this.apply(entry);
+        }
+
+        this.logger.info('Commitments revoked', {
+            credentialSetId,
+            count: normalized.length,
+            pending: revocations.pending.length,
+            actor,
+        });
+
+        return revocations.pending.length;
+    }
+
+    /**
+     * Add every pending revocation to the set's tree and publish its root.
+     */
+    public publish(credentialSetId: string, actor: string = 'system'): RevocationStatus {
+        const revocations = this.sets.get(credentialSetId);
+        if (!revocations || revocations.pending.length === 0) {
+            throw new ValidationError('No pending revocations to publish');
+        }
+
+        // Compute the root on a copy so a failed append leaves the tree untouched
+        const tree = revocations.tree.clone();
+        for (const commitment of revocations.pending) {
+            tree.insert(commitment);
+        }
+
+        const entry: RevocationLogEntry = {
+            action: 'publish',
+            credentialSetId,
+            revocationRoot: tree.getRoot(),
+            actor,
+            at: new Date(),
+        };
+        this.store.append(entry);
+        this.apply(entry);
+
+        this.logger.info('Revocation root published', {
+            credentialSetId,
+            revocationRoot: entry.revocationRoot,
+            actor,
+        });
+
+        return this.getStatus(credentialSetId);
+    }
+
+    public getStatus(credentialSetId: string): RevocationStatus {
+        const revocations = this.sets.get(credentialSetId);
+        return {
+            credentialSetId,
+            revocationRoot: revocations?.publishedAt ? revocations.tree.getRoot() : undefined,
+            publishedAt: revocations?.publishedAt,
+            revokedCount: revocations?.tree.getSize() ?? 0,
+            pendingCount: revocations?.pending.length ?? 0,
+        };
+    }
+
+    /**
+     * The published revocation root of a set, if revocations were ever published.
+     */
+    public getPublishedRoot(credentialSetId: string): string | undefined {
+        return this.getStatus(credentialSetId).revocationRoot;
+    }
+
+    /**
+     * Whether a commitment is in the set's published revocation tree.
+     */
+    public isRevoked(credentialSetId: string, commitment: string): boolean {
+        return this.sets.get(credentialSetId)?.tree.has(commitment.toLowerCase()) ?? false;
+    }
+
+    /**
+     * Prove a commitment is absent from the published revocation tree.
+     * Returns undefined when the set has no published revocations, in which
+     * case no non-revocation proof is required.
+     */
+    public getNonMembershipProof(
+        credentialSetId: string,
+        commitment: string,
+    ): NonMembershipProof | undefined {
+        const revocations = this.sets.get(credentialSetId);
+        if (!revocations?.publishedAt) {
+            return undefined;
+        }
+
+        if (this.isRevoked(credentialSetId, commitment)) {
+            throw new CredentialError(ErrorCode.CREDENTIAL_REVOKED, 'Credential has been revoked');
+        }
+
+        return revocations.tree.getNonMembershipProof(commitment.toLowerCase());
+    }
+
+    private getOrCreate(credentialSetId: string): SetRevocations {
+        let revocations = this.sets.get(credentialSetId);
+        if (!revocations) {
+            revocations = { tree: new SparseMerkleTree(this.logger), pending: [] };
+            this.sets.set(credentialSetId, revocations);
+        }
+        return revocations;
+    }
+
+    private apply(entry: RevocationLogEntry): void {
+        const revocations = this.getOrCreate(entry.credentialSetId);
+
+        if (entry.action === 'revoke') {
+            revocations.pending.push(entry.commitment as string);
+            return;
+        }
+
+        for (const commitment of revocations.pending.splice(0)) {
+            revocations.tree.insert(commitment);
+        }
+        revocations.publishedAt = entry.at;
+
+        if (revocations.tree.getRoot() !== entry.revocationRoot) {
+            this.logger.error('Replayed revocation root does not match the log', {
+                credentialSetId: entry.credentialSetId,
+            });
+            throw new StorageError(`Revocation log is inconsistent: ${entry.credentialSetId}`);
+        }
+    }
+}
@@ -0,0 +1,110 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+
+/**
+ * Kinds of change recorded in the revocation log. A `revoke` entry stages a
+ * commitment; a `publish` entry adds every staged commitment of the set to
+ * its revocation tree and records the resulting root.
+ */
+export type RevocationLogAction = 'revoke' | 'publish';
+
+/**
+ * A single entry in the revocation log.
+ */
+export interface RevocationLogEntry {
+    readonly action: RevocationLogAction;
+    readonly credentialSetId: string;
+    /** Revoked commitment; `revoke` entries only */
+    readonly commitment?: string;
+    /** Revocation tree root after publishing; `publish` entries only */
+    readonly revocationRoot?: string;
+    readonly actor: string;
+    readonly at: Date;
+}
+
+/**
+ * Append-only storage for revocations.
+ * Revocation trees are obtained by replaying entries in order.
+ */
+export interface RevocationStore {
+    append(entry: RevocationLogEntry): void;
+    readAll(): RevocationLogEntry[];
+}
+
+/**
+ * Keeps the revocation log in process memory. Contents are lost on restart.
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+    private readonly entries: RevocationLogEntry[] = [];
+
+    public append(entry: RevocationLogEntry): void {
+        this.entries.push(entry);
+    }
+
+    public readAll(): RevocationLogEntry[] {
+        return [...this.entries];
+    }
+}
+
+interface SerializedRevocationLogEntry {
+    readonly action: RevocationLogAction;
+    readonly credentialSetId: string;
+    readonly commitment?: string;
+    readonly revocationRoot?: string;
+    readonly actor: string;
+    readonly at: string;
+}
+
+const revocationCodec: LogCodec<RevocationLogEntry, SerializedRevocationLogEntry> = {
+    serialize: (entry) => ({
+        action: entry.action,
+        credentialSetId: entry.credentialSetId,
+        commitment: entry.commitment,
+        revocationRoot: entry.revocationRoot,
+        actor: entry.actor,
+        at: entry.at.toISOString(),
+    }),
+    deserialize: (line) => ({
+        action: line.action,
+        credentialSetId: line.credentialSetId,
+        commitment: line.commitment,
+        revocationRoot: line.revocationRoot,
+        actor: line.actor,
+        at: new Date(line.at),
+    }),
+};
+
+/**
+ * Persists the revocation log as newline-delimited JSON, one entry per line.
+ */
+export class FileRevocationStore implements RevocationStore {
+    private readonly log: AppendOnlyLog<RevocationLogEntry, SerializedRevocationLogEntry>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(filePath, 'revocation', revocationCodec, logger);
+    }
+
+    public append(entry: RevocationLogEntry): void {
+        this.log.append(entry);
+    }
+
+    public readAll(): RevocationLogEntry[] {
+        return this.log.readAll();
+    }
+}
+
+/**
+ * Create the revocation store for the configured backend.
+ */
+export function createRevocationStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): RevocationStore {
+    if (backend === 'file') {
+        return new FileRevocationStore(join(dataDir, 'revocations.log'), logger);
+    }
+    return new InMemoryRevocationStore();
+}
@@ -0,0 +1,243 @@
+import { NonMembershipProof } from '../../types/proof.types';
+import { Logger } from '../../utils/logger';
+import { PoseidonManager, SNARK_SCALAR_FIELD } from '../crypto/PoseidonManager';
+
+/**
+ * Number of levels `circuits/identity_revocation.circom` verifies
+ * (`SMTVerifier(40)`). The circuit needs the deepest level to be empty,
+ * so leaves sit at most `depth - 1` levels down.
+ */
+export const REVOCATION_TREE_DEPTH = 40;
+
+interface LeafNode {
+    readonly key: bigint;
+    readonly value: bigint;
+    readonly hash: bigint;
+}
+
+interface BranchNode {
+    readonly left: TreeNode;
+    readonly right: TreeNode;
+    readonly hash: bigint;
+}
+
+/** `null` is an empty subtree, whose hash is 0 */
+type TreeNode = LeafNode | BranchNode | null;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+function toHex(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+function parseKey(key: string): bigint {
+    if (!/^[a-f0-9]{64}$/i.test(key)) {
+        throw new Error('Invalid key: must be a 64-character hex string');
+    }
+    const parsed = BigInt('0x' + key);
+    if (parsed >= SNARK_SCALAR_FIELD) {
+        throw new Error('Invalid key: outside the scalar field');
+    }
+    return parsed;
+}
+
+function isLeaf(node: TreeNode): node is LeafNode {
+    return node !== null && 'key' in node;
+}
+
+function hashOf(node: TreeNode): bigint {
+    return node === null ? ZERO : node.hash;
+}
+
+/** Bit `level` of the key, least significant first, as circomlib's SMT reads it */
+function bitAt(key: bigint, level: number): number {
+    return Number((key >> BigInt(level)) & ONE);
+}
+
+/** Leaf hash: Poseidon(key, value, 1) */
+function hashLeaf(key: bigint, value: bigint): bigint {
+    return PoseidonManager.hash([key, value, ONE]);
+}
+
+function branch(left: TreeNode, right: TreeNode): BranchNode {
+    return { left, right, hash: PoseidonManager.hashLeftRight(hashOf(left), hashOf(right)) };
+}
+
+/**
+ * Poseidon sparse Merkle tree keyed by field element, bit-for-bit compatible
+ * with circomlib's SMT (`smtverifier.circom`, circomlibjs `SMT`):
+ * - A key's path follows its bits from the least significant bit
+ * - A subtree holding one key collapses to a leaf Poseidon(key, value, 1)
+ * - Internal nodes are Poseidon(left, right); empty subtrees hash to 0
+ *
+ * Unlike `SecureMerkleTree` it proves absence: the path for a missing key ends
+ * in an empty slot or at a leaf holding a different key.
+ */
+export class SparseMerkleTree {
+    private readonly depth: number;
+    private readonly logger: Logger;
+    private root: TreeNode = null;
+    private size = 0;
+
+    constructor(logger: Logger, depth: number = REVOCATION_TREE_DEPTH) {
+        if (!Number.isInteger(depth) || depth < 2 || depth > 254) {
+            throw new Error(`Invalid tree depth: ${depth}`);
+        }
+        this.depth = depth;
+        this.logger = logger;
+    }
+
+    /**
+     * Copy the tree. Nodes are never modified in place, so the copy shares
+     * them and costs nothing until one side is changed.
+     */
+    public clone(): SparseMerkleTree {
+        const copy = new SparseMerkleTree(this.logger, this.depth);
+        copy.root = this.root;
+        copy.size = this.size;
+        return copy;
+    }
+
+    /**
+     * Insert a 64-char hex key. Keys can be inserted only once.
+     */
+    public insert(key: string, value: bigint = ONE): void {
+        const parsedKey = parseKey(key);
+        const leaf: LeafNode = { key: parsedKey, value, hash: hashLeaf(parsedKey, value) };
+        this.root = this.insertAt(this.root, leaf, 0);
+        this.size++;
+
+        this.logger.debug('Sparse Merkle tree updated', { size: this.size, root: this.getRoot() });
+    }
+
+    public has(key: string): boolean {
+        const parsedKey = parseKey(key);
+        const { node } = this.walk(parsedKey);
+        return isLeaf(node) && node.key === parsedKey;
+    }
+
+    /**
+     * Hex-encoded root; the empty tree's root is zero.
+     */
+    public getRoot(): string {
+        return toHex(hashOf(this.root));
+    }
+
+    public getSize(): number {
+        return this.size;
+    }
+
+    public getDepth(): number {
+        return this.depth;
+    }
+
+    /**
+     * Prove that `key` is not in the tree.
+     */
+    public getNonMembershipProof(key: string): NonMembershipProof {
+        const parsedKey = parseKey(key);
+        const { node, siblings } = this.walk(parsedKey);
+
+        if (isLeaf(node) && node.key === parsedKey) {
+            throw new Error('Key is in the tree');
+        }
+
+        const padded = [...siblings];
+        while (padded.length < this.depth) {
+            padded.push(ZERO);
+        }
+
+        return {
+            root: this.getRoot(),
+            siblings: padded.map(toHex),
+            oldKey: toHex(isLeaf(node) ? node.key : ZERO),
+            oldValue: toHex(isLeaf(node) ? node.value : ZERO),
+            isOld0: !isLeaf(node),
+        };
+    }
+
+    /**
+     * Verify a non-membership proof the way `SMTVerifier` does with `fnc = 1`.
+     */
+    public static verifyNonMembership(key: string, proof: NonMembershipProof): boolean {
+        const parsedKey = parseKey(key);
+        const siblings = proof.siblings.map((sibling) => BigInt('0x' + sibling));
+
+        // The leaf sits just below the deepest non-zero sibling
+        let level = siblings.length;
+        while (level > 0 && siblings[level - 1] === ZERO) {
+            level--;
+        }
+        if (level >= siblings.length) {
+            return false;
+        }
+
+        const oldKey = BigInt('0x' + proof.oldKey);
+        let current = ZERO;
+        if (!proof.isOld0) {
+            if (oldKey === parsedKey) {
+                return false;
+            }
+            current = hashLeaf(oldKey, BigInt('0x' + proof.oldValue));
+        }
+
+        for (let i = level - 1; i >= 0; i--) {
+            current = bitAt(parsedKey, i)
+                ? PoseidonManager.hashLeftRight(siblings[i], current)
+                : PoseidonManager.hashLeftRight(current, siblings[i]);
+        }
+
+        return current === BigInt('0x' + proof.root);
+    }
+
+    private insertAt(node: TreeNode, leaf: LeafNode, level: number): TreeNode {
+        if (node === null) {
+            return leaf;
+        }
+
+        if (isLeaf(node)) {
+            if (node.key === leaf.key) {
+                throw new Error('Key is already in the tree');
+            }
+            return this.split(node, leaf, level);
+        }
+
+        return bitAt(leaf.key, level)
+            ? branch(node.left, this.insertAt(node.right, leaf, level + 1))
+            : branch(this.insertAt(node.left, leaf, level + 1), node.right);
+    }
+
+    /**
+     * Push two leaves down until their key bits differ.
+     */
+    private split(existing: LeafNode, added: LeafNode, level: number): BranchNode {
+        if (level >= this.depth - 1) {
+            throw new Error(`Keys collide beyond the tree depth of ${this.depth}`);
+        }
+
+        const existingBit = bitAt(existing.key, level);
+        if (existingBit !== bitAt(added.key, level)) {
+            return existingBit ? branch(added, existing) : branch(existing, added);
+        }
+
+        const child = this.split(existing, added, level + 1);
+        return existingBit ? branch(null, child) : branch(child, null);
+    }
+
+    /**
+     * Follow a key's path to the first leaf or empty slot.
+     */
+    private walk(key: bigint): { node: TreeNode; siblings: bigint[] } {
+        const siblings: bigint[] = [];
+        let node = this.root;
+
+        for (let level = 0; node !== null && !isLeaf(node); level++) {
+            const right = bitAt(key, level);
+            siblings.push(hashOf(right ? node.left : node.right));
+            node = right ? node.right : node.left;
+        }
+
+        return { node, siblings };
+    }
+}
@@ -4,9 +4,7 @@ import { MerkleProof, MerkleProofElement } from '../../types/proof.types';
  * Internal Merkle tree types.
  */
 export interface MerkleTreeOptions {
-    readonly sortPairs: boolean;
-    readonly duplicateOdd: boolean;
-    readonly hashLeaves: boolean;
+    readonly depth: number;
 }
 
 export interface MerkleTreeData {
@@ -2,43 +2,44 @@ import { readFile, access } from 'fs/promises';
 import { join } from 'path';
 import { Logger } from '../../utils/logger';
 import { CircuitError, ErrorCode } from '../../utils/errors';
+import { PublicSignalSchema } from '../../types/proof.types';
+import { CircuitDefinition } from '../../types/circuit.types';
 
 /**
- * Manages ZK circuit file locations and loading.
- * Handles WASM, zkey, and verification key files.
+ * Manages the files of one compiled circuit.
+ * Handles WASM, zkey, and verification key files as named in its
+ * {@link CircuitDefinition}.
  */
 export class CircuitManager {
     private readonly circuitsPath: string;
-    private readonly circuitName: string;
+    private readonly definition: CircuitDefinition;
     private readonly logger: Logger;
-    private readonly circuitId: string;
 
-    constructor(circuitName: string, circuitsPath: string, logger: Logger) {
-        this.circuitName = circuitName;
+    constructor(definition: CircuitDefinition, circuitsPath: string, logger: Logger) {
+        this.definition = definition;
         this.circuitsPath = circuitsPath;
         this.logger = logger;
-        this.circuitId = `${circuitName}-v1.0.0`;
     }
 
     /**
      * Path to the circuit WASM file.
      */
     public getWasmPath(): string {
-        return join(this.circuitsPath, `${this.circuitName}_js`, `${this.circuitName}.wasm`);
+        return join(this.circuitsPath, this.definition.wasm);
     }
 
     /**
      * Path to the final proving key (zkey).
      */
     public getZkeyPath(): string {
-        return join(this.circuitsPath, `${this.circuitName}_final.zkey`);
+        return join(this.circuitsPath, this.definition.zkey);
     }
 
     /**
      * Path to the verification key JSON.
      */
     public getVerificationKeyPath(): string {
-        return join(this.circuitsPath, 'verification_key.json');
+        return join(this.circuitsPath, this.definition.vkey);
     }
 
     /**
@@ -50,7 +51,9 @@ export class CircuitManager {
             const vkeyData = await readFile(vkeyPath, 'utf-8');
             return JSON.parse(vkeyData) as Record<string, unknown>;
         } catch {
-            this.logger.error('Failed to load verification key');
+            this.logger.error('Failed to load verification key', {
+                circuitId: this.definition.id,
+            });
             throw new CircuitError(
                 ErrorCode.VERIFICATION_KEY_NOT_FOUND,
                 'Verification key not found. Run the trusted setup first.',
@@ -62,22 +65,57 @@ export class CircuitManager {
      * Unique identifier for this circuit version.
      */
     public getCircuitId(): string {
-        return this.circuitId;
+        return this.definition.id;
+    }
+
+    /**
+     * Merkle tree depth the circuit proves membership in.
+     */
+    public getDepth(): number {
+        return this.definition.depth;
+    }
+
+    public getDefinition(): CircuitDefinition {
+        return this.definition;
+    }
+
+    /**
+     * Named layout of this circuit's public signals.
+     */
+    public getPublicSignalSchema(): PublicSignalSchema {
+        return this.definition.publicSignals;
+    }
+
+    /**
+     * Files of the circuit, as named in its definition, that are not on disk.
+     */
+    public async getMissingFiles(): Promise<string[]> {
+        const { wasm, zkey, vkey } = this.definition;
+        const missing: string[] = [];
+        for (const file of [wasm, zkey, vkey]) {
+            try {
+                await access(join(this.circuitsPath, file));
+            } catch {
+                missing.push(file);
+            }
+        }
+        return missing;
     }
 
     /**
      * Verify that all required circuit files exist on disk.
      */
     public async verifySetup(): Promise<boolean> {
-        try {
-            await access(this.getWasmPath());
-            await access(this.getZkeyPath());
-            await access(this.getVerificationKeyPath());
-            this.logger.info('Circuit setup verified');
-            return true;
-        } catch {
-            this.logger.error('Circuit setup verification failed — one or more files missing');
+        const missing = await this.getMissingFiles();
+        if (missing.length > 0) {
+            this.logger.error('Circuit setup verification failed — one or more files missing', {
+                circuitId: this.definition.id,
+                missing,
+            });
             return false;
         }
+
+        this.logger.info('Circuit setup verified', { circuitId: this.definition.id });
+        return true;
     }
 }
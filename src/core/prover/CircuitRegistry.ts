@@ -0,0 +1,228 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, normalize } from 'path';
+import { Logger } from '../../utils/logger';
+import { CircuitError, ErrorCode } from '../../utils/errors';
+import { circuitsConfig } from '../../config/circuits.config';
+import { CircuitDefinition, CircuitFeatures, CircuitManifest } from '../../types/circuit.types';
+import { ProofMetadata, PublicSignalEncoding } from '../../types/proof.types';
+import {
+    hasAttributes,
+    hasIssuer,
+    hasNullifier,
+    hasRevocation,
+} from '../verifier/PublicSignals';
+import { CircuitManager } from './CircuitManager';
+
+const SIGNAL_FIELDS: ReadonlyArray<keyof ProofMetadata> = [
+    'merkleRoot',
+    'nullifierHash',
+    'externalNullifier',
+    'credentialSetId',
+    'revocationRoot',
+    'attributes',
+    'issuerPublicKey',
+];
+const SIGNAL_ENCODINGS: readonly PublicSignalEncoding[] = [
+    'hex',
+    'decimal',
+    'string',
+    'attribute',
+    'point',
+];
+
+/**
+ * The circuits a deployment can prove and verify, loaded from a manifest.
+ *
+ * The verifier looks circuits up by `metadata.circuitId`; the prover picks
+ * one by the depth of the credential set's tree and the features the proof
+ * needs, so sets of different depths can coexist.
+ */
+export class CircuitRegistry {
+    private readonly circuits: Map<string, CircuitManager>;
+    private readonly logger: Logger;
+
+    constructor(manifest: CircuitManifest, circuitsPath: string, logger: Logger) {
+        this.logger = logger;
+        this.circuits = new Map();
+
+        if (!manifest || !isNonEmptyArray(manifest.circuits)) {
+            throw invalidManifest('at least one circuit is required');
+        }
+
+        for (const definition of manifest.circuits) {
+            validateDefinition(definition);
+            if (this.circuits.has(definition.id)) {
+                throw invalidManifest(`duplicate circuit id ${definition.id}`);
+            }
+            this.circuits.set(definition.id, new CircuitManager(definition, circuitsPath, logger));
+        }
+
+        this.logger.info('Circuit registry loaded', {
+            circuits: Array.from(this.circuits.keys()),
+        });
+    }
+
+    /**
+     * Load the manifest at `manifestPath`, or the default manifest (the
+     * configured circuits at the default depth) if there is no such file.
+     */
+    public static load(
+        logger: Logger,
+        manifestPath: string = circuitsConfig.manifestPath,
+        circuitsPath: string = circuitsConfig.basePath,
+    ): CircuitRegistry {
+        if (!existsSync(manifestPath)) {
+            logger.warn('Circuit manifest not found — using default circuits', { manifestPath });
+            return new CircuitRegistry(circuitsConfig.getDefaultManifest(), circuitsPath, logger);
+        }
+
+        let manifest: CircuitManifest;
+        try {
+            manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as CircuitManifest;
+        } catch {
+            throw invalidManifest(`${manifestPath} is not valid JSON`);
+        }
+
+        return new CircuitRegistry(manifest, circuitsPath, logger);
+    }
+
+    /**
+     * Look up a circuit by the ID carried in proof metadata.
+     */
+    public get(circuitId: string): CircuitManager | undefined {
+        return this.circuits.get(circuitId);
+    }
+
+    /**
+     * Pick the circuit for proofs over a tree of `depth` with exactly the
+     * given features. The first matching manifest entry wins.
+     */
+    public select(depth: number, features: CircuitFeatures): CircuitManager {
+        for (const circuit of this.circuits.values()) {
+            if (circuit.getDepth() === depth && featuresMatch(circuit, features)) {
+                return circuit;
+            }
+        }
+
+        const kind = [
+            features.nullifier && 'nullifier',
+            features.revocation && 'revocation',
+            features.attributes && 'attribute',
+            features.issuer && 'issuer',
+        ]
+            .filter(Boolean)
+            .join(' ');
+        throw new CircuitError(
+            ErrorCode.CIRCUIT_NOT_FOUND,
+            `No ${kind ? `${kind} ` : ''}circuit registered for tree depth ${depth}`,
+        );
+    }
+
+    /**
+     * Whether some circuit proves trees of `depth` with exactly the given features.
+     */
+    public has(depth: number, features: CircuitFeatures): boolean {
+        return this.getAll().some(
+            (circuit) => circuit.getDepth() === depth && featuresMatch(circuit, features),
+        );
+    }
+
+    public getAll(): CircuitManager[] {
+        return Array.from(this.circuits.values());
+    }
+
+    /**
+     * Tree depths at least one registered circuit can prove.
+     */
+    public getDepths(): number[] {
+        return Array.from(new Set(this.getAll().map((circuit) => circuit.getDepth()))).sort(
+            (a, b) => a - b,
+        );
+    }
+}
+
+/**
+ * Features a circuit's public signals provide.
+ */
+export function getCircuitFeatures(circuit: CircuitManager): CircuitFeatures {
+    const schema = circuit.getPublicSignalSchema();
+    return {
+        nullifier: hasNullifier(schema),
+        revocation: hasRevocation(schema),
+        attributes: hasAttributes(schema),
+        issuer: hasIssuer(schema),
+    };
+}
+
+function featuresMatch(circuit: CircuitManager, features: CircuitFeatures): boolean {
+    const provided = getCircuitFeatures(circuit);
+    return (
+        provided.nullifier === features.nullifier &&
+        provided.revocation === features.revocation &&
+        provided.attributes === features.attributes &&
+        provided.issuer === features.issuer
+    );
+}
+
+// Not a type guard: Array.isArray would widen the typed arrays to any[]
+function isNonEmptyArray(value: unknown): boolean {
+    return Array.isArray(value) && value.length > 0;
+}
+
+function isSignalIndex(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function invalidManifest(reason: string): CircuitError {
+    return new CircuitError(
+        ErrorCode.CIRCUIT_INITIALIZATION_FAILED,
+        `Invalid circuit manifest: ${reason}`,
+    );
+}
+
+function validateDefinition(definition: CircuitDefinition): void {
+    if (!definition || typeof definition.id !== 'string' || definition.id.length === 0) {
+        throw invalidManifest('every circuit needs an id');
+    }
+
+    const { id } = definition;
+
+    if (typeof definition.version !== 'string' || definition.version.length === 0) {
+        throw invalidManifest(`${id}: version is required`);
+    }
+
+    if (
+        !Number.isInteger(definition.depth) ||
+        definition.depth < 1 ||
+        definition.depth > circuitsConfig.maxDepth
+    ) {
+        throw invalidManifest(
+            `${id}: depth must be an integer from 1 to ${circuitsConfig.maxDepth}`,
+        );
+    }
+
+    // Artifacts are served to clients, so keep them inside the circuits directory
+    for (const file of [definition.wasm, definition.zkey, definition.vkey]) {
+        if (typeof file !== 'string' || isAbsolute(file) || normalize(file).startsWith('..')) {
+            throw invalidManifest(`${id}: file paths must be relative to the circuits directory`);
+        }
+    }
+
+    if (!isNonEmptyArray(definition.publicSignals)) {
+        throw invalidManifest(`${id}: publicSignals must list at least one signal`);
+    }
+
+    for (const signal of definition.publicSignals) {
+        if (
+            typeof signal?.name !== 'string' ||
+            !SIGNAL_FIELDS.includes(signal.metadataField) ||
+            !SIGNAL_ENCODINGS.includes(signal.encoding) ||
+            (signal.encoding === 'attribute') !== (signal.metadataField === 'attributes') ||
+            (signal.encoding === 'attribute' && !isSignalIndex(signal.index)) ||
+            (signal.encoding === 'point') !== (signal.metadataField === 'issuerPublicKey') ||
+            (signal.encoding === 'point' && signal.index !== 0 && signal.index !== 1)
+        ) {
+            throw invalidManifest(`${id}: invalid public signal ${JSON.stringify(signal)}`);
+        }
+    }
+}
@@ -0,0 +1,308 @@
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { AppError, ErrorCode } from '../../utils/errors';
+import { config } from '../../config/environment';
+import { isPublicAddress, publicOnlyLookup } from '../../utils/network';
+import { HashManager } from '../crypto/HashManager';
+import { ZKProof } from '../../types/proof.types';
+import { toProofResponse } from './ProofSerializer';
+import {
+    InMemoryProofJobStore,
+    ProofJobError,
+    ProofJobRecord,
+    ProofJobStore,
+} from './ProofJobStore';
+
+/**
+ * Generates the proof for a job. Runs once, right after submission.
+ */
+export type ProofTask = () => Promise<ZKProof>;
+
+export interface ProofJobOptions {
+    /** Hours a job and its result are kept, counted from submission */
+    readonly expiryHours: number;
+    /** Key for the `X-Webhook-Signature` HMAC; callbacks are unsigned without one */
+    readonly webhookSecret: string;
+    readonly webhookTimeoutMs: number;
+    /** Deliver callbacks to loopback, private and link-local addresses too */
+    readonly webhookAllowPrivateNetworks: boolean;
+}
+
+/** Header carrying `sha256=<hex HMAC of the body>` on signed callbacks */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const defaultOptions: ProofJobOptions = {
+    expiryHours: config.proofExpiryHours,
+    webhookSecret: config.webhookSecret,
+    webhookTimeoutMs: config.webhookTimeoutMs,
+    webhookAllowPrivateNetworks: config.webhookAllowPrivateNetworks,
+};
+
+/**
+ * Runs proof generation in the background so clients need not hold a
+ * request open, and keeps each job's outcome until it expires.
+ *
+ * Every state change is appended to a {@link ProofJobStore}, which is
+ * replayed on construction. The holder's identity only lives in the task's
+ * closure, so a job still pending when the process stopped cannot be
+ * resumed; replay marks it failed.
+ *
+ * When a job has a callback URL, its final state is POSTed there once, in
+ * the same shape `GET /api/proof/jobs/:id` returns. Unless private networks
+ * are allowed, the callback host is resolved when delivering and only
+ * public addresses are contacted.
+ */
+export class ProofJobManager {
+    private readonly jobs: Map<string, ProofJobRecord>;
+    private readonly inFlight: Set<Promise<void>>;
+    private readonly store: ProofJobStore;
+    private readonly options: ProofJobOptions;
+    private readonly hashManager: HashManager;
+    private readonly logger: Logger;
+
+    constructor(
+        logger: Logger,
+        store: ProofJobStore = new InMemoryProofJobStore(),
+        options: ProofJobOptions = defaultOptions,
+    ) {
+        this.jobs = new Map();
+        this.inFlight = new Set();
+        this.store = store;
+        this.options = options;
+        this.hashManager = new HashManager(logger);
+        this.logger = logger;
+
+        this.replay();
+    }
+
+    /**
+     * Record a pending job and start its task.
+     */
+    public submit(credentialSetId: string, task: ProofTask, callbackUrl?: string): ProofJobRecord {
+        this.prune();
+
+        const now = new Date();
+        const job: ProofJobRecord = {
+            id: uuidv4(),
+            credentialSetId,
+            status: 'pending',
+            createdAt: now,
+            updatedAt: now,
+            expiresAt: new Date(now.getTime() + this.options.expiryHours * 60 * 60 * 1000),
+            callbackUrl,
+        };
+        this.store.append(job);
+        this.jobs.set(job.id, job);
+
+        this.logger.info('Proof job submitted', { jobId: job.id, credentialSetId });
+
+        this.track(this.run(job, task));
+        return job;
+    }
+
+    /**
+     * Current state of a job, or undefined if it is unknown or has expired.
+     */
+    public get(jobId: string): ProofJobRecord | undefined {
+        const job = this.jobs.get(jobId);
+        if (job && job.expiresAt <= new Date()) {
+            return undefined;
+        }
+        return job;
+    }
+
+    /**
+     * Resolves once every running job has settled and its callback, if
+     * any, has been attempted.
+     */
+    public async idle(): Promise<void> {
+        while (this.inFlight.size > 0) {
+            await Promise.all(this.inFlight);
+        }
+    }
+
+    private async run(job: ProofJobRecord, task: ProofTask): Promise<void> {
+        let settled: ProofJobRecord;
+        try {
+            const result = await task();
+            settled = { ...job, status: 'completed', updatedAt: new Date(), result };
+        } catch (error) {
+            settled = { ...job, status: 'failed', updatedAt: new Date(), error: jobError(error) };
+        }
+
+        this.settle(settled);
+        await this.notify(settled);
+    }
+
+    private settle(job: ProofJobRecord): void {
+        try {
+            this.store.append(job);
+        } catch {
+            // Still report the outcome while this process runs
+            this.logger.error('Proof job outcome not persisted', { jobId: job.id });
+        }
+        this.jobs.set(job.id, job);
+
+        this.logger.info('Proof job settled', {
+            jobId: job.id,
+            status: job.status,
+            error: job.error?.code,
+        });
+    }
+
+    /**
+     * POST the job's final state to its callback URL. Delivery is attempted
+     * once; failures are logged and the result stays available by polling.
+     */
+    private async notify(job: ProofJobRecord): Promise<void> {
+        if (!job.callbackUrl) {
+            return;
+        }
+
+        const body = JSON.stringify(serializeProofJob(job));
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.options.webhookSecret) {
+            const signature = this.hashManager.hmacSha256(
+                body,
+                Buffer.from(this.options.webhookSecret),
+            );
+            headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${signature.toString('hex')}`;
+        }
+
+        try {
+            const status = await postCallback(new URL(job.callbackUrl), headers, body, {
+                timeoutMs: this.options.webhookTimeoutMs,
+                publicOnly: !this.options.webhookAllowPrivateNetworks,
+            });
+            if (status < 200 || status >= 300) {
+                this.logger.warn('Proof job callback rejected', { jobId: job.id, status });
+            }
+        } catch (error) {
+            this.logger.warn('Proof job callback failed', {
+                jobId: job.id,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    private track(work: Promise<void>): void {
+        this.inFlight.add(work);
+        void work.finally(() => this.inFlight.delete(work));
+    }
+
+    /**
+     * Forget expired jobs, here and in the store. The store is only touched
+     * when a job has expired since the last prune.
+     */
+    private prune(): void {
+        const now = new Date();
+        let expired = 0;
+        for (const [jobId, job] of this.jobs) {
+            if (job.expiresAt <= now) {
+                this.jobs.delete(jobId);
+                expired++;
+            }
+        }
+        if (expired === 0) {
+            return;
+        }
+
+        try {
+            this.store.prune(now);
+            this.logger.info('Expired proof jobs pruned', { count: expired });
+        } catch {
+            // Whatever is left is pruned with the next expired job, or on restart
+            this.logger.error('Expired proof jobs not pruned from storage', { count: expired });
+        }
+    }
+
+    private replay(): void {
+        for (const record of this.store.readAll()) {
+            this.jobs.set(record.id, record);
+        }
+        this.prune();
+
+        for (const job of this.jobs.values()) {
+            if (job.status !== 'pending') {
+                continue;
+            }
+
+            const interrupted: ProofJobRecord = {
+                ...job,
+                status: 'failed',
+                updatedAt: new Date(),
+                error: {
+                    code: ErrorCode.PROOF_GENERATION_CANCELLED,
+                    message: 'Proof generation was interrupted by a restart',
+                },
+            };
+            this.settle(interrupted);
+            this.track(this.notify(interrupted));
+        }
+    }
+}
+
+/**
+ * A job as returned by the API and sent to its callback URL.
+ */
+export function serializeProofJob(job: ProofJobRecord): Record<string, unknown> {
+    return {
+        jobId: job.id,
+        credentialSetId: job.credentialSetId,
+        status: job.status,
+        createdAt: job.createdAt.toISOString(),
+        updatedAt: job.updatedAt.toISOString(),
+        expiresAt: job.expiresAt.toISOString(),
+        result: job.result ? toProofResponse(job.result) : undefined,
+        error: job.error,
+    };
+}
+
+/**
+ * POST `body` to `url` and resolve to the response status. Redirects are
+ * not followed. With `publicOnly`, non-public hosts are refused, including
+ * names that resolve to them.
+ */
+function postCallback(
+    url: URL,
+    headers: Record<string, string>,
+    body: string,
+    options: { readonly timeoutMs: number; readonly publicOnly: boolean },
+): Promise<number> {
+    return new Promise((resolve, reject) => {
+        // Literal addresses are connected to without a lookup
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        if (options.publicOnly && isIP(host) !== 0 && !isPublicAddress(host)) {
+            reject(new Error(`${host} is not a public address`));
+            return;
+        }
+
+        const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+        const req = send(
+            url,
+            {
+                method: 'POST',
+                headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+                lookup: options.publicOnly ? publicOnlyLookup : undefined,
+                signal: AbortSignal.timeout(options.timeoutMs),
+            },
+            (res) => {
+                res.resume();
+                resolve(res.statusCode ?? 0);
+            },
+        );
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+// Unexpected errors are reported generically, as the error handler does
+function jobError(error: unknown): ProofJobError {
+    if (error instanceof AppError) {
+        return { code: error.code, message: error.message };
+    }
+    return { code: ErrorCode.PROOF_GENERATION_FAILED, message: 'Proof generation failed' };
+}
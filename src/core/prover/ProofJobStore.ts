@@ -0,0 +1,151 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+import { SerializedProof, ZKProof } from '../../types/proof.types';
+import { ProofSerializer } from './ProofSerializer';
+
+/**
+ * Lifecycle of an asynchronous proof job: `pending` until the prover
+ * settles it as `completed` or `failed`.
+ */
+export type ProofJobStatus = 'pending' | 'completed' | 'failed';
+
+export interface ProofJobError {
+    readonly code: string;
+    readonly message: string;
+}
+
+/**
+ * Snapshot of a proof job. Holder secrets are never part of a job record.
+ */
+export interface ProofJobRecord {
+    readonly id: string;
+    readonly credentialSetId: string;
+    readonly status: ProofJobStatus;
+    readonly createdAt: Date;
+    readonly updatedAt: Date;
+    readonly expiresAt: Date;
+    readonly callbackUrl?: string;
+    readonly result?: ZKProof;
+    readonly error?: ProofJobError;
+}
+
+/**
+ * Append-only storage for proof job snapshots.
+ * The latest snapshot of each job is its current state.
+ */
+export interface ProofJobStore {
+    append(record: ProofJobRecord): void;
+    readAll(): ProofJobRecord[];
+    /** Drop every snapshot of the jobs that expired by `now` */
+    prune(now: Date): void;
+}
+
+/**
+ * Keeps job snapshots in process memory. Contents are lost on restart.
+ */
+export class InMemoryProofJobStore implements ProofJobStore {
+    private records: ProofJobRecord[] = [];
+
+    public append(record: ProofJobRecord): void {
+        this.records.push(record);
+    }
+
+    public readAll(): ProofJobRecord[] {
+        return [...this.records];
+    }
+
+    public prune(now: Date): void {
+        this.records = this.records.filter((record) => record.expiresAt > now);
+    }
+}
+
+interface SerializedProofJobRecord {
+    readonly id: string;
+    readonly credentialSetId: string;
+    readonly status: ProofJobStatus;
+    readonly createdAt: string;
+    readonly updatedAt: string;
+    readonly expiresAt: string;
+    readonly callbackUrl?: string;
+    readonly result?: SerializedProof;
+    readonly error?: ProofJobError;
+}
+
+function proofJobCodec(
+    serializer: ProofSerializer,
+): LogCodec<ProofJobRecord, SerializedProofJobRecord> {
+    return {
+        serialize: (record) => ({
+            id: record.id,
+            credentialSetId: record.credentialSetId,
+            status: record.status,
+            createdAt: record.createdAt.toISOString(),
+            updatedAt: record.updatedAt.toISOString(),
+            expiresAt: record.expiresAt.toISOString(),
+            callbackUrl: record.callbackUrl,
+            result: record.result ? serializer.serialize(record.result) : undefined,
+            error: record.error,
+        }),
+        deserialize: (line) => ({
+            id: line.id,
+            credentialSetId: line.credentialSetId,
+            status: line.status,
+            createdAt: new Date(line.createdAt),
+            updatedAt: new Date(line.updatedAt),
+            expiresAt: new Date(line.expiresAt),
+            callbackUrl: line.callbackUrl,
+            result: line.result ? serializer.deserialize(line.result) : undefined,
+            error: line.error,
+        }),
+    };
+}
+
+/**
+ * Persists job snapshots as newline-delimited JSON, one snapshot per line.
+ * Pruning rewrites the log without the expired jobs, so it does not grow
+ * with every job ever submitted.
+ */
+export class FileProofJobStore implements ProofJobStore {
+    private readonly log: AppendOnlyLog<ProofJobRecord, SerializedProofJobRecord>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(
+            filePath,
+            'proof job',
+            proofJobCodec(new ProofSerializer(logger)),
+            logger,
+        );
+    }
+
+    public append(record: ProofJobRecord): void {
+        this.log.append(record);
+    }
+
+    public readAll(): ProofJobRecord[] {
+        return this.log.readAll();
+    }
+
+    public prune(now: Date): void {
+        const records = this.log.readAll();
+        const live = records.filter((record) => record.expiresAt > now);
+        if (live.length < records.length) {
+            this.log.rewrite(live);
+        }
+    }
+}
+
+/**
+ * Create the proof job store for the configured backend.
+ */
+export function createProofJobStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): ProofJobStore {
+    if (backend === 'file') {
+        return new FileProofJobStore(join(dataDir, 'proof-jobs.log'), logger);
+    }
+    return new InMemoryProofJobStore();
+}
@@ -29,6 +29,11 @@ export class ProofSerializer {
                     expiresAt: proof.metadata.expiresAt.toISOString(),
                     version: proof.metadata.version,
                     circuitId: proof.metadata.circuitId,
+                    externalNullifier: proof.metadata.externalNullifier,
+                    nullifierHash: proof.metadata.nullifierHash,
+                    revocationRoot: proof.metadata.revocationRoot,
+                    attributes: proof.metadata.attributes,
+                    issuerPublicKey: proof.metadata.issuerPublicKey,
                 },
             };
         } catch {
@@ -55,6 +60,11 @@ export class ProofSerializer {
                     expiresAt: new Date(serialized.metadata.expiresAt),
                     version: serialized.metadata.version,
                     circuitId: serialized.metadata.circuitId,
+                    externalNullifier: serialized.metadata.externalNullifier,
+                    nullifierHash: serialized.metadata.nullifierHash,
+                    revocationRoot: serialized.metadata.revocationRoot,
+                    attributes: serialized.metadata.attributes,
+                    issuerPublicKey: serialized.metadata.issuerPublicKey,
                 },
             };
         } catch {
@@ -94,6 +104,45 @@ export class ProofSerializer {
             'circuitId',
         ];
 
-        return requiredFields.every((field) => typeof meta[field] === 'string');
+        const optionalFields = ['externalNullifier', 'nullifierHash', 'revocationRoot'];
+
+        // Their contents are checked against the public signals on verification
+        const objectFields = ['attributes', 'issuerPublicKey'];
+
+        return (
+            requiredFields.every((field) => typeof meta[field] === 'string') &&
+            optionalFields.every((field) => meta[field] === undefined || typeof meta[field] === 'string') &&
+            objectFields.every(
+                (field) =>
+                    meta[field] === undefined ||
+                    (typeof meta[field] === 'object' && meta[field] !== null),
+            )
+        );
     }
 }
+
+/**
+ * A generated proof as returned to the holder: the proof object, its public
+ * signals and the metadata a verifier needs, with dates in ISO 8601.
+ */
+export function toProofResponse(proof: ZKProof): Record<string, unknown> {
+    return {
+        proofId: proof.metadata.proofId,
+        proof: proof.proof,
+        publicSignals: proof.publicSignals,
+        metadata: {
+            credentialSetId: proof.metadata.credentialSetId,
+            merkleRoot: proof.metadata.merkleRoot,
+            expiresAt: proof.metadata.expiresAt.toISOString(),
+            timestamp: proof.metadata.timestamp.toISOString(),
+            version: proof.metadata.version,
+            proofId: proof.metadata.proofId,
+            circuitId: proof.metadata.circuitId,
+            externalNullifier: proof.metadata.externalNullifier,
+            nullifierHash: proof.metadata.nullifierHash,
+            revocationRoot: proof.metadata.revocationRoot,
+            attributes: proof.metadata.attributes,
+            issuerPublicKey: proof.metadata.issuerPublicKey,
+        },
+    };
+}
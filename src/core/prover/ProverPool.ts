@@ -0,0 +1,407 @@
+import { Worker } from 'worker_threads';
+import { Groth16Proof } from 'snarkjs';
+import { Logger } from '../../utils/logger';
+import { runWithoutRequestContext } from '../../utils/requestContext';
+import { ErrorCode, ProofError, ServiceUnavailableError } from '../../utils/errors';
+
+/**
+ * Runs `groth16.fullProve` in the worker. Kept inline so the same source
+ * works from the compiled build and under ts-jest; snarkjs is resolved by
+ * the parent and passed in `workerData`.
+ *
+ * Each worker proves on a single thread: the pool is the parallelism, and
+ * snarkjs cannot spawn its own threads from inside a worker.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const snarkjs = require(workerData.snarkjsPath);
+
+parentPort.on('message', ({ id, input, wasmPath, zkeyPath }) => {
+    snarkjs.groth16.fullProve(input, wasmPath, zkeyPath, undefined, undefined, {
+        singleThread: true,
+    }).then(
+        ({ proof, publicSignals }) => parentPort.postMessage({ id, proof, publicSignals }),
+        (error) => parentPort.postMessage({
+            id,
+            error: error instanceof Error ? error.message : String(error),
+        }),
+    );
+});
+`;
+
+/**
+ * Creates a worker that answers {@link ProverWorkerRequest} messages with
+ * {@link ProverWorkerResponse} messages.
+ */
+export type ProverWorkerFactory = () => Worker;
+
+export interface ProverWorkerRequest {
+    readonly id: number;
+    readonly input: Record<string, unknown>;
+    readonly wasmPath: string;
+    readonly zkeyPath: string;
+}
+
+export interface ProverWorkerResponse {
+    readonly id: number;
+    readonly proof?: Groth16Proof;
+    readonly publicSignals?: string[];
+    readonly error?: string;
+}
+
+export interface ProverPoolOptions {
+    /** Number of worker threads */
+    readonly size: number;
+    /** Jobs that may wait for a worker; further jobs are rejected */
+    readonly queueSize: number;
+    /** Time a job may take from submission, queueing included */
+    readonly timeoutMs: number;
+}
+
+export interface ProverJob {
+    readonly input: Record<string, unknown>;
+    readonly wasmPath: string;
+    readonly zkeyPath: string;
+}
+
+export interface ProverJobResult {
+    readonly proof: Groth16Proof;
+    readonly publicSignals: string[];
+}
+
+/**
+ * Queue and worker counters, as reported by `/api/health`.
+ */
+export interface ProverPoolStats {
+    readonly size: number;
+    readonly busy: number;
+    readonly queued: number;
+    readonly queueCapacity: number;
+    readonly completed: number;
+    readonly failed: number;
+    readonly timedOut: number;
+    readonly cancelled: number;
+    readonly rejected: number;
+}
+
+interface PendingJob {
+    readonly id: number;
+    readonly job: ProverJob;
+    readonly resolve: (result: ProverJobResult) => void;
+    readonly reject: (error: Error) => void;
+    readonly timer: NodeJS.Timeout;
+    readonly signal?: AbortSignal;
+    readonly onAbort: () => void;
+    slot?: WorkerSlot;
+}
+
+interface WorkerSlot {
+    worker?: Worker;
+    job?: PendingJob;
+}
+
+/**
+ * Spawns a worker running {@link WORKER_SOURCE}.
+ */
+export function createProverWorker(): Worker {
+    return new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+            snarkjsPath: require.resolve('snarkjs'),
+            // snarkjs loads the web-worker package, which takes any worker
+            // thread for one of its own and evaluates `mod`; give it nothing to do
+            mod: 'data:,',
+        },
+    });
+}
+
+/**
+ * Fixed-size pool of worker threads for proof generation, so a slow
+ * `fullProve` never blocks the event loop.
+ *
+ * Jobs wait in a bounded FIFO queue; when it is full they are rejected with
+ * `PROVER_QUEUE_FULL` instead of piling up. A job that times out or is
+ * cancelled while running cannot be interrupted inside snarkjs, so its
+ * worker is terminated and replaced. Workers are started on first use and
+ * do not keep the process alive.
+ */
+export class ProverPool {
+    private readonly options: ProverPoolOptions;
+    private readonly logger: Logger;
+    private readonly createWorker: ProverWorkerFactory;
+    private readonly slots: WorkerSlot[];
+    private readonly queue: PendingJob[] = [];
+    private nextId = 1;
+    private closed = false;
+    private completed = 0;
+    private failed = 0;
+    private timedOut = 0;
+    private cancelled = 0;
+    private rejected = 0;
+
+    constructor(
+        options: ProverPoolOptions,
+        logger: Logger,
+        createWorker: ProverWorkerFactory = createProverWorker,
+    ) {
+        if (!Number.isInteger(options.size) || options.size < 1) {
+            throw new Error(`Invalid prover pool size: ${options.size}`);
+        }
+        if (!Number.isInteger(options.queueSize) || options.queueSize < 0) {
+            throw new Error(`Invalid prover queue size: ${options.queueSize}`);
+        }
+
+        this.options = options;
+        this.logger = logger;
+        this.createWorker = createWorker;
+        this.slots = Array.from({ length: options.size }, () => ({}));
+    }
+
+    /**
+     * Generate a proof on a worker. Rejects with `PROVER_QUEUE_FULL` when
+     * every worker is busy and the queue is full, `PROOF_GENERATION_TIMEOUT`
+     * after the pool's timeout, `PROOF_GENERATION_CANCELLED` when `signal`
+     * aborts and `PROVER_SHUTTING_DOWN` once the pool is closed.
+     */
+    public prove(job: ProverJob, signal?: AbortSignal): Promise<ProverJobResult> {
+        if (this.closed) {
+            return Promise.reject(
+                new ServiceUnavailableError(
+                    ErrorCode.PROVER_SHUTTING_DOWN,
+                    'Proof generation is shutting down',
+                ),
+            );
+        }
+        if (signal?.aborted) {
+            this.cancelled++;
+            return Promise.reject(cancelledError());
+        }
+
+        const idle = this.slots.find((slot) => !slot.job);
+        if (!idle && this.queue.length >= this.options.queueSize) {
+            this.rejected++;
+            this.logger.warn('Prover queue full — rejecting job', {
+                queued: this.queue.length,
+            });
+            return Promise.reject(
+                new ServiceUnavailableError(
+                    ErrorCode.PROVER_QUEUE_FULL,
+                    'Proof generation queue is full; retry later',
+                ),
+            );
+        }
+
+        return new Promise<ProverJobResult>((resolve, reject) => {
+            const id = this.nextId++;
+            const pending: PendingJob = {
+                id,
+                job,
+                resolve,
+                reject,
+                signal,
+                timer: setTimeout(() => this.timeout(pending), this.options.timeoutMs),
+                onAbort: () => this.cancel(pending),
+            };
+            signal?.addEventListener('abort', pending.onAbort, { once: true });
+
+            if (idle) {
+                this.run(idle, pending);
+            } else {
+                this.queue.push(pending);
+            }
+        });
+    }
+
+    /**
+     * Whether {@link prove} would accept a job now rather than reject it as
+     * `PROVER_QUEUE_FULL` or `PROVER_SHUTTING_DOWN`.
+     */
+    public hasCapacity(): boolean {
+        return (
+            !this.closed &&
+            (this.slots.some((slot) => !slot.job) || this.queue.length < this.options.queueSize)
+        );
+    }
+
+    /**
+     * Whether {@link close} was called; new jobs are then refused.
+     */
+    public isClosed(): boolean {
+        return this.closed;
+    }
+
+    public getStats(): ProverPoolStats {
+        return {
+            size: this.options.size,
+            busy: this.slots.filter((slot) => slot.job).length,
+            queued: this.queue.length,
+            queueCapacity: this.options.queueSize,
+            completed: this.completed,
+            failed: this.failed,
+            timedOut: this.timedOut,
+            cancelled: this.cancelled,
+            rejected: this.rejected,
+        };
+    }
+
+    /**
+     * Reject every queued and running job and stop the workers.
+     */
+    public async close(): Promise<void> {
+        this.closed = true;
+
+        const error = new ServiceUnavailableError(
+            ErrorCode.PROVER_SHUTTING_DOWN,
+            'Proof generation is shutting down',
+        );
+        for (const pending of this.queue.splice(0)) {
+            this.settle(pending, error);
+        }
+
+        await Promise.all(
+            this.slots.map(async (slot) => {
+                if (slot.job) {
+                    this.settle(slot.job, error);
+                }
+                const worker = slot.worker;
+                slot.worker = undefined;
+                await worker?.terminate();
+            }),
+        );
+    }
+
+    private run(slot: WorkerSlot, pending: PendingJob): void {
+        slot.job = pending;
+        pending.slot = slot;
+
+        const request: ProverWorkerRequest = { id: pending.id, ...pending.job };
+        this.workerFor(slot).postMessage(request);
+    }
+
+    private workerFor(slot: WorkerSlot): Worker {
+        if (slot.worker) {
+            return slot.worker;
+        }
+
+        // Worker events are not part of the request that first needed a worker
+        const worker = runWithoutRequestContext(() => this.createWorker());
+        worker.unref();
+        worker.on('message', (response: ProverWorkerResponse) => {
+            if (slot.worker === worker) {
+                this.onResponse(slot, response);
+            }
+        });
+        worker.on('error', (error) => {
+            if (slot.worker === worker) {
+                this.onWorkerLost(slot, error.message);
+            }
+        });
+        worker.on('exit', (exitCode) => {
+            if (slot.worker === worker) {
+                this.onWorkerLost(slot, `Prover worker exited with code ${exitCode}`);
+            }
+        });
+
+        slot.worker = worker;
+        return worker;
+    }
+
+    private onResponse(slot: WorkerSlot, response: ProverWorkerResponse): void {
+        const pending = slot.job;
+        if (!pending || pending.id !== response.id) {
+            return;
+        }
+
+        if (response.error !== undefined || !response.proof || !response.publicSignals) {
+            this.failed++;
+            this.settle(pending, new Error(response.error ?? 'Prover worker returned no proof'));
+        } else {
+            this.completed++;
+            this.settle(pending, undefined, {
+                proof: response.proof,
+                publicSignals: response.publicSignals,
+            });
+        }
+        this.next(slot);
+    }
+
+    private onWorkerLost(slot: WorkerSlot, reason: string): void {
+        this.logger.error('Prover worker failed', { reason });
+        slot.worker = undefined;
+
+        if (slot.job) {
+            this.failed++;
+            this.settle(slot.job, new Error(reason));
+        }
+        this.next(slot);
+    }
+
+    private timeout(pending: PendingJob): void {
+        this.timedOut++;
+        this.logger.warn('Proof generation timed out', {
+            timeoutMs: this.options.timeoutMs,
+            running: pending.slot !== undefined,
+        });
+        this.abandon(
+            pending,
+            new ServiceUnavailableError(
+                ErrorCode.PROOF_GENERATION_TIMEOUT,
+                'Proof generation timed out',
+            ),
+        );
+    }
+
+    private cancel(pending: PendingJob): void {
+        this.cancelled++;
+        this.abandon(pending, cancelledError());
+    }
+
+    /**
+     * Drop a job that will not complete: dequeue it, or replace its worker.
+     */
+    private abandon(pending: PendingJob, error: Error): void {
+        const slot = pending.slot;
+        if (!slot) {
+            const index = this.queue.indexOf(pending);
+            if (index >= 0) {
+                this.queue.splice(index, 1);
+            }
+            this.settle(pending, error);
+            return;
+        }
+
+        if (slot.job !== pending) {
+            return;
+        }
+
+        const worker = slot.worker;
+        slot.worker = undefined;
+        void worker?.terminate();
+
+        this.settle(pending, error);
+        this.next(slot);
+    }
+
+    private next(slot: WorkerSlot): void {
+        slot.job = undefined;
+        const pending = this.queue.shift();
+        if (pending && !this.closed) {
+            this.run(slot, pending);
+        }
+    }
+
+    private settle(pending: PendingJob, error?: Error, result?: ProverJobResult): void {
+        clearTimeout(pending.timer);
+        pending.signal?.removeEventListener('abort', pending.onAbort);
+
+        if (error) {
+            pending.reject(error);
+        } else {
+            pending.resolve(result as ProverJobResult);
+        }
+    }
+}
+
+function cancelledError(): ProofError {
+    return new ProofError(ErrorCode.PROOF_GENERATION_CANCELLED, 'Proof generation was cancelled');
+}
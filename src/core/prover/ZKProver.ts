@@ -1,34 +1,70 @@
 import * as snarkjs from 'snarkjs';
 import { PoseidonManager } from '../../core/crypto/PoseidonManager';
-import { randomBytes } from 'crypto';
+import { Identity } from '../crypto/Identity';
 import { v4 as uuidv4 } from 'uuid';
-import { ZKProof, MerkleProof, ProofMetadata } from '../../types/proof.types';
+import {
+    ZKProof,
+    MerkleProof,
+    NonMembershipProof,
+    ProofMetadata,
+    AttributeStatement,
+} from '../../types/proof.types';
+import { AttributeCredential, hashAttributeSchema } from '../crypto/AttributeCredential';
+import { EdDSAManager } from '../crypto/EdDSAManager';
+import { IssuedCredential } from '../../types/issuer.types';
 import { Logger } from '../../utils/logger';
 import { CircuitManager } from './CircuitManager';
-import { ProofError, ErrorCode } from '../../utils/errors';
+import { CircuitRegistry } from './CircuitRegistry';
+import { ProverPool } from './ProverPool';
+import { CircuitFeatures } from '../../types/circuit.types';
+import { checkPublicSignalBinding } from '../verifier/PublicSignals';
+import { encodeAttributeStatement } from '../verifier/AttributeStatement';
+import { AppError, ProofError, ErrorCode } from '../../utils/errors';
 import { config } from '../../config/environment';
+import { metrics } from '../../utils/metrics';
+
+/**
+ * The holder's attribute credential and what a proof over it states, as
+ * built by `buildAttributeStatement`.
+ */
+export interface AttributeProofInput {
+    readonly credential: AttributeCredential;
+    readonly statement: AttributeStatement;
+}
 
 /**
  * Generates zero-knowledge proofs using Groth16.
+ * The circuit is chosen per proof from a {@link CircuitRegistry} by the depth
+ * of the credential set's tree, whether a nullifier is requested and whether
+ * the set has published revocations, holds attribute credentials or is
+ * signed by an issuer.
  *
  * Security considerations:
  * - Validates all inputs before proof generation
  * - Uses cryptographically secure randomness
- * - Supports nullifiers to prevent double-use
+ * - Nullifier circuits bind each proof to a scope, so it can be spent once
  * - Proofs have configurable expiration
  */
 export class ZKProver {
-    private readonly circuitManager: CircuitManager;
+    private readonly registry: CircuitRegistry;
     private readonly logger: Logger;
+    private readonly pool?: ProverPool;
+    private readonly available: Set<string> = new Set();
     private initialized: boolean = false;
 
-    constructor(circuitManager: CircuitManager, logger: Logger) {
-        this.circuitManager = circuitManager;
+    /**
+     * @param pool - Worker threads to prove on. Without one, proofs are
+     *   generated on the calling thread.
+     */
+    constructor(registry: CircuitRegistry, logger: Logger, pool?: ProverPool) {
+        this.registry = registry;
         this.logger = logger;
+        this.pool = pool;
     }
 
     /**
      * Initialize the prover. Must be called before generating proofs.
+     * Succeeds if at least one registered circuit has all of its files.
      */
     public async initialize(): Promise<void> {
         if (this.initialized) {
@@ -36,8 +72,12 @@ export class ZKProver {
         }
 
         try {
-            const setupValid = await this.circuitManager.verifySetup();
-            if (!setupValid) {
+            for (const circuit of this.registry.getAll()) {
+                if (await circuit.verifySetup()) {
+                    this.available.add(circuit.getCircuitId());
+                }
+            }
+            if (this.available.size === 0) {
                 throw new Error('Circuit setup files not found');
             }
             this.initialized = true;
@@ -54,12 +94,29 @@ export class ZKProver {
     }
 
     /**
-     * Generate a zero-knowledge proof proving membership in a credential set.
+     * Generate a zero-knowledge proof that the holder of `identity` is a
+     * member of a credential set.
+     *
+     * @param externalNullifier - Scope of the proof (e.g. a poll ID). When set,
+     *   a nullifier circuit is used and the proof is single-use in that scope.
+     * @param nonRevocation - Absence of the identity's commitment from the
+     *   set's published revocation tree. When set, a revocation circuit is used.
+     * @param attributes - The credential behind the set's leaf and the
+     *   disclosures and predicates to prove. When set, an attribute circuit is used.
+     * @param issued - The issuer's signature on the identity's commitment.
+     *   When set, an issuer circuit is used.
+     * @param signal - Cancels the proof, e.g. when the client disconnects.
+     *   Only honored when proving on a pool.
      */
     public async generateProof(
         credentialSetId: string,
         merkleProof: MerkleProof,
-        credential: string,
+        identity: Identity,
+        externalNullifier?: string,
+        nonRevocation?: NonMembershipProof,
+        attributes?: AttributeProofInput,
+        issued?: IssuedCredential,
+        signal?: AbortSignal,
     ): Promise<ZKProof> {
         if (!this.initialized) {
             throw new ProofError(
@@ -68,21 +125,43 @@ export class ZKProver {
             );
         }
 
-        this.validateProofInputs(merkleProof, credential);
+        this.validateProofInputs(merkleProof, identity, attributes, issued);
 
-        const circuitInputs = this.prepareCircuitInputs(merkleProof, credential);
+        const circuit = this.selectCircuit(merkleProof, {
+            nullifier: externalNullifier !== undefined,
+            revocation: nonRevocation !== undefined,
+            attributes: attributes !== undefined,
+            issuer: issued !== undefined,
+        });
+        const schema = circuit.getPublicSignalSchema();
+        const circuitInputs = this.prepareCircuitInputs(
+            merkleProof,
+            identity,
+            externalNullifier,
+            nonRevocation,
+            attributes,
+            issued,
+        );
 
         this.logger.debug('Generating ZK proof', {
             credentialSetId,
             merkleRoot: merkleProof.root,
+            circuitId: circuit.getCircuitId(),
         });
 
         try {
-            const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-                circuitInputs,
-                this.circuitManager.getWasmPath(),
-                this.circuitManager.getZkeyPath(),
-            );
+            const job = {
+                input: circuitInputs,
+                wasmPath: circuit.getWasmPath(),
+                zkeyPath: circuit.getZkeyPath(),
+            };
+            const endTimer = metrics.proofGenerationSeconds.startTimer({
+                circuit_id: circuit.getCircuitId(),
+            });
+            const { proof, publicSignals } = await (this.pool
+                ? this.pool.prove(job, signal)
+                : snarkjs.groth16.fullProve(job.input, job.wasmPath, job.zkeyPath)
+            ).finally(endTimer);
 
             const expiryMs = config.proofExpiryHours * 60 * 60 * 1000;
 
@@ -93,9 +172,22 @@ export class ZKProver {
                 timestamp: new Date(),
                 expiresAt: new Date(Date.now() + expiryMs),
                 version: '1.0.0',
-                circuitId: this.circuitManager.getCircuitId(),
+                circuitId: circuit.getCircuitId(),
+                ...(externalNullifier !== undefined && {
+                    externalNullifier,
+                    nullifierHash: identity.getNullifierHash(externalNullifier),
+                }),
+                ...(nonRevocation !== undefined && { revocationRoot: nonRevocation.root }),
+                ...(attributes !== undefined && { attributes: attributes.statement }),
+                ...(issued !== undefined && { issuerPublicKey: issued.publicKey }),
             };
 
+            // Refuse to issue a proof the verifier would reject as relabeled
+            const bindingErrors = checkPublicSignalBinding(schema, publicSignals, metadata);
+            if (bindingErrors.length > 0) {
+                throw new Error(`Public signals do not match metadata: ${bindingErrors.join('; ')}`);
+            }
+
             const zkProof: ZKProof = {
                 proof,
                 publicSignals,
@@ -109,6 +201,10 @@ export class ZKProver {
 
             return zkProof;
         } catch (error) {
+            // Back-pressure, timeouts and cancellation pass through as they are
+            if (error instanceof AppError) {
+                throw error;
+            }
             this.logger.error('Proof generation failed', {
                 error: error instanceof Error ? error.message : String(error),
             });
@@ -116,48 +212,120 @@ export class ZKProver {
         }
     }
 
+    /**
+     * Pick the circuit compiled for the proof's tree depth. The proof's
+     * siblings already include the zero hashes of empty subtrees, so its
+     * length is the depth of the set's tree.
+     */
+    private selectCircuit(merkleProof: MerkleProof, features: CircuitFeatures): CircuitManager {
+        const circuit = this.registry.select(merkleProof.siblings.length, features);
+
+        if (!this.available.has(circuit.getCircuitId())) {
+            throw new ProofError(
+                ErrorCode.CIRCUIT_NOT_FOUND,
+                `Circuit files not available: ${circuit.getCircuitId()}`,
+            );
+        }
+
+        return circuit;
+    }
 
     /**
      * Prepare circuit inputs from a Merkle proof.
      */
     private prepareCircuitInputs(
         merkleProof: MerkleProof,
-        credential: string,
+        identity: Identity,
+        externalNullifier?: string,
+        nonRevocation?: NonMembershipProof,
+        attributes?: AttributeProofInput,
+        issued?: IssuedCredential,
     ): Record<string, string | string[] | number[]> {
         const pathElements = merkleProof.siblings.map((sibling) =>
             BigInt('0x' + sibling.hash).toString(),
         );
-
-        const maxDepth = 20; // Circuit is fixed to 20 levels
-
-        // Pad to circuit depth
-        while (pathElements.length < maxDepth) {
-            pathElements.push('0');
-        }
-
-        const pathIndices = [...merkleProof.pathIndices];
-        while (pathIndices.length < maxDepth) {
-            pathIndices.push(0);
-        }
-
-        const credentialField = PoseidonManager.stringToField(credential).toString();
+        const field = (hex: string): string => BigInt('0x' + hex).toString();
+        const decimals = (values: bigint[]): string[] => values.map((value) => value.toString());
+        const statement = attributes && encodeAttributeStatement(attributes.statement);
 
         return {
-            credential: credentialField,
+            identitySecret: identity.secret.toString(),
+            identityNullifier: identity.nullifier.toString(),
+            ...(externalNullifier !== undefined && {
+                externalNullifier: PoseidonManager.stringToField(externalNullifier).toString(),
+            }),
             pathElements,
-            pathIndices,
+            pathIndices: [...merkleProof.pathIndices],
+            ...(nonRevocation !== undefined && {
+                revocationRoot: field(nonRevocation.root),
+                revocationSiblings: nonRevocation.siblings.map(field),
+                revocationOldKey: field(nonRevocation.oldKey),
+                revocationOldValue: field(nonRevocation.oldValue),
+                revocationIsOld0: nonRevocation.isOld0 ? '1' : '0',
+            }),
+            ...(attributes !== undefined &&
+                statement !== undefined && {
+                    attributes: decimals(attributes.credential.getEncodedValues()),
+                    schemaHash: statement.schemaHash.toString(),
+                    disclosureMask: decimals(statement.disclosureMask),
+                    predicateAttribute: decimals(statement.predicateAttribute),
+                    predicateOp: decimals(statement.predicateOp),
+                    predicateValue: decimals(statement.predicateValue),
+                }),
+            ...(issued !== undefined && {
+                issuerAx: field(issued.publicKey.x),
+                issuerAy: field(issued.publicKey.y),
+                signatureR8x: field(issued.signature.R8x),
+                signatureR8y: field(issued.signature.R8y),
+                signatureS: field(issued.signature.S),
+            }),
         };
     }
 
-    private validateProofInputs(merkleProof: MerkleProof, credential: string): void {
+    private validateProofInputs(
+        merkleProof: MerkleProof,
+        identity: Identity,
+        attributes?: AttributeProofInput,
+        issued?: IssuedCredential,
+    ): void {
         if (!merkleProof || !merkleProof.root || !merkleProof.siblings) {
             throw new ProofError(ErrorCode.INVALID_PROOF_STRUCTURE, 'Invalid Merkle proof structure');
         }
 
-        if (!credential || typeof credential !== 'string') {
+        // The circuit would fail on a foreign leaf anyway; fail fast instead
+        if (!(identity instanceof Identity)) {
+            throw new ProofError(ErrorCode.INVALID_CREDENTIAL, 'Invalid credential');
+        }
+        const leaf = attributes
+            ? attributes.credential.getLeaf(identity.getCommitment())
+            : identity.getCommitment();
+        if (merkleProof.leaf !== leaf) {
+            throw new ProofError(ErrorCode.INVALID_CREDENTIAL, 'Invalid credential');
+        }
+
+        // The statement's schema hash is part of the leaf, so it must be the credential's
+        if (
+            attributes &&
+            encodeAttributeStatement(attributes.statement).schemaHash !==
+                hashAttributeSchema(attributes.credential.schema)
+        ) {
             throw new ProofError(ErrorCode.INVALID_CREDENTIAL, 'Invalid credential');
         }
 
+        // The circuit checks the signature over the commitment it recomputes
+        const commitment = identity.getCommitment();
+        if (
+            issued &&
+            (issued.commitment !== commitment ||
+                !EdDSAManager.verify(
+                    BigInt('0x' + commitment),
+                    issued.signature,
+                    issued.publicKey,
+                ))
+        ) {
+            throw new ProofError(ErrorCode.INVALID_ISSUER_SIGNATURE, 'Invalid issuer signature');
+        }
+
         if (merkleProof.siblings.length > config.maxMerkleDepth) {
             throw new ProofError(
                 ErrorCode.INVALID_PROOF_STRUCTURE,
@@ -166,15 +334,6 @@ export class ZKProver {
         }
     }
 
-    /**
-     * Generate a nullifier to prevent double-use of a credential.
-     */
-    public generateNullifier(credential: string, secret: Buffer = randomBytes(32)): string {
-        const combined = Buffer.concat([Buffer.from(credential), secret]);
-        const { createHash } = require('crypto');
-        return createHash('sha256').update(combined).digest('hex');
-    }
-
     public isInitialized(): boolean {
         return this.initialized;
     }
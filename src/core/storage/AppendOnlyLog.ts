@@ -0,0 +1,124 @@
+import {
+    appendFileSync,
+    existsSync,
+    mkdirSync,
+    readFileSync,
+    renameSync,
+    truncateSync,
+    writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageError } from '../../utils/errors';
+
+/**
+ * Converts records to and from the JSON written on each line of a log.
+ */
+export interface LogCodec<T, S> {
+    serialize(record: T): S;
+    deserialize(line: S): T;
+}
+
+/**
+ * A file of newline-delimited JSON records that are only ever appended.
+ * A crash mid-append leaves a torn final line; it is skipped on read and
+ * cut off before the next append. A bad line anywhere else is corruption.
+ * Stores that let records expire compact the log with {@link rewrite}.
+ */
+export class AppendOnlyLog<T, S> {
+    private readonly filePath: string;
+    private readonly name: string;
+    private readonly codec: LogCodec<T, S>;
+    private readonly logger: Logger;
+    private tornTailOffset: number | null = null;
+
+    /**
+     * @param name What the log holds, e.g. `trusted root`; used in messages
+     */
+    constructor(filePath: string, name: string, codec: LogCodec<T, S>, logger: Logger) {
+        this.filePath = filePath;
+        this.name = name;
+        this.codec = codec;
+        this.logger = logger;
+    }
+
+    public append(record: T): void {
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            // Drop a torn trailing record before writing after it
+            if (this.tornTailOffset !== null) {
+                truncateSync(this.filePath, this.tornTailOffset);
+                this.tornTailOffset = null;
+            }
+            appendFileSync(this.filePath, this.toLine(record), { mode: 0o600 });
+        } catch (error) {
+            this.logger.error(`Failed to append to ${this.name} log`, {
+                filePath: this.filePath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new StorageError(`Failed to persist ${this.name} log entry`);
+        }
+    }
+
+    public readAll(): T[] {
+        if (!existsSync(this.filePath)) {
+            return [];
+        }
+
+        const contents = readFileSync(this.filePath, 'utf-8');
+        const lines = contents.split('\n').filter((line) => line.trim().length > 0);
+
+        const records: T[] = [];
+        lines.forEach((line, i) => {
+            let parsed: S;
+            try {
+                parsed = JSON.parse(line) as S;
+            } catch {
+                // A torn final line is what a crash mid-append looks like; skip it.
+                if (i === lines.length - 1) {
+                    const offset = contents.lastIndexOf(line);
+                    this.tornTailOffset = Buffer.byteLength(contents.slice(0, offset));
+                    this.logger.warn(`Ignoring incomplete trailing record in ${this.name} log`, {
+                        filePath: this.filePath,
+                    });
+                    return;
+                }
+                throw new StorageError(`${this.capitalizedName()} log is corrupt at line ${i + 1}`);
+            }
+
+            records.push(this.codec.deserialize(parsed));
+        });
+
+        return records;
+    }
+
+    /**
+     * Replace the log's contents with `records`. The new log is written
+     * beside the old one and renamed over it, so a crash leaves either.
+     */
+    public rewrite(records: readonly T[]): void {
+        const contents = records.map((record) => this.toLine(record)).join('');
+        const tmpPath = `${this.filePath}.tmp`;
+
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            writeFileSync(tmpPath, contents, { mode: 0o600 });
+            renameSync(tmpPath, this.filePath);
+            this.tornTailOffset = null;
+        } catch (error) {
+            this.logger.error(`Failed to rewrite ${this.name} log`, {
+                filePath: this.filePath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            throw new StorageError(`Failed to compact ${this.name} log`);
+        }
+    }
+
+    private toLine(record: T): string {
+        return `${JSON.stringify(this.codec.serialize(record))}\n`;
+    }
+
+    private capitalizedName(): string {
+        return this.name.charAt(0).toUpperCase() + this.name.slice(1);
+    }
+}
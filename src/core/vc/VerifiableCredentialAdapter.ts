@@ -0,0 +1,362 @@
+import { CredentialSetManager } from '../merkle/CredentialSet';
+import { DEFAULT_TREE_DEPTH } from '../merkle/MerkleTree';
+import { AttributeCredential, validateAttributeSchema } from '../crypto/AttributeCredential';
+import { ProofSerializer } from '../prover/ProofSerializer';
+import { Logger } from '../../utils/logger';
+import { ErrorCode, ProofError, ValidationError } from '../../utils/errors';
+import { validateCommitment } from '../../utils/validators';
+import {
+    AttributeDefinition,
+    AttributeSchema,
+    AttributeValues,
+    CREDENTIAL_CONSTRAINTS,
+    CredentialSet,
+} from '../../types/credential.types';
+import { SerializedProof, ZKProof } from '../../types/proof.types';
+import {
+    VerifiableCredentialDocument,
+    VerifiablePresentationDocument,
+} from '../../types/vc.types';
+
+export const VC_CONTEXT_V1 = 'https://www.w3.org/2018/credentials/v1';
+export const VC_CONTEXT_V2 = 'https://www.w3.org/ns/credentials/v2';
+
+/** Proof type of exported presentations */
+export const ZK_PROOF_TYPE = 'Groth16CredentialSetProof2026';
+
+// Defines the terms this adapter adds, inline so no context document has to be hosted
+const ZK_CONTEXT = { '@vocab': 'urn:anonymous-credentials#' } as const;
+
+const COMMITMENT_CLAIM = 'identityCommitment';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PROOF_ID_PREFIX = 'urn:uuid:';
+
+/**
+ * Credentials mapped onto the leaves of a credential set.
+ */
+export interface ImportedCredentials {
+    readonly issuer: string;
+    /** Present when the credentials carry attributes */
+    readonly attributeSchema?: AttributeSchema;
+    /** Identity commitments, or attribute credential leaves, in document order */
+    readonly leaves: string[];
+}
+
+export interface ImportCredentialSetOptions {
+    readonly description?: string;
+    readonly treeDepth?: number;
+    readonly attributeSchema?: AttributeSchema;
+}
+
+interface ParsedCredential {
+    readonly issuer: string;
+    readonly commitment: string;
+    readonly claims: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Converts between W3C Verifiable Credentials / Presentations and this
+ * project's credential sets and proofs.
+ *
+ * Imported credentials become set leaves: the `credentialSubject` names the
+ * holder's identity commitment, and its other claims become attributes.
+ * Proofs are exported as presentations whose proof block carries the
+ * Groth16 proof and its metadata, so no credential is ever disclosed.
+ */
+export class VerifiableCredentialAdapter {
+    private readonly serializer: ProofSerializer;
+    private readonly logger: Logger;
+
+    constructor(logger: Logger) {
+        this.serializer = new ProofSerializer(logger);
+        this.logger = logger;
+    }
+
+    /**
+     * Map credentials from one issuer onto set leaves. Each
+     * `credentialSubject` must hold the holder's `identityCommitment`; its
+     * other claims (except `id`) become attributes, typed by
+     * `attributeSchema` or, without one, inferred from the first credential.
+     *
+     * Embedded proofs are not verified: callers import only credentials they
+     * have already verified.
+     */
+    public importCredentials(
+        documents: readonly unknown[],
+        attributeSchema?: AttributeSchema,
+    ): ImportedCredentials {
+        if (!Array.isArray(documents) || documents.length === 0) {
+            throw new ValidationError('At least one credential is required');
+        }
+        if (documents.length > CREDENTIAL_CONSTRAINTS.MAX_CREDENTIALS_PER_SET) {
+            throw new ValidationError(
+                `Maximum ${CREDENTIAL_CONSTRAINTS.MAX_CREDENTIALS_PER_SET} credentials per set`,
+            );
+        }
+
+        const parsed = documents.map((document: unknown, index) =>
+            parseCredential(document, index),
+        );
+        const issuer = parsed[0].issuer;
+        if (parsed.some((credential) => credential.issuer !== issuer)) {
+            throw new ValidationError('All credentials must come from the same issuer');
+        }
+
+        const schema = attributeSchema ?? inferSchema(parsed[0].claims);
+        if (schema === undefined) {
+            const extra = parsed.findIndex((credential) => Object.keys(credential.claims).length);
+            if (extra >= 0) {
+                throw new ValidationError(`Credential ${extra}: unexpected claims`);
+            }
+            return { issuer, leaves: parsed.map((credential) => credential.commitment) };
+        }
+
+        validateAttributeSchema(schema);
+        const leaves = parsed.map((credential, index) => {
+            try {
+                return new AttributeCredential(
+                    schema,
+                    toAttributeValues(credential.claims),
+                ).getLeaf(credential.commitment);
+            } catch (error) {
+                if (error instanceof ValidationError) {
+                    throw new ValidationError(`Credential ${index}: ${error.message}`);
+                }
+                throw error;
+            }
+        });
+
+        return { issuer, attributeSchema: schema, leaves };
+    }
+
+    /**
+     * Create a credential set from credentials, as {@link importCredentials}.
+     */
+    public importCredentialSet(
+        manager: CredentialSetManager,
+        name: string,
+        documents: readonly unknown[],
+        options: ImportCredentialSetOptions = {},
+    ): CredentialSet {
+        const imported = this.importCredentials(documents, options.attributeSchema);
+        const credentialSet = manager.createCredentialSet(
+            name,
+            imported.leaves,
+            options.description ?? `Imported from ${imported.issuer}`,
+            undefined,
+            options.treeDepth ?? DEFAULT_TREE_DEPTH,
+            imported.attributeSchema,
+        );
+
+        this.logger.info('Credentials imported', {
+            setId: credentialSet.id,
+            issuer: imported.issuer,
+            count: imported.leaves.length,
+        });
+
+        return credentialSet;
+    }
+
+    /**
+     * An unsigned credential issuing `credential` (or, without one, bare
+     * membership) to the holder of `commitment`. The issuer adds its proof.
+     */
+    public exportCredential(
+        issuer: string,
+        commitment: string,
+        credential?: AttributeCredential,
+        issuedAt: Date = new Date(),
+    ): VerifiableCredentialDocument {
+        validateCommitment(commitment);
+
+        const claims: Record<string, string | number> = {};
+        if (credential) {
+            for (const definition of credential.schema) {
+                claims[definition.name] = fromAttributeValue(
+                    definition,
+                    credential.getValue(definition.name),
+                );
+            }
+        }
+
+        return {
+            '@context': [VC_CONTEXT_V2, ZK_CONTEXT],
+            type: ['VerifiableCredential'],
+            issuer,
+            validFrom: issuedAt.toISOString(),
+            credentialSubject: { [COMMITMENT_CLAIM]: commitment.toLowerCase(), ...claims },
+        };
+    }
+
+    /**
+     * Wrap a proof in a Verifiable Presentation with a {@link ZK_PROOF_TYPE}
+     * proof.
+     */
+    public toPresentation(proof: ZKProof): VerifiablePresentationDocument {
+        const { metadata, ...serialized } = this.serializer.serialize(proof);
+
+        return {
+            '@context': [VC_CONTEXT_V2, ZK_CONTEXT],
+            id: PROOF_ID_PREFIX + metadata.proofId,
+            type: ['VerifiablePresentation'],
+            proof: {
+                type: ZK_PROOF_TYPE,
+                created: metadata.timestamp,
+                expires: metadata.expiresAt,
+                proofPurpose: 'authentication',
+                proofValue: serialized.proof,
+                publicSignals: serialized.publicSignals,
+                credentialSetId: metadata.credentialSetId,
+                merkleRoot: metadata.merkleRoot,
+                circuitId: metadata.circuitId,
+                version: metadata.version,
+                externalNullifier: metadata.externalNullifier,
+                nullifierHash: metadata.nullifierHash,
+                revocationRoot: metadata.revocationRoot,
+                attributes: metadata.attributes,
+                issuerPublicKey: metadata.issuerPublicKey,
+            },
+        };
+    }
+
+    /**
+     * Recover the proof from a presentation made by {@link toPresentation}.
+     * The proof still has to be verified.
+     */
+    public fromPresentation(document: unknown): ZKProof {
+        const presentation = document as Partial<VerifiablePresentationDocument> | null;
+        const proof = presentation?.proof;
+        if (
+            !isObject(presentation) ||
+            !hasType(presentation.type, 'VerifiablePresentation') ||
+            typeof presentation.id !== 'string' ||
+            !presentation.id.startsWith(PROOF_ID_PREFIX) ||
+            !isObject(proof) ||
+            proof.type !== ZK_PROOF_TYPE
+        ) {
+            throw invalidPresentation();
+        }
+
+        const serialized: SerializedProof = {
+            proof: proof.proofValue,
+            publicSignals: proof.publicSignals,
+            metadata: {
+                proofId: presentation.id.slice(PROOF_ID_PREFIX.length),
+                credentialSetId: proof.credentialSetId,
+                merkleRoot: proof.merkleRoot,
+                timestamp: proof.created,
+                expiresAt: proof.expires,
+                version: proof.version,
+                circuitId: proof.circuitId,
+                externalNullifier: proof.externalNullifier,
+                nullifierHash: proof.nullifierHash,
+                revocationRoot: proof.revocationRoot,
+                attributes: proof.attributes,
+                issuerPublicKey: proof.issuerPublicKey,
+            },
+        };
+        if (typeof proof.proofValue !== 'string' || !this.serializer.validate(serialized)) {
+            throw invalidPresentation();
+        }
+
+        return this.serializer.deserialize(serialized);
+    }
+}
+
+function parseCredential(document: unknown, index: number): ParsedCredential {
+    const label = `Credential ${index}`;
+    const credential = document as Partial<VerifiableCredentialDocument> | null;
+    if (!isObject(credential)) {
+        throw new ValidationError(`${label}: must be an object`);
+    }
+
+    const context = credential['@context'];
+    if (
+        !Array.isArray(context) ||
+        (context[0] !== VC_CONTEXT_V1 && context[0] !== VC_CONTEXT_V2)
+    ) {
+        throw new ValidationError(`${label}: not a W3C verifiable credential`);
+    }
+    if (!hasType(credential.type, 'VerifiableCredential')) {
+        throw new ValidationError(`${label}: type must include VerifiableCredential`);
+    }
+
+    const issuer =
+        typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+    if (typeof issuer !== 'string' || issuer.length === 0) {
+        throw new ValidationError(`${label}: issuer is required`);
+    }
+
+    const now = Date.now();
+    const from = credential.validFrom ?? credential.issuanceDate;
+    const until = credential.validUntil ?? credential.expirationDate;
+    if (from !== undefined && !(Date.parse(from) <= now)) {
+        throw new ValidationError(`${label}: not yet valid`);
+    }
+    if (until !== undefined && !(Date.parse(until) > now)) {
+        throw new ValidationError(`${label}: expired`);
+    }
+
+    const subject = credential.credentialSubject;
+    if (!isObject(subject) || Array.isArray(subject)) {
+        throw new ValidationError(`${label}: credentialSubject must be a single object`);
+    }
+
+    const commitment = subject[COMMITMENT_CLAIM];
+    if (typeof commitment !== 'string') {
+        throw new ValidationError(`${label}: credentialSubject.${COMMITMENT_CLAIM} is required`);
+    }
+    validateCommitment(commitment);
+
+    // The subject's `id` would link the holder to the set, so it is dropped
+    const claims = Object.fromEntries(
+        Object.entries(subject).filter(([name]) => name !== 'id' && name !== COMMITMENT_CLAIM),
+    );
+
+    return { issuer, commitment: commitment.toLowerCase(), claims };
+}
+
+// Attribute types from the claims' JSON types; undefined when there are none
+function inferSchema(claims: Readonly<Record<string, unknown>>): AttributeSchema | undefined {
+    const schema = Object.entries(claims).map(([name, value]): AttributeDefinition => {
+        if (typeof value === 'number') {
+            return { name, type: 'integer' };
+        }
+        if (typeof value === 'string') {
+            return { name, type: DATE_PATTERN.test(value) ? 'date' : 'string' };
+        }
+        throw new ValidationError(`Claim ${name}: must be a number or a string`);
+    });
+
+    return schema.length > 0 ? schema : undefined;
+}
+
+function toAttributeValues(claims: Readonly<Record<string, unknown>>): AttributeValues {
+    const values: Record<string, string | number> = {};
+    for (const [name, value] of Object.entries(claims)) {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+            throw new ValidationError(`Claim ${name}: must be a number or a string`);
+        }
+        values[name] = value;
+    }
+    return values;
+}
+
+// Integers as JSON numbers where that is exact, so the schema can be inferred again
+function fromAttributeValue(definition: AttributeDefinition, value: string): string | number {
+    return definition.type === 'integer' && Number.isSafeInteger(Number(value))
+        ? Number(value)
+        : value;
+}
+
+function invalidPresentation(): ProofError {
+    return new ProofError(ErrorCode.INVALID_PROOF_STRUCTURE, 'Invalid verifiable presentation');
+}
+
+function hasType(type: unknown, expected: string): boolean {
+    return Array.isArray(type) ? type.includes(expected) : type === expected;
+}
+
+function isObject(value: unknown): value is object {
+    return typeof value === 'object' && value !== null;
+}
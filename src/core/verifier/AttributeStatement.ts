@@ -0,0 +1,334 @@
+import {
+    AttributePredicate,
+    AttributeStatement,
+    PublicSignalDefinition,
+    PublicSignalSchema,
+} from '../../types/proof.types';
+import { AttributeSchema, CREDENTIAL_CONSTRAINTS } from '../../types/credential.types';
+import {
+    AttributeCredential,
+    encodeAttributeValue,
+    hashAttributeSchema,
+    validateAttributeSchema,
+} from '../crypto/AttributeCredential';
+import { ErrorCode, ProofError, ValidationError } from '../../utils/errors';
+
+/** Predicate slots of the attribute credential circuit; `between` takes two */
+export const MAX_PREDICATE_SLOTS = 4;
+
+/**
+ * Operators the circuit evaluates. Keep in sync with
+ * `circuits/attribute_credential.circom`.
+ */
+export const PREDICATE_OPCODES = { none: 0, eq: 1, neq: 2, gte: 3, lte: 4 } as const;
+
+type SlotOperator = Exclude<keyof typeof PREDICATE_OPCODES, 'none'>;
+
+/**
+ * One predicate as the circuit checks it: attribute slot, operator and
+ * encoded operand.
+ */
+interface PredicateSlot {
+    readonly attribute: number;
+    readonly op: SlotOperator;
+    readonly value: bigint;
+}
+
+/**
+ * An {@link AttributeStatement} as field elements, named after the
+ * circuit's public signals.
+ */
+export interface EncodedAttributeStatement {
+    /** Value of each disclosed attribute, zero elsewhere */
+    readonly disclosed: bigint[];
+    readonly schemaHash: bigint;
+    /** 1 for each disclosed attribute slot */
+    readonly disclosureMask: bigint[];
+    readonly predicateAttribute: bigint[];
+    readonly predicateOp: bigint[];
+    readonly predicateValue: bigint[];
+}
+
+const MAX_ATTRIBUTES = CREDENTIAL_CONSTRAINTS.MAX_ATTRIBUTES;
+const ONE = BigInt(1);
+const ZERO = BigInt(0);
+const MAX_VALUE = (ONE << BigInt(64)) - ONE;
+
+/**
+ * Describe what a proof over `credential` will reveal and prove.
+ * Throws `ATTRIBUTE_PREDICATE_NOT_SATISFIED` rather than starting a proof
+ * the circuit would reject.
+ */
+export function buildAttributeStatement(
+    credential: AttributeCredential,
+    disclose: readonly string[] = [],
+    predicates: readonly AttributePredicate[] = [],
+): AttributeStatement {
+    const names = new Set(credential.schema.map((definition) => definition.name));
+    for (const name of disclose) {
+        if (!names.has(name)) {
+            throw new ValidationError(`Unknown attribute: ${name}`);
+        }
+    }
+
+    const statement: AttributeStatement = {
+        schema: credential.schema,
+        disclosed: Object.fromEntries(disclose.map((name) => [name, credential.getValue(name)])),
+        predicates: [...predicates],
+    };
+
+    const values = credential.getEncodedValues();
+    const slots = expandPredicates(credential.schema, statement.predicates);
+    if (!slots.every((slot) => holds(slot, values[slot.attribute]))) {
+        throw new ProofError(
+            ErrorCode.ATTRIBUTE_PREDICATE_NOT_SATISFIED,
+            'Credential does not satisfy the requested predicates',
+        );
+    }
+
+    return statement;
+}
+
+/**
+ * Encode a statement as the circuit's attribute inputs and outputs.
+ * Throws {@link ValidationError} on a malformed statement.
+ */
+export function encodeAttributeStatement(statement: AttributeStatement): EncodedAttributeStatement {
+    if (!statement || typeof statement !== 'object') {
+        throw new ValidationError('Attribute statement must be an object');
+    }
+
+    const { schema, disclosed, predicates } = statement;
+    validateAttributeSchema(schema);
+    if (!disclosed || typeof disclosed !== 'object' || !Array.isArray(predicates)) {
+        throw new ValidationError('Attribute statement needs disclosed and predicates');
+    }
+
+    const encoded: EncodedAttributeStatement = {
+        disclosed: Array<bigint>(MAX_ATTRIBUTES).fill(ZERO),
+        schemaHash: hashAttributeSchema(schema),
+        disclosureMask: Array<bigint>(MAX_ATTRIBUTES).fill(ZERO),
+        predicateAttribute: Array<bigint>(MAX_PREDICATE_SLOTS).fill(ZERO),
+        predicateOp: Array<bigint>(MAX_PREDICATE_SLOTS).fill(ZERO),
+        predicateValue: Array<bigint>(MAX_PREDICATE_SLOTS).fill(ZERO),
+    };
+
+    for (const [name, value] of Object.entries(disclosed)) {
+        const index = attributeIndex(schema, name);
+        encoded.disclosed[index] = encodeAttributeValue(schema[index], value);
+        encoded.disclosureMask[index] = ONE;
+    }
+
+    expandPredicates(schema, predicates).forEach((slot, i) => {
+        encoded.predicateAttribute[i] = BigInt(slot.attribute);
+        encoded.predicateOp[i] = BigInt(PREDICATE_OPCODES[slot.op]);
+        encoded.predicateValue[i] = slot.value;
+    });
+
+    return encoded;
+}
+
+/**
+ * The attribute public signals in circuit order: disclosed values, then
+ * the public inputs as declared.
+ */
+export function attributeSignals(encoded: EncodedAttributeStatement): bigint[] {
+    return [
+        ...encoded.disclosed,
+        encoded.schemaHash,
+        ...encoded.disclosureMask,
+        ...encoded.predicateAttribute,
+        ...encoded.predicateOp,
+        ...encoded.predicateValue,
+    ];
+}
+
+/**
+ * Public signal layout of the attribute credential circuit.
+ */
+export function attributeSignalSchema(): PublicSignalSchema {
+    const names = [
+        ...slotNames('disclosed', MAX_ATTRIBUTES),
+        'schemaHash',
+        ...slotNames('disclosureMask', MAX_ATTRIBUTES),
+        ...slotNames('predicateAttribute', MAX_PREDICATE_SLOTS),
+        ...slotNames('predicateOp', MAX_PREDICATE_SLOTS),
+        ...slotNames('predicateValue', MAX_PREDICATE_SLOTS),
+    ];
+
+    return [
+        { name: 'root', metadataField: 'merkleRoot', encoding: 'hex' },
+        ...names.map(
+            (name, index): PublicSignalDefinition => ({
+                name,
+                metadataField: 'attributes',
+                encoding: 'attribute',
+                index,
+            }),
+        ),
+    ];
+}
+
+/**
+ * Check a proven statement against what the verifier requires. A required
+ * predicate is met by a disclosed value that satisfies it or by a proven
+ * predicate at least as strict, e.g. `gte 21` meets a required `gt 18`.
+ */
+export function checkAttributeRequirements(
+    statement: AttributeStatement,
+    predicates: readonly AttributePredicate[] = [],
+    disclose: readonly string[] = [],
+): string[] {
+    const errors: string[] = [];
+
+    for (const name of disclose) {
+        if (!(name in statement.disclosed)) {
+            errors.push(`Attribute ${name} is not disclosed`);
+        }
+    }
+
+    const { disclosed, disclosureMask } = encodeAttributeStatement(statement);
+    const proven = expandPredicates(statement.schema, statement.predicates);
+
+    for (const predicate of predicates) {
+        let required: PredicateSlot[];
+        try {
+            required = expandPredicates(statement.schema, [predicate]);
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+            continue;
+        }
+
+        const met = required.every(
+            (slot) =>
+                (disclosureMask[slot.attribute] === ONE && holds(slot, disclosed[slot.attribute])) ||
+                proven.some((candidate) => implies(candidate, slot)),
+        );
+        if (!met) {
+            errors.push(`Predicate on ${predicate.attribute} is not proven`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Translate predicates into circuit slots: `gt` and `lt` become `gte` and
+ * `lte` on the adjacent value, `between` becomes a `gte` and an `lte`.
+ */
+function expandPredicates(
+    schema: AttributeSchema,
+    predicates: readonly AttributePredicate[],
+): PredicateSlot[] {
+    const slots: PredicateSlot[] = [];
+
+    for (const predicate of predicates) {
+        const index = attributeIndex(schema, predicate?.attribute);
+        const definition = schema[index];
+        const label = `Predicate on ${definition.name}`;
+        const operand = (value: string | number | undefined): bigint => {
+            if (value === undefined) {
+                throw new ValidationError(`${label}: operand is required`);
+            }
+            return encodeAttributeValue(definition, value);
+        };
+
+        if (predicate.op === 'eq' || predicate.op === 'neq') {
+            slots.push({ attribute: index, op: predicate.op, value: operand(predicate.value) });
+            continue;
+        }
+
+        if (definition.type === 'string') {
+            throw new ValidationError(`${label}: only eq and neq apply to string attributes`);
+        }
+
+        switch (predicate.op) {
+            case 'gte':
+            case 'lte':
+                slots.push({ attribute: index, op: predicate.op, value: operand(predicate.value) });
+                break;
+            case 'gt': {
+                const value = operand(predicate.value);
+                if (value === MAX_VALUE) {
+                    throw new ValidationError(`${label}: no value is greater`);
+                }
+                slots.push({ attribute: index, op: 'gte', value: value + ONE });
+                break;
+            }
+            case 'lt': {
+                const value = operand(predicate.value);
+                if (value === ZERO) {
+                    throw new ValidationError(`${label}: no value is less`);
+                }
+                slots.push({ attribute: index, op: 'lte', value: value - ONE });
+                break;
+            }
+            case 'between': {
+                const min = operand(predicate.min);
+                const max = operand(predicate.max);
+                if (min > max) {
+                    throw new ValidationError(`${label}: min must not exceed max`);
+                }
+                slots.push({ attribute: index, op: 'gte', value: min });
+                slots.push({ attribute: index, op: 'lte', value: max });
+                break;
+            }
+            default:
+                throw new ValidationError(`${label}: unknown operator`);
+        }
+    }
+
+    if (slots.length > MAX_PREDICATE_SLOTS) {
+        throw new ValidationError(
+            `At most ${MAX_PREDICATE_SLOTS} predicate slots per proof (between takes two)`,
+        );
+    }
+
+    return slots;
+}
+
+function attributeIndex(schema: AttributeSchema, name: unknown): number {
+    const index = schema.findIndex((definition) => definition.name === name);
+    if (index < 0) {
+        throw new ValidationError(`Unknown attribute: ${String(name)}`);
+    }
+    return index;
+}
+
+function holds(slot: PredicateSlot, value: bigint): boolean {
+    switch (slot.op) {
+        case 'eq':
+            return value === slot.value;
+        case 'neq':
+            return value !== slot.value;
+        case 'gte':
+            return value >= slot.value;
+        case 'lte':
+            return value <= slot.value;
+    }
+}
+
+// Whether every value satisfying `proven` also satisfies `required`
+function implies(proven: PredicateSlot, required: PredicateSlot): boolean {
+    if (proven.attribute !== required.attribute) {
+        return false;
+    }
+    if (proven.op === 'eq') {
+        return holds(required, proven.value);
+    }
+    if (proven.op !== required.op) {
+        return false;
+    }
+    switch (proven.op) {
+        case 'neq':
+            return proven.value === required.value;
+        case 'gte':
+            return proven.value >= required.value;
+        case 'lte':
+            return proven.value <= required.value;
+    }
+}
+
+function slotNames(signal: string, count: number): string[] {
+    return Array.from({ length: count }, (_, i) => `${signal}[${i}]`);
+}
@@ -0,0 +1,159 @@
+import { Logger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
+import { validateHexHash } from '../../utils/validators';
+import { IssuerPublicKey } from '../../types/issuer.types';
+import { InMemoryTrustedIssuerStore, IssuerLogEntry, TrustedIssuerStore } from './TrustedIssuerStore';
+
+/**
+ * An issuer public key registered by an administrator.
+ */
+export interface TrustedIssuer {
+    readonly issuerId: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly addedAt: Date;
+    readonly expiresAt?: Date;
+    readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Manages the set of trusted issuer public keys.
+ * Issuer-signed proofs are only accepted when their issuer key is trusted.
+ *
+ * Every change is appended to a {@link TrustedIssuerStore} before it takes
+ * effect, and the store is replayed on construction to rebuild the trust set.
+ */
+export class IssuerRegistry {
+    private readonly issuers: Map<string, TrustedIssuer>;
+    private readonly store: TrustedIssuerStore;
+    private readonly logger: Logger;
+
+    constructor(logger: Logger, store: TrustedIssuerStore = new InMemoryTrustedIssuerStore()) {
+        this.issuers = new Map();
+        this.store = store;
+        this.logger = logger;
+
+        this.replay();
+    }
+
+    /**
+     * Trust an issuer's public key. Trusting a known issuer again replaces
+     * its key, e.g. after rotation.
+     */
+    public addTrustedIssuer(issuer: TrustedIssuer, actor: string = 'system'): void {
+        const { issuerId, publicKey } = issuer;
+
+        if (typeof issuerId !== 'string' || issuerId.length === 0) {
+            throw new ValidationError('Invalid issuer parameters');
+        }
+        validateHexHash(publicKey?.x, 'Issuer public key x');
+        validateHexHash(publicKey?.y, 'Issuer public key y');
+
+        const normalized: TrustedIssuer = {
+            ...issuer,
+            publicKey: { x: publicKey.x.toLowerCase(), y: publicKey.y.toLowerCase() },
+        };
+        const holder = this.findByKey(normalized.publicKey);
+        if (holder && holder.issuerId !== issuerId) {
+            throw new ValidationError('Public key is already trusted for another issuer');
+        }
+
+        this.store.append({
+            action: 'add',
+            issuerId,
+            publicKey: normalized.publicKey,
+            actor,
+            at: issuer.addedAt,
+            expiresAt: issuer.expiresAt,
+            metadata: issuer.metadata,
+        });
+        this.issuers.set(issuerId, normalized);
+
+        this.logger.info('Trusted issuer added', {
+            issuerId,
+            publicKey: normalized.publicKey.x.substring(0, 16) + '...',
+            actor,
+        });
+    }
+
+    /**
+     * The trusted, unexpired issuer holding `publicKey`, if any.
+     */
+    public findTrustedIssuer(publicKey: IssuerPublicKey): TrustedIssuer | undefined {
+        const issuer = this.findByKey(publicKey);
+
+        if (issuer?.expiresAt && issuer.expiresAt < new Date()) {
+            this.logger.warn('Expired issuer key accessed', { issuerId: issuer.issuerId });
+            return undefined;
+        }
+
+        return issuer;
+    }
+
+    /**
+     * Stop trusting an issuer. Returns false if it was not trusted.
+     */
+    public revokeTrustedIssuer(issuerId: string, actor: string = 'system'): boolean {
+        if (!this.issuers.has(issuerId)) {
+            return false;
+        }
+
+        this.store.append({ action: 'revoke', issuerId, actor, at: new Date() });
+        this.issuers.delete(issuerId);
+
+        this.logger.info('Trusted issuer revoked', { issuerId, actor });
+
+        return true;
+    }
+
+    /**
+     * List all trusted issuers, including expired ones.
+     */
+    public getTrustedIssuers(): TrustedIssuer[] {
+        return Array.from(this.issuers.values());
+    }
+
+    /**
+     * Return the full history of issuer changes, optionally for one issuer.
+     */
+    public getAuditLog(issuerId?: string): IssuerLogEntry[] {
+        const entries = this.store.readAll();
+        return issuerId ? entries.filter((entry) => entry.issuerId === issuerId) : entries;
+    }
+
+    private findByKey(publicKey: IssuerPublicKey): TrustedIssuer | undefined {
+        const x = publicKey?.x?.toLowerCase();
+        const y = publicKey?.y?.toLowerCase();
+
+        for (const issuer of this.issuers.values()) {
+            if (issuer.publicKey.x === x && issuer.publicKey.y === y) {
+                return issuer;
+            }
+        }
+        return undefined;
+    }
+
+    private replay(): void {
+        const entries = this.store.readAll();
+
+        for (const entry of entries) {
+            if (entry.action === 'revoke') {
+                this.issuers.delete(entry.issuerId);
+            } else if (entry.publicKey) {
+                this.issuers.set(entry.issuerId, {
+                    issuerId: entry.issuerId,
+                    publicKey: entry.publicKey,
+                    addedAt: entry.at,
+                    expiresAt: entry.expiresAt,
+                    metadata: entry.metadata,
+                });
+            }
+        }
+
+        if (entries.length > 0) {
+            this.logger.info('Trusted issuers restored from log', {
+                entries: entries.length,
+                trustedIssuers: this.issuers.size,
+            });
+        }
+    }
+}
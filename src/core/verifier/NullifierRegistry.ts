@@ -0,0 +1,74 @@
+import { Logger } from '../../utils/logger';
+import { InMemoryNullifierStore, NullifierStore } from './NullifierStore';
+
+/**
+ * Tracks nullifiers spent by accepted proofs, per external nullifier (scope).
+ *
+ * A nullifier is Poseidon(credential, externalNullifier), so the same holder
+ * produces the same value every time within one scope (e.g. one poll) and an
+ * unrelated value in any other scope.
+ */
+export class NullifierRegistry {
+    private readonly used: Map<string, Set<string>>;
+    private readonly store: NullifierStore;
+    private readonly logger: Logger;
+
+    constructor(logger: Logger, store: NullifierStore = new InMemoryNullifierStore()) {
+        this.used = new Map();
+        this.store = store;
+        this.logger = logger;
+
+        for (const record of this.store.readAll()) {
+            this.markUsed(record.externalNullifier, record.nullifierHash);
+        }
+    }
+
+    /**
+     * Check whether a nullifier has already been spent in a scope.
+     */
+    public isUsed(externalNullifier: string, nullifierHash: string): boolean {
+        return this.used.get(externalNullifier)?.has(nullifierHash) ?? false;
+    }
+
+    /**
+     * Spend a nullifier. Returns false, recording nothing, if it was already
+     * spent in this scope.
+     */
+    public consume(externalNullifier: string, nullifierHash: string, proofId: string): boolean {
+        if (this.isUsed(externalNullifier, nullifierHash)) {
+            this.logger.warn('Nullifier reuse rejected', {
+                externalNullifier,
+                nullifierHash: nullifierHash.substring(0, 16) + '...',
+                proofId,
+            });
+            return false;
+        }
+
+        this.store.append({ externalNullifier, nullifierHash, proofId, usedAt: new Date() });
+        this.markUsed(externalNullifier, nullifierHash);
+
+        this.logger.info('Nullifier consumed', {
+            externalNullifier,
+            nullifierHash: nullifierHash.substring(0, 16) + '...',
+            proofId,
+        });
+
+        return true;
+    }
+
+    /**
+     * Number of nullifiers spent in a scope.
+     */
+    public getUsedCount(externalNullifier: string): number {
+        return this.used.get(externalNullifier)?.size ?? 0;
+    }
+
+    private markUsed(externalNullifier: string, nullifierHash: string): void {
+        let hashes = this.used.get(externalNullifier);
+        if (!hashes) {
+            hashes = new Set();
+            this.used.set(externalNullifier, hashes);
+        }
+        hashes.add(nullifierHash);
+    }
+}
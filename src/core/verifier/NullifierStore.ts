@@ -0,0 +1,93 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+
+/**
+ * A nullifier consumed by an accepted proof.
+ */
+export interface NullifierRecord {
+    readonly externalNullifier: string;
+    readonly nullifierHash: string;
+    readonly proofId: string;
+    readonly usedAt: Date;
+}
+
+/**
+ * Append-only storage for consumed nullifiers.
+ */
+export interface NullifierStore {
+    append(record: NullifierRecord): void;
+    readAll(): NullifierRecord[];
+}
+
+/**
+ * Keeps consumed nullifiers in process memory. Contents are lost on restart,
+ * after which every nullifier can be spent once more.
+ */
+export class InMemoryNullifierStore implements NullifierStore {
+    private readonly records: NullifierRecord[] = [];
+
+    public append(record: NullifierRecord): void {
+        this.records.push(record);
+    }
+
+    public readAll(): NullifierRecord[] {
+        return [...this.records];
+    }
+}
+
+interface SerializedNullifierRecord {
+    readonly externalNullifier: string;
+    readonly nullifierHash: string;
+    readonly proofId: string;
+    readonly usedAt: string;
+}
+
+const nullifierCodec: LogCodec<NullifierRecord, SerializedNullifierRecord> = {
+    serialize: (record) => ({
+        externalNullifier: record.externalNullifier,
+        nullifierHash: record.nullifierHash,
+        proofId: record.proofId,
+        usedAt: record.usedAt.toISOString(),
+    }),
+    deserialize: (line) => ({
+        externalNullifier: line.externalNullifier,
+        nullifierHash: line.nullifierHash,
+        proofId: line.proofId,
+        usedAt: new Date(line.usedAt),
+    }),
+};
+
+/**
+ * Persists consumed nullifiers as newline-delimited JSON, one record per line.
+ */
+export class FileNullifierStore implements NullifierStore {
+    private readonly log: AppendOnlyLog<NullifierRecord, SerializedNullifierRecord>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(filePath, 'nullifier', nullifierCodec, logger);
+    }
+
+    public append(record: NullifierRecord): void {
+        this.log.append(record);
+    }
+
+    public readAll(): NullifierRecord[] {
+        return this.log.readAll();
+    }
+}
+
+/**
+ * Create the nullifier store for the configured backend.
+ */
+export function createNullifierStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): NullifierStore {
+    if (backend === 'file') {
+        return new FileNullifierStore(join(dataDir, 'nullifiers.log'), logger);
+    }
+    return new InMemoryNullifierStore();
+}
@@ -58,6 +58,15 @@ export class ProofValidator {
                 errors.push('Missing circuit ID');
             }
 
+            // Unparseable dates compare false against everything, which
+            // would let them slip past the expiry checks below
+            if (isNaN(proof.metadata.timestamp.getTime())) {
+                errors.push('Invalid proof timestamp');
+            }
+            if (isNaN(proof.metadata.expiresAt.getTime())) {
+                errors.push('Invalid proof expiration');
+            }
+
             // Check timestamp validity
             if (proof.metadata.timestamp > new Date()) {
                 errors.push('Proof timestamp is in the future');
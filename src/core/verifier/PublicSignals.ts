@@ -0,0 +1,156 @@
+import { ProofMetadata, PublicSignalDefinition, PublicSignalSchema } from '../../types/proof.types';
+import { PoseidonManager, SNARK_SCALAR_FIELD } from '../crypto/PoseidonManager';
+import { attributeSignals, encodeAttributeStatement } from './AttributeStatement';
+
+export { SNARK_SCALAR_FIELD };
+
+const DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+const HEX_PATTERN = /^[a-f0-9]{1,64}$/i;
+
+/**
+ * Decode a public signal vector into named field elements.
+ * Returns a list of problems instead of throwing, so callers can fold them
+ * into a verification result.
+ */
+export function decodePublicSignals(
+    schema: PublicSignalSchema,
+    signals: readonly string[],
+): { values: Record<string, bigint>; errors: string[] } {
+    const values: Record<string, bigint> = {};
+    const errors: string[] = [];
+
+    if (signals.length !== schema.length) {
+        errors.push(`Expected ${schema.length} public signals, got ${signals.length}`);
+        return { values, errors };
+    }
+
+    schema.forEach((definition, i) => {
+        const signal = signals[i];
+        if (typeof signal !== 'string' || !DECIMAL_PATTERN.test(signal)) {
+            errors.push(`Public signal ${definition.name} is not a canonical decimal`);
+            return;
+        }
+
+        const value = BigInt(signal);
+        if (value >= SNARK_SCALAR_FIELD) {
+            errors.push(`Public signal ${definition.name} is outside the scalar field`);
+            return;
+        }
+
+        values[definition.name] = value;
+    });
+
+    return { values, errors };
+}
+
+/**
+ * Whether a circuit's public signals include a nullifier, i.e. its proofs
+ * are single-use per external nullifier.
+ */
+export function hasNullifier(schema: PublicSignalSchema): boolean {
+    return schema.some((definition) => definition.metadataField === 'nullifierHash');
+}
+
+/**
+ * Whether a circuit proves non-membership in a revocation tree.
+ */
+export function hasRevocation(schema: PublicSignalSchema): boolean {
+    return schema.some((definition) => definition.metadataField === 'revocationRoot');
+}
+
+/**
+ * Whether a circuit proves predicates on, and discloses, credential attributes.
+ */
+export function hasAttributes(schema: PublicSignalSchema): boolean {
+    return schema.some((definition) => definition.metadataField === 'attributes');
+}
+
+/**
+ * Whether a circuit proves an issuer's signature on the holder's commitment.
+ */
+export function hasIssuer(schema: PublicSignalSchema): boolean {
+    return schema.some((definition) => definition.metadataField === 'issuerPublicKey');
+}
+
+/**
+ * Check that every public signal equals the metadata field it is bound to,
+ * so proof metadata cannot be relabeled to claim a different root (or scope).
+ */
+export function checkPublicSignalBinding(
+    schema: PublicSignalSchema,
+    signals: readonly string[],
+    metadata: ProofMetadata,
+): string[] {
+    const { values, errors } = decodePublicSignals(schema, signals);
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    // Encoded once; every attribute signal is one element of it
+    const attributes = schema.some((definition) => definition.encoding === 'attribute')
+        ? decodeAttributeStatement(metadata)
+        : null;
+
+    for (const definition of schema) {
+        const expected =
+            definition.encoding === 'attribute'
+                ? (attributes?.[definition.index ?? -1] ?? null)
+                : definition.encoding === 'point'
+                  ? decodePointCoordinate(definition, metadata)
+                  : decodeMetadataValue(definition, metadata);
+        if (expected === null) {
+            errors.push(`Metadata ${String(definition.metadataField)} is missing or malformed`);
+        } else if (expected !== values[definition.name]) {
+            errors.push(
+                `Public signal ${definition.name} does not match metadata ${String(definition.metadataField)}`,
+            );
+        }
+    }
+
+    return errors;
+}
+
+function decodeAttributeStatement(metadata: ProofMetadata): bigint[] | null {
+    try {
+        return metadata.attributes
+            ? attributeSignals(encodeAttributeStatement(metadata.attributes))
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+function decodePointCoordinate(
+    definition: PublicSignalDefinition,
+    metadata: ProofMetadata,
+): bigint | null {
+    const point: unknown = metadata[definition.metadataField];
+    if (!point || typeof point !== 'object') {
+        return null;
+    }
+
+    const raw: unknown = [(point as { x?: unknown }).x, (point as { y?: unknown }).y][
+        definition.index ?? -1
+    ];
+    return typeof raw === 'string' && HEX_PATTERN.test(raw) ? BigInt('0x' + raw) : null;
+}
+
+function decodeMetadataValue(
+    definition: PublicSignalDefinition,
+    metadata: ProofMetadata,
+): bigint | null {
+    const raw = metadata[definition.metadataField];
+    if (typeof raw !== 'string') {
+        return null;
+    }
+
+    if (definition.encoding === 'hex') {
+        return HEX_PATTERN.test(raw) ? BigInt('0x' + raw) : null;
+    }
+
+    if (definition.encoding === 'string') {
+        return raw.length > 0 ? PoseidonManager.stringToField(raw) : null;
+    }
+
+    return DECIMAL_PATTERN.test(raw) ? BigInt(raw) : null;
+}
@@ -0,0 +1,116 @@
+import { Logger } from '../../utils/logger';
+import { config } from '../../config/environment';
+import { EventBus } from '../events/EventBus';
+import { RootManager } from './RootManager';
+import {
+    CredentialSetCreatedEvent,
+    CredentialSetDeletedEvent,
+    CredentialSetEvents,
+    CredentialSetUpdatedEvent,
+} from '../../types/credential.types';
+
+/** Actor recorded in the trusted-root log for changes made by the policy */
+export const ROOT_POLICY_ACTOR = 'root-policy';
+
+export interface RootLifecycleOptions {
+    /**
+     * Trust each new root of a set as it is created or updated, and revoke
+     * a set's roots when it is deleted. Otherwise roots are trusted only
+     * by an administrator.
+     */
+    readonly autoTrust: boolean;
+}
+
+const defaultOptions: RootLifecycleOptions = {
+    autoTrust: config.rootAutoTrust,
+};
+
+/**
+ * Keeps the verifier's trusted roots in step with the credential sets served
+ * by the prover in the same process.
+ *
+ * A root a set moves away from stays trusted for the grace period and then
+ * expires, whichever way it came to be trusted. With `autoTrust`, roots are
+ * also trusted and revoked as sets are created, updated and deleted.
+ */
+export class RootLifecyclePolicy {
+    private readonly rootManager: RootManager;
+    private readonly options: RootLifecycleOptions;
+    private readonly logger: Logger;
+
+    constructor(
+        rootManager: RootManager,
+        logger: Logger,
+        options: RootLifecycleOptions = defaultOptions,
+    ) {
+        this.rootManager = rootManager;
+        this.options = options;
+        this.logger = logger;
+    }
+
+    /**
+     * Start following credential set changes. Returns a function that stops.
+     */
+    public subscribe(events: EventBus<CredentialSetEvents>): () => void {
+        const unsubscribers = [
+            events.on('credential-set.created', (event) => this.onCreated(event)),
+            events.on('credential-set.updated', (event) => this.onUpdated(event)),
+            events.on('credential-set.deleted', (event) => this.onDeleted(event)),
+        ];
+
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }
+
+    private onCreated({ credentialSet }: CredentialSetCreatedEvent): void {
+        if (!this.options.autoTrust) {
+            return;
+        }
+
+        this.rootManager.addTrustedRoot(
+            {
+                credentialSetId: credentialSet.id,
+                merkleRoot: credentialSet.merkleRoot,
+                addedAt: credentialSet.createdAt,
+            },
+            ROOT_POLICY_ACTOR,
+        );
+    }
+
+    private onUpdated({ credentialSet, previous }: CredentialSetUpdatedEvent): void {
+        if (this.options.autoTrust) {
+            this.rootManager.addTrustedRoot(
+                {
+                    credentialSetId: credentialSet.id,
+                    merkleRoot: credentialSet.merkleRoot,
+                    addedAt: previous.supersededAt,
+                },
+                ROOT_POLICY_ACTOR,
+            );
+        }
+
+        this.rootManager.supersedeRoot(
+            credentialSet.id,
+            previous.merkleRoot,
+            previous.supersededAt,
+            ROOT_POLICY_ACTOR,
+        );
+    }
+
+    private onDeleted({ credentialSetId }: CredentialSetDeletedEvent): void {
+        if (!this.options.autoTrust) {
+            return;
+        }
+
+        const roots = this.rootManager.getTrustedRoots(credentialSetId);
+        for (const merkleRoot of roots) {
+            this.rootManager.revokeTrustedRoot(credentialSetId, merkleRoot, ROOT_POLICY_ACTOR);
+        }
+
+        if (roots.length > 0) {
+            this.logger.info('Roots of deleted credential set revoked', {
+                credentialSetId,
+                revoked: roots.length,
+            });
+        }
+    }
+}
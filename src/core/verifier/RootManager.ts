@@ -1,6 +1,9 @@
 import { Logger } from '../../utils/logger';
 import { AppError, ErrorCode } from '../../utils/errors';
 import { validateHexHash } from '../../utils/validators';
+import { config, RootSourceFailureMode } from '../../config/environment';
+import { InMemoryTrustedRootStore, RootLogEntry, TrustedRootStore } from './TrustedRootStore';
+import { RootSource } from './RootSource';
 
 /**
  * Represents a trusted Merkle root registered by an administrator.
@@ -16,89 +19,234 @@ export interface TrustedRoot {
 /**
  * Manages the set of trusted Merkle roots.
  * Only proofs referencing a trusted root will be accepted by the verifier.
+ *
+ * Every change is appended to a {@link TrustedRootStore} before it takes
+ * effect, and the store is replayed on construction to rebuild the trust set.
+ *
+ * Roots are hex strings and compared in lowercase, whatever case callers
+ * and the log use.
+ *
+ * With a {@link RootSource}, roots published there are trusted as well, and a
+ * revocation there overrides local trust. If the source cannot be reached,
+ * the failure mode decides between rejecting the root and using local roots.
  */
 export class RootManager {
     private readonly trustedRoots: Map<string, Set<string>>;
     private readonly rootMetadata: Map<string, TrustedRoot>;
+    private readonly store: TrustedRootStore;
+    private readonly rootSource?: RootSource;
+    private readonly failureMode: RootSourceFailureMode;
     private readonly logger: Logger;
 
-    constructor(logger: Logger) {
+    constructor(
+        logger: Logger,
+        store: TrustedRootStore = new InMemoryTrustedRootStore(),
+        rootSource?: RootSource,
+        failureMode: RootSourceFailureMode = config.rootSourceFailureMode,
+    ) {
         this.trustedRoots = new Map();
         this.rootMetadata = new Map();
+        this.store = store;
+        this.rootSource = rootSource;
+        this.failureMode = failureMode;
         this.logger = logger;
+
+        this.replay();
     }
 
     /**
      * Register a new trusted Merkle root.
      */
-    public addTrustedRoot(root: TrustedRoot): void {
-        const { credentialSetId, merkleRoot } = root;
+    public addTrustedRoot(root: TrustedRoot, actor: string = 'system'): void {
+        const { credentialSetId } = root;
 
-        if (!credentialSetId || !merkleRoot) {
+        if (!credentialSetId || !root.merkleRoot) {
             throw new AppError(ErrorCode.VALIDATION_ERROR, 'Invalid root parameters', 400);
         }
 
-        validateHexHash(merkleRoot, 'Merkle root');
+        validateHexHash(root.merkleRoot, 'Merkle root');
+        const merkleRoot = root.merkleRoot.toLowerCase();
 
-        let roots = this.trustedRoots.get(credentialSetId);
-        if (!roots) {
-            roots = new Set();
-            this.trustedRoots.set(credentialSetId, roots);
-        }
-
-        roots.add(merkleRoot);
-        this.rootMetadata.set(this.getRootKey(credentialSetId, merkleRoot), root);
+        this.store.append({
+            action: 'add',
+            credentialSetId,
+            merkleRoot,
+            actor,
+            at: root.addedAt,
+            expiresAt: root.expiresAt,
+            metadata: root.metadata,
+        });
+        this.applyAdd({ ...root, merkleRoot });
 
         this.logger.info('Trusted root added', {
             credentialSetId,
             merkleRoot: merkleRoot.substring(0, 16) + '...',
+            actor,
         });
     }
 
     /**
-     * Check whether a given root is trusted (and not expired).
+     * Check whether a given root is trusted (and not expired), locally or by
+     * the root source.
      */
     public async isTrustedRoot(credentialSetId: string, merkleRoot: string): Promise<boolean> {
-        const roots = this.trustedRoots.get(credentialSetId);
-
-        if (!roots || !roots.has(merkleRoot)) {
-            return false;
+        merkleRoot = merkleRoot.toLowerCase();
+        const trustedLocally = this.isTrustedLocally(credentialSetId, merkleRoot);
+        if (!this.rootSource) {
+            return trustedLocally;
         }
 
-        // Check expiration
-        const metadata = this.rootMetadata.get(this.getRootKey(credentialSetId, merkleRoot));
+        let published;
+        try {
+            published = await this.rootSource.getRoot(credentialSetId, merkleRoot);
+        } catch (error) {
+            this.logger.warn('Root source unavailable', {
+                credentialSetId,
+                merkleRoot: merkleRoot.substring(0, 16) + '...',
+                failureMode: this.failureMode,
+                message: error instanceof Error ? error.message : String(error),
+            });
+            return this.failureMode === 'fallback' && trustedLocally;
+        }
 
-        if (metadata?.expiresAt && metadata.expiresAt < new Date()) {
-            this.logger.warn('Expired root accessed', {
+        const now = new Date();
+        if (published?.revokedAt && published.revokedAt <= now) {
+            this.logger.warn('Root revoked by root source', {
                 credentialSetId,
                 merkleRoot: merkleRoot.substring(0, 16) + '...',
+                revokedAt: published.revokedAt.toISOString(),
             });
             return false;
         }
 
-        return true;
+        return trustedLocally || (published !== undefined && published.publishedAt <= now);
     }
 
     /**
      * Revoke a previously trusted root.
      */
-    public revokeTrustedRoot(credentialSetId: string, merkleRoot: string): boolean {
-        const roots = this.trustedRoots.get(credentialSetId);
+    public revokeTrustedRoot(
+        credentialSetId: string,
+        merkleRoot: string,
+        actor: string = 'system',
+    ): boolean {
+        merkleRoot = merkleRoot.toLowerCase();
+        if (!this.trustedRoots.get(credentialSetId)?.has(merkleRoot)) {
+            return false;
+        }
 
-        if (!roots) {
+        this.store.append({
+            action: 'revoke',
+            credentialSetId,
+            merkleRoot,
+            actor,
+            at: new Date(),
+        });
+        this.applyRevoke(credentialSetId, merkleRoot);
+
+        this.logger.info('Trusted root revoked', {
+            credentialSetId,
+            merkleRoot: merkleRoot.substring(0, 16) + '...',
+            actor,
+        });
+
+        return true;
+    }
+
+    /**
+     * Mark a trusted root as superseded by a newer version of its set.
+     * The root stays trusted for the configured grace period so proofs issued
+     * shortly before the update still verify, then expires.
+     * Returns false if the root is not currently trusted.
+     */
+    public supersedeRoot(
+        credentialSetId: string,
+        merkleRoot: string,
+        supersededAt: Date = new Date(),
+        actor: string = 'system',
+    ): boolean {
+        merkleRoot = merkleRoot.toLowerCase();
+        const existing = this.rootMetadata.get(this.getRootKey(credentialSetId, merkleRoot));
+        if (!existing) {
             return false;
         }
 
-        const deleted = roots.delete(merkleRoot);
-        if (deleted) {
-            this.rootMetadata.delete(this.getRootKey(credentialSetId, merkleRoot));
-            this.logger.info('Trusted root revoked', {
-                credentialSetId,
-                merkleRoot: merkleRoot.substring(0, 16) + '...',
-            });
+        const graceMs = config.rootGracePeriodHours * 60 * 60 * 1000;
+        const graceEnd = new Date(supersededAt.getTime() + graceMs);
+        const expiresAt =
+            existing.expiresAt && existing.expiresAt < graceEnd ? existing.expiresAt : graceEnd;
+
+        this.store.append({
+            action: 'supersede',
+            credentialSetId,
+            merkleRoot,
+            actor,
+            at: supersededAt,
+            expiresAt,
+        });
+        this.applyExpiry(credentialSetId, merkleRoot, expiresAt);
+
+        this.logger.info('Trusted root superseded', {
+            credentialSetId,
+            merkleRoot: merkleRoot.substring(0, 16) + '...',
+            expiresAt: expiresAt.toISOString(),
+            actor,
+        });
+
+        return true;
+    }
+
+    /**
+     * Set or clear the expiry of a trusted root. Unlike superseding, this can
+     * also extend it. Returns false if the root is not currently trusted.
+     */
+    public updateRootExpiry(
+        credentialSetId: string,
+        merkleRoot: string,
+        expiresAt: Date | undefined,
+        actor: string = 'system',
+    ): boolean {
+        merkleRoot = merkleRoot.toLowerCase();
+        if (!this.rootMetadata.has(this.getRootKey(credentialSetId, merkleRoot))) {
+            return false;
         }
 
-        return deleted;
+        this.store.append({
+            action: 'expire',
+            credentialSetId,
+            merkleRoot,
+            actor,
+            at: new Date(),
+            expiresAt,
+        });
+        this.applyExpiry(credentialSetId, merkleRoot, expiresAt);
+
+        this.logger.info('Trusted root expiry updated', {
+            credentialSetId,
+            merkleRoot: merkleRoot.substring(0, 16) + '...',
+            expiresAt: expiresAt?.toISOString(),
+            actor,
+        });
+
+        return true;
+    }
+
+    /**
+     * Get a registered root with its expiry and metadata, whether or not it
+     * has expired. Returns undefined if it was never added or was revoked.
+     */
+    public getTrustedRoot(credentialSetId: string, merkleRoot: string): TrustedRoot | undefined {
+        return this.rootMetadata.get(this.getRootKey(credentialSetId, merkleRoot.toLowerCase()));
+    }
+
+    /**
+     * List registered roots with their details, optionally for a single set.
+     */
+    public listTrustedRoots(credentialSetId?: string): TrustedRoot[] {
+        const roots = Array.from(this.rootMetadata.values());
+        return credentialSetId
+            ? roots.filter((root) => root.credentialSetId === credentialSetId)
+            : roots;
     }
 
     /**
@@ -120,6 +268,94 @@ export class RootManager {
         return count;
     }
 
+    /**
+     * Return the full history of root changes, optionally for a single set.
+     */
+    public getAuditLog(credentialSetId?: string): RootLogEntry[] {
+        const entries = this.store.readAll();
+        return credentialSetId
+            ? entries.filter((entry) => entry.credentialSetId === credentialSetId)
+            : entries;
+    }
+
+    private isTrustedLocally(credentialSetId: string, merkleRoot: string): boolean {
+        const roots = this.trustedRoots.get(credentialSetId);
+
+        if (!roots || !roots.has(merkleRoot)) {
+            return false;
+        }
+
+        // Check expiration
+        const metadata = this.rootMetadata.get(this.getRootKey(credentialSetId, merkleRoot));
+
+        if (metadata?.expiresAt && metadata.expiresAt < new Date()) {
+            this.logger.warn('Expired root accessed', {
+                credentialSetId,
+                merkleRoot: merkleRoot.substring(0, 16) + '...',
+            });
+            return false;
+        }
+
+        return true;
+    }
+
+    private replay(): void {
+        const entries = this.store.readAll();
+
+        for (const entry of entries) {
+            // The log is only read back, never trusted to be normalized
+            const merkleRoot = entry.merkleRoot.toLowerCase();
+            if (entry.action === 'add') {
+                this.applyAdd({
+                    credentialSetId: entry.credentialSetId,
+                    merkleRoot,
+                    addedAt: entry.at,
+                    expiresAt: entry.expiresAt,
+                    metadata: entry.metadata,
+                });
+            } else if (entry.action === 'revoke') {
+                this.applyRevoke(entry.credentialSetId, merkleRoot);
+            } else if (entry.action === 'expire' || entry.expiresAt) {
+                this.applyExpiry(entry.credentialSetId, merkleRoot, entry.expiresAt);
+            }
+        }
+
+        if (entries.length > 0) {
+            this.logger.info('Trusted roots restored from log', {
+                entries: entries.length,
+                trustedRoots: this.getTotalRootCount(),
+            });
+        }
+    }
+
+    private applyAdd(root: TrustedRoot): void {
+        let roots = this.trustedRoots.get(root.credentialSetId);
+        if (!roots) {
+            roots = new Set();
+            this.trustedRoots.set(root.credentialSetId, roots);
+        }
+
+        roots.add(root.merkleRoot);
+        this.rootMetadata.set(this.getRootKey(root.credentialSetId, root.merkleRoot), root);
+    }
+
+    private applyRevoke(credentialSetId: string, merkleRoot: string): void {
+        this.trustedRoots.get(credentialSetId)?.delete(merkleRoot);
+        this.rootMetadata.delete(this.getRootKey(credentialSetId, merkleRoot));
+    }
+
+    private applyExpiry(
+        credentialSetId: string,
+        merkleRoot: string,
+        expiresAt: Date | undefined,
+    ): void {
+        const key = this.getRootKey(credentialSetId, merkleRoot);
+        const existing = this.rootMetadata.get(key);
+        if (existing) {
+            this.rootMetadata.set(key, { ...existing, expiresAt });
+        }
+    }
+
     private getRootKey(credentialSetId: string, merkleRoot: string): string {
         return `${credentialSetId}:${merkleRoot}`;
     }
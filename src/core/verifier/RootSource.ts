@@ -0,0 +1,159 @@
+import { FetchRequest, Interface, JsonRpcProvider, Network, id } from 'ethers';
+import { Logger } from '../../utils/logger';
+import { RootSourceKind } from '../../config/environment';
+
+/**
+ * Publication state of a Merkle root in an external registry.
+ */
+export interface PublishedRoot {
+    readonly publishedAt: Date;
+    readonly revokedAt?: Date;
+}
+
+/**
+ * An external authority for trusted roots, consulted by the {@link RootManager}
+ * in addition to its locally registered roots.
+ */
+export interface RootSource {
+    /**
+     * Look up a root. Resolves to undefined if it was never published;
+     * rejects if the source cannot be reached.
+     */
+    getRoot(credentialSetId: string, merkleRoot: string): Promise<PublishedRoot | undefined>;
+    close(): void;
+}
+
+/**
+ * Registry contract read by {@link EthereumRootSource}. Timestamps are in
+ * seconds, with zero meaning "never".
+ */
+export const ROOT_REGISTRY_ABI = [
+    'function rootStatus(bytes32 credentialSetId, bytes32 merkleRoot) view ' +
+        'returns (uint64 publishedAt, uint64 revokedAt)',
+];
+
+export interface EthereumRootSourceOptions {
+    readonly rpcUrl: string;
+    readonly chainId: number;
+    readonly registryAddress: string;
+    /** How long a lookup, including "not published", is reused */
+    readonly cacheTtlMs: number;
+    readonly timeoutMs: number;
+}
+
+interface CachedLookup {
+    readonly result: Promise<PublishedRoot | undefined>;
+    readonly expiresAt: number;
+}
+
+// Proof metadata names the looked-up roots, so the cache must stay bounded.
+const MAX_CACHE_ENTRIES = 10000;
+
+/**
+ * Reads root publications and revocations from a registry contract over
+ * JSON-RPC. Credential set IDs are keyed on-chain by the keccak256 hash of
+ * their UTF-8 bytes; Merkle roots are used as-is.
+ */
+export class EthereumRootSource implements RootSource {
+    private readonly provider: JsonRpcProvider;
+    private readonly registry: Interface;
+    private readonly options: EthereumRootSourceOptions;
+    private readonly cache: Map<string, CachedLookup>;
+    private readonly logger: Logger;
+
+    constructor(options: EthereumRootSourceOptions, logger: Logger) {
+        const request = new FetchRequest(options.rpcUrl);
+        request.timeout = options.timeoutMs;
+
+        this.provider = new JsonRpcProvider(request, options.chainId, {
+            staticNetwork: Network.from(options.chainId),
+            batchMaxCount: 1,
+        });
+        this.registry = new Interface(ROOT_REGISTRY_ABI);
+        this.options = options;
+        this.cache = new Map();
+        this.logger = logger;
+    }
+
+    public getRoot(
+        credentialSetId: string,
+        merkleRoot: string,
+    ): Promise<PublishedRoot | undefined> {
+        const key = `${credentialSetId}:${merkleRoot}`;
+        const now = Date.now();
+
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > now) {
+            return cached.result;
+        }
+        this.cache.delete(key);
+
+        const result = this.fetchRoot(credentialSetId, merkleRoot);
+        // Failures are not cached so the next verification retries the source.
+        result.catch(() => {
+            if (this.cache.get(key)?.result === result) {
+                this.cache.delete(key);
+            }
+        });
+
+        if (this.cache.size >= MAX_CACHE_ENTRIES) {
+            const oldest = this.cache.keys().next();
+            if (!oldest.done) {
+                this.cache.delete(oldest.value);
+            }
+        }
+        this.cache.set(key, { result, expiresAt: now + this.options.cacheTtlMs });
+
+        return result;
+    }
+
+    public close(): void {
+        this.cache.clear();
+        this.provider.destroy();
+    }
+
+    private async fetchRoot(
+        credentialSetId: string,
+        merkleRoot: string,
+    ): Promise<PublishedRoot | undefined> {
+        const data = this.registry.encodeFunctionData('rootStatus', [
+            id(credentialSetId),
+            `0x${merkleRoot}`,
+        ]);
+        const raw = await this.provider.call({ to: this.options.registryAddress, data });
+        const [publishedAt, revokedAt] = this.registry.decodeFunctionResult(
+            'rootStatus',
+            raw,
+        ) as unknown as [bigint, bigint];
+
+        this.logger.debug('Root status read from registry', {
+            credentialSetId,
+            merkleRoot: merkleRoot.substring(0, 16) + '...',
+            publishedAt: publishedAt.toString(),
+            revokedAt: revokedAt.toString(),
+        });
+
+        if (publishedAt === BigInt(0)) {
+            return undefined;
+        }
+
+        return {
+            publishedAt: new Date(Number(publishedAt) * 1000),
+            revokedAt: revokedAt === BigInt(0) ? undefined : new Date(Number(revokedAt) * 1000),
+        };
+    }
+}
+
+/**
+ * Create the root source for the configured kind, if any.
+ */
+export function createRootSource(
+    kind: RootSourceKind,
+    options: EthereumRootSourceOptions,
+    logger: Logger,
+): RootSource | undefined {
+    if (kind === 'ethereum') {
+        return new EthereumRootSource(options, logger);
+    }
+    return undefined;
+}
@@ -0,0 +1,341 @@
+import * as snarkjs from 'snarkjs';
+import { Interface } from 'ethers';
+import { SNARK_SCALAR_FIELD } from '../crypto/PoseidonManager';
+import { CircuitError, ErrorCode, ProofError } from '../../utils/errors';
+import { ZKProof } from '../../types/proof.types';
+
+/** Order of the BN254 base field; proof coordinates must be below it */
+export const BN254_BASE_FIELD = BigInt(
+    '21888242871839275222246405745257275088696311157297823662689037894645226208583',
+);
+
+/** Name of the contract {@link renderSolidityVerifier} generates */
+export const VERIFIER_CONTRACT_NAME = 'Groth16Verifier';
+
+const DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+
+type G1Point = readonly [string, string];
+type G2Point = readonly [G1Point, G1Point];
+
+/**
+ * The members of a snarkjs Groth16 verification key the contract embeds.
+ */
+interface Groth16VerificationKey {
+    readonly nPublic: number;
+    readonly alpha: G1Point;
+    readonly beta: G2Point;
+    readonly gamma: G2Point;
+    readonly delta: G2Point;
+    readonly ic: readonly G1Point[];
+}
+
+/**
+ * Arguments of the contract's `verifyProof` for one proof, as hex words,
+ * and the ABI-encoded call.
+ */
+export interface SolidityCalldata {
+    readonly a: readonly string[];
+    /** Fp2 coordinates in the precompile's order: imaginary part first */
+    readonly b: readonly (readonly string[])[];
+    readonly c: readonly string[];
+    readonly input: readonly string[];
+    /** `verifyProof` selector and arguments, ready for `eth_call` */
+    readonly calldata: string;
+}
+
+/**
+ * The `verifyProof` function of a verifier contract with `nPublic` public
+ * signals.
+ */
+export function verifierInterface(nPublic: number): Interface {
+    return new Interface([
+        'function verifyProof(uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC, ' +
+            `uint256[${nPublic}] _pubSignals) view returns (bool)`,
+    ]);
+}
+
+/**
+ * Solidity source of a contract that verifies proofs under a Groth16
+ * verification key, as snarkjs's `zkey export solidityverifier` writes it.
+ *
+ * Works from the verification key alone, so a verifier deployment can
+ * export the contract without the proving key.
+ */
+export function renderSolidityVerifier(vkey: Record<string, unknown>): string {
+    const key = parseVerificationKey(vkey);
+    const g2 = (name: string, point: G2Point): string[] => [
+        // The pairing precompile takes Fp2 elements imaginary part first
+        `    uint256 constant ${name}x1 = ${point[0][1]};`,
+        `    uint256 constant ${name}x2 = ${point[0][0]};`,
+        `    uint256 constant ${name}y1 = ${point[1][1]};`,
+        `    uint256 constant ${name}y2 = ${point[1][0]};`,
+    ];
+    const signals = Array.from({ length: key.nPublic }, (_, i) => i);
+
+    return [
+        '// SPDX-License-Identifier: GPL-3.0',
+        '/*',
+        '    Copyright 2021 0KIMS association.',
+        '',
+        '    This file is generated with [snarkJS](https://github.com/iden3/snarkjs).',
+        '',
+        '    snarkJS is a free software: you can redistribute it and/or modify it',
+        '    under the terms of the GNU General Public License as published by',
+        '    the Free Software Foundation, either version 3 of the License, or',
+        '    (at your option) any later version.',
+        '',
+        '    snarkJS is distributed in the hope that it will be useful, but WITHOUT',
+        '    ANY WARRANTY; without even the implied warranty of MERCHANTABILITY',
+        '    or FITNESS FOR A PARTICULAR PURPOSE. See the GNU General Public',
+        '    License for more details.',
+        '',
+        '    You should have received a copy of the GNU General Public License',
+        '    along with snarkJS. If not, see <https://www.gnu.org/licenses/>.',
+        '*/',
+        '',
+        'pragma solidity >=0.7.0 <0.9.0;',
+        '',
+        `contract ${VERIFIER_CONTRACT_NAME} {`,
+        '    // Scalar field size',
+        `    uint256 constant r = ${SNARK_SCALAR_FIELD.toString()};`,
+        '    // Base field size',
+        `    uint256 constant q = ${BN254_BASE_FIELD.toString()};`,
+        '',
+        '    // Verification Key data',
+        `    uint256 constant alphax = ${key.alpha[0]};`,
+        `    uint256 constant alphay = ${key.alpha[1]};`,
+        ...g2('beta', key.beta),
+        ...g2('gamma', key.gamma),
+        ...g2('delta', key.delta),
+        '',
+        ...key.ic.flatMap((point, i) => [
+            `    uint256 constant IC${i}x = ${point[0]};`,
+            `    uint256 constant IC${i}y = ${point[1]};`,
+        ]),
+        '',
+        '    // Memory data',
+        '    uint16 constant pVk = 0;',
+        '    uint16 constant pPairing = 128;',
+        '',
+        '    uint16 constant pLastMem = 896;',
+        '',
+        '    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, ' +
+            `uint[2] calldata _pC, uint[${key.nPublic}] calldata _pubSignals) ` +
+            'public view returns (bool) {',
+        '        assembly {',
+        '            function checkField(v) {',
+        '                if iszero(lt(v, r)) {',
+        '                    mstore(0, 0)',
+        '                    return(0, 0x20)',
+        '                }',
+        '            }',
+        '',
+        '            // G1 function to multiply a G1 value(x,y) to value in an address',
+        '            function g1_mulAccC(pR, x, y, s) {',
+        '                let success',
+        '                let mIn := mload(0x40)',
+        '                mstore(mIn, x)',
+        '                mstore(add(mIn, 32), y)',
+        '                mstore(add(mIn, 64), s)',
+        '',
+        '                success := staticcall(sub(gas(), 2000), 7, mIn, 96, mIn, 64)',
+        '',
+        '                if iszero(success) {',
+        '                    mstore(0, 0)',
+        '                    return(0, 0x20)',
+        '                }',
+        '',
+        '                mstore(add(mIn, 64), mload(pR))',
+        '                mstore(add(mIn, 96), mload(add(pR, 32)))',
+        '',
+        '                success := staticcall(sub(gas(), 2000), 6, mIn, 128, pR, 64)',
+        '',
+        '                if iszero(success) {',
+        '                    mstore(0, 0)',
+        '                    return(0, 0x20)',
+        '                }',
+        '            }',
+        '',
+        '            function checkPairing(pA, pB, pC, pubSignals, pMem) -> isOk {',
+        '                let _pPairing := add(pMem, pPairing)',
+        '                let _pVk := add(pMem, pVk)',
+        '',
+        '                mstore(_pVk, IC0x)',
+        '                mstore(add(_pVk, 32), IC0y)',
+        '',
+        '                // Compute the linear combination vk_x',
+        ...signals.map(
+            (i) =>
+                `                g1_mulAccC(_pVk, IC${i + 1}x, IC${i + 1}y, ` +
+                `calldataload(add(pubSignals, ${i * 32})))`,
+        ),
+        '',
+        '                // -A',
+        '                mstore(_pPairing, calldataload(pA))',
+        '                mstore(add(_pPairing, 32), mod(sub(q, calldataload(add(pA, 32))), q))',
+        '',
+        '                // B',
+        '                mstore(add(_pPairing, 64), calldataload(pB))',
+        '                mstore(add(_pPairing, 96), calldataload(add(pB, 32)))',
+        '                mstore(add(_pPairing, 128), calldataload(add(pB, 64)))',
+        '                mstore(add(_pPairing, 160), calldataload(add(pB, 96)))',
+        '',
+        '                // alpha1',
+        '                mstore(add(_pPairing, 192), alphax)',
+        '                mstore(add(_pPairing, 224), alphay)',
+        '',
+        '                // beta2',
+        '                mstore(add(_pPairing, 256), betax1)',
+        '                mstore(add(_pPairing, 288), betax2)',
+        '                mstore(add(_pPairing, 320), betay1)',
+        '                mstore(add(_pPairing, 352), betay2)',
+        '',
+        '                // vk_x',
+        '                mstore(add(_pPairing, 384), mload(add(pMem, pVk)))',
+        '                mstore(add(_pPairing, 416), mload(add(pMem, add(pVk, 32))))',
+        '',
+        '                // gamma2',
+        '                mstore(add(_pPairing, 448), gammax1)',
+        '                mstore(add(_pPairing, 480), gammax2)',
+        '                mstore(add(_pPairing, 512), gammay1)',
+        '                mstore(add(_pPairing, 544), gammay2)',
+        '',
+        '                // C',
+        '                mstore(add(_pPairing, 576), calldataload(pC))',
+        '                mstore(add(_pPairing, 608), calldataload(add(pC, 32)))',
+        '',
+        '                // delta2',
+        '                mstore(add(_pPairing, 640), deltax1)',
+        '                mstore(add(_pPairing, 672), deltax2)',
+        '                mstore(add(_pPairing, 704), deltay1)',
+        '                mstore(add(_pPairing, 736), deltay2)',
+        '',
+        '                let success := ' +
+            'staticcall(sub(gas(), 2000), 8, _pPairing, 768, _pPairing, 0x20)',
+        '',
+        '                isOk := and(success, mload(_pPairing))',
+        '            }',
+        '',
+        '            let pMem := mload(0x40)',
+        '            mstore(0x40, add(pMem, pLastMem))',
+        '',
+        '            // Validate that all evaluations ∈ F',
+        ...signals.map(
+            (i) => `            checkField(calldataload(add(_pubSignals, ${i * 32})))`,
+        ),
+        '',
+        '            // Validate all evaluations',
+        '            let isValid := checkPairing(_pA, _pB, _pC, _pubSignals, pMem)',
+        '',
+        '            mstore(0, isValid)',
+        '            return(0, 0x20)',
+        '        }',
+        '    }',
+        '}',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Arguments and calldata for the verifier contract's `verifyProof`.
+ * Only the encoding is checked here, not the proof itself; a proof the
+ * contract would reject outright for out-of-range values is refused.
+ */
+export async function exportSolidityCalldata(proof: ZKProof): Promise<SolidityCalldata> {
+    const { pi_a: a, pi_b: b, pi_c: c, protocol, curve } = proof.proof;
+    if (
+        protocol !== 'groth16' ||
+        curve !== 'bn128' ||
+        !isG1Point(a) ||
+        !isG2Point(b) ||
+        !isG1Point(c)
+    ) {
+        throw new ProofError(ErrorCode.INVALID_PROOF_STRUCTURE, 'Not a Groth16 BN254 proof');
+    }
+    if (
+        proof.publicSignals.length === 0 ||
+        !proof.publicSignals.every((signal) => isFieldElement(signal, SNARK_SCALAR_FIELD))
+    ) {
+        throw new ProofError(
+            ErrorCode.INVALID_PROOF_STRUCTURE,
+            'Public signals must be elements of the scalar field',
+        );
+    }
+
+    // snarkjs writes the arguments as they appear in a Solidity call
+    const raw = await snarkjs.groth16.exportSolidityCallData(proof.proof, [
+        ...proof.publicSignals,
+    ]);
+    const [pA, pB, pC, input] = JSON.parse(`[${raw}]`) as [
+        string[],
+        string[][],
+        string[],
+        string[],
+    ];
+
+    return {
+        a: pA,
+        b: pB,
+        c: pC,
+        input,
+        calldata: verifierInterface(input.length).encodeFunctionData('verifyProof', [
+            pA,
+            pB,
+            pC,
+            input,
+        ]),
+    };
+}
+
+function parseVerificationKey(vkey: Record<string, unknown>): Groth16VerificationKey {
+    const { protocol, curve, nPublic, vk_alpha_1, vk_beta_2, vk_gamma_2, vk_delta_2, IC } = vkey;
+
+    if (
+        protocol !== 'groth16' ||
+        curve !== 'bn128' ||
+        typeof nPublic !== 'number' ||
+        !Number.isSafeInteger(nPublic) ||
+        nPublic < 1 ||
+        !isG1Point(vk_alpha_1) ||
+        !isG2Point(vk_beta_2) ||
+        !isG2Point(vk_gamma_2) ||
+        !isG2Point(vk_delta_2) ||
+        !Array.isArray(IC) ||
+        IC.length !== nPublic + 1 ||
+        !IC.every(isG1Point)
+    ) {
+        throw new CircuitError(
+            ErrorCode.INVALID_VERIFICATION_KEY,
+            'Verification key is not a Groth16 BN254 key',
+        );
+    }
+
+    return {
+        nPublic,
+        alpha: vk_alpha_1,
+        beta: vk_beta_2,
+        gamma: vk_gamma_2,
+        delta: vk_delta_2,
+        ic: IC,
+    };
+}
+
+// Affine coordinates; snarkjs appends the projective z, which is ignored
+function isG1Point(value: unknown): value is G1Point {
+    return (
+        Array.isArray(value) &&
+        value.length >= 2 &&
+        isFieldElement(value[0], BN254_BASE_FIELD) &&
+        isFieldElement(value[1], BN254_BASE_FIELD)
+    );
+}
+
+function isG2Point(value: unknown): value is G2Point {
+    return (
+        Array.isArray(value) && value.length >= 2 && isG1Point(value[0]) && isG1Point(value[1])
+    );
+}
+
+function isFieldElement(value: unknown, modulus: bigint): value is string {
+    return typeof value === 'string' && DECIMAL_PATTERN.test(value) && BigInt(value) < modulus;
+}
@@ -0,0 +1,113 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+import { IssuerPublicKey } from '../../types/issuer.types';
+
+/**
+ * Kinds of change recorded in the trusted-issuer log.
+ */
+export type IssuerLogAction = 'add' | 'revoke';
+
+/**
+ * A single entry in the trusted-issuer audit log. `add` entries carry the
+ * issuer's public key.
+ */
+export interface IssuerLogEntry {
+    readonly action: IssuerLogAction;
+    readonly issuerId: string;
+    readonly publicKey?: IssuerPublicKey;
+    readonly actor: string;
+    readonly at: Date;
+    readonly expiresAt?: Date;
+    readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Append-only storage for trusted-issuer changes.
+ * The current trust set is obtained by replaying entries in order.
+ */
+export interface TrustedIssuerStore {
+    append(entry: IssuerLogEntry): void;
+    readAll(): IssuerLogEntry[];
+}
+
+/**
+ * Keeps the issuer log in process memory. Contents are lost on restart.
+ */
+export class InMemoryTrustedIssuerStore implements TrustedIssuerStore {
+    private readonly entries: IssuerLogEntry[] = [];
+
+    public append(entry: IssuerLogEntry): void {
+        this.entries.push(entry);
+    }
+
+    public readAll(): IssuerLogEntry[] {
+        return [...this.entries];
+    }
+}
+
+interface SerializedIssuerLogEntry {
+    readonly action: IssuerLogAction;
+    readonly issuerId: string;
+    readonly publicKey?: IssuerPublicKey;
+    readonly actor: string;
+    readonly at: string;
+    readonly expiresAt?: string;
+    readonly metadata?: Record<string, unknown>;
+}
+
+const trustedIssuerCodec: LogCodec<IssuerLogEntry, SerializedIssuerLogEntry> = {
+    serialize: (entry) => ({
+        action: entry.action,
+        issuerId: entry.issuerId,
+        publicKey: entry.publicKey,
+        actor: entry.actor,
+        at: entry.at.toISOString(),
+        expiresAt: entry.expiresAt?.toISOString(),
+        metadata: entry.metadata,
+    }),
+    deserialize: (line) => ({
+        action: line.action,
+        issuerId: line.issuerId,
+        publicKey: line.publicKey,
+        actor: line.actor,
+        at: new Date(line.at),
+        expiresAt: line.expiresAt ? new Date(line.expiresAt) : undefined,
+        metadata: line.metadata,
+    }),
+};
+
+/**
+ * Persists the issuer log as newline-delimited JSON, one entry per line.
+ * Entries are only ever appended, so the file doubles as an audit trail.
+ */
+export class FileTrustedIssuerStore implements TrustedIssuerStore {
+    private readonly log: AppendOnlyLog<IssuerLogEntry, SerializedIssuerLogEntry>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(filePath, 'trusted issuer', trustedIssuerCodec, logger);
+    }
+
+    public append(entry: IssuerLogEntry): void {
+        this.log.append(entry);
+    }
+
+    public readAll(): IssuerLogEntry[] {
+        return this.log.readAll();
+    }
+}
+
+/**
+ * Create the trusted issuer store for the configured backend.
+ */
+export function createTrustedIssuerStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): TrustedIssuerStore {
+    if (backend === 'file') {
+        return new FileTrustedIssuerStore(join(dataDir, 'trusted-issuers.log'), logger);
+    }
+    return new InMemoryTrustedIssuerStore();
+}
@@ -0,0 +1,113 @@
+import { join } from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend } from '../../config/environment';
+import { AppendOnlyLog, LogCodec } from '../storage/AppendOnlyLog';
+
+/**
+ * Kinds of change recorded in the trusted-root log.
+ * A `supersede` entry caps the root's expiry at the entry's `expiresAt`; an
+ * `expire` entry replaces it, and without `expiresAt` the root never expires.
+ */
+export type RootLogAction = 'add' | 'revoke' | 'supersede' | 'expire';
+
+/**
+ * A single entry in the trusted-root audit log.
+ */
+export interface RootLogEntry {
+    readonly action: RootLogAction;
+    readonly credentialSetId: string;
+    readonly merkleRoot: string;
+    readonly actor: string;
+    readonly at: Date;
+    readonly expiresAt?: Date;
+    readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Append-only storage for trusted-root changes.
+ * The current trust set is obtained by replaying entries in order.
+ */
+export interface TrustedRootStore {
+    append(entry: RootLogEntry): void;
+    readAll(): RootLogEntry[];
+}
+
+/**
+ * Keeps the root log in process memory. Contents are lost on restart.
+ */
+export class InMemoryTrustedRootStore implements TrustedRootStore {
+    private readonly entries: RootLogEntry[] = [];
+
+    public append(entry: RootLogEntry): void {
+        this.entries.push(entry);
+    }
+
+    public readAll(): RootLogEntry[] {
+        return [...this.entries];
+    }
+}
+
+interface SerializedRootLogEntry {
+    readonly action: RootLogAction;
+    readonly credentialSetId: string;
+    readonly merkleRoot: string;
+    readonly actor: string;
+    readonly at: string;
+    readonly expiresAt?: string;
+    readonly metadata?: Record<string, unknown>;
+}
+
+const trustedRootCodec: LogCodec<RootLogEntry, SerializedRootLogEntry> = {
+    serialize: (entry) => ({
+        action: entry.action,
+        credentialSetId: entry.credentialSetId,
+        merkleRoot: entry.merkleRoot,
+        actor: entry.actor,
+        at: entry.at.toISOString(),
+        expiresAt: entry.expiresAt?.toISOString(),
+        metadata: entry.metadata,
+    }),
+    deserialize: (line) => ({
+        action: line.action,
+        credentialSetId: line.credentialSetId,
+        merkleRoot: line.merkleRoot,
+        actor: line.actor,
+        at: new Date(line.at),
+        expiresAt: line.expiresAt ? new Date(line.expiresAt) : undefined,
+        metadata: line.metadata,
+    }),
+};
+
+/**
+ * Persists the root log as newline-delimited JSON, one entry per line.
+ * Entries are only ever appended, so the file doubles as an audit trail.
+ */
+export class FileTrustedRootStore implements TrustedRootStore {
+    private readonly log: AppendOnlyLog<RootLogEntry, SerializedRootLogEntry>;
+
+    constructor(filePath: string, logger: Logger) {
+        this.log = new AppendOnlyLog(filePath, 'trusted root', trustedRootCodec, logger);
+    }
+
+    public append(entry: RootLogEntry): void {
+        this.log.append(entry);
+    }
+
+    public readAll(): RootLogEntry[] {
+        return this.log.readAll();
+    }
+}
+
+/**
+ * Create the trusted root store for the configured backend.
+ */
+export function createTrustedRootStore(
+    backend: StorageBackend,
+    dataDir: string,
+    logger: Logger,
+): TrustedRootStore {
+    if (backend === 'file') {
+        return new FileTrustedRootStore(join(dataDir, 'trusted-roots.log'), logger);
+    }
+    return new InMemoryTrustedRootStore();
+}
@@ -1,53 +1,128 @@
 import * as snarkjs from 'snarkjs';
-import { ZKProof, VerificationResult } from '../../types/proof.types';
+import { ZKProof, VerificationOptions, VerificationResult } from '../../types/proof.types';
+import { IssuerPublicKey } from '../../types/issuer.types';
 import { Logger } from '../../utils/logger';
 import { CircuitManager } from '../prover/CircuitManager';
+import { CircuitRegistry } from '../prover/CircuitRegistry';
 import { RootManager } from './RootManager';
 import { ProofError, ErrorCode } from '../../utils/errors';
+import {
+    checkPublicSignalBinding,
+    hasIssuer,
+    hasNullifier,
+    hasRevocation,
+} from './PublicSignals';
+import { checkAttributeRequirements } from './AttributeStatement';
+import { NullifierRegistry } from './NullifierRegistry';
+import { IssuerRegistry } from './IssuerRegistry';
+import { RevocationRegistry } from '../merkle/RevocationRegistry';
+import { metrics } from '../../utils/metrics';
 
 /**
- * Verifies zero-knowledge proofs.
+ * Verification errors that name signals, attributes or counts, reduced to
+ * one reason each so callers cannot create metric series at will.
+ */
+const FAILURE_REASONS: readonly [RegExp, string][] = [
+    [/^Expected \d+ public signals/, 'Unexpected number of public signals'],
+    [/^Public signal .+ is not a canonical decimal$/, 'Public signal is not a canonical decimal'],
+    [/^Public signal .+ is outside the scalar field$/, 'Public signal is outside the scalar field'],
+    [/^Public signal .+ does not match metadata/, 'Public signal does not match metadata'],
+    [/^Metadata .+ is missing or malformed$/, 'Metadata is missing or malformed'],
+    [/^Attribute .+ is not disclosed$/, 'Attribute is not disclosed'],
+    [/^Predicate on .+ is not proven$/, 'Predicate is not proven'],
+    [/^(Unknown attribute|Predicate on |At most )/, 'Invalid predicate'],
+];
+
+function failureReason(error: string): string {
+    return FAILURE_REASONS.find(([pattern]) => pattern.test(error))?.[1] ?? error;
+}
+
+/**
+ * Verifies zero-knowledge proofs for any circuit in a {@link CircuitRegistry},
+ * using the verification key selected by `metadata.circuitId`.
  *
  * Verification steps:
  * 1. Validate proof structure
  * 2. Check proof expiration
- * 3. Verify root is trusted
- * 4. Cryptographic proof verification using Groth16
+ * 3. Bind public signals to metadata (circuit ID, root, ...)
+ * 4. Check the nullifier scope and that the nullifier is unspent
+ * 5. Check disclosed attributes and predicates against the caller's requirements
+ * 6. Verify root is trusted
+ * 7. Verify the issuer key is trusted
+ * 8. Check the proof's revocation root against the set's published root
+ * 9. Cryptographic proof verification using Groth16
+ * 10. Spend the nullifier
  */
 export class ZKVerifier {
-    private readonly circuitManager: CircuitManager;
+    private readonly registry: CircuitRegistry;
     private readonly rootManager: RootManager;
+    private readonly nullifierRegistry?: NullifierRegistry;
+    private readonly revocationRegistry?: RevocationRegistry;
+    private readonly issuerRegistry?: IssuerRegistry;
     private readonly logger: Logger;
-    private verificationKey: Record<string, unknown> | null = null;
+    private readonly verificationKeys: Map<string, Record<string, unknown>> = new Map();
 
-    constructor(circuitManager: CircuitManager, rootManager: RootManager, logger: Logger) {
-        this.circuitManager = circuitManager;
+    constructor(
+        registry: CircuitRegistry,
+        rootManager: RootManager,
+        logger: Logger,
+        nullifierRegistry?: NullifierRegistry,
+        revocationRegistry?: RevocationRegistry,
+        issuerRegistry?: IssuerRegistry,
+    ) {
+        this.registry = registry;
         this.rootManager = rootManager;
+        this.nullifierRegistry = nullifierRegistry;
+        this.revocationRegistry = revocationRegistry;
+        this.issuerRegistry = issuerRegistry;
         this.logger = logger;
     }
 
     /**
-     * Initialize the verifier by loading the verification key.
+     * Initialize the verifier by loading every available verification key.
+     * Circuits whose key is missing are skipped; their proofs are rejected.
      */
     public async initialize(): Promise<void> {
-        try {
-            this.verificationKey = await this.circuitManager.loadVerificationKey();
-            this.logger.info('ZK Verifier initialized');
-        } catch (error) {
-            this.logger.error('Failed to initialize ZK Verifier', {
-                error: error instanceof Error ? error.message : String(error),
-            });
+        for (const circuit of this.registry.getAll()) {
+            try {
+                this.verificationKeys.set(
+                    circuit.getCircuitId(),
+                    await circuit.loadVerificationKey(),
+                );
+            } catch {
+                this.logger.warn('Verification key unavailable', {
+                    circuitId: circuit.getCircuitId(),
+                });
+            }
+        }
+
+        if (this.verificationKeys.size === 0) {
+            this.logger.error('Failed to initialize ZK Verifier: no verification keys loaded');
             throw new ProofError(
                 ErrorCode.CIRCUIT_INITIALIZATION_FAILED,
                 'ZK Verifier initialization failed',
             );
         }
+
+        this.logger.info('ZK Verifier initialized', {
+            circuits: Array.from(this.verificationKeys.keys()),
+        });
+    }
+
+    /**
+     * Whether a verification key is loaded for the circuit.
+     */
+    public hasVerificationKey(circuitId: string): boolean {
+        return this.verificationKeys.has(circuitId);
     }
 
     /**
      * Verify a zero-knowledge proof through all validation stages.
      */
-    public async verifyProof(proof: ZKProof): Promise<VerificationResult> {
+    public async verifyProof(
+        proof: ZKProof,
+        options: VerificationOptions = {},
+    ): Promise<VerificationResult> {
         const errors: string[] = [];
         const warnings: string[] = [];
 
@@ -62,7 +137,29 @@ export class ZKVerifier {
             return this.createResult(false, proof, errors);
         }
 
-        // Stage 3: Verify root is trusted
+        // Stage 3: Bind public signals to metadata
+        const circuit = this.registry.get(proof.metadata.circuitId);
+        if (!circuit) {
+            errors.push('Unsupported circuit');
+            return this.createResult(false, proof, errors);
+        }
+
+        if (!this.checkPublicSignals(proof, circuit, errors)) {
+            return this.createResult(false, proof, errors);
+        }
+
+        // Stage 4: Check nullifier scope
+        const singleUse = hasNullifier(circuit.getPublicSignalSchema());
+        if (!this.checkNullifierScope(proof, singleUse, options, errors)) {
+            return this.createResult(false, proof, errors);
+        }
+
+        // Stage 5: Check attribute requirements
+        if (!this.checkAttributes(proof, options, errors)) {
+            return this.createResult(false, proof, errors);
+        }
+
+        // Stage 6: Verify root is trusted
         const isTrusted = await this.rootManager.isTrustedRoot(
             proof.metadata.credentialSetId,
             proof.metadata.merkleRoot,
@@ -73,18 +170,32 @@ export class ZKVerifier {
             return this.createResult(false, proof, errors);
         }
 
-        // Stage 4: Cryptographic verification
-        if (!this.verificationKey) {
+        // Stage 7: Verify issuer is trusted
+        const signed = hasIssuer(circuit.getPublicSignalSchema());
+        if (!this.checkIssuer(proof, signed, options, errors, warnings)) {
+            return this.createResult(false, proof, errors);
+        }
+
+        // Stage 8: Check revocation
+        const revocable = hasRevocation(circuit.getPublicSignalSchema());
+        if (!this.checkRevocation(proof, revocable, errors, warnings)) {
+            return this.createResult(false, proof, errors);
+        }
+
+        // Stage 9: Cryptographic verification
+        const verificationKey = this.verificationKeys.get(circuit.getCircuitId());
+        if (!verificationKey) {
             errors.push('Verifier not initialized');
             return this.createResult(false, proof, errors);
         }
 
+        const endTimer = metrics.proofVerificationSeconds.startTimer({
+            circuit_id: circuit.getCircuitId(),
+        });
         try {
-            const isValid = await snarkjs.groth16.verify(
-                this.verificationKey,
-                proof.publicSignals as string[],
-                proof.proof,
-            );
+            const isValid = await snarkjs.groth16
+                .verify(verificationKey, proof.publicSignals as string[], proof.proof)
+                .finally(endTimer);
 
             if (!isValid) {
                 errors.push('Invalid cryptographic proof');
@@ -98,9 +209,27 @@ export class ZKVerifier {
             return this.createResult(false, proof, errors);
         }
 
+        // Stage 10: Spend the nullifier. Runs synchronously after the await
+        // above, so two concurrent proofs cannot both spend it.
+        if (singleUse) {
+            if (!this.nullifierRegistry) {
+                warnings.push('Nullifier not checked: no nullifier registry configured');
+            } else if (
+                !this.nullifierRegistry.consume(
+                    proof.metadata.externalNullifier as string,
+                    proof.metadata.nullifierHash as string,
+                    proof.metadata.proofId,
+                )
+            ) {
+                errors.push('Nullifier already used');
+                return this.createResult(false, proof, errors);
+            }
+        }
+
         this.logger.info('Proof verified successfully', {
             proofId: proof.metadata.proofId,
             credentialSetId: proof.metadata.credentialSetId,
+            circuitId: circuit.getCircuitId(),
         });
 
         return this.createResult(true, proof, errors, warnings);
@@ -130,12 +259,188 @@ export class ZKVerifier {
         return true;
     }
 
+    /**
+     * The Groth16 check only proves the public signals; metadata is what the
+     * trust checks read. Require each signal to equal its bound metadata field.
+     */
+    private checkPublicSignals(
+        proof: ZKProof,
+        circuit: CircuitManager,
+        errors: string[],
+    ): boolean {
+        const bindingErrors = checkPublicSignalBinding(
+            circuit.getPublicSignalSchema(),
+            proof.publicSignals,
+            proof.metadata,
+        );
+
+        if (bindingErrors.length > 0) {
+            this.logger.warn('Public signals do not match proof metadata', {
+                proofId: proof.metadata.proofId,
+                errors: bindingErrors,
+            });
+            errors.push(...bindingErrors);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Single-use proofs must target the scope the caller expects and carry a
+     * nullifier not yet spent there; plain membership proofs cannot satisfy
+     * a caller that asks for a scope.
+     */
+    private checkNullifierScope(
+        proof: ZKProof,
+        singleUse: boolean,
+        options: VerificationOptions,
+        errors: string[],
+    ): boolean {
+        const { externalNullifier, nullifierHash } = proof.metadata;
+
+        if (!singleUse) {
+            if (options.externalNullifier !== undefined) {
+                errors.push('Proof is not bound to an external nullifier');
+                return false;
+            }
+            return true;
+        }
+
+        if (
+            options.externalNullifier !== undefined &&
+            options.externalNullifier !== externalNullifier
+        ) {
+            errors.push('Proof is bound to a different external nullifier');
+            return false;
+        }
+
+        if (this.nullifierRegistry?.isUsed(externalNullifier as string, nullifierHash as string)) {
+            errors.push('Nullifier already used');
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * The public signals already bind the proof's attribute statement;
+     * here it must also say what the caller asked for. Proofs without one
+     * cannot satisfy a caller that asks about attributes.
+     */
+    private checkAttributes(
+        proof: ZKProof,
+        options: VerificationOptions,
+        errors: string[],
+    ): boolean {
+        const { predicates = [], disclose = [] } = options;
+        if (predicates.length === 0 && disclose.length === 0) {
+            return true;
+        }
+
+        const statement = proof.metadata.attributes;
+        if (!statement) {
+            errors.push('Proof does not carry attribute claims');
+            return false;
+        }
+
+        const attributeErrors = checkAttributeRequirements(statement, predicates, disclose);
+        errors.push(...attributeErrors);
+        return attributeErrors.length === 0;
+    }
+
+    /**
+     * Issuer-signed proofs must name a trusted issuer key, and the issuer
+     * the caller asks for; unsigned proofs cannot satisfy a caller that
+     * asks for an issuer.
+     */
+    private checkIssuer(
+        proof: ZKProof,
+        signed: boolean,
+        options: VerificationOptions,
+        errors: string[],
+        warnings: string[],
+    ): boolean {
+        if (!signed) {
+            if (options.issuerId !== undefined) {
+                errors.push('Proof is not signed by an issuer');
+                return false;
+            }
+            return true;
+        }
+
+        if (!this.issuerRegistry) {
+            if (options.issuerId !== undefined) {
+                errors.push('Issuer not checked: no issuer registry configured');
+                return false;
+            }
+            warnings.push('Issuer not checked: no issuer registry configured');
+            return true;
+        }
+
+        const issuer = this.issuerRegistry.findTrustedIssuer(
+            proof.metadata.issuerPublicKey as IssuerPublicKey,
+        );
+        if (!issuer) {
+            errors.push('Untrusted issuer');
+            return false;
+        }
+
+        if (options.issuerId !== undefined && options.issuerId !== issuer.issuerId) {
+            errors.push('Proof is signed by a different issuer');
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Once a set publishes revocations, only proofs of non-membership in its
+     * current revocation tree are accepted.
+     */
+    private checkRevocation(
+        proof: ZKProof,
+        revocable: boolean,
+        errors: string[],
+        warnings: string[],
+    ): boolean {
+        if (!this.revocationRegistry) {
+            if (revocable) {
+                warnings.push('Revocation not checked: no revocation registry configured');
+            }
+            return true;
+        }
+
+        const published = this.revocationRegistry.getPublishedRoot(proof.metadata.credentialSetId);
+
+        if (!revocable) {
+            if (published !== undefined) {
+                errors.push('Credential set requires a non-revocation proof');
+                return false;
+            }
+            return true;
+        }
+
+        const revocationRoot = proof.metadata.revocationRoot?.toLowerCase();
+        if (published === undefined || revocationRoot !== published) {
+            errors.push('Stale or unknown revocation root');
+            return false;
+        }
+
+        return true;
+    }
+
     private createResult(
         valid: boolean,
         proof: ZKProof,
         errors: string[],
         warnings?: string[],
     ): VerificationResult {
+        metrics.verifications.inc({ result: valid ? 'valid' : 'invalid' });
+        for (const error of errors) {
+            metrics.verificationFailures.inc({ reason: failureReason(error) });
+        }
+
         return {
             valid,
             verifiedAt: new Date(),
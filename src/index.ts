@@ -3,6 +3,7 @@ import { Logger } from './utils/logger';
 import { validateConfig } from './config/environment';
 
 import { PoseidonManager } from './core/crypto/PoseidonManager';
+import { EdDSAManager } from './core/crypto/EdDSAManager';
 
 const logger = new Logger('App');
 
@@ -16,9 +17,10 @@ async function main(): Promise<void> {
         process.exit(1);
     }
 
-    // Initialize Poseidon
+    // Initialize Poseidon and issuer signatures
     logger.info('Initializing Poseidon...');
     await PoseidonManager.initialize();
+    await EdDSAManager.initialize();
 
     // Create and start server
     const server = new Server(logger);
@@ -27,6 +29,7 @@ async function main(): Promise<void> {
     // Graceful shutdown
     const shutdown = async (signal: string): Promise<void> => {
         logger.info(`Received ${signal}. Shutting down gracefully...`);
+        await server.stop();
         process.exit(0);
     };
 
@@ -1,10 +1,39 @@
+import {
+    AttributePredicate,
+    AttributeStatement,
+    MerkleProof,
+    NonMembershipProof,
+} from './proof.types';
+import {
+    AttributeCredentialInput,
+    AttributeSchema,
+    AttributeValues,
+} from './credential.types';
+import { IssuerPublicKey, IssuerSignature } from './issuer.types';
+import { ProverPoolStats } from '../core/prover/ProverPool';
+import { ProofJobStatus } from '../core/prover/ProofJobStore';
+import { ApiKeyRole } from '../core/auth/ApiKeyStore';
+
 /**
  * API request types.
  */
 
 export interface GenerateProofRequest {
     readonly credentialSetId: string;
-    readonly credential: string;
+    readonly identitySecret: string;
+    readonly identityNullifier: string;
+    readonly externalNullifier?: string;
+    /** The holder's issued attributes; required for attribute credential sets */
+    readonly attributes?: AttributeValues;
+    /** Attributes to reveal in the proof */
+    readonly disclose?: readonly string[];
+    /** Predicates to prove on the holder's attributes */
+    readonly predicates?: readonly AttributePredicate[];
+}
+
+export interface SubmitProofJobRequest extends GenerateProofRequest {
+    /** Receives the finished job as a POST, in the shape of {@link ProofJobResponse} */
+    readonly callbackUrl?: string;
 }
 
 export interface VerifyProofRequest {
@@ -18,14 +47,56 @@ export interface VerifyProofRequest {
         readonly expiresAt: string;
         readonly version: string;
         readonly circuitId: string;
+        readonly externalNullifier?: string;
+        readonly nullifierHash?: string;
+        readonly revocationRoot?: string;
+        readonly attributes?: AttributeStatement;
+        readonly issuerPublicKey?: IssuerPublicKey;
     };
+    readonly externalNullifier?: string;
+    /** Predicates the proof must establish */
+    readonly predicates?: readonly AttributePredicate[];
+    /** Attributes the proof must reveal */
+    readonly disclose?: readonly string[];
+    /** Trusted issuer that must have signed the holder's commitment */
+    readonly issuerId?: string;
+}
+
+export interface BatchVerifyRequest {
+    readonly proofs: readonly Omit<
+        VerifyProofRequest,
+        'externalNullifier' | 'predicates' | 'disclose' | 'issuerId'
+    >[];
+    /** Scope every proof in the batch must be bound to */
+    readonly externalNullifier?: string;
+    /** Predicates every proof in the batch must establish */
+    readonly predicates?: readonly AttributePredicate[];
+    /** Attributes every proof in the batch must reveal */
+    readonly disclose?: readonly string[];
+    /** Trusted issuer that must have signed every proof's commitment */
+    readonly issuerId?: string;
 }
 
 export interface CreateCredentialSetRequest {
     readonly name: string;
     readonly description?: string;
-    readonly credentials: readonly string[];
+    /** Set leaves; identity commitments, or precomputed leaves of an attribute set */
+    readonly commitments?: readonly string[];
     readonly type?: string;
+    readonly treeDepth?: number;
+    /** Makes the set an attribute set */
+    readonly attributeSchema?: AttributeSchema;
+    /** Attribute credentials to issue; their leaves are added after `commitments` */
+    readonly credentials?: readonly AttributeCredentialInput[];
+    /** Issuer that signs every member's commitment */
+    readonly issuerId?: string;
+}
+
+export interface UpdateCredentialSetRequest {
+    readonly add?: readonly string[];
+    readonly remove?: readonly string[];
+    /** Attribute credentials to issue into an attribute set */
+    readonly credentials?: readonly AttributeCredentialInput[];
 }
 
 /**
@@ -43,6 +114,8 @@ export interface ApiError {
     readonly code: string;
     readonly message: string;
     readonly details?: readonly string[];
+    /** As sent in the `X-Request-Id` header; it is on every log line of the request */
+    readonly requestId?: string;
 }
 
 export interface ProofResponse {
@@ -57,6 +130,20 @@ export interface ProofResponse {
     };
 }
 
+export interface ProofJobResponse {
+    readonly jobId: string;
+    readonly credentialSetId: string;
+    readonly status: ProofJobStatus;
+    readonly createdAt: string;
+    readonly updatedAt: string;
+    /** The job, and its proof, are kept until then */
+    readonly expiresAt: string;
+    /** Same as the data of `POST /api/proof/generate`; completed jobs only */
+    readonly result?: Record<string, unknown>;
+    /** Failed jobs only */
+    readonly error?: ApiError;
+}
+
 export interface VerificationResponse {
     readonly valid: boolean;
     readonly verifiedAt: string;
@@ -65,15 +152,69 @@ export interface VerificationResponse {
     readonly warnings?: readonly string[];
 }
 
+export interface BatchVerificationItem extends VerificationResponse {
+    /** Position of the proof in the request */
+    readonly index: number;
+    readonly proofId?: string;
+}
+
+export interface BatchVerificationResponse {
+    readonly results: readonly BatchVerificationItem[];
+    readonly summary: {
+        readonly total: number;
+        readonly valid: number;
+        readonly invalid: number;
+    };
+}
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface HealthCheck {
+    readonly status: HealthStatus;
+    /** Why the check is not healthy */
+    readonly message?: string;
+}
+
+export interface CircuitHealth {
+    readonly circuitId: string;
+    /** Files named in the circuit manifest that are not on disk */
+    readonly missingFiles: readonly string[];
+    readonly verificationKeyLoaded: boolean;
+}
+
+export interface LivenessResponse {
+    readonly status: 'healthy';
+    readonly uptime: number;
+    readonly timestamp: string;
+}
+
+/**
+ * Readiness to serve requests. `status` is the worst of the checks.
+ */
 export interface HealthResponse {
-    readonly status: 'healthy' | 'degraded' | 'unhealthy';
+    readonly status: HealthStatus;
     readonly version: string;
     readonly uptime: number;
     readonly timestamp: string;
     readonly checks: {
-        readonly circuits: boolean;
-        readonly memory: boolean;
+        /** Circuit files on disk, per circuit */
+        readonly circuits: HealthCheck & { readonly circuits: readonly CircuitHealth[] };
+        readonly prover: HealthCheck;
+        /** Verification keys loaded by the verifier */
+        readonly verifier: HealthCheck;
+        readonly poseidon: HealthCheck;
+        /** The data directory, with the file storage backend */
+        readonly storage: HealthCheck;
+        readonly memory: HealthCheck;
+        /** Degraded while the prover queue is full */
+        readonly proverQueue: HealthCheck;
     };
+    readonly memory: {
+        readonly heapUsed: number;
+        readonly heapTotal: number;
+        readonly rss: number;
+    };
+    readonly prover: ProverPoolStats;
 }
 
 export interface CredentialSetResponse {
@@ -81,7 +222,127 @@ export interface CredentialSetResponse {
     readonly name: string;
     readonly description: string;
     readonly credentialCount: number;
+    readonly treeDepth: number;
     readonly merkleRoot: string;
     readonly createdAt: string;
     readonly version: string;
 }
+
+export interface MerklePathResponse {
+    readonly credentialSetId: string;
+    readonly version: string;
+    readonly treeDepth: number;
+    readonly merkleProof: MerkleProof;
+    /** Present once the set has published revocations */
+    readonly nonRevocation?: NonMembershipProof;
+    /** Attribute sets only */
+    readonly attributeSchema?: AttributeSchema;
+    /** The issuer's signature on the commitment; issuer-signed sets only */
+    readonly issuer?: IssuedCredentialResponse;
+    /** Circuits registered for the set's depth; artifact paths are under `/circuits` */
+    readonly circuits: readonly PathCircuit[];
+}
+
+export interface PathCircuit {
+    readonly circuitId: string;
+    readonly nullifier: boolean;
+    readonly revocation: boolean;
+    readonly attributes: boolean;
+    readonly issuer: boolean;
+    readonly wasm: string;
+    readonly zkey: string;
+}
+
+export interface RevokeCredentialsRequest {
+    readonly commitments: readonly string[];
+}
+
+export interface RevocationStatusResponse {
+    readonly credentialSetId: string;
+    readonly revocationRoot?: string;
+    readonly publishedAt?: string;
+    readonly revokedCount: number;
+    readonly pendingCount: number;
+}
+
+export interface CreateIssuerRequest {
+    readonly name: string;
+}
+
+export interface IssueCredentialRequest {
+    readonly commitment: string;
+}
+
+export interface IssuerResponse {
+    readonly id: string;
+    readonly name: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly createdAt: string;
+}
+
+export interface IssuedCredentialResponse {
+    readonly issuerId: string;
+    readonly commitment: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly signature: IssuerSignature;
+}
+
+export interface AddTrustedIssuerRequest {
+    readonly issuerId: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly expiresAt?: string;
+}
+
+export interface AddTrustedRootRequest {
+    readonly credentialSetId: string;
+    readonly merkleRoot: string;
+    readonly expiresAt?: string;
+    readonly metadata?: Record<string, unknown>;
+}
+
+export interface UpdateTrustedRootRequest {
+    /** New expiry; null makes the root never expire */
+    readonly expiresAt: string | null;
+}
+
+export interface TrustedRootResponse {
+    readonly credentialSetId: string;
+    readonly merkleRoot: string;
+    readonly addedAt: string;
+    readonly expiresAt?: string;
+    readonly expired: boolean;
+    readonly metadata?: Record<string, unknown>;
+}
+
+export interface CreateApiKeyRequest {
+    readonly name: string;
+    readonly roles: ApiKeyRole[];
+    readonly credentialSetIds?: string[];
+    readonly tenant?: string;
+}
+
+export interface ApiKeyResponse {
+    readonly id: string;
+    readonly name: string;
+    readonly roles: readonly ApiKeyRole[];
+    readonly credentialSetIds?: readonly string[];
+    readonly tenant?: string;
+    readonly createdAt: string;
+}
+
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+    /** The key itself; returned only when minted */
+    readonly key: string;
+}
+
+export interface CreateTokenRequest {
+    /** Roles to put in the token, a subset of the key's; all of them when absent */
+    readonly roles?: ApiKeyRole[];
+}
+
+export interface TokenResponse {
+    readonly token: string;
+    readonly tokenType: 'Bearer';
+    readonly expiresAt: string;
+    readonly roles: readonly ApiKeyRole[];
+}
@@ -1,3 +1,47 @@
 declare module 'circomlibjs' {
+    /** A prime field; elements are opaque little-endian buffers */
+    export interface Field {
+        readonly p: bigint;
+        e(value: bigint): Uint8Array;
+        toObject(element: Uint8Array): bigint;
+    }
+
+    export type CurvePoint = [Uint8Array, Uint8Array];
+
+    export interface EddsaSignature {
+        readonly R8: CurvePoint;
+        readonly S: bigint;
+    }
+
+    export interface Eddsa {
+        readonly babyJub: { readonly F: Field; readonly subOrder: bigint };
+        prv2pub(privateKey: Buffer): CurvePoint;
+        signPoseidon(privateKey: Buffer, message: Uint8Array): EddsaSignature;
+        verifyPoseidon(
+            message: Uint8Array,
+            signature: EddsaSignature,
+            publicKey: CurvePoint,
+        ): boolean;
+    }
+
+    export interface SMTFindResult {
+        readonly found: boolean;
+        readonly siblings: Uint8Array[];
+        readonly isOld0: boolean;
+        /** Leaf met on the path to an absent key; zero when `isOld0` */
+        readonly notFoundKey: Uint8Array;
+        readonly notFoundValue: Uint8Array;
+    }
+
+    /** circomlibjs's sparse Merkle tree, over Poseidon */
+    export interface SMT {
+        readonly F: Field;
+        readonly root: Uint8Array;
+        insert(key: bigint | number, value: bigint | number): Promise<unknown>;
+        find(key: bigint | number): Promise<SMTFindResult>;
+    }
+
+    export function buildEddsa(): Promise<Eddsa>;
     export function buildPoseidon(): Promise<any>;
+    export function newMemEmptyTrie(): Promise<SMT>;
 }
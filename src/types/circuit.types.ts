@@ -0,0 +1,39 @@
+import { PublicSignalSchema } from './proof.types';
+
+/**
+ * A compiled circuit as listed in the circuit manifest.
+ * File paths are relative to the circuits directory (`CIRCUITS_PATH`).
+ */
+export interface CircuitDefinition {
+    /** Identifier carried in `metadata.circuitId`, e.g. `identity-v1.0.0` */
+    readonly id: string;
+    readonly version: string;
+    /** Merkle tree depth the circuit was compiled for */
+    readonly depth: number;
+    readonly wasm: string;
+    readonly zkey: string;
+    readonly vkey: string;
+    readonly publicSignals: PublicSignalSchema;
+}
+
+/**
+ * The set of circuits a deployment can prove and verify.
+ * When several circuits match a request, the first listed wins.
+ */
+export interface CircuitManifest {
+    readonly circuits: readonly CircuitDefinition[];
+}
+
+/**
+ * What a proof needs from its circuit besides the tree depth.
+ */
+export interface CircuitFeatures {
+    /** Outputs a nullifier, making the proof single-use per scope */
+    readonly nullifier: boolean;
+    /** Proves non-membership in the set's revocation tree */
+    readonly revocation: boolean;
+    /** Proves membership of an attribute credential, with disclosures and predicates */
+    readonly attributes: boolean;
+    /** Proves the issuer's signature on the holder's commitment */
+    readonly issuer: boolean;
+}
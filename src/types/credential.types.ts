@@ -19,16 +19,113 @@ export interface CredentialMetadata {
 }
 
 /**
- * A set of credentials with an associated Merkle root.
+ * Hex-encoded components of a holder identity. Never sent to the issuer;
+ * only the commitment derived from it is registered.
+ */
+export interface SerializedIdentity {
+    readonly secret: string;
+    readonly nullifier: string;
+}
+
+/**
+ * A set of identity commitments with an associated Merkle root.
  */
 export interface CredentialSet {
     readonly id: string;
     readonly name: string;
     readonly description: string;
-    readonly credentials: readonly string[];
+    /** Identity commitments (64-char lowercase hex), in leaf order */
+    readonly commitments: readonly string[];
+    /** Depth of the set's Merkle tree, which selects the circuit used to prove it */
+    readonly treeDepth: number;
     readonly merkleRoot: string;
     readonly createdAt: Date;
+    readonly updatedAt?: Date;
+    readonly version: string;
+    readonly rootHistory: readonly RootHistoryEntry[];
+    /**
+     * Attributes each member credential carries. When set, the set's leaves
+     * are attribute credential leaves rather than bare identity commitments.
+     */
+    readonly attributeSchema?: AttributeSchema;
+    /**
+     * Issuer that signs each member's commitment. Proofs for the set then
+     * also prove the issuer's signature.
+     */
+    readonly issuerId?: string;
+}
+
+/**
+ * How an attribute value is encoded into a field element: `integer` values
+ * are unsigned 64-bit, `date` values are `YYYY-MM-DD` (days since the Unix
+ * epoch) and `string` values are hashed.
+ */
+export type AttributeType = 'integer' | 'date' | 'string';
+
+export interface AttributeDefinition {
+    readonly name: string;
+    readonly type: AttributeType;
+}
+
+/**
+ * Ordered attributes of a credential; an attribute's position is its slot
+ * in the credential's attribute hash.
+ */
+export type AttributeSchema = readonly AttributeDefinition[];
+
+/**
+ * Attribute values by name, in their issued form.
+ */
+export type AttributeValues = Readonly<Record<string, string | number>>;
+
+/**
+ * A member credential of an attribute set: the holder's identity
+ * commitment and the attributes issued to it.
+ */
+export interface AttributeCredentialInput {
+    readonly commitment: string;
+    readonly attributes: AttributeValues;
+}
+
+/**
+ * A Merkle root that a credential set has moved away from.
+ */
+export interface RootHistoryEntry {
+    readonly merkleRoot: string;
     readonly version: string;
+    readonly supersededAt: Date;
+}
+
+export interface CredentialSetCreatedEvent {
+    readonly credentialSet: CredentialSet;
+}
+
+export interface CredentialSetUpdatedEvent {
+    readonly credentialSet: CredentialSet;
+    /** The root the update moved away from */
+    readonly previous: RootHistoryEntry;
+}
+
+export interface CredentialSetDeletedEvent {
+    readonly credentialSetId: string;
+    readonly deletedAt: Date;
+}
+
+/**
+ * Events raised by the `CredentialSetManager` once a change is stored.
+ */
+export interface CredentialSetEvents {
+    readonly 'credential-set.created': CredentialSetCreatedEvent;
+    readonly 'credential-set.updated': CredentialSetUpdatedEvent;
+    readonly 'credential-set.deleted': CredentialSetDeletedEvent;
+}
+
+/**
+ * Commitments to add to or remove from an existing credential set.
+ */
+export interface CredentialSetUpdate {
+    readonly add?: readonly string[];
+    readonly remove?: readonly string[];
 }
 
 /**
@@ -47,7 +144,7 @@ export enum CredentialSetType {
 export interface CreateCredentialSetOptions {
     readonly name: string;
     readonly description?: string;
-    readonly credentials: readonly string[];
+    readonly commitments: readonly string[];
     readonly type?: CredentialSetType;
 }
 
@@ -56,6 +153,8 @@ export interface CreateCredentialSetOptions {
  */
 export const CREDENTIAL_CONSTRAINTS = {
     MAX_CREDENTIALS_PER_SET: 1024,
-    MAX_CREDENTIAL_LENGTH: 256,
-    MIN_CREDENTIAL_LENGTH: 1,
+    /** Attribute slots of the attribute credential circuit */
+    MAX_ATTRIBUTES: 8,
+    MAX_ATTRIBUTE_NAME_LENGTH: 64,
+    MAX_ATTRIBUTE_STRING_LENGTH: 256,
 } as const;
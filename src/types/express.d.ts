@@ -0,0 +1,13 @@
+import { ApiKeyPrincipal } from '../core/auth/ApiKeyManager';
+
+/**
+ * Request properties set by the API's middleware.
+ */
+declare global {
+    namespace Express {
+        interface Request {
+            /** Who the request is authenticated as; set by the auth middleware */
+            principal?: ApiKeyPrincipal;
+        }
+    }
+}
@@ -0,0 +1,32 @@
+/**
+ * Type declarations for ffjavascript (no @types/ffjavascript available).
+ * Only the BN254 group operations used to check verifier contracts are
+ * declared; points and field elements are opaque buffers.
+ */
+declare module 'ffjavascript' {
+    export interface Group<Affine> {
+        readonly g: Uint8Array;
+        readonly zero: Uint8Array;
+        add(a: Uint8Array, b: Uint8Array): Uint8Array;
+        neg(a: Uint8Array): Uint8Array;
+        timesFr(point: Uint8Array, scalar: Uint8Array): Uint8Array;
+        eq(a: Uint8Array, b: Uint8Array): boolean;
+        isValid(point: Uint8Array): boolean;
+        toAffine(point: Uint8Array): Uint8Array;
+        /** Affine coordinates followed by the projective z */
+        toObject(point: Uint8Array): Affine;
+        fromObject(coordinates: Affine): Uint8Array;
+    }
+
+    export interface Bn128 {
+        readonly Fr: { e(value: bigint): Uint8Array };
+        readonly G1: Group<bigint[]>;
+        /** Fp2 coordinates are [real, imaginary] */
+        readonly G2: Group<bigint[][]>;
+        /** Whether the product of the pairings of the (G1, G2) arguments is one */
+        pairingEq(...points: Uint8Array[]): Promise<boolean>;
+        terminate(): Promise<void>;
+    }
+
+    export function buildBn128(singleThread?: boolean): Promise<Bn128>;
+}
@@ -0,0 +1,39 @@
+/**
+ * An issuer's EdDSA public key: a point on the BabyJubJub curve, with
+ * coordinates as 64-char hex.
+ */
+export interface IssuerPublicKey {
+    readonly x: string;
+    readonly y: string;
+}
+
+/**
+ * EdDSA-Poseidon signature over a field element, as circomlib's
+ * `EdDSAPoseidonVerifier` takes it. All components are 64-char hex.
+ */
+export interface IssuerSignature {
+    readonly R8x: string;
+    readonly R8y: string;
+    readonly S: string;
+}
+
+/**
+ * An issuer whose signing key the server holds. The private key is derived
+ * from the master key and never stored.
+ */
+export interface Issuer {
+    readonly id: string;
+    readonly name: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly createdAt: Date;
+}
+
+/**
+ * An issuer's signature over a holder's identity commitment.
+ */
+export interface IssuedCredential {
+    readonly issuerId: string;
+    readonly commitment: string;
+    readonly publicKey: IssuerPublicKey;
+    readonly signature: IssuerSignature;
+}
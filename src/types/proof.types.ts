@@ -1,4 +1,6 @@
 import { Groth16Proof } from 'snarkjs';
+import { AttributeSchema } from './credential.types';
+import { IssuerPublicKey } from './issuer.types';
 
 /**
  * Represents a zero-knowledge proof with associated metadata.
@@ -20,10 +22,52 @@ export interface ProofMetadata {
     readonly expiresAt: Date;
     readonly version: string;
     readonly circuitId: string;
+    /** Scope the nullifier is bound to (e.g. a poll ID); nullifier circuits only */
+    readonly externalNullifier?: string;
+    /** Poseidon(identityNullifier, externalNullifier) as a decimal field element */
+    readonly nullifierHash?: string;
+    /** Revocation tree root the proof shows non-membership in; revocation circuits only */
+    readonly revocationRoot?: string;
+    /** Disclosed attributes and proven predicates; attribute circuits only */
+    readonly attributes?: AttributeStatement;
+    /** Key of the issuer that signed the holder's commitment; issuer circuits only */
+    readonly issuerPublicKey?: IssuerPublicKey;
 }
 
 /**
- * Merkle proof for a credential's membership in a set.
+ * Comparison a hidden attribute is proven to satisfy. Range operators
+ * (`gt`, `gte`, `lt`, `lte`, `between`) apply to integer and date attributes.
+ */
+export type PredicateOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'between';
+
+/**
+ * A predicate over one attribute. Operands are given in the attribute's
+ * issued form, e.g. `'2000-01-01'` for a date.
+ */
+export interface AttributePredicate {
+    readonly attribute: string;
+    readonly op: PredicateOperator;
+    /** Operand of every operator except `between` */
+    readonly value?: string | number;
+    /** Inclusive bounds of `between` */
+    readonly min?: string | number;
+    readonly max?: string | number;
+}
+
+/**
+ * What an attribute proof states about the holder's credential: the
+ * credential's schema, the attributes it reveals and the predicates its
+ * hidden attributes satisfy. Every part is bound to the public signals.
+ */
+export interface AttributeStatement {
+    readonly schema: AttributeSchema;
+    /** Revealed attributes by name, in their issued form */
+    readonly disclosed: Readonly<Record<string, string>>;
+    readonly predicates: readonly AttributePredicate[];
+}
+
+/**
+ * Merkle proof for an identity commitment's membership in a set.
  */
 export interface MerkleProof {
     readonly leaf: string;
@@ -33,6 +77,20 @@ export interface MerkleProof {
     readonly pathIndices: readonly number[];
 }
 
+/**
+ * Proof that a key is absent from a sparse Merkle tree, in the form
+ * circomlib's `SMTVerifier` takes with `fnc = 1`. All values are 64-char hex.
+ */
+export interface NonMembershipProof {
+    readonly root: string;
+    /** One entry per circuit level; levels below the proof's leaf are zero */
+    readonly siblings: readonly string[];
+    /** The leaf found where the key would be, or zero when that slot is empty */
+    readonly oldKey: string;
+    readonly oldValue: string;
+    readonly isOld0: boolean;
+}
+
 /**
  * Single element in a Merkle proof path.
  */
@@ -52,6 +110,47 @@ export interface VerificationResult {
     readonly warnings?: readonly string[];
 }
 
+/**
+ * Verifier-side expectations supplied alongside a proof.
+ */
+export interface VerificationOptions {
+    /** Scope the proof must be bound to; required for single-use proofs */
+    readonly externalNullifier?: string;
+    /** Predicates the holder's attributes must be proven to satisfy */
+    readonly predicates?: readonly AttributePredicate[];
+    /** Attributes the proof must reveal */
+    readonly disclose?: readonly string[];
+    /** Trusted issuer that must have signed the holder's credential */
+    readonly issuerId?: string;
+}
+
+/**
+ * How a metadata value is encoded relative to its field-element signal.
+ * `string` values are mapped with `PoseidonManager.stringToField`;
+ * `attribute` signals are element `index` of the encoded
+ * {@link AttributeStatement}; `point` signals are coordinate `index`
+ * (0 for x, 1 for y) of a curve point such as an {@link IssuerPublicKey}.
+ */
+export type PublicSignalEncoding = 'hex' | 'decimal' | 'string' | 'attribute' | 'point';
+
+/**
+ * Named position in a circuit's public signal vector, bound to the
+ * metadata field that must carry the same value.
+ */
+export interface PublicSignalDefinition {
+    readonly name: string;
+    readonly metadataField: keyof ProofMetadata;
+    readonly encoding: PublicSignalEncoding;
+    /** Position in the encoded metadata value; `attribute` and `point` encodings only */
+    readonly index?: number;
+}
+
+/**
+ * Ordered layout of a circuit's public signals (outputs first, then public
+ * inputs, as emitted by circom).
+ */
+export type PublicSignalSchema = readonly PublicSignalDefinition[];
+
 /**
  * Input to the ZK circuit for proof generation.
  */
@@ -76,5 +175,10 @@ export interface SerializedProof {
         readonly expiresAt: string;
         readonly version: string;
         readonly circuitId: string;
+        readonly externalNullifier?: string;
+        readonly nullifierHash?: string;
+        readonly revocationRoot?: string;
+        readonly attributes?: AttributeStatement;
+        readonly issuerPublicKey?: IssuerPublicKey;
     };
 }
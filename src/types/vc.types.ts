@@ -0,0 +1,66 @@
+import { AttributeStatement } from './proof.types';
+import { IssuerPublicKey } from './issuer.types';
+
+/**
+ * A JSON-LD context: a context URL or an inline context definition.
+ */
+export type JsonLdContext = string | Readonly<Record<string, unknown>>;
+
+/**
+ * A W3C Verifiable Credential (data model 1.1 or 2.0) as exchanged with
+ * partners. Only the members the adapter reads are typed; embedded proofs
+ * are carried but not checked.
+ */
+export interface VerifiableCredentialDocument {
+    readonly '@context': readonly JsonLdContext[];
+    readonly id?: string;
+    readonly type: readonly string[];
+    readonly issuer: string | { readonly id: string };
+    /** Data model 1.1 */
+    readonly issuanceDate?: string;
+    readonly expirationDate?: string;
+    /** Data model 2.0 */
+    readonly validFrom?: string;
+    readonly validUntil?: string;
+    /**
+     * The holder's claims. `identityCommitment` is the holder's identity
+     * commitment; every other member except `id` is an attribute.
+     */
+    readonly credentialSubject: Readonly<Record<string, unknown>>;
+    readonly proof?: unknown;
+}
+
+/**
+ * Proof block of a presentation exported from a {@link ZKProof}: the
+ * Groth16 proof, its public signals and the proof metadata a verifier needs.
+ */
+export interface ZkPresentationProof {
+    readonly type: string;
+    readonly created: string;
+    readonly expires: string;
+    readonly proofPurpose: string;
+    /** The Groth16 proof as JSON */
+    readonly proofValue: string;
+    readonly publicSignals: readonly string[];
+    readonly credentialSetId: string;
+    readonly merkleRoot: string;
+    readonly circuitId: string;
+    readonly version: string;
+    readonly externalNullifier?: string;
+    readonly nullifierHash?: string;
+    readonly revocationRoot?: string;
+    readonly attributes?: AttributeStatement;
+    readonly issuerPublicKey?: IssuerPublicKey;
+}
+
+/**
+ * A W3C Verifiable Presentation carrying a zero-knowledge proof of
+ * credential set membership instead of the credentials themselves.
+ */
+export interface VerifiablePresentationDocument {
+    readonly '@context': readonly JsonLdContext[];
+    /** `urn:uuid:` followed by the proof ID */
+    readonly id: string;
+    readonly type: readonly string[];
+    readonly proof: ZkPresentationProof;
+}
@@ -0,0 +1,27 @@
+/**
+ * Map `items` through `fn` with at most `limit` calls in flight.
+ * Results keep the order of `items`; the first rejection rejects the whole map.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid concurrency limit: ${limit}`);
+    }
+
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.min(limit, items.length) }, () => worker());
+    await Promise.all(workers);
+    return results;
+}
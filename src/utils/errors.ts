@@ -9,12 +9,24 @@ export enum ErrorCode {
     CREDENTIAL_SET_NOT_FOUND = 'CREDENTIAL_SET_NOT_FOUND',
     DUPLICATE_CREDENTIAL = 'DUPLICATE_CREDENTIAL',
     CREDENTIAL_LIMIT_EXCEEDED = 'CREDENTIAL_LIMIT_EXCEEDED',
+    CREDENTIAL_REVOKED = 'CREDENTIAL_REVOKED',
+    ATTRIBUTE_PREDICATE_NOT_SATISFIED = 'ATTRIBUTE_PREDICATE_NOT_SATISFIED',
 
     // Proof errors
     PROOF_GENERATION_FAILED = 'PROOF_GENERATION_FAILED',
     PROOF_VERIFICATION_FAILED = 'PROOF_VERIFICATION_FAILED',
     PROOF_EXPIRED = 'PROOF_EXPIRED',
     INVALID_PROOF_STRUCTURE = 'INVALID_PROOF_STRUCTURE',
+    PROOF_GENERATION_TIMEOUT = 'PROOF_GENERATION_TIMEOUT',
+    PROOF_GENERATION_CANCELLED = 'PROOF_GENERATION_CANCELLED',
+    PROVER_QUEUE_FULL = 'PROVER_QUEUE_FULL',
+    PROVER_SHUTTING_DOWN = 'PROVER_SHUTTING_DOWN',
+    PROOF_JOB_NOT_FOUND = 'PROOF_JOB_NOT_FOUND',
+
+    // Issuer errors
+    ISSUER_NOT_FOUND = 'ISSUER_NOT_FOUND',
+    ISSUER_KEY_UNAVAILABLE = 'ISSUER_KEY_UNAVAILABLE',
+    INVALID_ISSUER_SIGNATURE = 'INVALID_ISSUER_SIGNATURE',
 
     // Crypto errors
     HASH_FAILED = 'HASH_FAILED',
@@ -24,10 +36,16 @@ export enum ErrorCode {
     CIRCUIT_NOT_FOUND = 'CIRCUIT_NOT_FOUND',
     CIRCUIT_INITIALIZATION_FAILED = 'CIRCUIT_INITIALIZATION_FAILED',
     VERIFICATION_KEY_NOT_FOUND = 'VERIFICATION_KEY_NOT_FOUND',
+    INVALID_VERIFICATION_KEY = 'INVALID_VERIFICATION_KEY',
 
     // Root manager errors
     UNTRUSTED_ROOT = 'UNTRUSTED_ROOT',
     INVALID_ROOT_FORMAT = 'INVALID_ROOT_FORMAT',
+    ROOT_NOT_FOUND = 'ROOT_NOT_FOUND',
+    ROOT_SET_MISMATCH = 'ROOT_SET_MISMATCH',
+
+    // Storage errors
+    STORAGE_ERROR = 'STORAGE_ERROR',
 
     // System errors
     INITIALIZATION_FAILED = 'INITIALIZATION_FAILED',
@@ -37,6 +55,9 @@ export enum ErrorCode {
     // API errors
     RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
     UNAUTHORIZED = 'UNAUTHORIZED',
+    FORBIDDEN = 'FORBIDDEN',
+    API_KEY_NOT_FOUND = 'API_KEY_NOT_FOUND',
+    TOKEN_ISSUANCE_UNAVAILABLE = 'TOKEN_ISSUANCE_UNAVAILABLE',
     BAD_REQUEST = 'BAD_REQUEST',
     NOT_FOUND = 'NOT_FOUND',
 }
@@ -97,6 +118,33 @@ export class CircuitError extends AppError {
     }
 }
 
+export class StorageError extends AppError {
+    constructor(message: string) {
+        super(ErrorCode.STORAGE_ERROR, message, 500, true);
+        this.name = 'StorageError';
+    }
+}
+
+/**
+ * The server cannot take the work right now; the client may retry later.
+ */
+export class ServiceUnavailableError extends AppError {
+    constructor(code: ErrorCode, message: string) {
+        super(code, message, 503, true);
+        this.name = 'ServiceUnavailableError';
+    }
+}
+
+/**
+ * The requested resource does not exist (or no longer does).
+ */
+export class NotFoundError extends AppError {
+    constructor(code: ErrorCode, message: string) {
+        super(code, message, 404, true);
+        this.name = 'NotFoundError';
+    }
+}
+
 export class AuthenticationError extends AppError {
     constructor(message: string = 'Unauthorized') {
         super(ErrorCode.UNAUTHORIZED, message, 401, true);
@@ -104,6 +152,16 @@ export class AuthenticationError extends AppError {
     }
 }
 
+/**
+ * The caller is authenticated but not allowed to do this.
+ */
+export class ForbiddenError extends AppError {
+    constructor(message: string = 'Forbidden') {
+        super(ErrorCode.FORBIDDEN, message, 403, true);
+        this.name = 'ForbiddenError';
+    }
+}
+
 /**
  * Check whether an error is an operational (expected) error.
  */
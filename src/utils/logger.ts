@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { getRequestContext } from './requestContext';
 
 const LOG_LEVELS = {
     error: 0,
@@ -33,9 +34,18 @@ const jsonFormat = winston.format.combine(
     winston.format.json(),
 );
 
+/**
+ * ID of the request being handled, for log lines written while handling it.
+ */
+function requestMeta(): Record<string, unknown> {
+    const requestContext = getRequestContext();
+    return requestContext ? { requestId: requestContext.requestId } : {};
+}
+
 /**
  * Production-grade structured logger wrapping Winston.
  * Each instance has an associated context name for log categorization.
+ * Lines written while a request is handled carry its `requestId`.
  */
 export class Logger {
     private readonly logger: winston.Logger;
@@ -82,23 +92,23 @@ export class Logger {
     }
 
     public info(message: string, meta?: Record<string, unknown>): void {
-        this.logger.info(message, { context: this.context, ...meta });
+        this.logger.info(message, { context: this.context, ...requestMeta(), ...meta });
     }
 
     public error(message: string, meta?: Record<string, unknown>): void {
-        this.logger.error(message, { context: this.context, ...meta });
+        this.logger.error(message, { context: this.context, ...requestMeta(), ...meta });
     }
 
     public warn(message: string, meta?: Record<string, unknown>): void {
-        this.logger.warn(message, { context: this.context, ...meta });
+        this.logger.warn(message, { context: this.context, ...requestMeta(), ...meta });
     }
 
     public debug(message: string, meta?: Record<string, unknown>): void {
-        this.logger.debug(message, { context: this.context, ...meta });
+        this.logger.debug(message, { context: this.context, ...requestMeta(), ...meta });
     }
 
     public http(message: string, meta?: Record<string, unknown>): void {
-        this.logger.http(message, { context: this.context, ...meta });
+        this.logger.http(message, { context: this.context, ...requestMeta(), ...meta });
     }
 
     /**
@@ -0,0 +1,238 @@
+/**
+ * Process-wide metrics in the Prometheus text exposition format.
+ */
+
+type Labels = Readonly<Record<string, string>>;
+
+interface Metric {
+    render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(
+        ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) {
+        return '+Inf';
+    }
+    return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+// Series are keyed by their label values in label-name order
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+    return JSON.stringify(labelNames.map((name) => labels[name] ?? ''));
+}
+
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+    return Object.fromEntries(labelNames.map((name) => [name, labels[name] ?? '']));
+}
+
+/**
+ * A value that only goes up, per combination of label values.
+ */
+export class Counter implements Metric {
+    private readonly name: string;
+    private readonly help: string;
+    private readonly labelNames: readonly string[];
+    private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string, labelNames: readonly string[] = []) {
+        this.name = name;
+        this.help = help;
+        this.labelNames = labelNames;
+    }
+
+    public inc(labels: Labels = {}, value: number = 1): void {
+        const key = seriesKey(this.labelNames, labels);
+        const series = this.series.get(key);
+        if (series) {
+            series.value += value;
+        } else {
+            this.series.set(key, { labels: pickLabels(this.labelNames, labels), value });
+        }
+    }
+
+    public get(labels: Labels = {}): number {
+        return this.series.get(seriesKey(this.labelNames, labels))?.value ?? 0;
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        for (const { labels, value } of this.series.values()) {
+            lines.push(`${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * A value read when metrics are collected, from the function it was given.
+ * Reports nothing until one is given.
+ */
+export class Gauge implements Metric {
+    private readonly name: string;
+    private readonly help: string;
+    private collect?: () => number;
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    public collectWith(collect: () => number): void {
+        this.collect = collect;
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+        if (this.collect) {
+            lines.push(`${this.name} ${formatValue(this.collect())}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Observations counted into cumulative buckets, per combination of label values.
+ */
+export class Histogram implements Metric {
+    private readonly name: string;
+    private readonly help: string;
+    private readonly buckets: readonly number[];
+    private readonly labelNames: readonly string[];
+    private readonly series = new Map<
+        string,
+        { labels: Labels; buckets: number[]; sum: number; count: number }
+    >();
+
+    constructor(
+        name: string,
+        help: string,
+        buckets: readonly number[],
+        labelNames: readonly string[] = [],
+    ) {
+        this.name = name;
+        this.help = help;
+        this.buckets = buckets;
+        this.labelNames = labelNames;
+    }
+
+    public observe(value: number, labels: Labels = {}): void {
+        const key = seriesKey(this.labelNames, labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = {
+                labels: pickLabels(this.labelNames, labels),
+                buckets: this.buckets.map(() => 0),
+                sum: 0,
+                count: 0,
+            };
+            this.series.set(key, series);
+        }
+
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) {
+                series.buckets[i] += 1;
+            }
+        });
+        series.sum += value;
+        series.count += 1;
+    }
+
+    /**
+     * Start timing. The returned function observes the seconds elapsed.
+     */
+    public startTimer(labels: Labels = {}): () => void {
+        const start = process.hrtime.bigint();
+        return () => this.observe(Number(process.hrtime.bigint() - start) / 1e9, labels);
+    }
+
+    public getCount(labels: Labels = {}): number {
+        return this.series.get(seriesKey(this.labelNames, labels))?.count ?? 0;
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, buckets, sum, count } of this.series.values()) {
+            this.buckets.forEach((bound, i) => {
+                const le = formatLabels({ ...labels, le: formatValue(bound) });
+                lines.push(`${this.name}_bucket${le} ${buckets[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * A set of metrics rendered together.
+ */
+export class MetricsRegistry {
+    private readonly metrics: Metric[] = [];
+
+    public register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+
+    public render(): string {
+        return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+    }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const metrics = {
+    proofGenerationSeconds: metricsRegistry.register(
+        new Histogram(
+            'zkp_proof_generation_seconds',
+            'Time spent in groth16.fullProve',
+            [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+            ['circuit_id'],
+        ),
+    ),
+    proofVerificationSeconds: metricsRegistry.register(
+        new Histogram(
+            'zkp_proof_verification_seconds',
+            'Time spent in groth16.verify',
+            [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+            ['circuit_id'],
+        ),
+    ),
+    verifications: metricsRegistry.register(
+        new Counter('zkp_verifications_total', 'Proofs verified, by result', ['result']),
+    ),
+    verificationFailures: metricsRegistry.register(
+        new Counter(
+            'zkp_verification_failures_total',
+            'Reasons proofs were rejected, one per error in the verification result',
+            ['reason'],
+        ),
+    ),
+    errors: metricsRegistry.register(
+        new Counter('zkp_errors_total', 'Error responses, by error code', ['code']),
+    ),
+    rateLimitRejections: metricsRegistry.register(
+        new Counter(
+            'zkp_rate_limit_rejections_total',
+            'Requests rejected by a rate limiter',
+            ['limiter'],
+        ),
+    ),
+    credentialSets: metricsRegistry.register(
+        new Gauge('zkp_credential_sets', 'Credential sets held by the prover'),
+    ),
+    trustedRoots: metricsRegistry.register(
+        new Gauge('zkp_trusted_roots', 'Roots trusted by the verifier, including expired ones'),
+    ),
+};
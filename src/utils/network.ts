@@ -0,0 +1,68 @@
+import dns from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+const nonPublic = new BlockList();
+nonPublic.addSubnet('0.0.0.0', 8, 'ipv4');
+nonPublic.addSubnet('10.0.0.0', 8, 'ipv4');
+nonPublic.addSubnet('100.64.0.0', 10, 'ipv4');
+nonPublic.addSubnet('127.0.0.0', 8, 'ipv4');
+nonPublic.addSubnet('169.254.0.0', 16, 'ipv4');
+nonPublic.addSubnet('172.16.0.0', 12, 'ipv4');
+nonPublic.addSubnet('192.0.0.0', 24, 'ipv4');
+nonPublic.addSubnet('192.168.0.0', 16, 'ipv4');
+nonPublic.addSubnet('198.18.0.0', 15, 'ipv4');
+nonPublic.addSubnet('224.0.0.0', 3, 'ipv4');
+// Unspecified, loopback and the deprecated IPv4-compatible ::a.b.c.d
+nonPublic.addSubnet('::', 96, 'ipv6');
+// NAT64 and 6to4 reach IPv4 addresses through a translator or relay
+nonPublic.addSubnet('64:ff9b::', 96, 'ipv6');
+nonPublic.addSubnet('2002::', 16, 'ipv6');
+nonPublic.addSubnet('fc00::', 7, 'ipv6');
+nonPublic.addSubnet('fe80::', 10, 'ipv6');
+nonPublic.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether `address`, an IPv4 or IPv6 literal, is routable on the public
+ * internet. IPv4-mapped IPv6 addresses are judged by their IPv4 address.
+ */
+export function isPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) {
+        return false;
+    }
+    return !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * A `lookup` for sockets that may only reach public addresses. The check
+ * runs on the addresses the socket then connects to, so a name cannot
+ * pass it and resolve elsewhere for the connection.
+ *
+ * Sockets skip `lookup` for IP literals; check those with
+ * {@link isPublicAddress} first.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, []);
+            return;
+        }
+
+        const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+        if (blocked || addresses.length === 0) {
+            const refused: NodeJS.ErrnoException = new Error(
+                `${hostname} resolves to a non-public address`,
+            );
+            refused.code = 'ENOTPUBLIC';
+            callback(refused, []);
+            return;
+        }
+
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * What is known about the request being handled, wherever its handling
+ * continues: callbacks, timers and promises it starts carry it along.
+ */
+export interface RequestContext {
+    /** Sent back as `X-Request-Id` and attached to every log line */
+    readonly requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn`, and everything it starts, in the context of a request.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
+
+/**
+ * Run `fn` outside of any request, for resources that outlive the request
+ * that happened to create them.
+ */
+export function runWithoutRequestContext<T>(fn: () => T): T {
+    return storage.exit(fn);
+}
+
+/**
+ * The context of the request being handled, if any.
+ */
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
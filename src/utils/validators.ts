@@ -1,60 +1,53 @@
 import { CREDENTIAL_CONSTRAINTS } from '../types/credential.types';
 import { ValidationError } from './errors';
+import { SNARK_SCALAR_FIELD } from '../core/crypto/PoseidonManager';
 
 /**
- * Validates a single credential string.
+ * Validates a single identity commitment: a 64-char hex field element.
  */
-export function validateCredential(credential: string, index?: number): void {
-    const prefix = index !== undefined ? `Credential at index ${index}` : 'Credential';
+export function validateCommitment(commitment: string, index?: number): void {
+    const prefix = index !== undefined ? `Commitment at index ${index}` : 'Commitment';
 
-    if (typeof credential !== 'string') {
+    if (typeof commitment !== 'string') {
         throw new ValidationError(`${prefix}: must be a string`);
     }
 
-    const trimmed = credential.trim();
-    if (trimmed.length === 0) {
-        throw new ValidationError(`${prefix}: cannot be empty`);
+    if (!/^[a-f0-9]{64}$/i.test(commitment)) {
+        throw new ValidationError(`${prefix}: must be a 64-character hex string`);
     }
 
-    if (credential.length > CREDENTIAL_CONSTRAINTS.MAX_CREDENTIAL_LENGTH) {
-        throw new ValidationError(
-            `${prefix}: exceeds maximum length of ${CREDENTIAL_CONSTRAINTS.MAX_CREDENTIAL_LENGTH} characters`,
-        );
-    }
-
-    if (credential.length < CREDENTIAL_CONSTRAINTS.MIN_CREDENTIAL_LENGTH) {
-        throw new ValidationError(
-            `${prefix}: below minimum length of ${CREDENTIAL_CONSTRAINTS.MIN_CREDENTIAL_LENGTH} characters`,
-        );
+    const value = BigInt('0x' + commitment);
+    if (value === BigInt(0) || value >= SNARK_SCALAR_FIELD) {
+        throw new ValidationError(`${prefix}: must be a non-zero field element`);
     }
 }
 
 /**
- * Validates an array of credential strings.
+ * Validates an array of identity commitments.
  */
-export function validateCredentials(credentials: string[]): void {
-    if (!Array.isArray(credentials)) {
-        throw new ValidationError('Credentials must be an array');
+export function validateCommitments(commitments: string[]): void {
+    if (!Array.isArray(commitments)) {
+        throw new ValidationError('Commitments must be an array');
     }
 
-    if (credentials.length === 0) {
-        throw new ValidationError('Credentials array cannot be empty');
+    if (commitments.length === 0) {
+        throw new ValidationError('Commitments array cannot be empty');
     }
 
-    if (credentials.length > CREDENTIAL_CONSTRAINTS.MAX_CREDENTIALS_PER_SET) {
+    if (commitments.length > CREDENTIAL_CONSTRAINTS.MAX_CREDENTIALS_PER_SET) {
         throw new ValidationError(
-            `Maximum ${CREDENTIAL_CONSTRAINTS.MAX_CREDENTIALS_PER_SET} credentials per set`,
+            `Maximum ${CREDENTIAL_CONSTRAINTS.MAX_CREDENTIALS_PER_SET} commitments per set`,
         );
     }
 
+    // Validate each commitment
+    commitments.forEach((commitment, i) => validateCommitment(commitment, i));
+
     // Check for duplicates
-    const unique = new Set(credentials);
-    if (unique.size !== credentials.length) {
-        throw new ValidationError('Duplicate credentials are not allowed');
+    const unique = new Set(commitments.map((commitment) => commitment.toLowerCase()));
+    if (unique.size !== commitments.length) {
+        throw new ValidationError('Duplicate commitments are not allowed');
     }
-
-    // Validate each credential
-    credentials.forEach((cred, i) => validateCredential(cred, i));
 }
 
 /**
@@ -0,0 +1,20 @@
+import { Identity } from '../../src/core/crypto/Identity';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+
+/**
+ * Deterministic identity for a test label, so tests can keep readable names
+ * like 'MIT' while sets hold commitments. Requires Poseidon to be initialized.
+ */
+export function identityFor(label: string): Identity {
+    return new Identity(
+        PoseidonManager.stringToField(`secret:${label}`),
+        PoseidonManager.stringToField(`nullifier:${label}`),
+    );
+}
+
+/**
+ * Identity commitment for a test label.
+ */
+export function commitmentFor(label: string): string {
+    return identityFor(label).getCommitment();
+}
@@ -2,23 +2,57 @@ import express from 'express';
 import request from 'supertest';
 import { Server } from '../../src/api/server';
 import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { EdDSAManager } from '../../src/core/crypto/EdDSAManager';
+import { AttributeCredential } from '../../src/core/crypto/AttributeCredential';
+import { commitmentFor, identityFor } from '../fixtures/identities';
 
 const logger = new Logger('test');
 
+function identityHex(label: string): { identitySecret: string; identityNullifier: string } {
+    const { secret, nullifier } = identityFor(label).toJSON();
+    return { identitySecret: secret, identityNullifier: nullifier };
+}
+
 describe('API Integration Tests', () => {
+    let server: Server;
     let app: express.Express;
 
-    beforeAll(() => {
-        const server = new Server(logger);
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        await EdDSAManager.initialize();
+        server = new Server(logger);
         app = server.getApp();
     });
 
-    describe('GET /api/health', () => {
+    describe('GET /api/health/live', () => {
         it('should return health status', async () => {
-            const res = await request(app).get('/api/health').expect(200);
+            const res = await request(app).get('/api/health/live').expect(200);
             expect(res.body.success).toBe(true);
             expect(res.body.data.status).toBe('healthy');
+        });
+    });
+
+    describe('GET /api/health', () => {
+        it('should return readiness with the version and each check', async () => {
+            // No circuit files are set up here, so the server is not ready
+            const res = await request(app).get('/api/health').expect(503);
+            expect(res.body.data.status).toBe('unhealthy');
             expect(res.body.data.version).toBe('1.0.0');
+            expect(Object.keys(res.body.data.checks).sort()).toEqual([
+                'circuits',
+                'memory',
+                'poseidon',
+                'prover',
+                'proverQueue',
+                'storage',
+                'verifier',
+            ]);
+            expect(res.body.data.checks.prover).toEqual({
+                status: 'unhealthy',
+                message: 'Prover is not initialized',
+            });
+            expect(res.body.data.checks.poseidon).toEqual({ status: 'healthy' });
         });
     });
 
@@ -26,17 +60,82 @@ describe('API Integration Tests', () => {
         it('should create a credential set', async () => {
             const res = await request(app)
                 .post('/api/proof/credential-sets')
-                .send({ name: 'Unis', credentials: ['MIT', 'Stanford'], description: 'test' })
+                .send({
+                    name: 'Unis',
+                    commitments: [commitmentFor('MIT'), commitmentFor('Stanford')],
+                    description: 'test',
+                })
                 .expect(201);
             expect(res.body.success).toBe(true);
             expect(res.body.data.merkleRoot).toMatch(/^[a-f0-9]{64}$/);
         });
 
-        it('should reject empty credentials', async () => {
+        it('should reject empty commitments', async () => {
+            await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'E', commitments: [] })
+                .expect(400);
+        });
+
+        it('should reject plaintext credentials', async () => {
             await request(app)
                 .post('/api/proof/credential-sets')
-                .send({ name: 'E', credentials: [] })
+                .send({ name: 'P', commitments: ['MIT'] })
+                .expect(400);
+        });
+
+        it('should create the set at a tree depth a registered circuit supports', async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'D', commitments: [commitmentFor('MIT')], treeDepth: 20 })
+                .expect(201);
+            expect(res.body.data.treeDepth).toBe(20);
+        });
+
+        it('should reject a tree depth no registered circuit supports', async () => {
+            // Without a manifest only the default depth-20 circuits are registered
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'D', commitments: [commitmentFor('MIT')], treeDepth: 10 })
+                .expect(400);
+            expect(res.body.error.message).toBe('treeDepth must be one of: 20');
+        });
+    });
+
+    describe('PATCH /api/proof/credential-sets/:id', () => {
+        it('should add commitments and return the new root', async () => {
+            const created = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({
+                    name: 'Grads',
+                    commitments: [commitmentFor('alice'), commitmentFor('bob')],
+                })
+                .expect(201);
+
+            const res = await request(app)
+                .patch(`/api/proof/credential-sets/${created.body.data.id}`)
+                .send({ add: [commitmentFor('carol')] })
+                .expect(200);
+
+            expect(res.body.data.version).toBe('1.1.0');
+            expect(res.body.data.credentialCount).toBe(3);
+            expect(res.body.data.previousMerkleRoot).toBe(created.body.data.merkleRoot);
+            expect(res.body.data.merkleRoot).not.toBe(created.body.data.merkleRoot);
+        });
+
+        it('should require add or remove', async () => {
+            await request(app)
+                .patch('/api/proof/credential-sets/550e8400-e29b-41d4-a716-446655440000')
+                .send({})
+                .expect(400);
+        });
+
+        it('should return 400 for an unknown set', async () => {
+            const res = await request(app)
+                .patch('/api/proof/credential-sets/550e8400-e29b-41d4-a716-446655440000')
+                .send({ add: [commitmentFor('carol')] })
                 .expect(400);
+            expect(res.body.error.code).toBe('CREDENTIAL_SET_NOT_FOUND');
         });
     });
 
@@ -44,6 +143,171 @@ describe('API Integration Tests', () => {
         it('should list sets', async () => {
             const res = await request(app).get('/api/proof/credential-sets').expect(200);
             expect(Array.isArray(res.body.data)).toBe(true);
+            for (const set of res.body.data) {
+                expect(set.credentialCount).toEqual(expect.any(Number));
+                expect(set).not.toHaveProperty('commitments');
+            }
+        });
+    });
+
+    describe('GET /api/proof/credential-sets/:id/path', () => {
+        let setId: string;
+        let merkleRoot: string;
+
+        beforeAll(async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'Holders', commitments: [commitmentFor('a'), commitmentFor('b')] })
+                .expect(201);
+            setId = res.body.data.id;
+            merkleRoot = res.body.data.merkleRoot;
+        });
+
+        it('should return the Merkle path for a member commitment', async () => {
+            const res = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: commitmentFor('b') })
+                .expect(200);
+
+            const { merkleProof } = res.body.data;
+            expect(res.body.data.version).toBe('1.0.0');
+            expect(merkleProof.leaf).toBe(commitmentFor('b'));
+            expect(merkleProof.leafIndex).toBe(1);
+            expect(merkleProof.root).toBe(merkleRoot);
+            expect(merkleProof.siblings).toHaveLength(20);
+            expect(res.body.data.treeDepth).toBe(20);
+            expect(res.body.data.circuits).toEqual([
+                {
+                    circuitId: 'identity-v1.0.0',
+                    nullifier: false,
+                    revocation: false,
+                    attributes: false,
+                    issuer: false,
+                    wasm: 'identity_js/identity.wasm',
+                    zkey: 'identity_final.zkey',
+                },
+                {
+                    circuitId: 'identity_nullifier-v1.0.0',
+                    nullifier: true,
+                    revocation: false,
+                    attributes: false,
+                    issuer: false,
+                    wasm: 'identity_nullifier_js/identity_nullifier.wasm',
+                    zkey: 'identity_nullifier_final.zkey',
+                },
+                {
+                    circuitId: 'identity_revocation-v1.0.0',
+                    nullifier: false,
+                    revocation: true,
+                    attributes: false,
+                    issuer: false,
+                    wasm: 'identity_revocation_js/identity_revocation.wasm',
+                    zkey: 'identity_revocation_final.zkey',
+                },
+                {
+                    circuitId: 'identity_nullifier_revocation-v1.0.0',
+                    nullifier: true,
+                    revocation: true,
+                    attributes: false,
+                    issuer: false,
+                    wasm: 'identity_nullifier_revocation_js/identity_nullifier_revocation.wasm',
+                    zkey: 'identity_nullifier_revocation_final.zkey',
+                },
+            ]);
+            expect(res.body.data).not.toHaveProperty('nonRevocation');
+        });
+
+        it('should not reveal whether a commitment is absent', async () => {
+            const res = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: commitmentFor('c') })
+                .expect(400);
+            expect(res.body.error.message).toBe('Invalid credential');
+        });
+
+        it('should reject a malformed commitment', async () => {
+            await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: 'MIT' })
+                .expect(400);
+        });
+    });
+
+    describe('Revocations /api/proof/credential-sets/:id/revocations', () => {
+        let setId: string;
+
+        beforeAll(async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({
+                    name: 'Revocable',
+                    commitments: [commitmentFor('r1'), commitmentFor('r2'), commitmentFor('r3')],
+                })
+                .expect(201);
+            setId = res.body.data.id;
+        });
+
+        it('should stage, publish and report revocations', async () => {
+            const staged = await request(app)
+                .post(`/api/proof/credential-sets/${setId}/revocations`)
+                .send({ commitments: [commitmentFor('r1')] })
+                .expect(200);
+            expect(staged.body.data).toMatchObject({ revokedCount: 0, pendingCount: 1 });
+            expect(staged.body.data).not.toHaveProperty('revocationRoot');
+
+            const published = await request(app)
+                .post(`/api/proof/credential-sets/${setId}/revocations/publish`)
+                .expect(200);
+            expect(published.body.data).toMatchObject({ revokedCount: 1, pendingCount: 0 });
+            expect(published.body.data.revocationRoot).toMatch(/^[a-f0-9]{64}$/);
+
+            const status = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/revocations`)
+                .expect(200);
+            expect(status.body.data).toEqual(published.body.data);
+        });
+
+        it('should include a non-revocation proof in the Merkle path once published', async () => {
+            const status = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/revocations`)
+                .expect(200);
+
+            const res = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: commitmentFor('r2') })
+                .expect(200);
+            expect(res.body.data.nonRevocation.root).toBe(status.body.data.revocationRoot);
+            expect(res.body.data.nonRevocation.siblings).toHaveLength(40);
+        });
+
+        it('should refuse the Merkle path of a revoked commitment', async () => {
+            const res = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: commitmentFor('r1') })
+                .expect(400);
+            expect(res.body.error.code).toBe('CREDENTIAL_REVOKED');
+        });
+
+        it('should only revoke members of the set', async () => {
+            const res = await request(app)
+                .post(`/api/proof/credential-sets/${setId}/revocations`)
+                .send({ commitments: [commitmentFor('outsider')] })
+                .expect(400);
+            expect(res.body.error.message).toBe('Invalid credential');
+        });
+
+        it('should reject publishing with nothing pending', async () => {
+            const res = await request(app)
+                .post(`/api/proof/credential-sets/${setId}/revocations/publish`)
+                .expect(400);
+            expect(res.body.error.message).toBe('No pending revocations to publish');
+        });
+
+        it('should return 400 for an unknown set', async () => {
+            const res = await request(app)
+                .get('/api/proof/credential-sets/550e8400-e29b-41d4-a716-446655440000/revocations')
+                .expect(400);
+            expect(res.body.error.code).toBe('CREDENTIAL_SET_NOT_FOUND');
         });
     });
 
@@ -51,8 +315,588 @@ describe('API Integration Tests', () => {
         it('should reject invalid UUID', async () => {
             await request(app)
                 .post('/api/proof/generate')
-                .send({ credentialSetId: 'bad', credential: 'MIT' })
+                .send({ credentialSetId: 'bad', ...identityHex('holder') })
+                .expect(400);
+        });
+
+        it('should reject a malformed identity', async () => {
+            await request(app)
+                .post('/api/proof/generate')
+                .send({
+                    credentialSetId: '550e8400-e29b-41d4-a716-446655440000',
+                    identitySecret: 'MIT',
+                    identityNullifier: 'MIT',
+                })
+                .expect(400);
+        });
+    });
+
+    describe('Proof jobs /api/proof/jobs', () => {
+        let setId: string;
+
+        beforeAll(async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'Async', commitments: [commitmentFor('async-holder')] })
+                .expect(201);
+            setId = res.body.data.id;
+        });
+
+        it('should accept a job and report its outcome', async () => {
+            const res = await request(app)
+                .post('/api/proof/jobs')
+                .send({ credentialSetId: setId, ...identityHex('async-holder') })
+                .expect(202);
+            expect(res.body.data).toMatchObject({ credentialSetId: setId, status: 'pending' });
+            expect(res.headers.location).toBe(`/api/proof/jobs/${res.body.data.jobId}`);
+
+            await server.getProofJobManager().idle();
+
+            // No circuit files are built in the test environment
+            const job = await request(app).get(res.headers.location).expect(200);
+            expect(job.body.data.status).toBe('failed');
+            expect(job.body.data.error.code).toBe('CIRCUIT_INITIALIZATION_FAILED');
+            expect(job.body.data).not.toHaveProperty('result');
+        });
+
+        it('should refuse a job for a non-member before accepting it', async () => {
+            const res = await request(app)
+                .post('/api/proof/jobs')
+                .send({ credentialSetId: setId, ...identityHex('stranger') })
+                .expect(400);
+            expect(res.body.error.message).toBe('Invalid credential');
+        });
+
+        it('should reject a malformed callback URL', async () => {
+            await request(app)
+                .post('/api/proof/jobs')
+                .send({
+                    credentialSetId: setId,
+                    ...identityHex('async-holder'),
+                    callbackUrl: 'ftp://example.com/hook',
+                })
+                .expect(400);
+        });
+
+        it('should return 404 for an unknown job', async () => {
+            const res = await request(app)
+                .get('/api/proof/jobs/550e8400-e29b-41d4-a716-446655440000')
+                .expect(404);
+            expect(res.body.error.code).toBe('PROOF_JOB_NOT_FOUND');
+        });
+    });
+
+    describe('Attribute credential sets', () => {
+        const attributeSchema = [
+            { name: 'birthDate', type: 'date' },
+            { name: 'country', type: 'string' },
+        ];
+        const attributes = { birthDate: '1990-05-17', country: 'NL' };
+        let setId: string;
+
+        beforeAll(async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({
+                    name: 'Residents',
+                    attributeSchema,
+                    credentials: [{ commitment: commitmentFor('resident'), attributes }],
+                })
+                .expect(201);
+            setId = res.body.data.id;
+            expect(res.body.data.attributeSchema).toEqual(attributeSchema);
+            expect(res.body.data.credentialCount).toBe(1);
+        });
+
+        it('should serve the credential leaf path with the attribute circuit', async () => {
+            const leaf = new AttributeCredential(
+                [
+                    { name: 'birthDate', type: 'date' },
+                    { name: 'country', type: 'string' },
+                ],
+                attributes,
+            ).getLeaf(commitmentFor('resident'));
+
+            const res = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: leaf })
+                .expect(200);
+            expect(res.body.data.attributeSchema).toEqual(attributeSchema);
+            expect(res.body.data.circuits).toEqual([
+                expect.objectContaining({
+                    circuitId: 'attribute_credential-v1.0.0',
+                    attributes: true,
+                }),
+            ]);
+        });
+
+        it('should pass a satisfiable statement on to the prover', async () => {
+            const res = await request(app)
+                .post('/api/proof/generate')
+                .send({
+                    credentialSetId: setId,
+                    ...identityHex('resident'),
+                    attributes,
+                    disclose: ['country'],
+                    predicates: [{ attribute: 'birthDate', op: 'lt', value: '2008-01-01' }],
+                })
+                .expect(400);
+
+            // No circuit files are built in the test environment
+            expect(res.body.error.code).toBe('CIRCUIT_INITIALIZATION_FAILED');
+        });
+
+        it('should refuse predicates the credential does not satisfy', async () => {
+            const res = await request(app)
+                .post('/api/proof/generate')
+                .send({
+                    credentialSetId: setId,
+                    ...identityHex('resident'),
+                    attributes,
+                    predicates: [{ attribute: 'birthDate', op: 'gte', value: '2000-01-01' }],
+                })
+                .expect(400);
+            expect(res.body.error.code).toBe('ATTRIBUTE_PREDICATE_NOT_SATISFIED');
+        });
+
+        it('should not reveal whether other attributes were issued', async () => {
+            const res = await request(app)
+                .post('/api/proof/generate')
+                .send({
+                    credentialSetId: setId,
+                    ...identityHex('resident'),
+                    attributes: { ...attributes, country: 'DE' },
+                })
+                .expect(400);
+            expect(res.body.error.message).toBe('Invalid credential');
+        });
+
+        it('should require attributes in an attribute set', async () => {
+            const res = await request(app)
+                .post('/api/proof/generate')
+                .send({ credentialSetId: setId, ...identityHex('resident') })
+                .expect(400);
+            expect(res.body.error.message).toBe(
+                'attributes are required for attribute credential sets',
+            );
+        });
+
+        it('should issue further credentials into the set', async () => {
+            const res = await request(app)
+                .patch(`/api/proof/credential-sets/${setId}`)
+                .send({
+                    credentials: [
+                        {
+                            commitment: commitmentFor('newcomer'),
+                            attributes: { birthDate: '2001-02-03', country: 'BE' },
+                        },
+                    ],
+                })
+                .expect(200);
+            expect(res.body.data.credentialCount).toBe(2);
+        });
+
+        it('should reject credentials for a set without a schema', async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({
+                    name: 'Plain',
+                    credentials: [{ commitment: commitmentFor('resident'), attributes }],
+                })
+                .expect(400);
+            expect(res.body.error.message).toBe('credentials require an attributeSchema');
+        });
+
+        it('should reject an unknown predicate operator', async () => {
+            await request(app)
+                .post('/api/proof/generate')
+                .send({
+                    credentialSetId: setId,
+                    ...identityHex('resident'),
+                    attributes,
+                    predicates: [{ attribute: 'birthDate', op: 'before', value: '2000-01-01' }],
+                })
+                .expect(400);
+        });
+    });
+
+    describe('Issuers /api/issuers', () => {
+        let issuerId: string;
+        let publicKey: { x: string; y: string };
+        let setId: string;
+
+        beforeAll(async () => {
+            const res = await request(app)
+                .post('/api/issuers')
+                .send({ name: 'University' })
+                .expect(201);
+            issuerId = res.body.data.id;
+            publicKey = res.body.data.publicKey;
+            expect(publicKey.x).toMatch(/^[a-f0-9]{64}$/);
+
+            const set = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'Graduates', commitments: [commitmentFor('graduate')], issuerId })
+                .expect(201);
+            setId = set.body.data.id;
+            expect(set.body.data.issuerId).toBe(issuerId);
+        });
+
+        it('should list and look up issuers', async () => {
+            const list = await request(app).get('/api/issuers').expect(200);
+            expect(list.body.data.map((i: { id: string }) => i.id)).toContain(issuerId);
+
+            const res = await request(app).get(`/api/issuers/${issuerId}`).expect(200);
+            expect(res.body.data).toEqual(
+                expect.objectContaining({ id: issuerId, name: 'University', publicKey }),
+            );
+        });
+
+        it('should 404 an unknown issuer', async () => {
+            const res = await request(app)
+                .get('/api/issuers/550e8400-e29b-41d4-a716-446655440000')
+                .expect(404);
+            expect(res.body.error.code).toBe('ISSUER_NOT_FOUND');
+
+            await request(app)
+                .post('/api/proof/credential-sets')
+                .send({
+                    name: 'Orphans',
+                    commitments: [commitmentFor('graduate')],
+                    issuerId: '550e8400-e29b-41d4-a716-446655440000',
+                })
+                .expect(404);
+        });
+
+        it('should sign a commitment as the issuer', async () => {
+            const res = await request(app)
+                .post(`/api/issuers/${issuerId}/credentials`)
+                .send({ commitment: commitmentFor('graduate') })
+                .expect(201);
+
+            const { commitment, signature } = res.body.data;
+            expect(res.body.data.publicKey).toEqual(publicKey);
+            expect(
+                EdDSAManager.verify(BigInt('0x' + String(commitment)), signature, publicKey),
+            ).toBe(true);
+        });
+
+        it('should serve the issuer signature with the issuer circuit', async () => {
+            const res = await request(app)
+                .get(`/api/proof/credential-sets/${setId}/path`)
+                .query({ commitment: commitmentFor('graduate') })
+                .expect(200);
+
+            expect(res.body.data.issuer).toEqual(
+                expect.objectContaining({ issuerId, commitment: commitmentFor('graduate') }),
+            );
+            expect(res.body.data.circuits).toEqual([
+                expect.objectContaining({ circuitId: 'identity_issuer-v1.0.0', issuer: true }),
+            ]);
+        });
+
+        it('should refuse issuer-signed attribute sets', async () => {
+            const res = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({
+                    name: 'Signed residents',
+                    attributeSchema: [{ name: 'age', type: 'integer' }],
+                    credentials: [{ commitment: commitmentFor('graduate'), attributes: { age: 30 } }],
+                    issuerId,
+                })
                 .expect(400);
+            expect(res.body.error.message).toBe(
+                'Issuer-signed sets cannot hold attribute credentials',
+            );
+        });
+
+        it('should manage trusted issuers for verification', async () => {
+            await request(app)
+                .post('/api/verify/issuers')
+                .send({ issuerId, publicKey })
+                .expect(201);
+
+            const list = await request(app).get('/api/verify/issuers').expect(200);
+            expect(list.body.data).toEqual([expect.objectContaining({ issuerId, publicKey })]);
+
+            await request(app).delete(`/api/verify/issuers/${issuerId}`).expect(200);
+            const res = await request(app).delete(`/api/verify/issuers/${issuerId}`).expect(404);
+            expect(res.body.error.code).toBe('ISSUER_NOT_FOUND');
+        });
+
+        it('should reject a malformed trusted issuer key', async () => {
+            await request(app)
+                .post('/api/verify/issuers')
+                .send({ issuerId, publicKey: { x: 'zz', y: publicKey.y } })
+                .expect(400);
+        });
+    });
+
+    describe('Trusted roots /api/verify/roots', () => {
+        let setId: string;
+        let firstRoot: string;
+        let currentRoot: string;
+
+        beforeAll(async () => {
+            const created = await request(app)
+                .post('/api/proof/credential-sets')
+                .send({ name: 'Members', commitments: [commitmentFor('member-1')] })
+                .expect(201);
+            setId = created.body.data.id;
+            firstRoot = created.body.data.merkleRoot;
+
+            const updated = await request(app)
+                .patch(`/api/proof/credential-sets/${setId}`)
+                .send({ add: [commitmentFor('member-2')] })
+                .expect(200);
+            currentRoot = updated.body.data.merkleRoot;
+        });
+
+        it('should register a root with expiry and metadata and look it up', async () => {
+            const expiresAt = new Date(Date.now() + 3600000).toISOString();
+            const res = await request(app)
+                .post('/api/verify/roots')
+                .send({
+                    credentialSetId: setId,
+                    merkleRoot: currentRoot,
+                    expiresAt,
+                    metadata: { label: 'v2' },
+                })
+                .expect(201);
+            expect(res.body.data).toEqual(
+                expect.objectContaining({ expiresAt, expired: false, metadata: { label: 'v2' } }),
+            );
+
+            const got = await request(app)
+                .get(`/api/verify/roots/${setId}/${currentRoot}`)
+                .expect(200);
+            expect(got.body.data).toEqual(
+                expect.objectContaining({ credentialSetId: setId, merkleRoot: currentRoot, expiresAt }),
+            );
+
+            const list = await request(app)
+                .get('/api/verify/roots')
+                .query({ credentialSetId: setId })
+                .expect(200);
+            expect(list.body.data.map((r: { merkleRoot: string }) => r.merkleRoot)).toContain(
+                currentRoot,
+            );
+        });
+
+        it('should accept a previous root of the set', async () => {
+            await request(app)
+                .post('/api/verify/roots')
+                .send({ credentialSetId: setId, merkleRoot: firstRoot })
+                .expect(201);
+        });
+
+        it('should reject roots that are not roots of the set', async () => {
+            const res = await request(app)
+                .post('/api/verify/roots')
+                .send({ credentialSetId: setId, merkleRoot: 'c'.repeat(64) })
+                .expect(400);
+            expect(res.body.error.code).toBe('ROOT_SET_MISMATCH');
+        });
+
+        it('should reject roots of unknown sets', async () => {
+            const res = await request(app)
+                .post('/api/verify/roots')
+                .send({
+                    credentialSetId: '550e8400-e29b-41d4-a716-446655440000',
+                    merkleRoot: currentRoot,
+                })
+                .expect(400);
+            expect(res.body.error.code).toBe('CREDENTIAL_SET_NOT_FOUND');
+        });
+
+        it('should reject an expiry in the past', async () => {
+            await request(app)
+                .post('/api/verify/roots')
+                .send({
+                    credentialSetId: setId,
+                    merkleRoot: currentRoot,
+                    expiresAt: new Date(Date.now() - 1000).toISOString(),
+                })
+                .expect(400);
+        });
+
+        it('should update and remove the expiry', async () => {
+            const expiresAt = new Date(Date.now() + 7200000).toISOString();
+            const res = await request(app)
+                .patch(`/api/verify/roots/${setId}/${currentRoot}`)
+                .send({ expiresAt })
+                .expect(200);
+            expect(res.body.data.expiresAt).toBe(expiresAt);
+
+            const cleared = await request(app)
+                .patch(`/api/verify/roots/${setId}/${currentRoot}`)
+                .send({ expiresAt: null })
+                .expect(200);
+            expect(cleared.body.data.expiresAt).toBeUndefined();
+
+            await request(app)
+                .patch(`/api/verify/roots/${setId}/${currentRoot}`)
+                .send({})
+                .expect(400);
+        });
+
+        it('should revoke a root', async () => {
+            await request(app).delete(`/api/verify/roots/${setId}/${firstRoot}`).expect(200);
+
+            const res = await request(app)
+                .get(`/api/verify/roots/${setId}/${firstRoot}`)
+                .expect(404);
+            expect(res.body.error.code).toBe('ROOT_NOT_FOUND');
+            await request(app).delete(`/api/verify/roots/${setId}/${firstRoot}`).expect(404);
+        });
+    });
+
+    describe('POST /api/verify/batch', () => {
+        const root = '0b'.repeat(32);
+        const serialized = (overrides: Record<string, string> = {}) => ({
+            proof: JSON.stringify({ pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16' }),
+            publicSignals: [BigInt('0x' + root).toString()],
+            metadata: {
+                proofId: 'proof-1',
+                credentialSetId: '550e8400-e29b-41d4-a716-446655440000',
+                merkleRoot: root,
+                timestamp: new Date(Date.now() - 1000).toISOString(),
+                expiresAt: new Date(Date.now() + 60000).toISOString(),
+                version: '1.0.0',
+                circuitId: 'identity-v1.0.0',
+                ...overrides,
+            },
+        });
+
+        it('should return a result per proof and a summary', async () => {
+            const res = await request(app)
+                .post('/api/verify/batch')
+                .send({
+                    proofs: [
+                        serialized(),
+                        { proof: 'x' },
+                        serialized({ proofId: 'proof-3', expiresAt: 'never' }),
+                        serialized({
+                            proofId: 'proof-4',
+                            timestamp: new Date(Date.now() - 120000).toISOString(),
+                            expiresAt: new Date(Date.now() - 60000).toISOString(),
+                        }),
+                    ],
+                })
+                .expect(200);
+
+            const { results, summary } = res.body.data;
+            expect(summary).toEqual({ total: 4, valid: 0, invalid: 4 });
+            expect(results.map((r: { index: number }) => r.index)).toEqual([0, 1, 2, 3]);
+            expect(results[0].proofId).toBe('proof-1');
+            expect(results[0].errors).toEqual(['Untrusted credential set root']);
+            expect(results[1].errors).toEqual(['Invalid proof format']);
+            expect(results[2].errors).toContain('Invalid proof expiration');
+            expect(results[3].errors).toEqual(['Proof has expired']);
+        });
+
+        it('should accept batches larger than the single-request body limit', async () => {
+            const proofs = Array.from({ length: 30 }, (_, i) =>
+                serialized({ proofId: `proof-${i}` }),
+            );
+            expect(JSON.stringify({ proofs }).length).toBeGreaterThan(10 * 1024);
+
+            const res = await request(app).post('/api/verify/batch').send({ proofs }).expect(200);
+            expect(res.body.data.summary.total).toBe(30);
+        });
+
+        it('should reject an empty batch', async () => {
+            await request(app).post('/api/verify/batch').send({ proofs: [] }).expect(400);
+        });
+
+        it('should reject a batch over the size limit', async () => {
+            const proofs = Array.from({ length: 51 }, () => ({}));
+            await request(app).post('/api/verify/batch').send({ proofs }).expect(400);
+        });
+    });
+
+    describe('Solidity verifiers', () => {
+        const proofId = '550e8400-e29b-41d4-a716-446655440000';
+        const proof = (circuitId: string, publicSignals: string[]) => ({
+            proof: {
+                pi_a: ['1', '2', '1'],
+                pi_b: [
+                    ['3', '4'],
+                    ['5', '6'],
+                    ['1', '0'],
+                ],
+                pi_c: ['7', '8', '1'],
+                protocol: 'groth16',
+                curve: 'bn128',
+            },
+            publicSignals,
+            metadata: {
+                proofId,
+                credentialSetId: '550e8400-e29b-41d4-a716-446655440001',
+                merkleRoot: '0b'.repeat(32),
+                timestamp: new Date(Date.now() - 1000).toISOString(),
+                expiresAt: new Date(Date.now() + 60000).toISOString(),
+                version: '1.0.0',
+                circuitId,
+            },
+        });
+
+        it('should return calldata for the circuit verifier', async () => {
+            const res = await request(app)
+                .post(`/api/proof/${proofId}/calldata`)
+                .send(proof('identity_nullifier-v1.0.0', ['11', '12', '13']))
+                .expect(200);
+
+            expect(res.body.data.circuitId).toBe('identity_nullifier-v1.0.0');
+            expect(res.body.data.verifier).toBe(
+                '/api/circuits/identity_nullifier-v1.0.0/verifier.sol',
+            );
+            expect(res.body.data.b[0]).toEqual([
+                '0x' + '4'.padStart(64, '0'),
+                '0x' + '3'.padStart(64, '0'),
+            ]);
+            expect(res.body.data.input).toHaveLength(3);
+            expect(res.body.data.calldata).toMatch(/^0x[0-9a-f]{8}([0-9a-f]{64}){11}$/);
+        });
+
+        it('should reject calldata requests that do not fit the circuit', async () => {
+            const mismatched = await request(app)
+                .post('/api/proof/550e8400-e29b-41d4-a716-446655440009/calldata')
+                .send(proof('identity-v1.0.0', ['11']))
+                .expect(400);
+            expect(mismatched.body.error.message).toBe(
+                'metadata.proofId does not match the proof ID',
+            );
+
+            const unknown = await request(app)
+                .post(`/api/proof/${proofId}/calldata`)
+                .send(proof('identity-v9', ['11']))
+                .expect(400);
+            expect(unknown.body.error.code).toBe('CIRCUIT_NOT_FOUND');
+
+            const signals = await request(app)
+                .post(`/api/proof/${proofId}/calldata`)
+                .send(proof('identity-v1.0.0', ['11', '12']))
+                .expect(400);
+            expect(signals.body.error.message).toBe(
+                'Public signal count does not match the circuit',
+            );
+
+            await request(app).post(`/api/proof/${proofId}/calldata`).send({}).expect(400);
+        });
+
+        it('should return 404 for the verifier of an unknown circuit', async () => {
+            const res = await request(app)
+                .get('/api/circuits/identity-v9/verifier.sol')
+                .expect(404);
+            expect(res.body.error.code).toBe('CIRCUIT_NOT_FOUND');
+        });
+
+        it('should report a missing verification key', async () => {
+            const res = await request(app)
+                .get('/api/circuits/identity-v1.0.0/verifier.sol')
+                .expect(500);
+            expect(res.body.error.code).toBe('VERIFICATION_KEY_NOT_FOUND');
         });
     });
 
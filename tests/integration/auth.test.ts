@@ -0,0 +1,250 @@
+import express from 'express';
+import request from 'supertest';
+import { Server } from '../../src/api/server';
+import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { commitmentFor, identityFor } from '../fixtures/identities';
+
+const logger = new Logger('test');
+
+describe('API key authorization', () => {
+    let app: express.Express;
+    let adminKey: string;
+    let setId: string;
+    let otherSetId: string;
+
+    const mint = async (body: object): Promise<{ id: string; key: string }> => {
+        const res = await request(app)
+            .post('/api/admin/keys')
+            .set('X-API-Key', adminKey)
+            .send(body)
+            .expect(201);
+        return res.body.data;
+    };
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        app = new Server(logger).getApp();
+
+        // Open until the first key is minted
+        const admin = await request(app)
+            .post('/api/admin/keys')
+            .send({ name: 'admin', roles: ['key-admin', 'issuer'] })
+            .expect(201);
+        adminKey = admin.body.data.key;
+
+        const sets = await Promise.all(
+            ['A', 'B'].map((name) =>
+                request(app)
+                    .post('/api/proof/credential-sets')
+                    .set('X-API-Key', adminKey)
+                    .send({ name, commitments: [commitmentFor(`member-${name}`)] })
+                    .expect(201),
+            ),
+        );
+        [setId, otherSetId] = sets.map((res) => res.body.data.id);
+    });
+
+    it('should require a key once one exists', async () => {
+        const res = await request(app).get('/api/proof/credential-sets').expect(401);
+        expect(res.body.error.code).toBe('UNAUTHORIZED');
+
+        await request(app)
+            .get('/api/proof/credential-sets')
+            .set('X-API-Key', 'zkc_unknown')
+            .expect(401);
+        await request(app).get('/api/health/live').expect(200);
+    });
+
+    it('should enforce roles', async () => {
+        const { key } = await mint({ name: 'verifier', roles: ['verifier'] });
+
+        const res = await request(app)
+            .get('/api/proof/credential-sets')
+            .set('X-API-Key', key)
+            .expect(403);
+        expect(res.body.error.code).toBe('FORBIDDEN');
+
+        await request(app)
+            .get(`/api/proof/credential-sets/${setId}/revocations`)
+            .set('X-API-Key', key)
+            .expect(200);
+    });
+
+    it('should limit keys to their credential sets', async () => {
+        const { key } = await mint({
+            name: 'prover',
+            roles: ['holder-prover'],
+            credentialSetIds: [setId],
+        });
+        const commitment = commitmentFor('member-A');
+
+        await request(app)
+            .get(`/api/proof/credential-sets/${setId}/path`)
+            .query({ commitment })
+            .set('X-API-Key', key)
+            .expect(200);
+        await request(app)
+            .get(`/api/proof/credential-sets/${otherSetId}/path`)
+            .query({ commitment })
+            .set('X-API-Key', key)
+            .expect(403);
+    });
+
+    it('should hide proof jobs of other sets', async () => {
+        const { key: ownerKey } = await mint({
+            name: 'prover-B',
+            roles: ['holder-prover'],
+            credentialSetIds: [otherSetId],
+        });
+        const { key } = await mint({
+            name: 'prover-A',
+            roles: ['holder-prover'],
+            credentialSetIds: [setId],
+        });
+        const { secret, nullifier } = identityFor('member-B').toJSON();
+
+        const submitted = await request(app)
+            .post('/api/proof/jobs')
+            .set('X-API-Key', ownerKey)
+            .send({
+                credentialSetId: otherSetId,
+                identitySecret: secret,
+                identityNullifier: nullifier,
+            })
+            .expect(202);
+        const { jobId } = submitted.body.data;
+
+        await request(app).get(`/api/proof/jobs/${jobId}`).set('X-API-Key', ownerKey).expect(200);
+        const res = await request(app)
+            .get(`/api/proof/jobs/${jobId}`)
+            .set('X-API-Key', key)
+            .expect(404);
+        expect(res.body.error.code).toBe('PROOF_JOB_NOT_FOUND');
+    });
+
+    it('should check the set of every proof to verify', async () => {
+        const { key } = await mint({
+            name: 'verifier',
+            roles: ['verifier'],
+            credentialSetIds: [setId],
+        });
+        const proofOf = (credentialSetId: string) => ({
+            proof: '{}',
+            publicSignals: [],
+            metadata: { credentialSetId },
+        });
+
+        const res = await request(app)
+            .post('/api/verify/batch')
+            .set('X-API-Key', key)
+            .send({ proofs: [proofOf(setId), proofOf(otherSetId)] })
+            .expect(403);
+        expect(res.body.error.message).toBe('API key is not valid for this credential set');
+    });
+
+    it('should list keys without their secrets and revoke them', async () => {
+        const { id, key } = await mint({ name: 'issuer', roles: ['issuer'] });
+
+        const listed = await request(app)
+            .get('/api/admin/keys')
+            .set('X-API-Key', adminKey)
+            .expect(200);
+        expect(listed.body.data).toContainEqual(
+            expect.objectContaining({ id, name: 'issuer', roles: ['issuer'] }),
+        );
+        expect(JSON.stringify(listed.body.data)).not.toContain(key);
+
+        await request(app).delete(`/api/admin/keys/${id}`).set('X-API-Key', adminKey).expect(200);
+        await request(app).get('/api/proof/credential-sets').set('X-API-Key', key).expect(401);
+
+        const missing = await request(app)
+            .delete(`/api/admin/keys/${id}`)
+            .set('X-API-Key', adminKey)
+            .expect(404);
+        expect(missing.body.error.code).toBe('API_KEY_NOT_FOUND');
+    });
+
+    it('should only let key admins mint keys', async () => {
+        const { key } = await mint({ name: 'issuer', roles: ['issuer'] });
+
+        await request(app)
+            .post('/api/admin/keys')
+            .set('X-API-Key', key)
+            .send({ name: 'escalated', roles: ['key-admin'] })
+            .expect(403);
+        await request(app)
+            .post('/api/admin/keys')
+            .set('X-API-Key', adminKey)
+            .send({ name: 'bad', roles: ['superuser'] })
+            .expect(400);
+    });
+
+    describe('Access tokens /api/auth/token', () => {
+        it('should issue a token that authenticates as its key', async () => {
+            const { key } = await mint({ name: 'issuer', roles: ['issuer', 'verifier'] });
+
+            const res = await request(app)
+                .post('/api/auth/token')
+                .set('X-API-Key', key)
+                .send({ roles: ['issuer'] })
+                .expect(201);
+            expect(res.body.data).toEqual(
+                expect.objectContaining({ tokenType: 'Bearer', roles: ['issuer'] }),
+            );
+            const bearer = `Bearer ${res.body.data.token}`;
+
+            await request(app)
+                .get('/api/proof/credential-sets')
+                .set('Authorization', bearer)
+                .expect(200);
+            await request(app)
+                .get(`/api/proof/credential-sets/${setId}/revocations`)
+                .set('Authorization', bearer)
+                .expect(200);
+            await request(app)
+                .post('/api/verify/batch')
+                .set('Authorization', bearer)
+                .send({ proofs: [{ proof: '{}', publicSignals: [], metadata: {} }] })
+                .expect(403);
+        });
+
+        it('should only issue tokens for an API key', async () => {
+            const { key } = await mint({ name: 'verifier', roles: ['verifier'] });
+            const issued = await request(app)
+                .post('/api/auth/token')
+                .set('X-API-Key', key)
+                .expect(201);
+
+            await request(app)
+                .post('/api/auth/token')
+                .set('Authorization', `Bearer ${issued.body.data.token}`)
+                .expect(401);
+            await request(app)
+                .post('/api/auth/token')
+                .set('X-API-Key', key)
+                .send({ roles: ['issuer'] })
+                .expect(403);
+        });
+
+        it('should reject tokens of revoked keys and other schemes', async () => {
+            const { id, key } = await mint({ name: 'issuer', roles: ['issuer'] });
+            const issued = await request(app)
+                .post('/api/auth/token')
+                .set('X-API-Key', key)
+                .expect(201);
+
+            await request(app).delete(`/api/admin/keys/${id}`).set('X-API-Key', adminKey);
+            const res = await request(app)
+                .get('/api/proof/credential-sets')
+                .set('Authorization', `Bearer ${issued.body.data.token}`)
+                .expect(401);
+            expect(res.body.error.message).toBe('Token was issued to a revoked API key');
+
+            await request(app)
+                .get('/api/proof/credential-sets')
+                .set('Authorization', 'Basic dXNlcjpwYXNz')
+                .expect(401);
+        });
+    });
+});
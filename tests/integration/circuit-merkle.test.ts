@@ -0,0 +1,124 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { SecureMerkleTree } from '../../src/core/merkle/MerkleTree';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { Logger } from '../../src/utils/logger';
+import * as sampleCredentials from '../fixtures/sample-credentials.json';
+
+const logger = new Logger('test');
+const circuitDir = path.join(__dirname, '../../circuits/credential_js');
+
+interface WitnessCalculator {
+    calculateWitness(input: Record<string, unknown>, sanityCheck: number): Promise<bigint[]>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const buildWitnessCalculator = require(path.join(circuitDir, 'witness_calculator.js')) as (
+    code: Buffer,
+) => Promise<WitnessCalculator>;
+
+/**
+ * Legacy `credential.circom` leaf: Poseidon(stringToField(credential)).
+ */
+function legacyLeaf(credential: string): string {
+    return PoseidonManager.hash([PoseidonManager.stringToField(credential)])
+        .toString(16)
+        .padStart(64, '0');
+}
+
+function legacyTree(credentials: string[]): SecureMerkleTree {
+    return new SecureMerkleTree(credentials.map(legacyLeaf), logger);
+}
+
+/**
+ * Cross-checks the TypeScript tree against the compiled `credential.circom`
+ * by running witness calculation and reading the circuit's `root` output.
+ * The tree is the same for identity commitments; only the leaf differs.
+ */
+describe('Circuit compatibility (credential.circom)', () => {
+    let calculator: WitnessCalculator;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        calculator = await buildWitnessCalculator(
+            readFileSync(path.join(circuitDir, 'credential.wasm')),
+        );
+    });
+
+    async function circuitRoot(
+        tree: SecureMerkleTree,
+        credential: string,
+        index: number,
+    ): Promise<string> {
+        const proof = tree.getProof(index);
+        const witness = await calculator.calculateWitness(
+            {
+                credential: PoseidonManager.stringToField(credential).toString(),
+                pathElements: proof.siblings.map((s) => BigInt('0x' + s.hash).toString()),
+                pathIndices: [...proof.pathIndices],
+            },
+            1,
+        );
+        // witness[0] is the constant 1; outputs follow, and `root` is the only output
+        return witness[1].toString(16).padStart(64, '0');
+    }
+
+    it('should match the circuit root for every leaf of a full set', async () => {
+        const credentials = sampleCredentials.universities;
+        const tree = legacyTree(credentials);
+
+        for (let i = 0; i < credentials.length; i++) {
+            expect(await circuitRoot(tree, credentials[i], i)).toBe(tree.getRoot());
+        }
+    });
+
+    it('should match the circuit root for an odd-sized set', async () => {
+        const credentials = ['Google', 'Apple', 'Microsoft'];
+        const tree = legacyTree(credentials);
+
+        expect(await circuitRoot(tree, 'Microsoft', 2)).toBe(tree.getRoot());
+    });
+
+    it('should match the circuit root for a single-leaf set', async () => {
+        const tree = legacyTree(['only-one']);
+        expect(await circuitRoot(tree, 'only-one', 0)).toBe(tree.getRoot());
+    });
+
+    it('should not match for a credential outside the set', async () => {
+        const tree = legacyTree(['MIT', 'Stanford']);
+        expect(await circuitRoot(tree, 'Harvard', 0)).not.toBe(tree.getRoot());
+    });
+});
+
+// The committed credential_js predates the check that path indices are bits;
+// `./scripts/setup-circuits.sh credential` compiles the current circuit here
+const builtDir = path.join(__dirname, '../../circuits/build/credential_js');
+
+(existsSync(builtDir) ? describe : describe.skip)('Merkle path indices (credential.circom)', () => {
+    let calculator: WitnessCalculator;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const build = require(path.join(builtDir, 'witness_calculator.js')) as (
+            code: Buffer,
+        ) => Promise<WitnessCalculator>;
+        calculator = await build(readFileSync(path.join(builtDir, 'credential.wasm')));
+    });
+
+    it('should reject a path index that is not a bit', async () => {
+        const tree = legacyTree(['MIT', 'Stanford']);
+        const proof = tree.getProof(0);
+
+        // 2 is not a bit, so the unconstrained mux would hash a mix of both inputs
+        const witness = calculator.calculateWitness(
+            {
+                credential: PoseidonManager.stringToField('MIT').toString(),
+                pathElements: proof.siblings.map((s) => BigInt('0x' + s.hash).toString()),
+                pathIndices: [2, ...proof.pathIndices.slice(1)],
+            },
+            1,
+        );
+        await expect(witness).rejects.toThrow(/Assert Failed/);
+    });
+});
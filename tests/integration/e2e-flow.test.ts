@@ -2,9 +2,16 @@ import { SecureMerkleTree } from '../../src/core/merkle/MerkleTree';
 import { CredentialSetManager } from '../../src/core/merkle/CredentialSet';
 import { RootManager } from '../../src/core/verifier/RootManager';
 import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
 import { CredentialSetType } from '../../src/types/credential.types';
+import { commitmentFor } from '../fixtures/identities';
 
 const logger = new Logger('test');
+const members = (...labels: string[]): string[] => labels.map(commitmentFor);
+
+beforeAll(async () => {
+    await PoseidonManager.initialize();
+});
 
 describe('End-to-End Credential Flow (Merkle-only)', () => {
     let credentialSetManager: CredentialSetManager;
@@ -20,7 +27,7 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
         const universities = ['MIT', 'Stanford', 'Harvard', 'Berkeley'];
         const credSet = credentialSetManager.createCredentialSet(
             'Top Universities',
-            universities,
+            members(...universities),
             'Leading universities',
             CredentialSetType.UNIVERSITIES,
         );
@@ -35,9 +42,9 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
             addedAt: new Date(),
         });
 
-        // Step 3: Generate proof for a credential
-        const credential = 'MIT';
-        const merkleProof = credentialSetManager.generateProof(credSet.id, credential);
+        // Step 3: Generate proof for a member's identity commitment
+        const commitment = commitmentFor('MIT');
+        const merkleProof = credentialSetManager.generateProof(credSet.id, commitment);
 
         expect(merkleProof).toBeDefined();
         expect(merkleProof.root).toBe(credSet.merkleRoot);
@@ -60,13 +67,13 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
         const companies = ['Google', 'Apple', 'Microsoft', 'Amazon', 'Meta', 'Netflix'];
         const credSet = credentialSetManager.createCredentialSet(
             'Tech Companies',
-            companies,
+            members(...companies),
             'Top tech companies',
             CredentialSetType.COMPANIES,
         );
 
         companies.forEach((company) => {
-            const proof = credentialSetManager.generateProof(credSet.id, company);
+            const proof = credentialSetManager.generateProof(credSet.id, commitmentFor(company));
             expect(SecureMerkleTree.verify(proof)).toBe(true);
             expect(credentialSetManager.verifyCredential(credSet.id, proof)).toBe(true);
         });
@@ -74,9 +81,9 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
 
     it('should reject tampered proof', () => {
         const creds = ['A', 'B', 'C', 'D'];
-        const credSet = credentialSetManager.createCredentialSet('Test', creds);
+        const credSet = credentialSetManager.createCredentialSet('Test', members(...creds));
 
-        const proof = credentialSetManager.generateProof(credSet.id, 'A');
+        const proof = credentialSetManager.generateProof(credSet.id, commitmentFor('A'));
         const tampered = { ...proof, root: 'f'.repeat(64) };
 
         expect(SecureMerkleTree.verify(tampered)).toBe(false);
@@ -84,17 +91,17 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
     });
 
     it('should reject proof for wrong credential set', () => {
-        const set1 = credentialSetManager.createCredentialSet('Set1', ['A', 'B']);
-        const set2 = credentialSetManager.createCredentialSet('Set2', ['C', 'D']);
+        const set1 = credentialSetManager.createCredentialSet('Set1', members('A', 'B'));
+        const set2 = credentialSetManager.createCredentialSet('Set2', members('C', 'D'));
 
-        const proof = credentialSetManager.generateProof(set1.id, 'A');
+        const proof = credentialSetManager.generateProof(set1.id, commitmentFor('A'));
 
         // Proof from set1 should fail verification against set2
         expect(credentialSetManager.verifyCredential(set2.id, proof)).toBe(false);
     });
 
     it('should handle root revocation', async () => {
-        const credSet = credentialSetManager.createCredentialSet('Test', ['A', 'B', 'C']);
+        const credSet = credentialSetManager.createCredentialSet('Test', members('A', 'B', 'C'));
 
         rootManager.addTrustedRoot({
             credentialSetId: credSet.id,
@@ -113,7 +120,7 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
     });
 
     it('should handle root expiration', async () => {
-        const credSet = credentialSetManager.createCredentialSet('Test', ['A', 'B']);
+        const credSet = credentialSetManager.createCredentialSet('Test', members('A', 'B'));
 
         // Add root that expires immediately
         rootManager.addTrustedRoot({
@@ -129,20 +136,20 @@ describe('End-to-End Credential Flow (Merkle-only)', () => {
     it('should manage multiple credential sets independently', () => {
         const uniSet = credentialSetManager.createCredentialSet(
             'Universities',
-            ['MIT', 'Stanford'],
+            members('MIT', 'Stanford'),
             '',
             CredentialSetType.UNIVERSITIES,
         );
         const compSet = credentialSetManager.createCredentialSet(
             'Companies',
-            ['Google', 'Apple'],
+            members('Google', 'Apple'),
             '',
             CredentialSetType.COMPANIES,
         );
 
         // Proofs from each set should only validate against their own set
-        const uniProof = credentialSetManager.generateProof(uniSet.id, 'MIT');
-        const compProof = credentialSetManager.generateProof(compSet.id, 'Google');
+        const uniProof = credentialSetManager.generateProof(uniSet.id, commitmentFor('MIT'));
+        const compProof = credentialSetManager.generateProof(compSet.id, commitmentFor('Google'));
 
         expect(credentialSetManager.verifyCredential(uniSet.id, uniProof)).toBe(true);
         expect(credentialSetManager.verifyCredential(compSet.id, compProof)).toBe(true);
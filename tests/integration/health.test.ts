@@ -0,0 +1,178 @@
+import express from 'express';
+import request from 'supertest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Server } from '../../src/api/server';
+import { createHealthRoutes } from '../../src/api/routes/health.routes';
+import { HealthController } from '../../src/api/controllers/health.controller';
+import { CircuitRegistry } from '../../src/core/prover/CircuitRegistry';
+import { ProverPool } from '../../src/core/prover/ProverPool';
+import { ZKProver } from '../../src/core/prover/ZKProver';
+import { RootManager } from '../../src/core/verifier/RootManager';
+import { ZKVerifier } from '../../src/core/verifier/ZKVerifier';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { circuitsConfig } from '../../src/config/circuits.config';
+import { CircuitDefinition } from '../../src/types/circuit.types';
+import { Logger } from '../../src/utils/logger';
+
+const logger = new Logger('test');
+
+const definition = (name: string): CircuitDefinition => ({
+    ...circuitsConfig.getConventionalDefinition('identity', 20),
+    id: `${name}-v1.0.0`,
+    wasm: `${name}_js/${name}.wasm`,
+    zkey: `${name}_final.zkey`,
+    vkey: `${name}_verification_key.json`,
+});
+
+describe('Health endpoints', () => {
+    let server: Server;
+    let app: express.Express;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        server = new Server(logger);
+        app = server.getApp();
+    });
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('should report liveness without checking dependencies', async () => {
+        const res = await request(app).get('/api/health/live').expect(200);
+        expect(res.body.data.status).toBe('healthy');
+        expect(res.body.data.uptime).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should not be ready without circuit files', async () => {
+        const res = await request(app).get('/api/health/ready').expect(503);
+        const { status, checks } = res.body.data;
+
+        expect(res.body.success).toBe(false);
+        expect(status).toBe('unhealthy');
+        expect(checks.circuits.status).toBe('unhealthy');
+        expect(checks.circuits.circuits[0]).toEqual({
+            circuitId: expect.any(String),
+            missingFiles: expect.arrayContaining([expect.stringMatching(/\.zkey$/)]),
+            verificationKeyLoaded: false,
+        });
+        expect(checks.prover.status).toBe('unhealthy');
+        expect(checks.verifier.status).toBe('unhealthy');
+        expect(checks.poseidon).toEqual({ status: 'healthy' });
+        expect(checks.storage).toEqual({ status: 'healthy' });
+    });
+
+    it('should serve readiness at /api/health', async () => {
+        const res = await request(app).get('/api/health').expect(503);
+        expect(res.body.data.status).toBe('unhealthy');
+        expect(res.body.data.version).toBe('1.0.0');
+    });
+});
+
+describe('Readiness', () => {
+    let dir: string;
+    let pool: ProverPool;
+    let registry: CircuitRegistry;
+    let prover: ZKProver;
+    let verifier: ZKVerifier;
+
+    const writeCircuit = (name: string): void => {
+        mkdirSync(path.join(dir, `${name}_js`), { recursive: true });
+        writeFileSync(path.join(dir, `${name}_js/${name}.wasm`), '');
+        writeFileSync(path.join(dir, `${name}_final.zkey`), '');
+        writeFileSync(path.join(dir, `${name}_verification_key.json`), '{}');
+    };
+
+    const appWith = (controller: HealthController): express.Express => {
+        const app = express();
+        app.get('/ready', controller.getReadiness.bind(controller));
+        return app;
+    };
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+    });
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'health-'));
+        pool = new ProverPool({ size: 1, queueSize: 1, timeoutMs: 1000 }, logger);
+        registry = new CircuitRegistry(
+            { circuits: [definition('identity'), definition('identity_d10')] },
+            dir,
+            logger,
+        );
+        prover = new ZKProver(registry, logger, pool);
+        verifier = new ZKVerifier(registry, new RootManager(logger), logger);
+    });
+
+    afterEach(async () => {
+        await pool.close();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should be degraded while some circuits are missing', async () => {
+        writeCircuit('identity');
+        await prover.initialize();
+        await verifier.initialize();
+
+        const app = express().use(createHealthRoutes(registry, prover, verifier, pool));
+        const res = await request(app).get('/ready').expect(200);
+        const { status, checks } = res.body.data;
+
+        expect(status).toBe('degraded');
+        expect(checks.circuits).toEqual({
+            status: 'degraded',
+            message: '1 of 2 circuits are missing files',
+            circuits: [
+                { circuitId: 'identity-v1.0.0', missingFiles: [], verificationKeyLoaded: true },
+                {
+                    circuitId: 'identity_d10-v1.0.0',
+                    missingFiles: [
+                        'identity_d10_js/identity_d10.wasm',
+                        'identity_d10_final.zkey',
+                        'identity_d10_verification_key.json',
+                    ],
+                    verificationKeyLoaded: false,
+                },
+            ],
+        });
+        expect(checks.prover).toEqual({ status: 'healthy' });
+        expect(checks.verifier).toEqual({
+            status: 'degraded',
+            message: '1 of 2 verification keys are not loaded',
+        });
+    });
+
+    it('should be healthy once every circuit and key is available', async () => {
+        writeCircuit('identity');
+        writeCircuit('identity_d10');
+        await prover.initialize();
+        await verifier.initialize();
+
+        const controller = new HealthController(registry, prover, verifier, pool, 'file', dir);
+        const res = await request(appWith(controller)).get('/ready').expect(200);
+
+        expect(res.body.data.status).toBe('healthy');
+        expect(res.body.data.checks.storage).toEqual({ status: 'healthy' });
+    });
+
+    it('should be unhealthy when the data directory is not writable', async () => {
+        writeCircuit('identity');
+        writeCircuit('identity_d10');
+        await prover.initialize();
+        await verifier.initialize();
+
+        // A file where the data directory should be
+        const dataDir = path.join(dir, 'identity_final.zkey', 'data');
+        const controller = new HealthController(registry, prover, verifier, pool, 'file', dataDir);
+        const res = await request(appWith(controller)).get('/ready').expect(503);
+
+        expect(res.body.data.status).toBe('unhealthy');
+        expect(res.body.data.checks.storage).toEqual({
+            status: 'unhealthy',
+            message: 'Data directory is not writable',
+        });
+    });
+});
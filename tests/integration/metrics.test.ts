@@ -0,0 +1,92 @@
+import express from 'express';
+import request from 'supertest';
+import { Server } from '../../src/api/server';
+import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { commitmentFor } from '../fixtures/identities';
+
+const logger = new Logger('test');
+
+/** Value of a sample line in the exposition, or undefined if absent */
+function sample(exposition: string, series: string): number | undefined {
+    const line = exposition.split('\n').find((candidate) => candidate.startsWith(`${series} `));
+    return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+describe('GET /api/metrics', () => {
+    let app: express.Express;
+
+    const scrape = async (): Promise<string> => {
+        const res = await request(app).get('/api/metrics').expect(200);
+        expect(res.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+        return res.text;
+    };
+
+    const expiredProof = () => ({
+        proof: JSON.stringify({ pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16' }),
+        publicSignals: ['1'],
+        metadata: {
+            proofId: 'proof-1',
+            credentialSetId: '550e8400-e29b-41d4-a716-446655440000',
+            merkleRoot: '0b'.repeat(32),
+            timestamp: new Date(Date.now() - 120000).toISOString(),
+            expiresAt: new Date(Date.now() - 60000).toISOString(),
+            version: '1.0.0',
+            circuitId: 'identity-v1.0.0',
+        },
+    });
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        app = new Server(logger).getApp();
+    });
+
+    it('should report credential sets and trusted roots', async () => {
+        const created = await request(app)
+            .post('/api/proof/credential-sets')
+            .send({ name: 'Members', commitments: [commitmentFor('member-1')] })
+            .expect(201);
+        const { id, merkleRoot } = created.body.data;
+        await request(app)
+            .post('/api/verify/roots')
+            .send({ credentialSetId: id, merkleRoot })
+            .expect(201);
+
+        const exposition = await scrape();
+        expect(exposition).toContain('# TYPE zkp_credential_sets gauge');
+        expect(sample(exposition, 'zkp_credential_sets')).toBe(1);
+        expect(sample(exposition, 'zkp_trusted_roots')).toBe(1);
+    });
+
+    it('should count verification failures by reason', async () => {
+        await request(app).post('/api/verify').send(expiredProof()).expect(200);
+        await request(app).post('/api/verify').send(expiredProof()).expect(200);
+
+        const exposition = await scrape();
+        expect(sample(exposition, 'zkp_verifications_total{result="invalid"}')).toBe(2);
+        expect(
+            sample(exposition, 'zkp_verification_failures_total{reason="Proof has expired"}'),
+        ).toBe(2);
+    });
+
+    it('should count error responses by code', async () => {
+        await request(app).get('/api/nonexistent').expect(404);
+        await request(app).post('/api/proof/credential-sets').send({ name: 'E' }).expect(400);
+
+        const exposition = await scrape();
+        expect(sample(exposition, 'zkp_errors_total{code="NOT_FOUND"}')).toBe(1);
+        expect(sample(exposition, 'zkp_errors_total{code="VALIDATION_ERROR"}')).toBe(1);
+    });
+
+    it('should count rate limit rejections', async () => {
+        for (let i = 0; i < 11; i++) {
+            await request(app).post('/api/verify/batch').send({ proofs: [expiredProof()] });
+        }
+
+        const exposition = await scrape();
+        expect(
+            sample(exposition, 'zkp_rate_limit_rejections_total{limiter="batch-verification"}'),
+        ).toBe(1);
+        expect(sample(exposition, 'zkp_errors_total{code="RATE_LIMIT_EXCEEDED"}')).toBe(1);
+    });
+});
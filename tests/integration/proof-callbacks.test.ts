@@ -0,0 +1,51 @@
+import express from 'express';
+import request from 'supertest';
+import { Server } from '../../src/api/server';
+import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { identityFor } from '../fixtures/identities';
+
+const logger = new Logger('test');
+
+describe('Proof job callback URLs', () => {
+    let server: Server;
+    let app: express.Express;
+
+    const submitJob = (callbackUrl: string): request.Test => {
+        const { secret, nullifier } = identityFor('holder').toJSON();
+        return request(app).post('/api/proof/jobs').send({
+            credentialSetId: '550e8400-e29b-41d4-a716-446655440000',
+            identitySecret: secret,
+            identityNullifier: nullifier,
+            callbackUrl,
+        });
+    };
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        server = new Server(logger);
+        app = server.getApp();
+    });
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it.each([
+        'http://localhost:8080/hook',
+        'http://127.0.0.1/hook',
+        'http://169.254.169.254/latest/meta-data',
+        'http://10.0.0.1/hook',
+        'http://[::1]/hook',
+        'http://[fd00::1]/hook',
+    ])('should refuse %s', async (callbackUrl) => {
+        const res = await submitJob(callbackUrl).expect(400);
+        expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should accept a public host', async () => {
+        // Past validation, the unknown set is what gets rejected
+        const res = await submitJob('https://hooks.example.com/proof-ready').expect(400);
+        expect(res.body.error.code).toBe('CREDENTIAL_SET_NOT_FOUND');
+    });
+});
@@ -0,0 +1,108 @@
+import express from 'express';
+import request from 'supertest';
+import winston from 'winston';
+import { Server } from '../../src/api/server';
+import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+
+const logger = new Logger('test');
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('Request context', () => {
+    let server: Server;
+    let app: express.Express;
+    let log: jest.SpyInstance;
+
+    /** Metadata of every line logged with `message` */
+    const logged = (message: string): Record<string, unknown>[] =>
+        log.mock.calls
+            .filter(([, logMessage]) => logMessage === message)
+            .map(([, , meta]) => meta as Record<string, unknown>);
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        server = new Server(logger);
+        app = server.getApp();
+    });
+
+    beforeEach(() => {
+        log = jest.spyOn(winston.Logger.prototype, 'log');
+    });
+
+    afterEach(() => {
+        log.mockRestore();
+    });
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('should generate a request ID', async () => {
+        const res = await request(app).get('/api/health/live').expect(200);
+        expect(res.headers['x-request-id']).toMatch(UUID);
+    });
+
+    it('should keep an incoming request ID', async () => {
+        const res = await request(app)
+            .get('/api/health/live')
+            .set('X-Request-Id', 'trace-1234.abc')
+            .expect(200);
+        expect(res.headers['x-request-id']).toBe('trace-1234.abc');
+    });
+
+    it('should replace an implausible request ID', async () => {
+        for (const requestId of ['has spaces', 'x'.repeat(129), '{"injected":true}']) {
+            const res = await request(app).get('/api/health/live').set('X-Request-Id', requestId);
+            expect(res.headers['x-request-id']).toMatch(UUID);
+        }
+    });
+
+    it('should attach the request ID to every log line of the request', async () => {
+        await request(app)
+            .get('/api/proof/credential-sets/550e8400-e29b-41d4-a716-446655440000/path')
+            .query({ commitment: '01'.repeat(32) })
+            .set('X-Request-Id', 'req-logged')
+            .expect(400);
+
+        expect(logged('Request')).toEqual([expect.objectContaining({ requestId: 'req-logged' })]);
+        expect(logged('Operational error')).toEqual([
+            expect.objectContaining({ requestId: 'req-logged', code: 'CREDENTIAL_SET_NOT_FOUND' }),
+        ]);
+    });
+
+    it('should keep concurrent requests apart', async () => {
+        await Promise.all(
+            ['req-a', 'req-b', 'req-c'].map((requestId) =>
+                request(app)
+                    .post('/api/proof/credential-sets')
+                    .set('X-Request-Id', requestId)
+                    .send({ name: requestId, commitments: [] })
+                    .expect(400),
+            ),
+        );
+
+        const errors = logged('Operational error');
+        expect(errors.map((meta) => meta.requestId).sort()).toEqual(['req-a', 'req-b', 'req-c']);
+    });
+
+    it('should not log a request ID outside of a request', () => {
+        logger.info('Outside');
+        expect(logged('Outside')).toEqual([{ context: 'test' }]);
+    });
+
+    it('should include the request ID in error responses', async () => {
+        const invalid = await request(app)
+            .post('/api/proof/credential-sets')
+            .set('X-Request-Id', 'req-invalid')
+            .send({})
+            .expect(400);
+        expect(invalid.body.error).toMatchObject({
+            code: 'VALIDATION_ERROR',
+            requestId: 'req-invalid',
+        });
+
+        const missing = await request(app).get('/api/nothing-here').expect(404);
+        expect(missing.body.error.requestId).toBe(missing.headers['x-request-id']);
+    });
+});
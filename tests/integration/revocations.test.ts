@@ -0,0 +1,88 @@
+import express from 'express';
+import request from 'supertest';
+import { Server } from '../../src/api/server';
+import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { AttributeCredential } from '../../src/core/crypto/AttributeCredential';
+import { AttributeSchema } from '../../src/types/credential.types';
+import { commitmentFor } from '../fixtures/identities';
+
+const logger = new Logger('test');
+
+describe('Revocation circuits', () => {
+    let app: express.Express;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        const server = new Server(logger);
+        app = server.getApp();
+    });
+
+    it('should keep nullifier proofs available once a set publishes', async () => {
+        const created = await request(app)
+            .post('/api/proof/credential-sets')
+            .send({ name: 'Voters', commitments: [commitmentFor('v1'), commitmentFor('v2')] })
+            .expect(201);
+        const setId = created.body.data.id;
+
+        await request(app)
+            .post(`/api/proof/credential-sets/${setId}/revocations`)
+            .send({ commitments: [commitmentFor('v1')] })
+            .expect(200);
+        const published = await request(app)
+            .post(`/api/proof/credential-sets/${setId}/revocations/publish`)
+            .expect(200);
+        expect(published.body.data).toMatchObject({ revokedCount: 1, pendingCount: 0 });
+
+        const path = await request(app)
+            .get(`/api/proof/credential-sets/${setId}/path`)
+            .query({ commitment: commitmentFor('v2') })
+            .expect(200);
+        expect(path.body.data.nonRevocation.root).toBe(published.body.data.revocationRoot);
+        expect(
+            path.body.data.circuits.filter((circuit: { revocation: boolean }) => circuit.revocation),
+        ).toEqual([
+            expect.objectContaining({
+                circuitId: 'identity_revocation-v1.0.0',
+                nullifier: false,
+            }),
+            expect.objectContaining({
+                circuitId: 'identity_nullifier_revocation-v1.0.0',
+                nullifier: true,
+            }),
+        ]);
+    });
+
+    it('should refuse to revoke in a set with no revocation circuit', async () => {
+        const attributeSchema: AttributeSchema = [{ name: 'country', type: 'string' }];
+        const attributes = { country: 'NL' };
+        const created = await request(app)
+            .post('/api/proof/credential-sets')
+            .send({
+                name: 'Residents',
+                attributeSchema,
+                credentials: [{ commitment: commitmentFor('resident'), attributes }],
+            })
+            .expect(201);
+        const setId = created.body.data.id;
+        const leaf = new AttributeCredential(attributeSchema, attributes).getLeaf(
+            commitmentFor('resident'),
+        );
+
+        const revoked = await request(app)
+            .post(`/api/proof/credential-sets/${setId}/revocations`)
+            .send({ commitments: [leaf] })
+            .expect(400);
+        expect(revoked.body.error.message).toBe(
+            'Revocation unsupported: attribute_credential-v1.0.0 has no revocation variant',
+        );
+        await request(app)
+            .post(`/api/proof/credential-sets/${setId}/revocations/publish`)
+            .expect(400);
+
+        const status = await request(app)
+            .get(`/api/proof/credential-sets/${setId}/revocations`)
+            .expect(200);
+        expect(status.body.data).toMatchObject({ revokedCount: 0, pendingCount: 0 });
+    });
+});
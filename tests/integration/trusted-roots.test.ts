@@ -0,0 +1,62 @@
+import express from 'express';
+import request from 'supertest';
+import { Server } from '../../src/api/server';
+import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { commitmentFor } from '../fixtures/identities';
+
+const logger = new Logger('test');
+
+describe('Trusted root case', () => {
+    let server: Server;
+    let app: express.Express;
+    let setId: string;
+    let root: string;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        server = new Server(logger);
+        app = server.getApp();
+
+        const created = await request(app)
+            .post('/api/proof/credential-sets')
+            .send({ name: 'Members', commitments: [commitmentFor('member-1')] })
+            .expect(201);
+        setId = created.body.data.id;
+        root = created.body.data.merkleRoot;
+    });
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('should round-trip a root given in mixed case', async () => {
+        const mixed = root.slice(0, 32).toUpperCase() + root.slice(32);
+        expect(mixed).not.toBe(root);
+
+        const added = await request(app)
+            .post('/api/verify/roots')
+            .send({ credentialSetId: setId, merkleRoot: mixed })
+            .expect(201);
+        expect(added.body.data.merkleRoot).toBe(root);
+
+        const got = await request(app)
+            .get(`/api/verify/roots/${setId}/${root.toUpperCase()}`)
+            .expect(200);
+        expect(got.body.data.merkleRoot).toBe(root);
+
+        const expiresAt = new Date(Date.now() + 3600000).toISOString();
+        const updated = await request(app)
+            .patch(`/api/verify/roots/${setId}/${mixed}`)
+            .send({ expiresAt })
+            .expect(200);
+        expect(updated.body.data).toMatchObject({ merkleRoot: root, expiresAt });
+
+        const revoked = await request(app)
+            .delete(`/api/verify/roots/${setId}/${root.toUpperCase()}`)
+            .expect(200);
+        expect(revoked.body.data.merkleRoot).toBe(root);
+
+        await request(app).get(`/api/verify/roots/${setId}/${root}`).expect(404);
+    });
+});
@@ -2,13 +2,22 @@ import { SecureMerkleTree } from '../../src/core/merkle/MerkleTree';
 import { CredentialSetManager } from '../../src/core/merkle/CredentialSet';
 import { HashManager } from '../../src/core/crypto/HashManager';
 import { Logger } from '../../src/utils/logger';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
 
 const logger = new Logger('test');
 
+/** Distinct non-zero field elements standing in for identity commitments. */
+const commitments = (count: number, offset = 0): string[] =>
+    Array.from({ length: count }, (_, i) => (offset + i + 1).toString(16).padStart(64, '0'));
+
+beforeAll(async () => {
+    await PoseidonManager.initialize();
+});
+
 describe('Performance Benchmarks', () => {
     describe('Merkle Tree', () => {
         it('should create 1024-leaf tree under 500ms', () => {
-            const leaves = Array.from({ length: 1024 }, (_, i) => `credential-${i}`);
+            const leaves = commitments(1024);
             const start = Date.now();
             new SecureMerkleTree(leaves, logger);
             const elapsed = Date.now() - start;
@@ -16,7 +25,7 @@ describe('Performance Benchmarks', () => {
         });
 
         it('should generate proof under 10ms', () => {
-            const leaves = Array.from({ length: 256 }, (_, i) => `cred-${i}`);
+            const leaves = commitments(256);
             const tree = new SecureMerkleTree(leaves, logger);
             const start = Date.now();
             tree.getProof(0);
@@ -25,7 +34,7 @@ describe('Performance Benchmarks', () => {
         });
 
         it('should verify proof under 5ms', () => {
-            const leaves = Array.from({ length: 256 }, (_, i) => `cred-${i}`);
+            const leaves = commitments(256);
             const tree = new SecureMerkleTree(leaves, logger);
             const proof = tree.getProof(100);
             const start = Date.now();
@@ -52,10 +61,7 @@ describe('Performance Benchmarks', () => {
             const mgr = new CredentialSetManager(logger);
             const start = Date.now();
             for (let i = 0; i < 100; i++) {
-                mgr.createCredentialSet(
-                    `Set-${i}`,
-                    Array.from({ length: 10 }, (_, j) => `cred-${i}-${j}`),
-                );
+                mgr.createCredentialSet(`Set-${i}`, commitments(10, i * 10));
             }
             mgr.getAllSets();
             const elapsed = Date.now() - start;
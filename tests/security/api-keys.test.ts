@@ -0,0 +1,317 @@
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+    ApiKeyManager,
+    ApiKeyPrincipal,
+    MASTER_KEY_ID,
+} from '../../src/core/auth/ApiKeyManager';
+import { API_KEY_ROLES, FileApiKeyStore } from '../../src/core/auth/ApiKeyStore';
+import { JwtManager, JwtOptions } from '../../src/core/auth/JwtManager';
+import {
+    AuthenticationError,
+    ForbiddenError,
+    ServiceUnavailableError,
+    ValidationError,
+} from '../../src/utils/errors';
+import { Logger } from '../../src/utils/logger';
+
+const logger = new Logger('test');
+
+describe('ApiKeyManager', () => {
+    let apiKeys: ApiKeyManager;
+
+    beforeEach(() => {
+        apiKeys = new ApiKeyManager(logger);
+    });
+
+    it('should authenticate a minted key with its grants', () => {
+        const { key, apiKey } = apiKeys.mint({
+            name: 'verifier',
+            roles: ['verifier'],
+            credentialSetIds: ['set-1'],
+        });
+
+        expect(key).toMatch(/^zkc_[A-Za-z0-9_-]{43}$/);
+        expect(apiKeys.authenticate(key)).toEqual({
+            keyId: apiKey.id,
+            roles: ['verifier'],
+            credentialSetIds: ['set-1'],
+        });
+    });
+
+    it('should reject unknown keys', () => {
+        apiKeys.mint({ name: 'issuer', roles: ['issuer'] });
+        expect(apiKeys.authenticate('zkc_unknown')).toBeUndefined();
+    });
+
+    it('should keep only the hash of a key', () => {
+        const { key, apiKey } = apiKeys.mint({ name: 'issuer', roles: ['issuer'] });
+
+        expect(apiKey.keyHash).toMatch(/^[a-f0-9]{64}$/);
+        expect(JSON.stringify(apiKeys.getAuditLog())).not.toContain(key);
+    });
+
+    it('should reject revoked keys', () => {
+        const { key, apiKey } = apiKeys.mint({ name: 'issuer', roles: ['issuer'] });
+
+        expect(apiKeys.revoke(apiKey.id, 'admin')).toBe(true);
+        expect(apiKeys.authenticate(key)).toBeUndefined();
+        expect(apiKeys.getKeys()).toHaveLength(0);
+        expect(apiKeys.revoke(apiKey.id)).toBe(false);
+        expect(apiKeys.getAuditLog(apiKey.id).map((entry) => entry.action)).toEqual([
+            'mint',
+            'revoke',
+        ]);
+    });
+
+    it('should validate grants', () => {
+        expect(() => apiKeys.mint({ name: '', roles: ['issuer'] })).toThrow(ValidationError);
+        expect(() => apiKeys.mint({ name: 'none', roles: [] })).toThrow(ValidationError);
+        expect(() =>
+            apiKeys.mint({ name: 'empty', roles: ['verifier'], credentialSetIds: [] }),
+        ).toThrow(ValidationError);
+    });
+
+    it('should accept the master key with every role', () => {
+        const withMaster = new ApiKeyManager(logger, undefined, 'configured-key');
+
+        expect(withMaster.hasKeys()).toBe(true);
+        expect(withMaster.authenticate('configured-key')).toEqual({
+            keyId: MASTER_KEY_ID,
+            roles: API_KEY_ROLES,
+        });
+        expect(withMaster.authenticate('configured-kez')).toBeUndefined();
+    });
+
+    it('should have no keys until one is configured or minted', () => {
+        expect(apiKeys.hasKeys()).toBe(false);
+        apiKeys.mint({ name: 'verifier', roles: ['verifier'] });
+        expect(apiKeys.hasKeys()).toBe(true);
+    });
+});
+
+describe('FileApiKeyStore', () => {
+    let dir: string;
+    let logPath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'api-keys-'));
+        logPath = path.join(dir, 'api-keys.log');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should restore keys after a restart', () => {
+        const first = new ApiKeyManager(logger, new FileApiKeyStore(logPath, logger));
+        const kept = first.mint({
+            name: 'prover',
+            roles: ['holder-prover'],
+            credentialSetIds: ['set-1'],
+            tenant: 'campus',
+        });
+        const revoked = first.mint({ name: 'issuer', roles: ['issuer'] });
+        first.revoke(revoked.apiKey.id);
+
+        const second = new ApiKeyManager(logger, new FileApiKeyStore(logPath, logger));
+        expect(second.authenticate(kept.key)).toEqual({
+            keyId: kept.apiKey.id,
+            roles: ['holder-prover'],
+            credentialSetIds: ['set-1'],
+            tenant: 'campus',
+        });
+        expect(second.authenticate(revoked.key)).toBeUndefined();
+        expect(second.getKeys().map((apiKey) => apiKey.name)).toEqual(['prover']);
+    });
+
+    it('should never write the key itself', () => {
+        const apiKeys = new ApiKeyManager(logger, new FileApiKeyStore(logPath, logger));
+        const { key } = apiKeys.mint({ name: 'verifier', roles: ['verifier'] });
+
+        expect(readFileSync(logPath, 'utf-8')).not.toContain(key);
+    });
+});
+
+interface KeyFiles {
+    readonly privateKey: string;
+    readonly publicKey: string;
+}
+
+describe('JwtManager', () => {
+    const options: JwtOptions = {
+        algorithm: 'HS256',
+        secret: 'test-secret-that-is-at-least-32-characters',
+        privateKeyFile: '',
+        publicKeyFile: '',
+        issuer: 'anonymous-credentials',
+        expirySeconds: 900,
+        clockSkewSeconds: 30,
+    };
+
+    let apiKeys: ApiKeyManager;
+    let tokens: JwtManager;
+    let principal: ApiKeyPrincipal;
+
+    beforeEach(() => {
+        apiKeys = new ApiKeyManager(logger);
+        tokens = new JwtManager(apiKeys, logger, options);
+        const { key } = apiKeys.mint({
+            name: 'prover',
+            roles: ['holder-prover', 'verifier'],
+            credentialSetIds: ['set-1'],
+            tenant: 'campus',
+        });
+        principal = apiKeys.authenticate(key) as ApiKeyPrincipal;
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should issue a token that resolves to its API key', () => {
+        const { token, claims } = tokens.issue(principal);
+
+        expect(token.split('.')).toHaveLength(3);
+        expect(claims.exp - claims.iat).toBe(900);
+        expect(tokens.verify(token)).toEqual({
+            keyId: principal.keyId,
+            roles: ['holder-prover', 'verifier'],
+            credentialSetIds: ['set-1'],
+            tenant: 'campus',
+            tokenId: claims.jti,
+        });
+    });
+
+    it('should narrow a token to some of the key roles', () => {
+        const { token } = tokens.issue(principal, ['verifier']);
+        expect(tokens.verify(token).roles).toEqual(['verifier']);
+
+        expect(() => tokens.issue(principal, ['issuer'])).toThrow(ForbiddenError);
+    });
+
+    it('should not issue a token for a token', () => {
+        const fromToken = tokens.verify(tokens.issue(principal).token);
+        expect(() => tokens.issue(fromToken)).toThrow(AuthenticationError);
+    });
+
+    it('should honor expiry with clock skew', () => {
+        const { token, claims } = tokens.issue(principal);
+
+        jest.spyOn(Date, 'now').mockReturnValue((claims.exp + 29) * 1000);
+        expect(tokens.verify(token).keyId).toBe(principal.keyId);
+
+        jest.spyOn(Date, 'now').mockReturnValue((claims.exp + 30) * 1000);
+        expect(() => tokens.verify(token)).toThrow('Token expired');
+    });
+
+    it('should reject tokens issued ahead of the clock', () => {
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+        const { token } = tokens.issue(principal);
+
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+        expect(() => tokens.verify(token)).toThrow('Token not yet valid');
+    });
+
+    it('should reject tokens of a revoked key', () => {
+        const { token } = tokens.issue(principal);
+        apiKeys.revoke(principal.keyId);
+
+        expect(() => tokens.verify(token)).toThrow('Token was issued to a revoked API key');
+    });
+
+    it('should reject tampered and foreign tokens', () => {
+        const { token } = tokens.issue(principal);
+        const [header, , signature] = token.split('.');
+        const claims = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+        const elevated = Buffer.from(JSON.stringify({ ...claims, roles: ['key-admin'] }));
+
+        const forged = `${header}.${elevated.toString('base64url')}.${signature}`;
+        expect(() => tokens.verify(forged)).toThrow('Invalid token signature');
+
+        const unsigned = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+        expect(() => tokens.verify(`${unsigned}.${token.split('.')[1]}.`)).toThrow(
+            'Unsupported token algorithm',
+        );
+
+        const other = new JwtManager(apiKeys, logger, { ...options, secret: 'x'.repeat(32) });
+        expect(() => other.verify(token)).toThrow('Invalid token signature');
+        expect(() => tokens.verify('not-a-token')).toThrow('Malformed token');
+    });
+
+    describe('with key files', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'jwt-keys-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        const writeKeyPair = (type: 'rsa' | 'ed25519'): KeyFiles => {
+            const pair =
+                type === 'rsa'
+                    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+                    : generateKeyPairSync('ed25519');
+            const files = {
+                privateKey: path.join(dir, `${type}.key`),
+                publicKey: path.join(dir, `${type}.pub`),
+            };
+            writeFileSync(
+                files.privateKey,
+                pair.privateKey.export({ type: 'pkcs8', format: 'pem' }),
+            );
+            writeFileSync(files.publicKey, pair.publicKey.export({ type: 'spki', format: 'pem' }));
+            return files;
+        };
+
+        it.each([
+            ['RS256', 'rsa'],
+            ['EdDSA', 'ed25519'],
+        ] as const)('should sign and verify with %s', (algorithm, type) => {
+            const { privateKey, publicKey } = writeKeyPair(type);
+            const signer = new JwtManager(apiKeys, logger, {
+                ...options,
+                algorithm,
+                privateKeyFile: privateKey,
+            });
+            const { token } = signer.issue(principal);
+            expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toEqual({
+                alg: algorithm,
+                typ: 'JWT',
+            });
+
+            // A verifier with only the public key accepts the token but cannot issue
+            const verifier = new JwtManager(apiKeys, logger, {
+                ...options,
+                algorithm,
+                publicKeyFile: publicKey,
+            });
+            expect(verifier.verify(token).keyId).toBe(principal.keyId);
+            expect(verifier.canIssue()).toBe(false);
+            expect(() => verifier.issue(principal)).toThrow(ServiceUnavailableError);
+
+            // HS256 tokens are not accepted in place of the configured algorithm
+            expect(() => verifier.verify(tokens.issue(principal).token)).toThrow(
+                'Unsupported token algorithm',
+            );
+        });
+
+        it('should reject a key of the wrong type', () => {
+            const { privateKey } = writeKeyPair('ed25519');
+            expect(
+                () =>
+                    new JwtManager(apiKeys, logger, {
+                        ...options,
+                        algorithm: 'RS256',
+                        privateKeyFile: privateKey,
+                    }),
+            ).toThrow('RS256 requires an rsa key');
+        });
+    });
+});
@@ -1,13 +1,20 @@
 import { SecureMerkleTree } from '../../src/core/merkle/MerkleTree';
 import { Logger } from '../../src/utils/logger';
-import { validateCredentials, validateHexHash, validateUUID } from '../../src/utils/validators';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { validateCommitments, validateHexHash, validateUUID } from '../../src/utils/validators';
+import { commitmentFor } from '../fixtures/identities';
 
 const logger = new Logger('test');
+const members = (...labels: string[]): string[] => labels.map(commitmentFor);
+
+beforeAll(async () => {
+    await PoseidonManager.initialize();
+});
 
 describe('Security Tests', () => {
     describe('Timing Attack Prevention', () => {
         it('should use constant-time comparison for root verification', () => {
-            const leaves = ['secret1', 'secret2', 'secret3', 'secret4'];
+            const leaves = members('secret1', 'secret2', 'secret3', 'secret4');
             const tree = new SecureMerkleTree(leaves, logger);
             const proof = tree.getProof(0);
 
@@ -27,16 +34,22 @@ describe('Security Tests', () => {
     });
 
     describe('Input Validation', () => {
-        it('should reject credential strings over max length', () => {
-            expect(() => validateCredentials(['x'.repeat(257)])).toThrow();
+        it('should reject plaintext credentials in place of commitments', () => {
+            expect(() => validateCommitments(['MIT'])).toThrow('64-character hex');
+        });
+
+        it('should reject commitments outside the scalar field', () => {
+            expect(() => validateCommitments(['f'.repeat(64)])).toThrow('field element');
         });
 
-        it('should reject duplicate credentials', () => {
-            expect(() => validateCredentials(['dup', 'dup'])).toThrow('Duplicate');
+        it('should reject duplicate commitments', () => {
+            expect(() => validateCommitments(['0a'.repeat(32), '0A'.repeat(32)])).toThrow(
+                'Duplicate',
+            );
         });
 
-        it('should reject empty credential array', () => {
-            expect(() => validateCredentials([])).toThrow();
+        it('should reject empty commitment array', () => {
+            expect(() => validateCommitments([])).toThrow();
         });
 
         it('should reject invalid hex hashes', () => {
@@ -59,16 +72,14 @@ describe('Security Tests', () => {
 
     describe('Cryptographic Properties', () => {
         it('should produce different roots for different leaves', () => {
-            // sortPairs=true means reordering the same leaves produces the same root.
-            // To test that different inputs produce different roots, use actually different leaves.
-            const tree1 = new SecureMerkleTree(['A', 'B', 'C', 'D'], logger);
-            const tree2 = new SecureMerkleTree(['E', 'F', 'G', 'H'], logger);
+            const tree1 = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
+            const tree2 = new SecureMerkleTree(members('E', 'F', 'G', 'H'), logger);
             expect(tree1.getRoot()).not.toBe(tree2.getRoot());
         });
 
         it('should not allow proof reuse across trees', () => {
-            const tree1 = new SecureMerkleTree(['A', 'B', 'C', 'D'], logger);
-            const tree2 = new SecureMerkleTree(['A', 'B', 'C', 'E'], logger);
+            const tree1 = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
+            const tree2 = new SecureMerkleTree(members('A', 'B', 'C', 'E'), logger);
 
             const proof = tree1.getProof(0);
             // Proof should verify against tree1 root
@@ -0,0 +1,99 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AppendOnlyLog, LogCodec } from '../../src/core/storage/AppendOnlyLog';
+import { Logger } from '../../src/utils/logger';
+
+const logger = new Logger('test');
+
+interface Entry {
+    readonly name: string;
+    readonly at: Date;
+}
+
+interface SerializedEntry {
+    readonly name: string;
+    readonly at: string;
+}
+
+const codec: LogCodec<Entry, SerializedEntry> = {
+    serialize: (entry) => ({ name: entry.name, at: entry.at.toISOString() }),
+    deserialize: (line) => ({ name: line.name, at: new Date(line.at) }),
+};
+
+const entry = (name: string): Entry => ({ name, at: new Date('2024-01-01T00:00:00Z') });
+
+describe('AppendOnlyLog', () => {
+    let dir: string;
+    let filePath: string;
+
+    const open = (): AppendOnlyLog<Entry, SerializedEntry> =>
+        new AppendOnlyLog(filePath, 'test entry', codec, logger);
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'append-only-log-'));
+        filePath = path.join(dir, 'nested', 'entries.log');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read nothing before the first append', () => {
+        expect(open().readAll()).toEqual([]);
+    });
+
+    it('should replay appended records in order across reopens', () => {
+        const first = open();
+        first.append(entry('a'));
+        first.append(entry('b'));
+
+        expect(open().readAll()).toEqual([entry('a'), entry('b')]);
+        expect(readFileSync(filePath, 'utf-8').trim().split('\n')).toEqual([
+            '{"name":"a","at":"2024-01-01T00:00:00.000Z"}',
+            '{"name":"b","at":"2024-01-01T00:00:00.000Z"}',
+        ]);
+    });
+
+    it('should skip a torn trailing record and cut it off before appending', () => {
+        open().append(entry('a'));
+        appendFileSync(filePath, '{"name":"b","a');
+
+        const second = open();
+        expect(second.readAll()).toEqual([entry('a')]);
+        second.append(entry('c'));
+
+        expect(open().readAll()).toEqual([entry('a'), entry('c')]);
+        expect(readFileSync(filePath, 'utf-8').trim().split('\n')).toHaveLength(2);
+    });
+
+    it('should refuse a log corrupted in the middle', () => {
+        const first = open();
+        first.append(entry('a'));
+        appendFileSync(filePath, 'garbage\n');
+        first.append(entry('b'));
+
+        expect(() => open().readAll()).toThrow('Test entry log is corrupt at line 2');
+    });
+
+    it('should replace the contents on rewrite', () => {
+        const first = open();
+        first.append(entry('a'));
+        first.append(entry('b'));
+        appendFileSync(filePath, '{"name":"c","a');
+
+        const second = open();
+        second.readAll();
+        second.rewrite([entry('b')]);
+        second.append(entry('d'));
+
+        expect(open().readAll()).toEqual([entry('b'), entry('d')]);
+    });
+
+    it('should report a failed append as a storage error', () => {
+        // A file where the log's directory should be
+        writeFileSync(path.join(dir, 'nested'), '');
+
+        expect(() => open().append(entry('a'))).toThrow('Failed to persist test entry log entry');
+    });
+});
@@ -0,0 +1,239 @@
+import { CircuitRegistry } from '../../src/core/prover/CircuitRegistry';
+import { circuitsConfig } from '../../src/config/circuits.config';
+import { CircuitDefinition } from '../../src/types/circuit.types';
+import { Logger } from '../../src/utils/logger';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const logger = new Logger('test');
+const circuitsPath = path.join(__dirname, 'missing-circuits');
+
+const definition = (name: string, depth: number): CircuitDefinition => ({
+    ...circuitsConfig.getConventionalDefinition(name.replace(/_d\d+$/, ''), depth),
+    id: `${name}-v1.0.0`,
+    wasm: `${name}_js/${name}.wasm`,
+    zkey: `${name}_final.zkey`,
+    vkey: `${name}_verification_key.json`,
+});
+
+describe('CircuitRegistry', () => {
+    const registry = new CircuitRegistry(
+        {
+            circuits: [
+                definition('identity', 20),
+                definition('identity_nullifier', 20),
+                definition('identity_revocation', 20),
+                definition('attribute_credential', 20),
+                definition('identity_issuer', 20),
+                definition('identity_d10', 10),
+                definition('identity_nullifier_d10', 10),
+                definition('identity_d32', 32),
+            ],
+        },
+        circuitsPath,
+        logger,
+    );
+
+    describe('select', () => {
+        const plain = { nullifier: false, revocation: false, attributes: false, issuer: false };
+        const nullifier = { ...plain, nullifier: true };
+        const revocation = { ...plain, revocation: true };
+        const attributes = { ...plain, attributes: true };
+        const issuer = { ...plain, issuer: true };
+
+        it('should pick the circuit for the tree depth', () => {
+            expect(registry.select(20, plain).getCircuitId()).toBe('identity-v1.0.0');
+            expect(registry.select(10, plain).getCircuitId()).toBe('identity_d10-v1.0.0');
+            expect(registry.select(32, plain).getCircuitId()).toBe('identity_d32-v1.0.0');
+        });
+
+        it('should pick the nullifier variant when a nullifier is needed', () => {
+            expect(registry.select(10, nullifier).getCircuitId()).toBe(
+                'identity_nullifier_d10-v1.0.0',
+            );
+        });
+
+        it('should pick the revocation variant when non-revocation is proven', () => {
+            expect(registry.select(20, revocation).getCircuitId()).toBe(
+                'identity_revocation-v1.0.0',
+            );
+        });
+
+        it('should pick the attribute variant for attribute credentials', () => {
+            expect(registry.select(20, attributes).getCircuitId()).toBe(
+                'attribute_credential-v1.0.0',
+            );
+        });
+
+        it('should pick the issuer variant for issuer-signed credentials', () => {
+            expect(registry.select(20, issuer).getCircuitId()).toBe('identity_issuer-v1.0.0');
+        });
+
+        it('should reject a depth with no matching circuit', () => {
+            expect(() => registry.select(16, plain)).toThrow(
+                'No circuit registered for tree depth 16',
+            );
+            expect(() => registry.select(32, nullifier)).toThrow(
+                'No nullifier circuit registered for tree depth 32',
+            );
+            expect(() => registry.select(10, revocation)).toThrow(
+                'No revocation circuit registered for tree depth 10',
+            );
+            expect(() =>
+                registry.select(20, { ...plain, nullifier: true, revocation: true }),
+            ).toThrow('No nullifier revocation circuit registered for tree depth 20');
+            expect(() => registry.select(20, { ...attributes, revocation: true })).toThrow(
+                'No revocation attribute circuit registered for tree depth 20',
+            );
+            expect(() => registry.select(10, issuer)).toThrow(
+                'No issuer circuit registered for tree depth 10',
+            );
+        });
+    });
+
+    describe('get', () => {
+        it('should look circuits up by id', () => {
+            expect(registry.get('identity_d10-v1.0.0')?.getDepth()).toBe(10);
+            expect(registry.get('unknown-v1.0.0')).toBeUndefined();
+        });
+    });
+
+    describe('has', () => {
+        it('should match the depth and exact features', () => {
+            const revocation = {
+                nullifier: false,
+                revocation: true,
+                attributes: false,
+                issuer: false,
+            };
+
+            expect(registry.has(20, revocation)).toBe(true);
+            expect(registry.has(10, revocation)).toBe(false);
+            expect(registry.has(20, { ...revocation, nullifier: true })).toBe(false);
+        });
+    });
+
+    describe('getDepths', () => {
+        it('should list each supported depth once, in order', () => {
+            expect(registry.getDepths()).toEqual([10, 20, 32]);
+        });
+    });
+
+    describe('manifest validation', () => {
+        it('should reject duplicate circuit ids', () => {
+            const circuits = [definition('identity', 20), definition('identity', 10)];
+            expect(() => new CircuitRegistry({ circuits }, circuitsPath, logger)).toThrow(
+                'duplicate circuit id identity-v1.0.0',
+            );
+        });
+
+        it('should reject an unsupported depth', () => {
+            const circuits = [{ ...definition('identity', 20), depth: 33 }];
+            expect(() => new CircuitRegistry({ circuits }, circuitsPath, logger)).toThrow(
+                'depth must be an integer',
+            );
+        });
+
+        it('should reject files outside the circuits directory', () => {
+            const circuits = [{ ...definition('identity', 20), zkey: '../../secrets.zkey' }];
+            expect(() => new CircuitRegistry({ circuits }, circuitsPath, logger)).toThrow(
+                'file paths must be relative to the circuits directory',
+            );
+        });
+
+        it('should reject an unknown public signal field', () => {
+            const circuits = [
+                {
+                    ...definition('identity', 20),
+                    publicSignals: [{ name: 'root', metadataField: 'proofId', encoding: 'hex' }],
+                },
+            ] as unknown as CircuitDefinition[];
+            expect(() => new CircuitRegistry({ circuits }, circuitsPath, logger)).toThrow(
+                'invalid public signal',
+            );
+        });
+
+        it('should reject an attribute signal without a position', () => {
+            const circuits = [
+                {
+                    ...definition('attribute_credential', 20),
+                    publicSignals: [
+                        { name: 'schemaHash', metadataField: 'attributes', encoding: 'attribute' },
+                    ],
+                },
+            ] as CircuitDefinition[];
+            expect(() => new CircuitRegistry({ circuits }, circuitsPath, logger)).toThrow(
+                'invalid public signal',
+            );
+        });
+
+        it('should reject an issuer key signal without a coordinate', () => {
+            const circuits = [
+                {
+                    ...definition('identity_issuer', 20),
+                    publicSignals: [
+                        { name: 'issuerAx', metadataField: 'issuerPublicKey', encoding: 'point' },
+                    ],
+                },
+            ] as CircuitDefinition[];
+            expect(() => new CircuitRegistry({ circuits }, circuitsPath, logger)).toThrow(
+                'invalid public signal',
+            );
+        });
+
+        it('should reject an empty manifest', () => {
+            expect(() => new CircuitRegistry({ circuits: [] }, circuitsPath, logger)).toThrow(
+                'at least one circuit is required',
+            );
+        });
+    });
+
+    describe('load', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'zkp-manifest-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should fall back to the default circuits when there is no manifest', () => {
+            const loaded = CircuitRegistry.load(logger, path.join(dir, 'manifest.json'), dir);
+
+            expect(loaded.getAll().map((c) => c.getCircuitId())).toEqual([
+                'identity-v1.0.0',
+                'identity_nullifier-v1.0.0',
+                'identity_revocation-v1.0.0',
+                'identity_nullifier_revocation-v1.0.0',
+                'attribute_credential-v1.0.0',
+                'identity_issuer-v1.0.0',
+            ]);
+            expect(loaded.getDepths()).toEqual([20]);
+        });
+
+        it('should load the circuits listed in a manifest file', () => {
+            const manifestPath = path.join(dir, 'manifest.json');
+            writeFileSync(manifestPath, JSON.stringify({ circuits: [definition('identity_d10', 10)] }));
+
+            expect(CircuitRegistry.load(logger, manifestPath, dir).getDepths()).toEqual([10]);
+        });
+
+        it('should reject a manifest that is not JSON', () => {
+            const manifestPath = path.join(dir, 'manifest.json');
+            writeFileSync(manifestPath, '{ not json');
+
+            expect(() => CircuitRegistry.load(logger, manifestPath, dir)).toThrow(
+                'is not valid JSON',
+            );
+        });
+
+        it('should accept the manifest shipped with the circuits', () => {
+            const shipped = path.join(__dirname, '../../circuits/manifest.json');
+
+            expect(CircuitRegistry.load(logger, shipped, dir).getDepths()).toEqual([10, 20, 32]);
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import { mapWithConcurrency } from '../../src/utils/concurrency';
+
+const tick = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('mapWithConcurrency', () => {
+    it('should keep results in input order', async () => {
+        const results = await mapWithConcurrency([30, 10, 20], 2, async (ms, i) => {
+            await new Promise((resolve) => setTimeout(resolve, ms));
+            return `${i}:${ms}`;
+        });
+
+        expect(results).toEqual(['0:30', '1:10', '2:20']);
+    });
+
+    it('should never run more than the limit at once', async () => {
+        let inFlight = 0;
+        let peak = 0;
+
+        await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+            inFlight++;
+            peak = Math.max(peak, inFlight);
+            await tick();
+            inFlight--;
+        });
+
+        expect(peak).toBe(3);
+    });
+
+    it('should handle an empty list', async () => {
+        await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+    });
+
+    it('should reject when any call rejects', async () => {
+        await expect(
+            mapWithConcurrency([1, 2, 3], 2, async (n) => {
+                if (n === 2) {
+                    throw new Error('boom');
+                }
+                return n;
+            }),
+        ).rejects.toThrow('boom');
+    });
+
+    it('should reject an invalid limit', async () => {
+        await expect(mapWithConcurrency([1], 0, async (n) => n)).rejects.toThrow(
+            'Invalid concurrency limit',
+        );
+    });
+});
@@ -1,6 +1,16 @@
 import { HashManager } from '../../src/core/crypto/HashManager';
 import { RandomGenerator } from '../../src/core/crypto/RandomGenerator';
 import { KeyManager } from '../../src/core/crypto/KeyManager';
+import { Identity } from '../../src/core/crypto/Identity';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { EdDSAManager } from '../../src/core/crypto/EdDSAManager';
+import { IssuerKeyManager } from '../../src/core/issuer/IssuerKeyManager';
+import {
+    AttributeCredential,
+    encodeAttributeValue,
+    hashAttributeSchema,
+} from '../../src/core/crypto/AttributeCredential';
+import { AttributeSchema } from '../../src/types/credential.types';
 import { Logger } from '../../src/utils/logger';
 import * as testVectors from '../fixtures/test-vectors.json';
 
@@ -236,24 +246,6 @@ describe('KeyManager', () => {
         });
     });
 
-    describe('generateNullifier', () => {
-        it('should generate deterministic nullifier', () => {
-            keyManager.initialize('a'.repeat(64));
-            const secret = Buffer.from('secret');
-            const n1 = keyManager.generateNullifier('cred', secret);
-            const n2 = keyManager.generateNullifier('cred', secret);
-            expect(n1).toBe(n2);
-        });
-
-        it('should generate different nullifiers for different credentials', () => {
-            keyManager.initialize('a'.repeat(64));
-            const secret = Buffer.from('secret');
-            const n1 = keyManager.generateNullifier('cred1', secret);
-            const n2 = keyManager.generateNullifier('cred2', secret);
-            expect(n1).not.toBe(n2);
-        });
-    });
-
     describe('generateCommitment', () => {
         it('should generate hex commitment', () => {
             keyManager.initialize('a'.repeat(64));
@@ -278,3 +270,254 @@ describe('KeyManager', () => {
         });
     });
 });
+
+describe('Identity', () => {
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+    });
+
+    it('should commit to Poseidon(secret, nullifier)', () => {
+        const identity = new Identity(BigInt(7), BigInt(11));
+        const expected = PoseidonManager.hashLeftRight(BigInt(7), BigInt(11));
+        expect(identity.getCommitment()).toBe(expected.toString(16).padStart(64, '0'));
+    });
+
+    it('should derive nullifier hashes from the nullifier and scope only', () => {
+        const identity = new Identity(BigInt(7), BigInt(11));
+        const expected = PoseidonManager.hashLeftRight(
+            BigInt(11),
+            PoseidonManager.stringToField('poll-1'),
+        );
+        expect(identity.getNullifierHash('poll-1')).toBe(expected.toString());
+        expect(new Identity(BigInt(8), BigInt(11)).getNullifierHash('poll-1')).toBe(
+            expected.toString(),
+        );
+        expect(identity.getNullifierHash('poll-2')).not.toBe(expected.toString());
+    });
+
+    it('should generate distinct identities', () => {
+        const a = Identity.generate();
+        const b = Identity.generate();
+        expect(a.getCommitment()).toMatch(/^[a-f0-9]{64}$/);
+        expect(a.getCommitment()).not.toBe(b.getCommitment());
+    });
+
+    it('should round-trip through JSON', () => {
+        const identity = Identity.generate();
+        const restored = Identity.fromJSON(identity.toJSON());
+        expect(restored.getCommitment()).toBe(identity.getCommitment());
+        expect(identity.toJSON().secret).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('should reject components outside the field', () => {
+        expect(() => new Identity(BigInt(0), BigInt(1))).toThrow('non-zero field element');
+        expect(() =>
+            Identity.fromJSON({ secret: 'f'.repeat(64), nullifier: '01'.repeat(32) }),
+        ).toThrow('non-zero field element');
+        expect(() => Identity.fromJSON({ secret: 'xyz', nullifier: '01'.repeat(32) })).toThrow(
+            '64-character hex',
+        );
+    });
+});
+
+describe('AttributeCredential', () => {
+    const schema: AttributeSchema = [
+        { name: 'birthDate', type: 'date' },
+        { name: 'degree', type: 'string' },
+        { name: 'gpa', type: 'integer' },
+    ];
+    const values = { birthDate: '1990-05-17', degree: 'MSc', gpa: 375 };
+    let commitment: string;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        commitment = new Identity(BigInt(7), BigInt(11)).getCommitment();
+    });
+
+    it('should hash the commitment, schema and attributes into the leaf', () => {
+        const credential = new AttributeCredential(schema, values);
+        const encoded = [
+            BigInt(7441),
+            PoseidonManager.stringToField('MSc'),
+            BigInt(375),
+            ...Array<bigint>(5).fill(BigInt(0)),
+        ];
+        const expected = PoseidonManager.hash([
+            BigInt('0x' + commitment),
+            hashAttributeSchema(schema),
+            PoseidonManager.hash(encoded),
+        ]);
+
+        expect(credential.getEncodedValues()).toEqual(encoded);
+        expect(credential.getLeaf(commitment)).toBe(expected.toString(16).padStart(64, '0'));
+    });
+
+    it('should give different leaves for different attributes or schemas', () => {
+        const leaf = new AttributeCredential(schema, values).getLeaf(commitment);
+
+        expect(new AttributeCredential(schema, { ...values, gpa: 376 }).getLeaf(commitment)).not.toBe(
+            leaf,
+        );
+        const renamed: AttributeSchema = [...schema.slice(0, 2), { name: 'score', type: 'integer' }];
+        expect(
+            new AttributeCredential(renamed, { birthDate: '1990-05-17', degree: 'MSc', score: 375 })
+                .getLeaf(commitment),
+        ).not.toBe(leaf);
+    });
+
+    it('should keep values in their issued form', () => {
+        const credential = new AttributeCredential(schema, values);
+        expect(credential.getValue('gpa')).toBe('375');
+        expect(credential.getValue('birthDate')).toBe('1990-05-17');
+    });
+
+    it('should require exactly the schema attributes', () => {
+        expect(() => new AttributeCredential(schema, { birthDate: '1990-05-17', gpa: 1 })).toThrow(
+            'Missing attribute: degree',
+        );
+        expect(() => new AttributeCredential(schema, { ...values, extra: 'x' })).toThrow(
+            'Unknown attribute: extra',
+        );
+    });
+
+    it('should reject invalid schemas', () => {
+        expect(() => new AttributeCredential([], {})).toThrow('at least one attribute');
+        expect(
+            () =>
+                new AttributeCredential(
+                    [
+                        { name: 'a', type: 'integer' },
+                        { name: 'a', type: 'string' },
+                    ],
+                    { a: 1 },
+                ),
+        ).toThrow('Duplicate attribute: a');
+        expect(() => new AttributeCredential([{ name: 'a b', type: 'integer' }], {})).toThrow(
+            'Invalid attribute name',
+        );
+        const nine = Array.from({ length: 9 }, (_, i) => ({ name: `a${i}`, type: 'integer' as const }));
+        expect(() => hashAttributeSchema(nine)).toThrow('Maximum 8 attributes');
+    });
+
+    it('should encode dates as days since the epoch', () => {
+        const date = { name: 'd', type: 'date' as const };
+        expect(encodeAttributeValue(date, '1970-01-01')).toBe(BigInt(0));
+        expect(encodeAttributeValue(date, '2000-03-01')).toBe(BigInt(11017));
+        expect(() => encodeAttributeValue(date, '2001-02-29')).toThrow('must be a date');
+        expect(() => encodeAttributeValue(date, '1969-12-31')).toThrow('must be a date');
+    });
+
+    it('should bound integers to 64 bits', () => {
+        const integer = { name: 'n', type: 'integer' as const };
+        expect(encodeAttributeValue(integer, '18446744073709551615')).toBe(
+            BigInt('18446744073709551615'),
+        );
+        expect(() => encodeAttributeValue(integer, '18446744073709551616')).toThrow('2^64 - 1');
+        expect(() => encodeAttributeValue(integer, -1)).toThrow('must be an integer');
+        expect(() => encodeAttributeValue(integer, '007')).toThrow('must be an integer');
+    });
+});
+
+describe('EdDSAManager', () => {
+    const privateKey = Buffer.alloc(32, 7);
+    const message = BigInt(12345);
+
+    beforeAll(async () => {
+        await EdDSAManager.initialize();
+    });
+
+    it('should verify its own signatures', () => {
+        const publicKey = EdDSAManager.derivePublicKey(privateKey);
+        const signature = EdDSAManager.sign(privateKey, message);
+
+        expect(publicKey.x).toMatch(/^[a-f0-9]{64}$/);
+        expect(signature.S).toMatch(/^[a-f0-9]{64}$/);
+        expect(EdDSAManager.verify(message, signature, publicKey)).toBe(true);
+    });
+
+    it('should reject a signature over another message or by another key', () => {
+        const signature = EdDSAManager.sign(privateKey, message);
+        const publicKey = EdDSAManager.derivePublicKey(privateKey);
+        const otherKey = EdDSAManager.derivePublicKey(Buffer.alloc(32, 8));
+
+        expect(EdDSAManager.verify(message + BigInt(1), signature, publicKey)).toBe(false);
+        expect(EdDSAManager.verify(message, signature, otherKey)).toBe(false);
+    });
+
+    it('should reject malformed signatures and keys', () => {
+        const publicKey = EdDSAManager.derivePublicKey(privateKey);
+        const signature = EdDSAManager.sign(privateKey, message);
+
+        expect(EdDSAManager.verify(message, { ...signature, S: 'zz' }, publicKey)).toBe(false);
+        expect(EdDSAManager.verify(message, signature, { ...publicKey, y: 'f'.repeat(64) })).toBe(
+            false,
+        );
+    });
+
+    it('should require a 32-byte private key', () => {
+        expect(() => EdDSAManager.derivePublicKey(Buffer.alloc(16))).toThrow('must be 32 bytes');
+    });
+});
+
+describe('IssuerKeyManager', () => {
+    const commitment = '0' + 'ab'.repeat(31) + 'c';
+    let keyManager: KeyManager;
+
+    beforeAll(async () => {
+        await EdDSAManager.initialize();
+    });
+
+    beforeEach(() => {
+        keyManager = new KeyManager(logger);
+        keyManager.initialize('a'.repeat(64));
+    });
+
+    afterEach(() => {
+        keyManager.destroy();
+    });
+
+    it('should sign commitments verifiably with the issuer key', () => {
+        const issuers = new IssuerKeyManager(logger, keyManager);
+        const issuer = issuers.createIssuer('University');
+        const issued = issuers.issueCredential(issuer.id, commitment.toUpperCase());
+
+        expect(issued.commitment).toBe(commitment);
+        expect(issued.publicKey).toEqual(issuer.publicKey);
+        expect(
+            EdDSAManager.verify(BigInt('0x' + commitment), issued.signature, issuer.publicKey),
+        ).toBe(true);
+    });
+
+    it('should give each issuer its own key', () => {
+        const issuers = new IssuerKeyManager(logger, keyManager);
+        expect(issuers.createIssuer('A').publicKey).not.toEqual(
+            issuers.createIssuer('B').publicKey,
+        );
+    });
+
+    it('should reject unknown issuers and invalid input', () => {
+        const issuers = new IssuerKeyManager(logger, keyManager);
+
+        expect(() => issuers.issueCredential('missing', commitment)).toThrow('Issuer not found');
+        expect(() => issuers.createIssuer('')).toThrow('Issuer name must be');
+        const issuer = issuers.createIssuer('University');
+        expect(() => issuers.issueCredential(issuer.id, 'xyz')).toThrow();
+    });
+
+    it('should refuse to sign once the master key changes', () => {
+        const issuers = new IssuerKeyManager(logger, keyManager);
+        const issuer = issuers.createIssuer('University');
+
+        const otherKeyManager = new KeyManager(logger);
+        otherKeyManager.initialize('b'.repeat(64));
+        const restarted = new IssuerKeyManager(logger, otherKeyManager, {
+            append: () => undefined,
+            readAll: () => [issuer],
+        });
+
+        expect(() => restarted.issueCredential(issuer.id, commitment)).toThrow(
+            'Issuer signing key is unavailable',
+        );
+        otherKeyManager.destroy();
+    });
+});
@@ -1,17 +1,38 @@
-import { SecureMerkleTree } from '../../src/core/merkle/MerkleTree';
+import { DEFAULT_TREE_DEPTH, SecureMerkleTree } from '../../src/core/merkle/MerkleTree';
 import { CredentialSetManager } from '../../src/core/merkle/CredentialSet';
+import {
+    FileCredentialSetStore,
+    InMemoryCredentialSetStore,
+} from '../../src/core/merkle/CredentialSetStore';
+import { SparseMerkleTree } from '../../src/core/merkle/SparseMerkleTree';
+import { RevocationRegistry } from '../../src/core/merkle/RevocationRegistry';
+import { FileRevocationStore } from '../../src/core/merkle/RevocationStore';
 import { Logger } from '../../src/utils/logger';
+import { EventBus } from '../../src/core/events/EventBus';
+import { CredentialSetEvents } from '../../src/types/credential.types';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
 import * as testVectors from '../fixtures/test-vectors.json';
 import * as sampleCredentials from '../fixtures/sample-credentials.json';
+import { commitmentFor } from '../fixtures/identities';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { newMemEmptyTrie } from 'circomlibjs';
 
 // Suppress logs during tests
 const logger = new Logger('test');
 
+const members = (...labels: string[]): string[] => labels.map(commitmentFor);
+
+beforeAll(async () => {
+    await PoseidonManager.initialize();
+});
+
 describe('SecureMerkleTree', () => {
     describe('Constructor', () => {
         it('should create a tree with valid leaves', () => {
             const leaves = ['leaf1', 'leaf2', 'leaf3', 'leaf4'];
-            const tree = new SecureMerkleTree(leaves, logger);
+            const tree = new SecureMerkleTree(leaves.map(commitmentFor), logger);
 
             expect(tree).toBeDefined();
             expect(tree.getRoot()).toMatch(/^[a-f0-9]{64}$/);
@@ -25,34 +46,50 @@ describe('SecureMerkleTree', () => {
         });
 
         it('should handle single leaf', () => {
-            const tree = new SecureMerkleTree(['only-one'], logger);
+            const tree = new SecureMerkleTree(members('only-one'), logger);
             expect(tree.getLeafCount()).toBe(1);
-            expect(tree.getDepth()).toBe(0);
+            expect(tree.getDepth()).toBe(DEFAULT_TREE_DEPTH);
         });
 
         it('should handle odd number of leaves', () => {
-            const tree = new SecureMerkleTree(['A', 'B', 'C'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B', 'C'), logger);
             expect(tree.getLeafCount()).toBe(3);
             expect(tree.getRoot()).toMatch(/^[a-f0-9]{64}$/);
         });
 
         it('should produce deterministic roots', () => {
             const leaves = ['A', 'B', 'C', 'D'];
-            const tree1 = new SecureMerkleTree(leaves, logger);
-            const tree2 = new SecureMerkleTree(leaves, logger);
+            const tree1 = new SecureMerkleTree(leaves.map(commitmentFor), logger);
+            const tree2 = new SecureMerkleTree(leaves.map(commitmentFor), logger);
             expect(tree1.getRoot()).toBe(tree2.getRoot());
         });
 
+        it('should produce different roots for reordered leaves', () => {
+            const tree1 = new SecureMerkleTree(members('A', 'B'), logger);
+            const tree2 = new SecureMerkleTree(members('B', 'A'), logger);
+            expect(tree1.getRoot()).not.toBe(tree2.getRoot());
+        });
+
+        it('should honor a custom depth', () => {
+            const tree = new SecureMerkleTree(members('A', 'B', 'C'), logger, 4);
+            expect(tree.getDepth()).toBe(4);
+            expect(tree.getProof(2).siblings.length).toBe(4);
+        });
+
+        it('should reject more leaves than the depth allows', () => {
+            expect(() => new SecureMerkleTree(members('A', 'B', 'C'), logger, 1)).toThrow('Too many leaves');
+        });
+
         it('should produce different roots for different leaves', () => {
-            const tree1 = new SecureMerkleTree(['A', 'B'], logger);
-            const tree2 = new SecureMerkleTree(['C', 'D'], logger);
+            const tree1 = new SecureMerkleTree(members('A', 'B'), logger);
+            const tree2 = new SecureMerkleTree(members('C', 'D'), logger);
             expect(tree1.getRoot()).not.toBe(tree2.getRoot());
         });
 
         it.each(testVectors.merkleTree.cases)(
             'should handle test vector: $name',
             ({ leaves, expectedDepth, rootNotEmpty }) => {
-                const tree = new SecureMerkleTree(leaves, logger);
+                const tree = new SecureMerkleTree(leaves.map(commitmentFor), logger);
                 expect(tree.getDepth()).toBe(expectedDepth);
                 if (rootNotEmpty) {
                     expect(tree.getRoot().length).toBe(64);
@@ -64,30 +101,30 @@ describe('SecureMerkleTree', () => {
     describe('Proof Generation', () => {
         it('should generate valid proof for each leaf', () => {
             const leaves = ['MIT', 'Stanford', 'Harvard', 'Berkeley'];
-            const tree = new SecureMerkleTree(leaves, logger);
+            const tree = new SecureMerkleTree(leaves.map(commitmentFor), logger);
 
             for (let i = 0; i < leaves.length; i++) {
                 const proof = tree.getProof(i);
                 expect(proof).toBeDefined();
                 expect(proof.leafIndex).toBe(i);
                 expect(proof.root).toBe(tree.getRoot());
-                expect(proof.siblings.length).toBeGreaterThan(0);
+                expect(proof.siblings.length).toBe(DEFAULT_TREE_DEPTH);
                 expect(proof.pathIndices.length).toBe(proof.siblings.length);
             }
         });
 
         it('should throw error for negative leaf index', () => {
-            const tree = new SecureMerkleTree(['A', 'B'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B'), logger);
             expect(() => tree.getProof(-1)).toThrow('Invalid leaf index');
         });
 
         it('should throw error for out-of-bounds leaf index', () => {
-            const tree = new SecureMerkleTree(['A', 'B'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B'), logger);
             expect(() => tree.getProof(5)).toThrow('Invalid leaf index');
         });
 
         it('should produce proof with correct structure', () => {
-            const tree = new SecureMerkleTree(['A', 'B', 'C', 'D'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
             const proof = tree.getProof(0);
 
             expect(proof.leaf).toMatch(/^[a-f0-9]{64}$/);
@@ -100,12 +137,29 @@ describe('SecureMerkleTree', () => {
                 expect([0, 1]).toContain(idx);
             });
         });
+
+        it('should derive path indices from the leaf index', () => {
+            const tree = new SecureMerkleTree(members('A', 'B', 'C', 'D', 'E', 'F'), logger);
+            const proof = tree.getProof(5); // 0b101
+
+            expect(proof.pathIndices.slice(0, 4)).toEqual([1, 0, 1, 0]);
+            expect(proof.siblings[0].position).toBe('left');
+            expect(proof.siblings[1].position).toBe('right');
+        });
+
+        it('should use zero hashes for empty subtrees', () => {
+            const small = new SecureMerkleTree(members('A'), logger);
+            const large = new SecureMerkleTree(members('A', 'B'), logger);
+
+            // Leaf 0's higher-level siblings are empty subtrees in both trees
+            expect(small.getProof(0).siblings.slice(1)).toEqual(large.getProof(0).siblings.slice(1));
+        });
     });
 
     describe('Proof Verification', () => {
         it('should verify valid proof', () => {
             const leaves = ['MIT', 'Stanford', 'Harvard', 'Berkeley'];
-            const tree = new SecureMerkleTree(leaves, logger);
+            const tree = new SecureMerkleTree(leaves.map(commitmentFor), logger);
 
             for (let i = 0; i < leaves.length; i++) {
                 const proof = tree.getProof(i);
@@ -114,7 +168,7 @@ describe('SecureMerkleTree', () => {
         });
 
         it('should reject proof with tampered root', () => {
-            const tree = new SecureMerkleTree(['A', 'B', 'C', 'D'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
             const proof = tree.getProof(0);
 
             const tamperedProof = {
@@ -126,7 +180,7 @@ describe('SecureMerkleTree', () => {
         });
 
         it('should reject proof with tampered leaf', () => {
-            const tree = new SecureMerkleTree(['A', 'B', 'C', 'D'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
             const proof = tree.getProof(0);
 
             const tamperedProof = {
@@ -137,8 +191,18 @@ describe('SecureMerkleTree', () => {
             expect(SecureMerkleTree.verify(tamperedProof)).toBe(false);
         });
 
+        it('should reject proof with flipped path index', () => {
+            const tree = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
+            const proof = tree.getProof(0);
+
+            const pathIndices = [...proof.pathIndices];
+            pathIndices[0] = 1;
+
+            expect(SecureMerkleTree.verify({ ...proof, pathIndices })).toBe(false);
+        });
+
         it('should reject proof with tampered sibling', () => {
-            const tree = new SecureMerkleTree(['A', 'B', 'C', 'D'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B', 'C', 'D'), logger);
             const proof = tree.getProof(0);
 
             const tamperedSiblings = [...proof.siblings];
@@ -153,7 +217,7 @@ describe('SecureMerkleTree', () => {
         });
 
         it('should verify with sample credential sets', () => {
-            const tree = new SecureMerkleTree(sampleCredentials.universities, logger);
+            const tree = new SecureMerkleTree(members(...sampleCredentials.universities), logger);
 
             sampleCredentials.universities.forEach((_, i) => {
                 const proof = tree.getProof(i);
@@ -162,15 +226,25 @@ describe('SecureMerkleTree', () => {
         });
     });
 
+    it('should insert leaves without hashing them again', () => {
+        const leaves = members('A', 'B');
+        const tree = new SecureMerkleTree(leaves, logger);
+        expect(tree.getLeafHash(1)).toBe(leaves[1]);
+    });
+
+    it('should reject leaves that are not hex field elements', () => {
+        expect(() => new SecureMerkleTree(['MIT'], logger)).toThrow('Invalid leaf at index 0');
+    });
+
     describe('getLeafHash', () => {
         it('should return hex hash for valid index', () => {
-            const tree = new SecureMerkleTree(['A', 'B'], logger);
+            const tree = new SecureMerkleTree(members('A', 'B'), logger);
             const hash = tree.getLeafHash(0);
             expect(hash).toMatch(/^[a-f0-9]{64}$/);
         });
 
         it('should throw for invalid index', () => {
-            const tree = new SecureMerkleTree(['A'], logger);
+            const tree = new SecureMerkleTree(members('A'), logger);
             expect(() => tree.getLeafHash(5)).toThrow('Invalid leaf index');
         });
     });
@@ -186,7 +260,7 @@ describe('CredentialSetManager', () => {
     describe('createCredentialSet', () => {
         it('should create a credential set', () => {
             const creds = ['A', 'B', 'C', 'D'];
-            const result = manager.createCredentialSet('Test Set', creds, 'A test set');
+            const result = manager.createCredentialSet('Test Set', members(...creds), 'A test set');
 
             expect(result).toBeDefined();
             expect(result.id).toMatch(
@@ -194,7 +268,7 @@ describe('CredentialSetManager', () => {
             );
             expect(result.name).toBe('Test Set');
             expect(result.description).toBe('A test set');
-            expect(result.credentials).toEqual(creds);
+            expect(result.commitments).toEqual(members(...creds));
             expect(result.merkleRoot).toMatch(/^[a-f0-9]{64}$/);
             expect(result.version).toBe('1.0.0');
         });
@@ -204,32 +278,87 @@ describe('CredentialSetManager', () => {
         });
 
         it('should throw on duplicate credentials', () => {
-            expect(() => manager.createCredentialSet('Dup', ['A', 'A', 'B'])).toThrow(
-                'Duplicate credentials',
+            expect(() => manager.createCredentialSet('Dup', members('A', 'A', 'B'))).toThrow(
+                'Duplicate commitments',
             );
         });
 
-        it('should throw on too-long credential', () => {
-            const longCred = 'x'.repeat(257);
-            expect(() => manager.createCredentialSet('Long', [longCred])).toThrow('maximum length');
+        it('should throw on a plaintext credential', () => {
+            expect(() => manager.createCredentialSet('Plain', ['MIT'])).toThrow('64-character hex');
         });
 
-        it('should throw on empty string credential', () => {
-            expect(() => manager.createCredentialSet('Empty', ['  '])).toThrow('cannot be empty');
+        it('should throw on a commitment outside the field', () => {
+            const outside = 'f'.repeat(64);
+            const zero = '0'.repeat(64);
+            expect(() => manager.createCredentialSet('Big', [outside])).toThrow('field element');
+            expect(() => manager.createCredentialSet('Zero', [zero])).toThrow('field element');
+        });
+
+        it('should treat commitments case-insensitively', () => {
+            const commitment = commitmentFor('A');
+            const result = manager.createCredentialSet('Case', [commitment.toUpperCase()]);
+
+            expect(result.commitments).toEqual([commitment]);
+            expect(manager.generateProof(result.id, commitment).leaf).toBe(commitment);
+            expect(() => manager.addCommitments(result.id, [commitment])).toThrow(
+                'Duplicate commitments',
+            );
         });
 
         it('should freeze the credentials array', () => {
             const creds = ['A', 'B'];
-            const result = manager.createCredentialSet('Set', creds);
-            expect(Object.isFrozen(result.credentials)).toBe(true);
+            const result = manager.createCredentialSet('Set', members(...creds));
+            expect(Object.isFrozen(result.commitments)).toBe(true);
+        });
+
+        it('should default to a depth-20 tree', () => {
+            const result = manager.createCredentialSet('Set', members('A'));
+            expect(result.treeDepth).toBe(20);
+            expect(manager.generateProof(result.id, commitmentFor('A')).siblings).toHaveLength(20);
+        });
+
+        it('should build the tree at the requested depth', () => {
+            const shallow = manager.createCredentialSet(
+                'Shallow',
+                members('A', 'B'),
+                '',
+                undefined,
+                10,
+            );
+            const deep = manager.createCredentialSet('Deep', members('A', 'B'));
+
+            expect(shallow.treeDepth).toBe(10);
+            expect(shallow.merkleRoot).not.toBe(deep.merkleRoot);
+            const proof = manager.generateProof(shallow.id, commitmentFor('B'));
+            expect(proof.siblings).toHaveLength(10);
+            expect(manager.verifyCredential(shallow.id, proof)).toBe(true);
+        });
+
+        it('should keep the depth across updates', () => {
+            const set = manager.createCredentialSet('Set', members('A'), '', undefined, 10);
+            manager.addCommitments(set.id, members('B'));
+
+            expect(manager.generateProof(set.id, commitmentFor('B')).siblings).toHaveLength(10);
+        });
+
+        it('should reject a depth outside the supported range', () => {
+            expect(() =>
+                manager.createCredentialSet('Set', members('A'), '', undefined, 33),
+            ).toThrow('treeDepth must be an integer');
+        });
+
+        it('should reject more commitments than the tree can hold', () => {
+            expect(() =>
+                manager.createCredentialSet('Set', members('A', 'B', 'C'), '', undefined, 1),
+            ).toThrow('Too many commitments for a tree of depth 1');
         });
     });
 
     describe('generateProof', () => {
         it('should generate proof for existing credential', () => {
             const creds = ['MIT', 'Stanford', 'Harvard'];
-            const set = manager.createCredentialSet('Unis', creds);
-            const proof = manager.generateProof(set.id, 'Stanford');
+            const set = manager.createCredentialSet('Unis', members(...creds));
+            const proof = manager.generateProof(set.id, commitmentFor('Stanford'));
 
             expect(proof).toBeDefined();
             expect(proof.root).toBe(set.merkleRoot);
@@ -237,34 +366,124 @@ describe('CredentialSetManager', () => {
         });
 
         it('should throw for non-existent credential set', () => {
-            expect(() => manager.generateProof('fake-id', 'MIT')).toThrow('Credential set not found');
+            expect(() => manager.generateProof('fake-id', commitmentFor('MIT'))).toThrow(
+                'Credential set not found',
+            );
         });
 
         it('should throw for non-existent credential (generic error)', () => {
-            const set = manager.createCredentialSet('Unis', ['MIT', 'Stanford']);
-            expect(() => manager.generateProof(set.id, 'Harvard')).toThrow('Invalid credential');
+            const set = manager.createCredentialSet('Unis', members('MIT', 'Stanford'));
+            expect(() => manager.generateProof(set.id, commitmentFor('Harvard'))).toThrow(
+                'Invalid credential',
+            );
         });
     });
 
     describe('verifyCredential', () => {
         it('should verify valid credential proof', () => {
-            const set = manager.createCredentialSet('Unis', ['MIT', 'Stanford', 'Harvard', 'Berkeley']);
-            const proof = manager.generateProof(set.id, 'Harvard');
+            const set = manager.createCredentialSet(
+                'Unis',
+                members('MIT', 'Stanford', 'Harvard', 'Berkeley'),
+            );
+            const proof = manager.generateProof(set.id, commitmentFor('Harvard'));
             expect(manager.verifyCredential(set.id, proof)).toBe(true);
         });
 
         it('should reject proof with wrong root', () => {
-            const set = manager.createCredentialSet('Unis', ['MIT', 'Stanford']);
-            const proof = manager.generateProof(set.id, 'MIT');
+            const set = manager.createCredentialSet('Unis', members('MIT', 'Stanford'));
+            const proof = manager.generateProof(set.id, commitmentFor('MIT'));
 
             const tampered = { ...proof, root: 'f'.repeat(64) };
             expect(manager.verifyCredential(set.id, tampered)).toBe(false);
         });
     });
 
+    describe('updateCredentialSet', () => {
+        it('should add credentials and bump the version', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT', 'Stanford'));
+            const updated = manager.addCommitments(set.id, members('Harvard'));
+
+            expect(updated.id).toBe(set.id);
+            expect(updated.commitments).toEqual(members('MIT', 'Stanford', 'Harvard'));
+            expect(updated.version).toBe('1.1.0');
+            expect(updated.merkleRoot).not.toBe(set.merkleRoot);
+            expect(updated.updatedAt).toBeInstanceOf(Date);
+            expect(manager.getCredentialSet(set.id)).toEqual(updated);
+        });
+
+        it('should remove credentials', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT', 'Stanford', 'Harvard'));
+            const updated = manager.removeCommitments(set.id, members('Stanford'));
+
+            expect(updated.commitments).toEqual(members('MIT', 'Harvard'));
+            expect(() => manager.generateProof(set.id, commitmentFor('Stanford'))).toThrow(
+                'Invalid credential',
+            );
+
+            const proof = manager.generateProof(set.id, commitmentFor('Harvard'));
+            expect(proof.root).toBe(updated.merkleRoot);
+            expect(manager.verifyCredential(set.id, proof)).toBe(true);
+        });
+
+        it('should record previous roots in the history', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT'));
+            const v2 = manager.addCommitments(set.id, members('Stanford'));
+            const v3 = manager.updateCredentialSet(set.id, {
+                add: members('Yale'),
+                remove: members('MIT'),
+            });
+
+            expect(v3.version).toBe('1.2.0');
+            expect(v3.rootHistory.map((h) => [h.merkleRoot, h.version])).toEqual([
+                [set.merkleRoot, '1.0.0'],
+                [v2.merkleRoot, '1.1.0'],
+            ]);
+        });
+
+        it('should reject proofs against a superseded root', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT', 'Stanford'));
+            const oldProof = manager.generateProof(set.id, commitmentFor('MIT'));
+            manager.addCommitments(set.id, members('Harvard'));
+
+            expect(manager.verifyCredential(set.id, oldProof)).toBe(false);
+        });
+
+        it('should reject removing an unknown credential (generic error)', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT', 'Stanford'));
+            expect(() => manager.removeCommitments(set.id, members('Yale'))).toThrow(
+                'Invalid credential',
+            );
+        });
+
+        it('should reject adding a duplicate credential', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT'));
+            expect(() => manager.addCommitments(set.id, members('MIT'))).toThrow(
+                'Duplicate commitments',
+            );
+        });
+
+        it('should reject removing every credential', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT'));
+            expect(() => manager.removeCommitments(set.id, members('MIT'))).toThrow(
+                'cannot be empty',
+            );
+        });
+
+        it('should reject an empty update', () => {
+            const set = manager.createCredentialSet('Unis', members('MIT'));
+            expect(() => manager.updateCredentialSet(set.id, {})).toThrow('at least one');
+        });
+
+        it('should throw for non-existent credential set', () => {
+            expect(() => manager.addCommitments('fake-id', members('MIT'))).toThrow(
+                'Credential set not found',
+            );
+        });
+    });
+
     describe('CRUD operations', () => {
         it('should retrieve a created set', () => {
-            const set = manager.createCredentialSet('Test', ['A', 'B']);
+            const set = manager.createCredentialSet('Test', members('A', 'B'));
             expect(manager.getCredentialSet(set.id)).toEqual(set);
         });
 
@@ -273,13 +492,13 @@ describe('CredentialSetManager', () => {
         });
 
         it('should list all sets', () => {
-            manager.createCredentialSet('Set1', ['A', 'B']);
-            manager.createCredentialSet('Set2', ['C', 'D']);
+            manager.createCredentialSet('Set1', members('A', 'B'));
+            manager.createCredentialSet('Set2', members('C', 'D'));
             expect(manager.getAllSets().length).toBe(2);
         });
 
         it('should delete a set', () => {
-            const set = manager.createCredentialSet('Del', ['A']);
+            const set = manager.createCredentialSet('Del', members('A'));
             expect(manager.deleteCredentialSet(set.id)).toBe(true);
             expect(manager.getCredentialSet(set.id)).toBeUndefined();
         });
@@ -290,8 +509,441 @@ describe('CredentialSetManager', () => {
 
         it('should track set count', () => {
             expect(manager.getSetCount()).toBe(0);
-            manager.createCredentialSet('A', ['x']);
+            manager.createCredentialSet('A', members('x'));
             expect(manager.getSetCount()).toBe(1);
         });
     });
+
+    describe('events', () => {
+        let events: EventBus<CredentialSetEvents>;
+
+        beforeEach(() => {
+            events = new EventBus<CredentialSetEvents>(logger);
+            manager = new CredentialSetManager(logger, new InMemoryCredentialSetStore(), events);
+        });
+
+        it('should announce creations, updates and deletions once stored', () => {
+            const seen: string[] = [];
+            events.on('credential-set.created', ({ credentialSet }) => {
+                expect(manager.getCredentialSet(credentialSet.id)).toEqual(credentialSet);
+                seen.push(`created ${credentialSet.merkleRoot}`);
+            });
+            events.on('credential-set.updated', ({ credentialSet, previous }) =>
+                seen.push(`updated ${previous.merkleRoot} -> ${credentialSet.merkleRoot}`),
+            );
+            events.on('credential-set.deleted', ({ credentialSetId }) =>
+                seen.push(`deleted ${credentialSetId}`),
+            );
+
+            const created = manager.createCredentialSet('Evented', members('A'));
+            const updated = manager.addCommitments(created.id, members('B'));
+            manager.deleteCredentialSet(created.id);
+            manager.deleteCredentialSet(created.id);
+
+            expect(seen).toEqual([
+                `created ${created.merkleRoot}`,
+                `updated ${created.merkleRoot} -> ${updated.merkleRoot}`,
+                `deleted ${created.id}`,
+            ]);
+        });
+
+        it('should not fail a change when a handler throws', () => {
+            const later = jest.fn();
+            events.on('credential-set.created', () => {
+                throw new Error('handler failed');
+            });
+            events.on('credential-set.created', later);
+
+            const set = manager.createCredentialSet('Evented', members('A'));
+
+            expect(manager.getCredentialSet(set.id)).toBeDefined();
+            expect(later).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop delivering events after unsubscribing', () => {
+            const handler = jest.fn();
+            const unsubscribe = events.on('credential-set.created', handler);
+
+            manager.createCredentialSet('First', members('A'));
+            unsubscribe();
+            manager.createCredentialSet('Second', members('B'));
+
+            expect(handler).toHaveBeenCalledTimes(1);
+        });
+    });
+});
+
+describe('CredentialSetStore', () => {
+    describe('InMemoryCredentialSetStore', () => {
+        it('should be the default store', () => {
+            const store = new InMemoryCredentialSetStore();
+            const manager = new CredentialSetManager(logger, store);
+            const set = manager.createCredentialSet('Mem', members('A', 'B'));
+
+            expect(store.get(set.id)?.credentialSet).toEqual(set);
+            expect(store.count()).toBe(1);
+        });
+    });
+
+    describe('FileCredentialSetStore', () => {
+        let dir: string;
+        let filePath: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'credential-sets-'));
+            filePath = path.join(dir, 'credential-sets.json');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should survive a restart', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Unis', members('MIT', 'Stanford', 'Harvard'));
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const restored = second.getCredentialSet(set.id);
+
+            expect(restored).toEqual(set);
+            expect(Object.isFrozen(restored?.commitments)).toBe(true);
+            expect(second.getSetCount()).toBe(1);
+        });
+
+        it('should rebuild trees lazily and produce proofs against the stored root', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Unis', members('MIT', 'Stanford', 'Harvard'));
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const proof = second.generateProof(set.id, commitmentFor('Harvard'));
+
+            expect(proof.root).toBe(set.merkleRoot);
+            expect(second.verifyCredential(set.id, proof)).toBe(true);
+        });
+
+        it('should persist updates and root history', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Unis', members('MIT'));
+            const updated = first.addCommitments(set.id, members('Stanford'));
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(second.getCredentialSet(set.id)).toEqual(updated);
+            const proof = second.generateProof(set.id, commitmentFor('Stanford'));
+            expect(proof.root).toBe(updated.merkleRoot);
+        });
+
+        it('should persist the tree depth', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Unis', members('MIT'), '', undefined, 10);
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(second.getCredentialSet(set.id)?.treeDepth).toBe(10);
+            const proof = second.generateProof(set.id, commitmentFor('MIT'));
+            expect(proof.root).toBe(set.merkleRoot);
+            expect(proof.siblings).toHaveLength(10);
+        });
+
+        it('should persist the attribute schema', () => {
+            const schema = [{ name: 'age', type: 'integer' as const }];
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Adults', members('MIT'), '', undefined, 20, schema);
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(second.getCredentialSet(set.id)?.attributeSchema).toEqual(schema);
+        });
+
+        it('should persist the issuer', () => {
+            const issuerId = '550e8400-e29b-41d4-a716-446655440000';
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet(
+                'Unis',
+                members('MIT'),
+                '',
+                undefined,
+                20,
+                undefined,
+                issuerId,
+            );
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(second.getCredentialSet(set.id)?.issuerId).toBe(issuerId);
+        });
+
+        it('should load sets saved without a depth as depth 20', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Unis', members('MIT'));
+
+            const contents = JSON.parse(readFileSync(filePath, 'utf-8'));
+            delete contents.sets[0].treeDepth;
+            writeFileSync(filePath, JSON.stringify(contents));
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(second.getCredentialSet(set.id)?.treeDepth).toBe(20);
+            expect(second.generateProof(set.id, commitmentFor('MIT')).root).toBe(set.merkleRoot);
+        });
+
+        it('should persist deletions', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Del', members('A', 'B'));
+            first.deleteCredentialSet(set.id);
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(second.getCredentialSet(set.id)).toBeUndefined();
+        });
+
+        it('should reject a set whose stored root does not match its credentials', () => {
+            const first = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            const set = first.createCredentialSet('Unis', members('MIT', 'Stanford'));
+
+            const contents = JSON.parse(readFileSync(filePath, 'utf-8'));
+            contents.sets[0].commitments = members('MIT', 'Yale');
+            writeFileSync(filePath, JSON.stringify(contents));
+
+            const second = new CredentialSetManager(logger, new FileCredentialSetStore(filePath, logger));
+            expect(() => second.generateProof(set.id, commitmentFor('MIT'))).toThrow(
+                'inconsistent',
+            );
+        });
+
+        it('should leave the store unchanged when a write fails', () => {
+            const store = new FileCredentialSetStore(filePath, logger);
+            const manager = new CredentialSetManager(logger, store);
+            const set = manager.createCredentialSet('Unis', members('MIT'));
+
+            // A directory where the temporary file should be written
+            mkdirSync(`${filePath}.tmp`);
+
+            expect(() => manager.createCredentialSet('Other', members('Yale'))).toThrow(
+                'Failed to persist credential sets',
+            );
+            expect(() => manager.addCommitments(set.id, members('Stanford'))).toThrow(
+                'Failed to persist credential sets',
+            );
+            expect(() => manager.deleteCredentialSet(set.id)).toThrow(
+                'Failed to persist credential sets',
+            );
+            expect(store.getAll()).toEqual([{ credentialSet: set, type: expect.any(String) }]);
+            expect(manager.getCredentialSet(set.id)).toEqual(set);
+        });
+
+        it('should refuse to load a file holding plaintext credentials', () => {
+            writeFileSync(filePath, JSON.stringify({ version: 1, sets: [] }));
+            expect(() => new FileCredentialSetStore(filePath, logger)).toThrow('Unsupported');
+        });
+
+        it('should refuse to load a corrupt file', () => {
+            writeFileSync(filePath, '{ not json');
+            expect(() => new FileCredentialSetStore(filePath, logger)).toThrow('unreadable');
+        });
+    });
+});
+
+describe('SparseMerkleTree', () => {
+    const hex = (value: number | bigint): string => value.toString(16).padStart(64, '0');
+
+    it('should have a zero root when empty', () => {
+        const tree = new SparseMerkleTree(logger);
+
+        expect(tree.getRoot()).toBe(hex(0));
+        expect(tree.getSize()).toBe(0);
+    });
+
+    it('should prove absence from an empty tree', () => {
+        const tree = new SparseMerkleTree(logger);
+        const proof = tree.getNonMembershipProof(commitmentFor('A'));
+
+        expect(proof.isOld0).toBe(true);
+        expect(proof.siblings).toHaveLength(40);
+        expect(SparseMerkleTree.verifyNonMembership(commitmentFor('A'), proof)).toBe(true);
+    });
+
+    it('should prove absence of keys that are not in the tree', () => {
+        const tree = new SparseMerkleTree(logger);
+        members('A', 'B', 'C', 'D').forEach((key) => tree.insert(key));
+
+        for (const key of members('E', 'F', 'G')) {
+            const proof = tree.getNonMembershipProof(key);
+            expect(proof.root).toBe(tree.getRoot());
+            expect(SparseMerkleTree.verifyNonMembership(key, proof)).toBe(true);
+        }
+    });
+
+    it('should refuse to prove absence of a key in the tree', () => {
+        const tree = new SparseMerkleTree(logger);
+        tree.insert(commitmentFor('A'));
+
+        expect(tree.has(commitmentFor('A'))).toBe(true);
+        expect(() => tree.getNonMembershipProof(commitmentFor('A'))).toThrow('Key is in the tree');
+    });
+
+    it('should not accept a proof for a different key', () => {
+        const tree = new SparseMerkleTree(logger);
+        members('A', 'B').forEach((key) => tree.insert(key));
+        const proof = tree.getNonMembershipProof(commitmentFor('C'));
+
+        // Claiming A's leaf is some other key's neighbour must fail
+        expect(SparseMerkleTree.verifyNonMembership(commitmentFor('A'), proof)).toBe(false);
+        expect(
+            SparseMerkleTree.verifyNonMembership(commitmentFor('C'), { ...proof, root: hex(1) }),
+        ).toBe(false);
+    });
+
+    it('should reject duplicate keys', () => {
+        const tree = new SparseMerkleTree(logger);
+        tree.insert(commitmentFor('A'));
+
+        expect(() => tree.insert(commitmentFor('A'))).toThrow('Key is already in the tree');
+    });
+
+    it('should reject keys that share every bit within the depth', () => {
+        const tree = new SparseMerkleTree(logger, 4);
+        tree.insert(hex(0x01));
+
+        expect(() => tree.insert(hex(0x11))).toThrow('Keys collide beyond the tree depth of 4');
+        expect(tree.getSize()).toBe(1);
+    });
+
+    it('should leave the original untouched when a clone changes', () => {
+        const tree = new SparseMerkleTree(logger);
+        tree.insert(commitmentFor('A'));
+        const root = tree.getRoot();
+
+        const copy = tree.clone();
+        copy.insert(commitmentFor('B'));
+
+        expect(tree.getRoot()).toBe(root);
+        expect(tree.has(commitmentFor('B'))).toBe(false);
+        expect(copy.getRoot()).not.toBe(root);
+    });
+
+    it('should match circomlibjs roots and non-membership proofs', async () => {
+        const tree = new SparseMerkleTree(logger);
+        const reference = await newMemEmptyTrie();
+        const F = reference.F;
+
+        for (const key of members('A', 'B', 'C', 'D', 'E')) {
+            tree.insert(key);
+            await reference.insert(BigInt('0x' + key), 1);
+            expect(tree.getRoot()).toBe(hex(F.toObject(reference.root)));
+        }
+
+        for (const key of members('F', 'G', 'H')) {
+            const proof = tree.getNonMembershipProof(key);
+            const expected = await reference.find(BigInt('0x' + key));
+            const siblings = expected.siblings.map((sibling) => hex(F.toObject(sibling)));
+
+            expect(expected.found).toBe(false);
+            expect(proof.isOld0).toBe(expected.isOld0);
+            expect(proof.siblings.slice(0, siblings.length)).toEqual(siblings);
+            if (!proof.isOld0) {
+                expect(proof.oldKey).toBe(hex(F.toObject(expected.notFoundKey)));
+                expect(proof.oldValue).toBe(hex(F.toObject(expected.notFoundValue)));
+            }
+        }
+    });
+});
+
+describe('RevocationRegistry', () => {
+    let registry: RevocationRegistry;
+
+    beforeEach(() => {
+        registry = new RevocationRegistry(logger);
+    });
+
+    it('should not require non-revocation before anything is published', () => {
+        registry.revoke('set-1', members('A'));
+
+        expect(registry.getNonMembershipProof('set-1', commitmentFor('B'))).toBeUndefined();
+        expect(registry.getStatus('set-1')).toMatchObject({ revokedCount: 0, pendingCount: 1 });
+        expect(registry.isRevoked('set-1', commitmentFor('A'))).toBe(false);
+    });
+
+    it('should apply staged revocations on publish', () => {
+        registry.revoke('set-1', members('A', 'B'));
+        const status = registry.publish('set-1');
+
+        expect(status.revokedCount).toBe(2);
+        expect(status.pendingCount).toBe(0);
+        expect(status.revocationRoot).toBe(registry.getPublishedRoot('set-1'));
+        expect(registry.isRevoked('set-1', commitmentFor('A'))).toBe(true);
+    });
+
+    it('should prove non-revocation against the published root', () => {
+        registry.revoke('set-1', members('A'));
+        registry.publish('set-1');
+        registry.revoke('set-1', members('B'));
+
+        const proof = registry.getNonMembershipProof('set-1', commitmentFor('B'));
+        expect(proof?.root).toBe(registry.getPublishedRoot('set-1'));
+        expect(SparseMerkleTree.verifyNonMembership(commitmentFor('B'), proof!)).toBe(true);
+    });
+
+    it('should refuse a non-revocation proof for a revoked commitment', () => {
+        registry.revoke('set-1', members('A'));
+        registry.publish('set-1');
+
+        expect(() => registry.getNonMembershipProof('set-1', commitmentFor('A'))).toThrow(
+            'Credential has been revoked',
+        );
+    });
+
+    it('should keep revocations separate per set', () => {
+        registry.revoke('set-1', members('A'));
+        registry.publish('set-1');
+
+        expect(registry.getPublishedRoot('set-2')).toBeUndefined();
+        expect(registry.getNonMembershipProof('set-2', commitmentFor('A'))).toBeUndefined();
+    });
+
+    it('should reject revoking a commitment twice', () => {
+        registry.revoke('set-1', members('A'));
+        expect(() => registry.revoke('set-1', members('A'))).toThrow('already revoked');
+
+        registry.publish('set-1');
+        expect(() => registry.revoke('set-1', members('A'))).toThrow('already revoked');
+    });
+
+    it('should reject publishing with nothing pending', () => {
+        expect(() => registry.publish('set-1')).toThrow('No pending revocations to publish');
+    });
+
+    describe('persistence', () => {
+        let dir: string;
+        let filePath: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'revocations-'));
+            filePath = path.join(dir, 'revocations.log');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should replay published and pending revocations', () => {
+            const first = new RevocationRegistry(logger, new FileRevocationStore(filePath, logger));
+            first.revoke('set-1', members('A', 'B'));
+            first.publish('set-1');
+            first.revoke('set-1', members('C'));
+
+            const restored = new RevocationRegistry(logger, new FileRevocationStore(filePath, logger));
+            expect(restored.getStatus('set-1')).toEqual(first.getStatus('set-1'));
+            expect(restored.isRevoked('set-1', commitmentFor('B'))).toBe(true);
+        });
+
+        it('should reject a log whose published root does not replay', () => {
+            const first = new RevocationRegistry(logger, new FileRevocationStore(filePath, logger));
+            first.revoke('set-1', members('A'));
+            first.publish('set-1');
+
+            const lines = readFileSync(filePath, 'utf-8').trim().split('\n');
+            const revoked = JSON.parse(lines[0]);
+            revoked.commitment = commitmentFor('B');
+            writeFileSync(filePath, [JSON.stringify(revoked), lines[1]].join('\n') + '\n');
+
+            expect(
+                () => new RevocationRegistry(logger, new FileRevocationStore(filePath, logger)),
+            ).toThrow('Revocation log is inconsistent');
+        });
+    });
 });
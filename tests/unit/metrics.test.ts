@@ -0,0 +1,69 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../../src/utils/metrics';
+
+describe('MetricsRegistry', () => {
+    it('should render counters per label value', () => {
+        const registry = new MetricsRegistry();
+        const counter = registry.register(new Counter('requests_total', 'Requests', ['code']));
+
+        counter.inc({ code: 'NOT_FOUND' });
+        counter.inc({ code: 'NOT_FOUND' });
+        counter.inc({ code: 'say "hi"\n' }, 3);
+
+        expect(counter.get({ code: 'NOT_FOUND' })).toBe(2);
+        expect(registry.render()).toBe(
+            [
+                '# HELP requests_total Requests',
+                '# TYPE requests_total counter',
+                'requests_total{code="NOT_FOUND"} 2',
+                'requests_total{code="say \\"hi\\"\\n"} 3',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should render cumulative histogram buckets', () => {
+        const registry = new MetricsRegistry();
+        const histogram = registry.register(
+            new Histogram('duration_seconds', 'Duration', [0.1, 1], ['circuit_id']),
+        );
+
+        histogram.observe(0.05, { circuit_id: 'c' });
+        histogram.observe(0.5, { circuit_id: 'c' });
+        histogram.observe(5, { circuit_id: 'c' });
+
+        expect(registry.render()).toBe(
+            [
+                '# HELP duration_seconds Duration',
+                '# TYPE duration_seconds histogram',
+                'duration_seconds_bucket{circuit_id="c",le="0.1"} 1',
+                'duration_seconds_bucket{circuit_id="c",le="1"} 2',
+                'duration_seconds_bucket{circuit_id="c",le="+Inf"} 3',
+                'duration_seconds_sum{circuit_id="c"} 5.55',
+                'duration_seconds_count{circuit_id="c"} 3',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should time with a histogram', async () => {
+        const histogram = new Histogram('wait_seconds', 'Wait', [0.001, 10]);
+
+        const end = histogram.startTimer();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        end();
+
+        expect(histogram.getCount()).toBe(1);
+        expect(histogram.render()).toContain('wait_seconds_bucket{le="0.001"} 0');
+        expect(histogram.render()).toContain('wait_seconds_bucket{le="10"} 1');
+    });
+
+    it('should read gauges when rendered', () => {
+        const gauge = new Gauge('sets', 'Sets');
+        expect(gauge.render()).toEqual(['# HELP sets Sets', '# TYPE sets gauge']);
+
+        let sets = 1;
+        gauge.collectWith(() => sets);
+        sets = 4;
+        expect(gauge.render()).toContain('sets 4');
+    });
+});
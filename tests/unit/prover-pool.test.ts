@@ -0,0 +1,183 @@
+import { Worker } from 'worker_threads';
+import { ProverPool, ProverPoolOptions } from '../../src/core/prover/ProverPool';
+import { ErrorCode } from '../../src/utils/errors';
+import { Logger } from '../../src/utils/logger';
+
+const logger = new Logger('test');
+
+/**
+ * Stand-in for the snarkjs worker: answers after `input.delayMs`, echoing
+ * `input.value` as the only public signal. `input.fail` reports an error and
+ * `input.crash` exits the thread.
+ */
+const FAKE_WORKER = `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', ({ id, input }) => {
+    setTimeout(() => {
+        if (input.crash) process.exit(1);
+        if (input.fail) return parentPort.postMessage({ id, error: input.fail });
+        parentPort.postMessage({ id, proof: { protocol: 'groth16' }, publicSignals: [input.value] });
+    }, input.delayMs || 0);
+});
+`;
+
+const job = (value: string, input: Record<string, unknown> = {}) => ({
+    input: { value, ...input },
+    wasmPath: 'circuit.wasm',
+    zkeyPath: 'circuit.zkey',
+});
+
+describe('ProverPool', () => {
+    let pool: ProverPool;
+    let spawned: number;
+
+    const createPool = (options: Partial<ProverPoolOptions> = {}): ProverPool => {
+        spawned = 0;
+        pool = new ProverPool({ size: 1, queueSize: 1, timeoutMs: 5000, ...options }, logger, () => {
+            spawned++;
+            return new Worker(FAKE_WORKER, { eval: true });
+        });
+        return pool;
+    };
+
+    afterEach(async () => {
+        await pool.close();
+    });
+
+    it('should return the proof computed by a worker', async () => {
+        createPool();
+
+        const result = await pool.prove(job('42'));
+
+        expect(result.publicSignals).toEqual(['42']);
+        expect(pool.getStats()).toMatchObject({ completed: 1, busy: 0, queued: 0 });
+    });
+
+    it('should run up to size jobs at once and queue the rest in order', async () => {
+        createPool({ size: 2, queueSize: 2 });
+
+        const results = [1, 2, 3, 4].map((n) => pool.prove(job(String(n), { delayMs: 50 })));
+        expect(pool.getStats()).toMatchObject({ busy: 2, queued: 2 });
+
+        const signals = await Promise.all(results);
+        expect(signals.map((result) => result.publicSignals[0])).toEqual(['1', '2', '3', '4']);
+        expect(spawned).toBe(2);
+    });
+
+    it('should reject jobs once the queue is full', async () => {
+        createPool({ size: 1, queueSize: 1 });
+        expect(pool.hasCapacity()).toBe(true);
+
+        const running = pool.prove(job('1', { delayMs: 50 }));
+        const queued = pool.prove(job('2'));
+        expect(pool.hasCapacity()).toBe(false);
+
+        await expect(pool.prove(job('3'))).rejects.toMatchObject({
+            code: ErrorCode.PROVER_QUEUE_FULL,
+            statusCode: 503,
+        });
+        await Promise.all([running, queued]);
+        expect(pool.getStats()).toMatchObject({ rejected: 1, completed: 2 });
+    });
+
+    it('should time out a running job and replace its worker', async () => {
+        createPool({ timeoutMs: 100 });
+
+        await expect(pool.prove(job('1', { delayMs: 10000 }))).rejects.toMatchObject({
+            code: ErrorCode.PROOF_GENERATION_TIMEOUT,
+        });
+
+        const result = await pool.prove(job('2'));
+        expect(result.publicSignals).toEqual(['2']);
+        expect(spawned).toBe(2);
+        expect(pool.getStats().timedOut).toBe(1);
+    });
+
+    it('should time out a job still waiting in the queue', async () => {
+        createPool({ timeoutMs: 100 });
+
+        const running = pool.prove(job('1', { delayMs: 10000 }));
+        const queued = pool.prove(job('2'));
+
+        await Promise.all([
+            expect(queued).rejects.toMatchObject({ code: ErrorCode.PROOF_GENERATION_TIMEOUT }),
+            expect(running).rejects.toMatchObject({ code: ErrorCode.PROOF_GENERATION_TIMEOUT }),
+        ]);
+        expect(pool.getStats()).toMatchObject({ timedOut: 2, queued: 0 });
+    });
+
+    it('should cancel a queued job without touching the running one', async () => {
+        createPool();
+        const abort = new AbortController();
+
+        const running = pool.prove(job('1', { delayMs: 50 }));
+        const queued = pool.prove(job('2'), abort.signal);
+        abort.abort();
+
+        await expect(queued).rejects.toMatchObject({ code: ErrorCode.PROOF_GENERATION_CANCELLED });
+        expect((await running).publicSignals).toEqual(['1']);
+        expect(spawned).toBe(1);
+    });
+
+    it('should cancel a running job by replacing its worker', async () => {
+        createPool();
+        const abort = new AbortController();
+
+        const running = pool.prove(job('1', { delayMs: 10000 }), abort.signal);
+        const queued = pool.prove(job('2'));
+        abort.abort();
+
+        await expect(running).rejects.toMatchObject({ code: ErrorCode.PROOF_GENERATION_CANCELLED });
+        expect((await queued).publicSignals).toEqual(['2']);
+        expect(spawned).toBe(2);
+        expect(pool.getStats().cancelled).toBe(1);
+    });
+
+    it('should not start a job whose signal is already aborted', async () => {
+        createPool();
+        const abort = new AbortController();
+        abort.abort();
+
+        await expect(pool.prove(job('1'), abort.signal)).rejects.toMatchObject({
+            code: ErrorCode.PROOF_GENERATION_CANCELLED,
+        });
+        expect(spawned).toBe(0);
+    });
+
+    it('should reject with the worker error and keep the worker', async () => {
+        createPool();
+
+        await expect(pool.prove(job('1', { fail: 'Assert Failed' }))).rejects.toThrow(
+            'Assert Failed',
+        );
+        expect((await pool.prove(job('2'))).publicSignals).toEqual(['2']);
+        expect(spawned).toBe(1);
+        expect(pool.getStats()).toMatchObject({ failed: 1, completed: 1 });
+    });
+
+    it('should recover from a worker that exits', async () => {
+        createPool();
+
+        await expect(pool.prove(job('1', { crash: true }))).rejects.toThrow(
+            'Prover worker exited with code 1',
+        );
+        expect((await pool.prove(job('2'))).publicSignals).toEqual(['2']);
+        expect(spawned).toBe(2);
+    });
+
+    it('should fail pending jobs on close', async () => {
+        createPool();
+
+        const running = pool.prove(job('1', { delayMs: 10000 }));
+        const queued = pool.prove(job('2'));
+
+        const shuttingDown = { code: ErrorCode.PROVER_SHUTTING_DOWN, statusCode: 503 };
+        await Promise.all([
+            expect(running).rejects.toMatchObject(shuttingDown),
+            expect(queued).rejects.toMatchObject(shuttingDown),
+            pool.close(),
+        ]);
+        await expect(pool.prove(job('3'))).rejects.toThrow('shutting down');
+        expect(pool.isClosed()).toBe(true);
+    });
+});
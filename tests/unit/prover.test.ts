@@ -1,8 +1,26 @@
 import { CircuitManager } from '../../src/core/prover/CircuitManager';
+import { CircuitRegistry } from '../../src/core/prover/CircuitRegistry';
 import { ProofSerializer } from '../../src/core/prover/ProofSerializer';
+import { ProofJobManager, ProofJobOptions } from '../../src/core/prover/ProofJobManager';
+import { FileProofJobStore } from '../../src/core/prover/ProofJobStore';
 import { ZKProver } from '../../src/core/prover/ZKProver';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { Identity } from '../../src/core/crypto/Identity';
+import { AttributeCredential } from '../../src/core/crypto/AttributeCredential';
+import { EdDSAManager } from '../../src/core/crypto/EdDSAManager';
+import { buildAttributeStatement } from '../../src/core/verifier/AttributeStatement';
 import { Logger } from '../../src/utils/logger';
+import { ErrorCode, ProofError } from '../../src/utils/errors';
 import { ZKProof, ProofMetadata } from '../../src/types/proof.types';
+import { commitmentFor, identityFor } from '../fixtures/identities';
+import { circuitsConfig } from '../../src/config/circuits.config';
+import { isPublicAddress } from '../../src/utils/network';
+import { createHmac } from 'crypto';
+import dns, { LookupAddress } from 'dns';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { createServer, IncomingHttpHeaders, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
 import path from 'path';
 
 const logger = new Logger('test');
@@ -12,7 +30,11 @@ describe('CircuitManager', () => {
     let circuitManager: CircuitManager;
 
     beforeEach(() => {
-        circuitManager = new CircuitManager('credential', testCircuitsPath, logger);
+        circuitManager = new CircuitManager(
+            circuitsConfig.getConventionalDefinition('credential'),
+            testCircuitsPath,
+            logger,
+        );
     });
 
     describe('paths', () => {
@@ -39,6 +61,12 @@ describe('CircuitManager', () => {
         });
     });
 
+    describe('getDepth', () => {
+        it('should return the depth from the definition', () => {
+            expect(circuitManager.getDepth()).toBe(20);
+        });
+    });
+
     describe('verifySetup', () => {
         it('should return false when circuit files are missing', async () => {
             const result = await circuitManager.verifySetup();
@@ -106,6 +134,17 @@ describe('ProofSerializer', () => {
             expect(deserialized.publicSignals).toEqual(mockProof.publicSignals);
             expect(deserialized.metadata.proofId).toBe(mockMetadata.proofId);
         });
+
+        it('should keep the revocation root of revocation proofs', () => {
+            const revocationProof: ZKProof = {
+                ...mockProof,
+                metadata: { ...mockMetadata, revocationRoot: 'b'.repeat(64) },
+            };
+
+            const deserialized = serializer.deserialize(serializer.serialize(revocationProof));
+
+            expect(deserialized.metadata.revocationRoot).toBe('b'.repeat(64));
+        });
     });
 
     describe('validate', () => {
@@ -148,8 +187,12 @@ describe('ZKProver', () => {
     let prover: ZKProver;
 
     beforeEach(() => {
-        const cm = new CircuitManager('credential', testCircuitsPath, logger);
-        prover = new ZKProver(cm, logger);
+        const registry = new CircuitRegistry(
+            { circuits: [circuitsConfig.getConventionalDefinition('identity', 1)] },
+            testCircuitsPath,
+            logger,
+        );
+        prover = new ZKProver(registry, logger);
     });
 
     describe('initialization', () => {
@@ -170,30 +213,423 @@ describe('ZKProver', () => {
                 pathIndices: [0],
             };
 
-            await expect(prover.generateProof('set-id', merkleProof, 'cred')).rejects.toThrow(
+            const identity = new Identity(BigInt(1), BigInt(2));
+            await expect(prover.generateProof('set-id', merkleProof, identity)).rejects.toThrow(
                 'not initialized',
             );
         });
     });
 
-    describe('generateNullifier', () => {
-        it('should generate hex nullifier', () => {
-            const nullifier = prover.generateNullifier('credential');
-            expect(nullifier).toMatch(/^[a-f0-9]{64}$/);
+    describe('generateProof (inputs)', () => {
+        beforeAll(async () => {
+            await PoseidonManager.initialize();
+        });
+
+        it('should reject an identity whose commitment is not the proven leaf', async () => {
+            const identity = identityFor('holder');
+            const merkleProof = {
+                leaf: commitmentFor('someone-else'),
+                leafIndex: 0,
+                root: 'b'.repeat(64),
+                siblings: [{ hash: 'c'.repeat(64), position: 'left' as const }],
+                pathIndices: [0],
+            };
+
+            // Input checks run before the circuit is touched
+            Object.assign(prover, { initialized: true });
+            await expect(prover.generateProof('set-id', merkleProof, identity)).rejects.toThrow(
+                'Invalid credential',
+            );
+        });
+
+        it('should reject attributes other than those in the proven leaf', async () => {
+            const identity = identityFor('holder');
+            const schema = [{ name: 'age', type: 'integer' as const }];
+            const issued = new AttributeCredential(schema, { age: 17 });
+            const claimed = new AttributeCredential(schema, { age: 21 });
+            const merkleProof = {
+                leaf: issued.getLeaf(identity.getCommitment()),
+                leafIndex: 0,
+                root: 'b'.repeat(64),
+                siblings: [{ hash: 'c'.repeat(64), position: 'left' as const }],
+                pathIndices: [0],
+            };
+            const statement = buildAttributeStatement(claimed, [], [
+                { attribute: 'age', op: 'gte', value: 18 },
+            ]);
+
+            Object.assign(prover, { initialized: true });
+            await expect(
+                prover.generateProof('set-id', merkleProof, identity, undefined, undefined, {
+                    credential: claimed,
+                    statement,
+                }),
+            ).rejects.toThrow('Invalid credential');
+            await expect(
+                prover.generateProof('set-id', merkleProof, identity, undefined, undefined, {
+                    credential: issued,
+                    statement: buildAttributeStatement(issued),
+                }),
+            ).rejects.toThrow('No attribute circuit registered for tree depth 1');
+        });
+
+        it('should reject an issuer signature over another commitment', async () => {
+            await EdDSAManager.initialize();
+            const identity = identityFor('holder');
+            const privateKey = Buffer.alloc(32, 1);
+            const publicKey = EdDSAManager.derivePublicKey(privateKey);
+            const merkleProof = {
+                leaf: identity.getCommitment(),
+                leafIndex: 0,
+                root: 'b'.repeat(64),
+                siblings: [{ hash: 'c'.repeat(64), position: 'left' as const }],
+                pathIndices: [0],
+            };
+            const forged = commitmentFor('someone-else');
+            const issued = {
+                issuerId: 'issuer-1',
+                commitment: identity.getCommitment(),
+                publicKey,
+                signature: EdDSAManager.sign(privateKey, BigInt('0x' + forged)),
+            };
+
+            Object.assign(prover, { initialized: true });
+            await expect(
+                prover.generateProof(
+                    'set-id',
+                    merkleProof,
+                    identity,
+                    undefined,
+                    undefined,
+                    undefined,
+                    issued,
+                ),
+            ).rejects.toThrow('Invalid issuer signature');
+        });
+
+        it('should reject a proof depth with no registered circuit', async () => {
+            const merkleProof = {
+                leaf: commitmentFor('holder'),
+                leafIndex: 0,
+                root: 'b'.repeat(64),
+                siblings: [
+                    { hash: 'c'.repeat(64), position: 'left' as const },
+                    { hash: 'd'.repeat(64), position: 'left' as const },
+                ],
+                pathIndices: [0, 0],
+            };
+
+            Object.assign(prover, { initialized: true });
+            await expect(
+                prover.generateProof('set-id', merkleProof, identityFor('holder')),
+            ).rejects.toThrow('No circuit registered for tree depth 2');
+        });
+
+        it('should reject a registered circuit whose files were not found', async () => {
+            const merkleProof = {
+                leaf: commitmentFor('holder'),
+                leafIndex: 0,
+                root: 'b'.repeat(64),
+                siblings: [{ hash: 'c'.repeat(64), position: 'left' as const }],
+                pathIndices: [0],
+            };
+
+            Object.assign(prover, { initialized: true });
+            await expect(
+                prover.generateProof('set-id', merkleProof, identityFor('holder')),
+            ).rejects.toThrow('Circuit files not available: identity-v1.0.0');
+        });
+    });
+});
+
+describe('ProofJobManager', () => {
+    const options: ProofJobOptions = {
+        expiryHours: 24,
+        webhookSecret: '',
+        webhookTimeoutMs: 2000,
+        webhookAllowPrivateNetworks: false,
+    };
+    const setId = '550e8400-e29b-41d4-a716-446655440001';
+
+    const proof: ZKProof = {
+        proof: { pi_a: ['1'], pi_b: [['2']], pi_c: ['3'], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: ['42'],
+        metadata: {
+            proofId: '550e8400-e29b-41d4-a716-446655440000',
+            credentialSetId: setId,
+            merkleRoot: 'a'.repeat(64),
+            timestamp: new Date('2025-01-01T00:00:00Z'),
+            expiresAt: new Date('2025-01-02T00:00:00Z'),
+            version: '1.0.0',
+            circuitId: 'identity-v1.0.0',
+        },
+    };
+
+    it('should report a pending job, then its proof', async () => {
+        const manager = new ProofJobManager(logger, undefined, options);
+
+        const job = manager.submit(setId, () => Promise.resolve(proof));
+        expect(job.status).toBe('pending');
+        expect(job.expiresAt.getTime() - job.createdAt.getTime()).toBe(24 * 60 * 60 * 1000);
+
+        await manager.idle();
+        expect(manager.get(job.id)).toMatchObject({ status: 'completed', result: proof });
+    });
+
+    it('should record the error of a failed job', async () => {
+        const manager = new ProofJobManager(logger, undefined, options);
+
+        const job = manager.submit(setId, () =>
+            Promise.reject(new ProofError(ErrorCode.PROOF_GENERATION_FAILED, 'Bad witness')),
+        );
+        await manager.idle();
+
+        expect(manager.get(job.id)?.error).toEqual({
+            code: ErrorCode.PROOF_GENERATION_FAILED,
+            message: 'Bad witness',
+        });
+    });
+
+    it('should not expose unexpected error messages', async () => {
+        const manager = new ProofJobManager(logger, undefined, options);
+
+        const job = manager.submit(setId, () => Promise.reject(new Error('/secret/path.zkey')));
+        await manager.idle();
+
+        expect(manager.get(job.id)?.error?.message).toBe('Proof generation failed');
+    });
+
+    it('should forget jobs once they expire', async () => {
+        const manager = new ProofJobManager(logger, undefined, { ...options, expiryHours: 0 });
+
+        const job = manager.submit(setId, () => Promise.resolve(proof));
+        await manager.idle();
+
+        expect(manager.get(job.id)).toBeUndefined();
+    });
+
+    describe('persistence', () => {
+        let dir: string;
+        let filePath: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'proof-jobs-'));
+            filePath = path.join(dir, 'proof-jobs.log');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should keep completed jobs across restarts', async () => {
+            const manager = new ProofJobManager(
+                logger,
+                new FileProofJobStore(filePath, logger),
+                options,
+            );
+            const job = manager.submit(setId, () => Promise.resolve(proof));
+            await manager.idle();
+
+            const restored = new ProofJobManager(
+                logger,
+                new FileProofJobStore(filePath, logger),
+                options,
+            );
+            expect(restored.get(job.id)).toMatchObject({ status: 'completed', result: proof });
+        });
+
+        it('should fail jobs interrupted by a restart', () => {
+            const manager = new ProofJobManager(
+                logger,
+                new FileProofJobStore(filePath, logger),
+                options,
+            );
+            const job = manager.submit(setId, () => new Promise<ZKProof>(() => undefined));
+
+            const restored = new ProofJobManager(
+                logger,
+                new FileProofJobStore(filePath, logger),
+                options,
+            );
+            expect(restored.get(job.id)).toMatchObject({
+                status: 'failed',
+                error: { code: ErrorCode.PROOF_GENERATION_CANCELLED },
+            });
+        });
+        it('should drop expired jobs from the log when pruning', async () => {
+            const store = new FileProofJobStore(filePath, logger);
+            const manager = new ProofJobManager(logger, store, { ...options, expiryHours: 0 });
+            const expired = manager.submit(setId, () => Promise.resolve(proof));
+            await manager.idle();
+            expect(store.readAll().map((record) => record.id)).toEqual([expired.id, expired.id]);
+
+            // Submitting prunes what has expired so far
+            const next = manager.submit(setId, () => Promise.resolve(proof));
+            await manager.idle();
+
+            expect(store.readAll().map((record) => record.id)).toEqual([next.id, next.id]);
+            expect(readFileSync(filePath, 'utf-8')).not.toContain(expired.id);
+        });
+
+        it('should compact expired jobs away on reload', async () => {
+            const manager = new ProofJobManager(
+                logger,
+                new FileProofJobStore(filePath, logger),
+                { ...options, expiryHours: 0 },
+            );
+            const expired = manager.submit(setId, () => Promise.resolve(proof));
+            await manager.idle();
+
+            const restored = new ProofJobManager(
+                logger,
+                new FileProofJobStore(filePath, logger),
+                options,
+            );
+            expect(restored.get(expired.id)).toBeUndefined();
+            expect(new FileProofJobStore(filePath, logger).readAll()).toEqual([]);
+            expect(readFileSync(filePath, 'utf-8')).toBe('');
+        });
+    });
+
+    describe('webhooks', () => {
+        let server: HttpServer;
+        let callbackUrl: string;
+        let received: Array<{ headers: IncomingHttpHeaders; body: string }>;
+        let status: number;
+        // The test server listens on loopback
+        const local: ProofJobOptions = { ...options, webhookAllowPrivateNetworks: true };
+
+        beforeEach(async () => {
+            received = [];
+            status = 204;
+            server = createServer((req, res) => {
+                let body = '';
+                req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+                req.on('end', () => {
+                    received.push({ headers: req.headers, body });
+                    res.writeHead(status).end();
+                });
+            });
+            await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+            callbackUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
         });
 
-        it('should generate different nullifiers for different credentials', () => {
-            const secret = Buffer.from('same-secret');
-            const n1 = prover.generateNullifier('cred1', secret);
-            const n2 = prover.generateNullifier('cred2', secret);
-            expect(n1).not.toBe(n2);
+        afterEach(async () => {
+            await new Promise((resolve) => server.close(resolve));
         });
 
-        it('should generate deterministic nullifier with same secret', () => {
-            const secret = Buffer.from('fixed-secret');
-            const n1 = prover.generateNullifier('cred', secret);
-            const n2 = prover.generateNullifier('cred', secret);
-            expect(n1).toBe(n2);
+        it('should POST the settled job to its callback URL', async () => {
+            const manager = new ProofJobManager(logger, undefined, local);
+
+            const job = manager.submit(setId, () => Promise.resolve(proof), callbackUrl);
+            await manager.idle();
+
+            expect(received).toHaveLength(1);
+            const payload = JSON.parse(received[0].body);
+            expect(payload).toMatchObject({ jobId: job.id, status: 'completed' });
+            expect(payload.result.publicSignals).toEqual(['42']);
+            expect(received[0].headers['x-webhook-signature']).toBeUndefined();
+        });
+
+        it('should sign callbacks when a secret is configured', async () => {
+            const secret = 'w'.repeat(32);
+            const manager = new ProofJobManager(logger, undefined, {
+                ...local,
+                webhookSecret: secret,
+            });
+
+            manager.submit(setId, () => Promise.resolve(proof), callbackUrl);
+            await manager.idle();
+
+            const expected = createHmac('sha256', secret).update(received[0].body).digest('hex');
+            expect(received[0].headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+        });
+
+        it('should keep the result when the callback fails', async () => {
+            status = 500;
+            const manager = new ProofJobManager(logger, undefined, local);
+
+            const job = manager.submit(setId, () => Promise.resolve(proof), callbackUrl);
+            await manager.idle();
+
+            expect(received).toHaveLength(1);
+            expect(manager.get(job.id)?.status).toBe('completed');
         });
+
+        it('should not call back to a non-public address', async () => {
+            const warn = jest.spyOn(logger, 'warn');
+            const manager = new ProofJobManager(logger, undefined, options);
+
+            const job = manager.submit(setId, () => Promise.resolve(proof), callbackUrl);
+            await manager.idle();
+
+            expect(received).toHaveLength(0);
+            expect(manager.get(job.id)?.status).toBe('completed');
+            expect(warn).toHaveBeenCalledWith('Proof job callback failed', {
+                jobId: job.id,
+                error: '127.0.0.1 is not a public address',
+            });
+            warn.mockRestore();
+        });
+
+        it('should not call back to a name that resolves to a private address', async () => {
+            const port = (server.address() as AddressInfo).port;
+            const resolved: LookupAddress[] = [{ address: '127.0.0.1', family: 4 }];
+            const lookup = jest
+                .spyOn(dns, 'lookup')
+                .mockImplementation(((
+                    _hostname: string,
+                    _options: dns.LookupAllOptions,
+                    callback: (error: null, addresses: LookupAddress[]) => void,
+                ) => callback(null, resolved)) as unknown as typeof dns.lookup);
+            const warn = jest.spyOn(logger, 'warn');
+            const manager = new ProofJobManager(logger, undefined, options);
+
+            const job = manager.submit(
+                setId,
+                () => Promise.resolve(proof),
+                `http://hooks.example:${port}/hook`,
+            );
+            await manager.idle();
+
+            expect(lookup.mock.calls[0][0]).toBe('hooks.example');
+            expect(received).toHaveLength(0);
+            expect(warn).toHaveBeenCalledWith('Proof job callback failed', {
+                jobId: job.id,
+                error: 'hooks.example resolves to a non-public address',
+            });
+            lookup.mockRestore();
+            warn.mockRestore();
+        });
+    });
+});
+
+describe('isPublicAddress', () => {
+    it.each([
+        '127.0.0.1',
+        '10.1.2.3',
+        '172.16.0.1',
+        '192.168.1.1',
+        '169.254.169.254',
+        '100.64.0.1',
+        '0.0.0.0',
+        '::1',
+        '::',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '::ffff:a9fe:a9fe',
+        '::127.0.0.1',
+        '2002:7f00:1::1',
+    ])('should refuse %s', (address) => {
+        expect(isPublicAddress(address)).toBe(false);
+    });
+
+    it.each(['8.8.8.8', '93.184.216.34', '2606:4700:4700::1111'])('should accept %s', (address) => {
+        expect(isPublicAddress(address)).toBe(true);
+    });
+
+    it('should refuse what is not an address', () => {
+        expect(isPublicAddress('localhost')).toBe(false);
     });
 });
@@ -0,0 +1,305 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Interface, id } from 'ethers';
+import {
+    EthereumRootSource,
+    EthereumRootSourceOptions,
+    ROOT_REGISTRY_ABI,
+    RootSource,
+} from '../../src/core/verifier/RootSource';
+import { RootManager } from '../../src/core/verifier/RootManager';
+import { InMemoryTrustedRootStore } from '../../src/core/verifier/TrustedRootStore';
+import { Logger } from '../../src/utils/logger';
+
+const logger = new Logger('test');
+
+const REGISTRY_ADDRESS = '0x' + '42'.repeat(20);
+const CHAIN_ID = 31337;
+
+const seconds = (date: Date): bigint => BigInt(Math.floor(date.getTime() / 1000));
+
+interface JsonRpcRequest {
+    readonly id: number;
+    readonly method: string;
+    readonly params: [{ to: string; data: string }, string?];
+}
+
+/**
+ * Answers the JSON-RPC calls a provider makes against the root registry
+ * contract, serving `rootStatus` from an in-memory table.
+ */
+class RegistryStandIn {
+    public calls = 0;
+    public failing = false;
+    private readonly registry = new Interface(ROOT_REGISTRY_ABI);
+    private readonly statuses = new Map<string, [bigint, bigint]>();
+    private readonly server: http.Server;
+
+    constructor() {
+        this.server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+            req.on('end', () => {
+                const request = JSON.parse(body) as JsonRpcRequest;
+                const response = { jsonrpc: '2.0', id: request.id, ...this.handle(request) };
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(response));
+            });
+        });
+    }
+
+    public listen(): Promise<string> {
+        return new Promise((resolve) => {
+            this.server.listen(0, '127.0.0.1', () => {
+                const { port } = this.server.address() as AddressInfo;
+                resolve(`http://127.0.0.1:${port}`);
+            });
+        });
+    }
+
+    public close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    public publish(setId: string, root: string, publishedAt: Date, revokedAt?: Date): void {
+        this.statuses.set(`${id(setId)}:0x${root}`, [
+            seconds(publishedAt),
+            revokedAt ? seconds(revokedAt) : BigInt(0),
+        ]);
+    }
+
+    private handle(request: JsonRpcRequest): object {
+        if (this.failing) {
+            return { error: { code: -32603, message: 'node unavailable' } };
+        }
+        if (request.method === 'eth_chainId') {
+            return { result: '0x' + CHAIN_ID.toString(16) };
+        }
+        if (request.method === 'eth_blockNumber') {
+            return { result: '0x1' };
+        }
+        if (request.method !== 'eth_call' || request.params[0].to !== REGISTRY_ADDRESS) {
+            return { error: { code: -32601, message: `Unsupported: ${request.method}` } };
+        }
+
+        this.calls++;
+        const [setKey, root] = this.registry.decodeFunctionData(
+            'rootStatus',
+            request.params[0].data,
+        ) as unknown as [string, string];
+        const status = this.statuses.get(`${setKey}:${root}`) ?? [BigInt(0), BigInt(0)];
+        return { result: this.registry.encodeFunctionResult('rootStatus', status) };
+    }
+}
+
+describe('EthereumRootSource', () => {
+    const root = 'a'.repeat(64);
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    let standIn: RegistryStandIn;
+    let options: EthereumRootSourceOptions;
+    const sources: RootSource[] = [];
+
+    const createSource = (overrides: Partial<EthereumRootSourceOptions> = {}): RootSource => {
+        const source = new EthereumRootSource({ ...options, ...overrides }, logger);
+        sources.push(source);
+        return source;
+    };
+
+    beforeEach(async () => {
+        standIn = new RegistryStandIn();
+        options = {
+            rpcUrl: await standIn.listen(),
+            chainId: CHAIN_ID,
+            registryAddress: REGISTRY_ADDRESS,
+            cacheTtlMs: 60000,
+            timeoutMs: 2000,
+        };
+    });
+
+    afterEach(async () => {
+        sources.splice(0).forEach((source) => source.close());
+        jest.restoreAllMocks();
+        await standIn.close();
+    });
+
+    it('should read the publication time of a root', async () => {
+        standIn.publish('set-1', root, hourAgo);
+
+        const published = await createSource().getRoot('set-1', root);
+
+        expect(published?.publishedAt.getTime()).toBe(Number(seconds(hourAgo)) * 1000);
+        expect(published?.revokedAt).toBeUndefined();
+    });
+
+    it('should read the revocation time of a root', async () => {
+        const revokedAt = new Date();
+        standIn.publish('set-1', root, hourAgo, revokedAt);
+
+        const published = await createSource().getRoot('set-1', root);
+
+        expect(published?.revokedAt?.getTime()).toBe(Number(seconds(revokedAt)) * 1000);
+    });
+
+    it('should resolve to undefined for unpublished roots', async () => {
+        standIn.publish('set-1', root, hourAgo);
+        const source = createSource();
+
+        expect(await source.getRoot('set-1', 'b'.repeat(64))).toBeUndefined();
+        expect(await source.getRoot('set-2', root)).toBeUndefined();
+    });
+
+    it('should cache lookups, including misses, until the TTL passes', async () => {
+        const source = createSource();
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now);
+
+        await source.getRoot('set-1', root);
+        await source.getRoot('set-1', root);
+        expect(standIn.calls).toBe(1);
+
+        standIn.publish('set-1', root, hourAgo);
+        jest.spyOn(Date, 'now').mockReturnValue(now + options.cacheTtlMs + 1);
+
+        expect(await source.getRoot('set-1', root)).toBeDefined();
+        expect(standIn.calls).toBe(2);
+    });
+
+    it('should share a lookup between concurrent callers', async () => {
+        standIn.publish('set-1', root, hourAgo);
+        const source = createSource();
+
+        await Promise.all([source.getRoot('set-1', root), source.getRoot('set-1', root)]);
+
+        expect(standIn.calls).toBe(1);
+    });
+
+    it('should reject when the node fails and not cache the failure', async () => {
+        standIn.publish('set-1', root, hourAgo);
+        const source = createSource();
+
+        standIn.failing = true;
+        await expect(source.getRoot('set-1', root)).rejects.toThrow();
+
+        standIn.failing = false;
+        expect(await source.getRoot('set-1', root)).toBeDefined();
+    });
+
+    it('should reject when the node is unreachable', async () => {
+        const source = createSource({ rpcUrl: 'http://127.0.0.1:1' });
+
+        await expect(source.getRoot('set-1', root)).rejects.toThrow();
+    });
+});
+
+describe('RootManager with a root source', () => {
+    const root = 'a'.repeat(64);
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    /** Root source serving a fixed table, or failing every lookup */
+    const stubSource = (
+        roots: Record<string, { publishedAt: Date; revokedAt?: Date }>,
+        failing = false,
+    ): RootSource => ({
+        getRoot: (credentialSetId, merkleRoot) =>
+            failing
+                ? Promise.reject(new Error('node unavailable'))
+                : Promise.resolve(roots[`${credentialSetId}:${merkleRoot}`]),
+        close: () => undefined,
+    });
+
+    const trustLocally = (manager: RootManager): void =>
+        manager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: root, addedAt: new Date() });
+
+    it('should trust roots published by the source', async () => {
+        const manager = new RootManager(
+            logger,
+            new InMemoryTrustedRootStore(),
+            stubSource({ [`set-1:${root}`]: { publishedAt: hourAgo } }),
+        );
+
+        expect(await manager.isTrustedRoot('set-1', root)).toBe(true);
+        expect(await manager.isTrustedRoot('set-2', root)).toBe(false);
+    });
+
+    it('should not trust roots published in the future', async () => {
+        const manager = new RootManager(
+            logger,
+            new InMemoryTrustedRootStore(),
+            stubSource({ [`set-1:${root}`]: { publishedAt: new Date(Date.now() + 60000) } }),
+        );
+
+        expect(await manager.isTrustedRoot('set-1', root)).toBe(false);
+    });
+
+    it('should let a revocation by the source override local trust', async () => {
+        const manager = new RootManager(
+            logger,
+            new InMemoryTrustedRootStore(),
+            stubSource({ [`set-1:${root}`]: { publishedAt: hourAgo, revokedAt: new Date() } }),
+        );
+        trustLocally(manager);
+
+        expect(await manager.isTrustedRoot('set-1', root)).toBe(false);
+    });
+
+    it('should still trust local roots the source does not know', async () => {
+        const manager = new RootManager(logger, new InMemoryTrustedRootStore(), stubSource({}));
+        trustLocally(manager);
+
+        expect(await manager.isTrustedRoot('set-1', root)).toBe(true);
+    });
+
+    it('should reject every root when the source fails in fail-closed mode', async () => {
+        const manager = new RootManager(
+            logger,
+            new InMemoryTrustedRootStore(),
+            stubSource({}, true),
+            'fail-closed',
+        );
+        trustLocally(manager);
+
+        expect(await manager.isTrustedRoot('set-1', root)).toBe(false);
+    });
+
+    it('should fall back to local roots when the source fails in fallback mode', async () => {
+        const manager = new RootManager(
+            logger,
+            new InMemoryTrustedRootStore(),
+            stubSource({}, true),
+            'fallback',
+        );
+        trustLocally(manager);
+
+        expect(await manager.isTrustedRoot('set-1', root)).toBe(true);
+        expect(await manager.isTrustedRoot('set-2', root)).toBe(false);
+    });
+
+    it('should verify against the registry contract end to end', async () => {
+        const standIn = new RegistryStandIn();
+        const source = new EthereumRootSource(
+            {
+                rpcUrl: await standIn.listen(),
+                chainId: CHAIN_ID,
+                registryAddress: REGISTRY_ADDRESS,
+                cacheTtlMs: 0,
+                timeoutMs: 2000,
+            },
+            logger,
+        );
+        const manager = new RootManager(logger, new InMemoryTrustedRootStore(), source);
+
+        try {
+            expect(await manager.isTrustedRoot('set-1', root)).toBe(false);
+
+            standIn.publish('set-1', root, hourAgo);
+            expect(await manager.isTrustedRoot('set-1', root)).toBe(true);
+
+            standIn.publish('set-1', root, hourAgo, new Date());
+            expect(await manager.isTrustedRoot('set-1', root)).toBe(false);
+        } finally {
+            source.close();
+            await standIn.close();
+        }
+    });
+});
@@ -0,0 +1,366 @@
+import { randomBytes } from 'crypto';
+import { buildBn128, Bn128 } from 'ffjavascript';
+import {
+    BN254_BASE_FIELD,
+    exportSolidityCalldata,
+    renderSolidityVerifier,
+    verifierInterface,
+} from '../../src/core/verifier/SolidityVerifier';
+import { SNARK_SCALAR_FIELD } from '../../src/core/crypto/PoseidonManager';
+import { ZKProof } from '../../src/types/proof.types';
+
+const r = SNARK_SCALAR_FIELD;
+const q = BN254_BASE_FIELD;
+
+const mod = (value: bigint): bigint => ((value % r) + r) % r;
+const randomScalar = (): bigint => mod(BigInt('0x' + randomBytes(32).toString('hex')));
+
+// a^(r-2) is the inverse of a in the scalar field
+function inverse(value: bigint): bigint {
+    let result = BigInt(1);
+    let base = mod(value);
+    for (let exponent = r - BigInt(2); exponent > 0; exponent >>= BigInt(1)) {
+        if (exponent & BigInt(1)) {
+            result = mod(result * base);
+        }
+        base = mod(base * base);
+    }
+    return result;
+}
+
+/**
+ * Checks the verification key constants in a generated contract's source
+ * and the calldata encoding against each other: the call is ABI-decoded and
+ * the contract's pairing check is redone in TypeScript on its constants. The
+ * contract's bytecode is not run.
+ */
+class VerifierConstantsCheck {
+    private readonly curve: Bn128;
+    private readonly constants: Map<string, bigint>;
+    private readonly nPublic: number;
+
+    constructor(curve: Bn128, source: string) {
+        this.curve = curve;
+        this.constants = new Map(
+            Array.from(source.matchAll(/uint256 constant (\w+) = (\d+);/g), ([, name, value]) => [
+                name,
+                BigInt(value),
+            ]),
+        );
+        const signature = /uint\[(\d+)\] calldata _pubSignals/.exec(source);
+        this.nPublic = Number(signature?.[1]);
+    }
+
+    /** What `verifyProof` computes for this calldata */
+    public async verify(calldata: string): Promise<boolean> {
+        const [pA, pB, pC, pubSignals] = verifierInterface(this.nPublic).decodeFunctionData(
+            'verifyProof',
+            calldata,
+        ) as unknown as [bigint[], bigint[][], bigint[], bigint[]];
+
+        // checkField
+        if (pubSignals.some((signal) => signal >= this.constant('r'))) {
+            return false;
+        }
+
+        // g1_mulAccC: vk_x = IC0 + sum of ICi * signal
+        let vkX: bigint[] | null = [this.constant('IC0x'), this.constant('IC0y')];
+        for (let i = 0; i < this.nPublic && vkX; i++) {
+            const ic = [this.constant(`IC${i + 1}x`), this.constant(`IC${i + 1}y`)];
+            const term = this.ecMul(ic, pubSignals[i]);
+            vkX = term && this.ecAdd(vkX, term);
+        }
+        if (!vkX) {
+            return false;
+        }
+
+        // checkPairing
+        const words = [
+            pA[0],
+            (q - pA[1]) % q,
+            ...pB[0],
+            ...pB[1],
+            this.constant('alphax'),
+            this.constant('alphay'),
+            ...['betax1', 'betax2', 'betay1', 'betay2'].map((name) => this.constant(name)),
+            ...vkX,
+            ...['gammax1', 'gammax2', 'gammay1', 'gammay2'].map((name) => this.constant(name)),
+            pC[0],
+            pC[1],
+            ...['deltax1', 'deltax2', 'deltay1', 'deltay2'].map((name) => this.constant(name)),
+        ];
+        return this.ecPairing(words);
+    }
+
+    private constant(name: string): bigint {
+        const value = this.constants.get(name);
+        if (value === undefined) {
+            throw new Error(`Contract has no constant ${name}`);
+        }
+        return value;
+    }
+
+    // (0, 0) encodes the point at infinity; a point off the curve fails the call
+    private g1(x: bigint, y: bigint): Uint8Array | null {
+        if (x === BigInt(0) && y === BigInt(0)) {
+            return this.curve.G1.zero;
+        }
+        if (x >= q || y >= q) {
+            return null;
+        }
+        const point = this.curve.G1.fromObject([x, y, BigInt(1)]);
+        return this.curve.G1.isValid(point) ? point : null;
+    }
+
+    // The precompile takes Fp2 elements imaginary part first
+    private g2(x1: bigint, x0: bigint, y1: bigint, y0: bigint): Uint8Array | null {
+        if ([x1, x0, y1, y0].some((word) => word >= q)) {
+            return null;
+        }
+        if ([x1, x0, y1, y0].every((word) => word === BigInt(0))) {
+            return this.curve.G2.zero;
+        }
+        const point = this.curve.G2.fromObject([
+            [x0, x1],
+            [y0, y1],
+            [BigInt(1), BigInt(0)],
+        ]);
+        return this.curve.G2.isValid(point) ? point : null;
+    }
+
+    private fromG1(point: Uint8Array): bigint[] {
+        if (this.curve.G1.eq(point, this.curve.G1.zero)) {
+            return [BigInt(0), BigInt(0)];
+        }
+        return this.curve.G1.toObject(this.curve.G1.toAffine(point)).slice(0, 2);
+    }
+
+    private ecAdd(a: bigint[], b: bigint[]): bigint[] | null {
+        const p = this.g1(a[0], a[1]);
+        const s = this.g1(b[0], b[1]);
+        return p && s ? this.fromG1(this.curve.G1.add(p, s)) : null;
+    }
+
+    private ecMul(a: bigint[], scalar: bigint): bigint[] | null {
+        const p = this.g1(a[0], a[1]);
+        return p ? this.fromG1(this.curve.G1.timesFr(p, this.curve.Fr.e(mod(scalar)))) : null;
+    }
+
+    private async ecPairing(words: bigint[]): Promise<boolean> {
+        const points: Uint8Array[] = [];
+        for (let i = 0; i < words.length; i += 6) {
+            const p = this.g1(words[i], words[i + 1]);
+            const t = this.g2(words[i + 2], words[i + 3], words[i + 4], words[i + 5]);
+            if (!p || !t) {
+                return false;
+            }
+            points.push(p, t);
+        }
+        return this.curve.pairingEq(...points);
+    }
+}
+
+/**
+ * A verification key with known trapdoor and a proof forged with it.
+ * A forged proof satisfies the verification equation exactly like a real
+ * one, without a circuit or trusted setup.
+ */
+function simulateGroth16(curve: Bn128, publicSignals: readonly string[]): {
+    vkey: Record<string, unknown>;
+    proof: ZKProof['proof'];
+} {
+    const { G1, G2, Fr } = curve;
+    const g1 = (scalar: bigint): string[] =>
+        G1.toObject(G1.toAffine(G1.timesFr(G1.g, Fr.e(scalar)))).map(String);
+    const g2 = (scalar: bigint): string[][] =>
+        G2.toObject(G2.toAffine(G2.timesFr(G2.g, Fr.e(scalar)))).map((c) => c.map(String));
+
+    const [alpha, beta, gamma, delta, a, b] = Array.from({ length: 6 }, randomScalar);
+    const ic = Array.from({ length: publicSignals.length + 1 }, randomScalar);
+    const x = publicSignals.reduce(
+        (sum, signal, i) => mod(sum + BigInt(signal) * ic[i + 1]),
+        ic[0],
+    );
+
+    // a·b = alpha·beta + x·gamma + c·delta
+    const c = mod((a * b - alpha * beta - x * gamma) * inverse(delta));
+
+    return {
+        vkey: {
+            protocol: 'groth16',
+            curve: 'bn128',
+            nPublic: publicSignals.length,
+            vk_alpha_1: g1(alpha),
+            vk_beta_2: g2(beta),
+            vk_gamma_2: g2(gamma),
+            vk_delta_2: g2(delta),
+            IC: ic.map(g1),
+        },
+        proof: { pi_a: g1(a), pi_b: g2(b), pi_c: g1(c), protocol: 'groth16', curve: 'bn128' },
+    };
+}
+
+function zkProof(proof: ZKProof['proof'], publicSignals: string[]): ZKProof {
+    return {
+        proof,
+        publicSignals,
+        metadata: {
+            proofId: '550e8400-e29b-41d4-a716-446655440000',
+            credentialSetId: '550e8400-e29b-41d4-a716-446655440001',
+            merkleRoot: 'a'.repeat(64),
+            timestamp: new Date(),
+            expiresAt: new Date(Date.now() + 60_000),
+            version: '1.0.0',
+            circuitId: 'identity_nullifier-v1.0.0',
+        },
+    };
+}
+
+describe('SolidityVerifier', () => {
+    let curve: Bn128;
+    const signals = ['12345', '67890', String(r - BigInt(1))];
+
+    beforeAll(async () => {
+        curve = await buildBn128(true);
+    });
+
+    afterAll(async () => {
+        await curve.terminate();
+    });
+
+    describe('renderSolidityVerifier', () => {
+        it('should embed the verification key with G2 coordinates in precompile order', () => {
+            const { vkey } = simulateGroth16(curve, signals);
+            const source = renderSolidityVerifier(vkey);
+            const beta = vkey.vk_beta_2 as string[][];
+            const ic = vkey.IC as string[][];
+
+            expect(source).toContain('contract Groth16Verifier {');
+            expect(source).toContain('uint[3] calldata _pubSignals');
+            expect(source).toContain(`uint256 constant betax1 = ${beta[0][1]};`);
+            expect(source).toContain(`uint256 constant betax2 = ${beta[0][0]};`);
+            expect(source).toContain(`uint256 constant IC3y = ${ic[3][1]};`);
+            expect(source).toContain('checkField(calldataload(add(_pubSignals, 64)))');
+            expect(source).not.toContain('IC4x');
+        });
+
+        it('should reject keys it cannot render', () => {
+            const { vkey } = simulateGroth16(curve, signals);
+
+            expect(() => renderSolidityVerifier({ ...vkey, protocol: 'plonk' })).toThrow(
+                'Verification key is not a Groth16 BN254 key',
+            );
+            expect(() => renderSolidityVerifier({ ...vkey, nPublic: 2 })).toThrow(
+                'Verification key is not a Groth16 BN254 key',
+            );
+            expect(() =>
+                renderSolidityVerifier({ ...vkey, vk_alpha_1: ['1', '2; selfdestruct'] }),
+            ).toThrow('Verification key is not a Groth16 BN254 key');
+        });
+    });
+
+    describe('exportSolidityCalldata', () => {
+        it('should encode the proof as verifyProof arguments', async () => {
+            const { proof } = simulateGroth16(curve, signals);
+            const exported = await exportSolidityCalldata(zkProof(proof, signals));
+            const hex = (value: string): string =>
+                '0x' + BigInt(value).toString(16).padStart(64, '0');
+
+            expect(exported.a).toEqual([hex(proof.pi_a[0]), hex(proof.pi_a[1])]);
+            expect(exported.b).toEqual([
+                [hex(proof.pi_b[0][1]), hex(proof.pi_b[0][0])],
+                [hex(proof.pi_b[1][1]), hex(proof.pi_b[1][0])],
+            ]);
+            expect(exported.input).toEqual(signals.map(hex));
+
+            const decoded = verifierInterface(3).decodeFunctionData(
+                'verifyProof',
+                exported.calldata,
+            );
+            expect(decoded[3].map(String)).toEqual(signals);
+        });
+
+        it('should refuse values the contract cannot take', async () => {
+            const { proof } = simulateGroth16(curve, signals);
+
+            await expect(
+                exportSolidityCalldata(zkProof(proof, ['1', r.toString(), '2'])),
+            ).rejects.toThrow('Public signals must be elements of the scalar field');
+            await expect(exportSolidityCalldata(zkProof(proof, []))).rejects.toThrow(
+                'Public signals must be elements of the scalar field',
+            );
+            await expect(
+                exportSolidityCalldata(zkProof({ ...proof, pi_a: ['0x1', '2', '1'] }, signals)),
+            ).rejects.toThrow('Not a Groth16 BN254 proof');
+            await expect(
+                exportSolidityCalldata(zkProof({ ...proof, pi_c: [q.toString(), '2'] }, signals)),
+            ).rejects.toThrow('Not a Groth16 BN254 proof');
+            await expect(
+                exportSolidityCalldata(zkProof({ ...proof, protocol: 'plonk' }, signals)),
+            ).rejects.toThrow('Not a Groth16 BN254 proof');
+        });
+    });
+
+    describe('against the contract constants and calldata encoding', () => {
+        it('should accept a valid proof', async () => {
+            const { vkey, proof } = simulateGroth16(curve, signals);
+            const check = new VerifierConstantsCheck(curve, renderSolidityVerifier(vkey));
+            const { calldata } = await exportSolidityCalldata(zkProof(proof, signals));
+
+            expect(await check.verify(calldata)).toBe(true);
+        });
+
+        it('should reject a proof with other public signals', async () => {
+            const { vkey, proof } = simulateGroth16(curve, signals);
+            const check = new VerifierConstantsCheck(curve, renderSolidityVerifier(vkey));
+            const { calldata } = await exportSolidityCalldata(
+                zkProof(proof, ['12345', '67891', signals[2]]),
+            );
+
+            expect(await check.verify(calldata)).toBe(false);
+        });
+
+        it('should reject a proof under another verification key', async () => {
+            const { vkey } = simulateGroth16(curve, signals);
+            const { proof } = simulateGroth16(curve, signals);
+            const check = new VerifierConstantsCheck(curve, renderSolidityVerifier(vkey));
+            const { calldata } = await exportSolidityCalldata(zkProof(proof, signals));
+
+            expect(await check.verify(calldata)).toBe(false);
+        });
+
+        it('should reject a proof with swapped G2 coordinates', async () => {
+            const { vkey, proof } = simulateGroth16(curve, signals);
+            const check = new VerifierConstantsCheck(curve, renderSolidityVerifier(vkey));
+            const { a, b, c, input } = await exportSolidityCalldata(zkProof(proof, signals));
+            const calldata = verifierInterface(3).encodeFunctionData('verifyProof', [
+                a,
+                [
+                    [b[0][1], b[0][0]],
+                    [b[1][1], b[1][0]],
+                ],
+                c,
+                input,
+            ]);
+
+            expect(await check.verify(calldata)).toBe(false);
+        });
+
+        it('should reject public signals outside the scalar field', async () => {
+            const { vkey, proof } = simulateGroth16(curve, signals);
+            const check = new VerifierConstantsCheck(curve, renderSolidityVerifier(vkey));
+            const { a, b, c, input } = await exportSolidityCalldata(zkProof(proof, signals));
+
+            // signal + r has the same residue, so only the field check catches it
+            const aliased = [input[0], input[1], (r - BigInt(1) + r).toString()];
+            const calldata = verifierInterface(3).encodeFunctionData('verifyProof', [
+                a,
+                b,
+                c,
+                aliased,
+            ]);
+
+            expect(await check.verify(calldata)).toBe(false);
+        });
+    });
+});
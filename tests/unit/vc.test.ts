@@ -0,0 +1,280 @@
+import {
+    VC_CONTEXT_V2,
+    VerifiableCredentialAdapter,
+    ZK_PROOF_TYPE,
+} from '../../src/core/vc/VerifiableCredentialAdapter';
+import { AttributeCredential } from '../../src/core/crypto/AttributeCredential';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { CredentialSetManager } from '../../src/core/merkle/CredentialSet';
+import { AttributeSchema } from '../../src/types/credential.types';
+import { ZKProof } from '../../src/types/proof.types';
+import { Logger } from '../../src/utils/logger';
+import * as samples from '../fixtures/verifiable-credentials.json';
+
+const logger = new Logger('test');
+const issuer = 'did:example:76e12ec712ebc6f1c221ebfeb1f';
+const degreeSchema: AttributeSchema = [
+    { name: 'degree', type: 'string' },
+    { name: 'graduationDate', type: 'date' },
+    { name: 'gpa', type: 'integer' },
+];
+
+// Deep copy, so a test can alter a sample
+const sample = <T>(document: T): T => JSON.parse(JSON.stringify(document)) as T;
+
+describe('VerifiableCredentialAdapter', () => {
+    const adapter = new VerifiableCredentialAdapter(logger);
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+    });
+
+    describe('importCredentials', () => {
+        it('should map subjects with claims to attribute credential leaves', () => {
+            const imported = adapter.importCredentials(samples.degrees);
+
+            expect(imported.issuer).toBe(issuer);
+            expect(imported.attributeSchema).toEqual(degreeSchema);
+            expect(imported.leaves).toEqual(
+                samples.degrees.map(({ credentialSubject: { identityCommitment, ...subject } }) =>
+                    new AttributeCredential(degreeSchema, {
+                        degree: subject.degree,
+                        graduationDate: subject.graduationDate,
+                        gpa: subject.gpa,
+                    }).getLeaf(identityCommitment),
+                ),
+            );
+        });
+
+        it('should map subjects without claims to their commitments', () => {
+            const imported = adapter.importCredentials(samples.memberships);
+
+            expect(imported.issuer).toBe('did:example:club');
+            expect(imported.attributeSchema).toBeUndefined();
+            expect(imported.leaves).toEqual([
+                samples.memberships[0].credentialSubject.identityCommitment,
+            ]);
+        });
+
+        it('should type claims by a given schema', () => {
+            const schema: AttributeSchema = [
+                { name: 'degree', type: 'string' },
+                { name: 'graduationDate', type: 'string' },
+                { name: 'gpa', type: 'integer' },
+            ];
+
+            expect(adapter.importCredentials(samples.degrees, schema).attributeSchema).toBe(schema);
+            expect(() =>
+                adapter.importCredentials(samples.degrees, [{ name: 'degree', type: 'string' }]),
+            ).toThrow('Credential 0: Unknown attribute: graduationDate');
+        });
+
+        it('should reject credentials from different issuers', () => {
+            expect(() =>
+                adapter.importCredentials([...samples.degrees, ...samples.memberships]),
+            ).toThrow('All credentials must come from the same issuer');
+        });
+
+        it('should reject credentials outside their validity period', () => {
+            const expired = {
+                ...sample(samples.degrees[0]),
+                expirationDate: '2020-06-01T00:00:00Z',
+            };
+            const early = { ...sample(samples.degrees[1]), validFrom: '2100-01-01T00:00:00Z' };
+
+            expect(() => adapter.importCredentials([expired])).toThrow('Credential 0: expired');
+            expect(() => adapter.importCredentials([early])).toThrow('Credential 0: not yet valid');
+        });
+
+        it('should reject documents that are not verifiable credentials', () => {
+            const degree = sample(samples.degrees[0]);
+
+            expect(() =>
+                adapter.importCredentials([{ ...degree, '@context': ['https://schema.org'] }]),
+            ).toThrow('not a W3C verifiable credential');
+            expect(() => adapter.importCredentials([{ ...degree, type: ['Degree'] }])).toThrow(
+                'type must include VerifiableCredential',
+            );
+            expect(() => adapter.importCredentials([{ ...degree, issuer: undefined }])).toThrow(
+                'issuer is required',
+            );
+            expect(() => adapter.importCredentials([])).toThrow('At least one credential');
+        });
+
+        it('should require an identity commitment in the subject', () => {
+            const degree = sample(samples.degrees[0]);
+            const subject: Record<string, unknown> = { ...degree.credentialSubject };
+            delete subject.identityCommitment;
+
+            expect(() =>
+                adapter.importCredentials([{ ...degree, credentialSubject: subject }]),
+            ).toThrow('credentialSubject.identityCommitment is required');
+            expect(() =>
+                adapter.importCredentials([
+                    { ...degree, credentialSubject: { ...subject, identityCommitment: 'MIT' } },
+                ]),
+            ).toThrow('must be a 64-character hex string');
+            expect(() =>
+                adapter.importCredentials([
+                    { ...degree, credentialSubject: [degree.credentialSubject] },
+                ]),
+            ).toThrow('credentialSubject must be a single object');
+        });
+
+        it('should reject claims that are not attribute values', () => {
+            const degree = sample(samples.degrees[0]);
+            const nested = {
+                ...degree,
+                credentialSubject: { ...degree.credentialSubject, address: { city: 'Utrecht' } },
+            };
+
+            expect(() => adapter.importCredentials([nested])).toThrow(
+                'Claim address: must be a number or a string',
+            );
+        });
+
+        it('should not mix plain and attribute credentials', () => {
+            const membership = sample(samples.memberships[0]);
+            const withClaim = {
+                ...membership,
+                credentialSubject: { ...membership.credentialSubject, level: 'gold' },
+            };
+
+            expect(() => adapter.importCredentials([membership, withClaim])).toThrow(
+                'Credential 1: unexpected claims',
+            );
+        });
+    });
+
+    describe('importCredentialSet', () => {
+        it('should create a set whose members can prove membership', () => {
+            const manager = new CredentialSetManager(logger);
+            const set = adapter.importCredentialSet(manager, 'Graduates', samples.degrees);
+            const { leaves } = adapter.importCredentials(samples.degrees);
+
+            expect(set.description).toBe(`Imported from ${issuer}`);
+            expect(set.attributeSchema).toEqual(degreeSchema);
+            expect(set.commitments).toEqual(leaves);
+            expect(manager.generateProof(set.id, leaves[1]).root).toBe(set.merkleRoot);
+        });
+    });
+
+    describe('exportCredential', () => {
+        it('should round-trip attribute credentials', () => {
+            const { attributeSchema, leaves } = adapter.importCredentials(samples.degrees);
+            const exported = samples.degrees.map(({ credentialSubject: subject }) =>
+                adapter.exportCredential(
+                    issuer,
+                    subject.identityCommitment,
+                    new AttributeCredential(degreeSchema, {
+                        degree: subject.degree,
+                        graduationDate: subject.graduationDate,
+                        gpa: subject.gpa,
+                    }),
+                ),
+            );
+
+            expect(exported[0]['@context'][0]).toBe(VC_CONTEXT_V2);
+            expect(exported[0].credentialSubject.gpa).toBe(375);
+            const reimported = adapter.importCredentials(sample(exported));
+            expect(reimported).toEqual({ issuer, attributeSchema, leaves });
+        });
+
+        it('should round-trip membership credentials', () => {
+            const commitment = samples.memberships[0].credentialSubject.identityCommitment;
+            const exported = adapter.exportCredential('did:example:club', commitment);
+
+            expect(exported.credentialSubject).toEqual({ identityCommitment: commitment });
+            expect(adapter.importCredentials([sample(exported)])).toEqual(
+                adapter.importCredentials(samples.memberships),
+            );
+        });
+    });
+
+    describe('presentations', () => {
+        const proof: ZKProof = {
+            proof: {
+                pi_a: ['1', '2', '1'],
+                pi_b: [
+                    ['3', '4'],
+                    ['5', '6'],
+                    ['1', '0'],
+                ],
+                pi_c: ['7', '8', '1'],
+                protocol: 'groth16',
+                curve: 'bn128',
+            },
+            publicSignals: ['42', '43'],
+            metadata: {
+                proofId: '550e8400-e29b-41d4-a716-446655440000',
+                credentialSetId: '550e8400-e29b-41d4-a716-446655440001',
+                merkleRoot: 'a'.repeat(64),
+                timestamp: new Date('2026-01-01T00:00:00Z'),
+                expiresAt: new Date('2026-01-02T00:00:00Z'),
+                version: '1.0.0',
+                circuitId: 'identity_nullifier-v1.0.0',
+                externalNullifier: 'poll-42',
+                nullifierHash: 'b'.repeat(64),
+            },
+        };
+
+        it('should wrap a proof in a presentation with the zero-knowledge proof type', () => {
+            const presentation = adapter.toPresentation(proof);
+
+            expect(presentation.id).toBe(`urn:uuid:${proof.metadata.proofId}`);
+            expect(presentation.type).toEqual(['VerifiablePresentation']);
+            expect(presentation.proof).toEqual(
+                expect.objectContaining({
+                    type: ZK_PROOF_TYPE,
+                    created: '2026-01-01T00:00:00.000Z',
+                    expires: '2026-01-02T00:00:00.000Z',
+                    publicSignals: ['42', '43'],
+                    credentialSetId: proof.metadata.credentialSetId,
+                    nullifierHash: 'b'.repeat(64),
+                }),
+            );
+        });
+
+        it('should round-trip proofs through JSON', () => {
+            const json = JSON.parse(JSON.stringify(adapter.toPresentation(proof))) as unknown;
+
+            expect(adapter.fromPresentation(json)).toEqual(proof);
+        });
+
+        it('should round-trip attribute and issuer claims', () => {
+            const schema: AttributeSchema = [{ name: 'age', type: 'integer' }];
+            const claimed: ZKProof = {
+                ...proof,
+                metadata: {
+                    ...proof.metadata,
+                    attributes: { schema, disclosed: { age: '34' }, predicates: [] },
+                    issuerPublicKey: { x: 'c'.repeat(64), y: 'd'.repeat(64) },
+                },
+            };
+            const json = JSON.parse(JSON.stringify(adapter.toPresentation(claimed))) as unknown;
+
+            expect(adapter.fromPresentation(json)).toEqual(claimed);
+        });
+
+        it('should reject other presentations', () => {
+            const presentation = sample(adapter.toPresentation(proof));
+
+            expect(() =>
+                adapter.fromPresentation({
+                    ...presentation,
+                    proof: { ...presentation.proof, type: 'Ed25519Signature2020' },
+                }),
+            ).toThrow('Invalid verifiable presentation');
+            expect(() =>
+                adapter.fromPresentation({
+                    ...presentation,
+                    proof: { ...presentation.proof, merkleRoot: undefined },
+                }),
+            ).toThrow('Invalid verifiable presentation');
+            expect(() => adapter.fromPresentation({ ...presentation, id: 'proof-1' })).toThrow(
+                'Invalid verifiable presentation',
+            );
+            expect(() => adapter.fromPresentation(null)).toThrow('Invalid verifiable presentation');
+        });
+    });
+});
@@ -1,9 +1,55 @@
 import { RootManager } from '../../src/core/verifier/RootManager';
+import {
+    RootLifecyclePolicy,
+    ROOT_POLICY_ACTOR,
+} from '../../src/core/verifier/RootLifecyclePolicy';
+import { EventBus } from '../../src/core/events/EventBus';
+import { CredentialSetManager } from '../../src/core/merkle/CredentialSet';
+import { CredentialSetEvents } from '../../src/types/credential.types';
 import { ProofValidator } from '../../src/core/verifier/ProofValidator';
+import { FileTrustedRootStore } from '../../src/core/verifier/TrustedRootStore';
+import { IssuerRegistry } from '../../src/core/verifier/IssuerRegistry';
+import { FileTrustedIssuerStore } from '../../src/core/verifier/TrustedIssuerStore';
+import { ZKVerifier } from '../../src/core/verifier/ZKVerifier';
+import {
+    SNARK_SCALAR_FIELD,
+    checkPublicSignalBinding,
+    decodePublicSignals,
+} from '../../src/core/verifier/PublicSignals';
+import { NullifierRegistry } from '../../src/core/verifier/NullifierRegistry';
+import {
+    attributeSignals,
+    buildAttributeStatement,
+    checkAttributeRequirements,
+    encodeAttributeStatement,
+} from '../../src/core/verifier/AttributeStatement';
+import { AttributeCredential } from '../../src/core/crypto/AttributeCredential';
+import { FileNullifierStore } from '../../src/core/verifier/NullifierStore';
+import { RevocationRegistry } from '../../src/core/merkle/RevocationRegistry';
+import { CircuitRegistry } from '../../src/core/prover/CircuitRegistry';
+import { circuitsConfig } from '../../src/config/circuits.config';
+import { config } from '../../src/config/environment';
+import { PoseidonManager } from '../../src/core/crypto/PoseidonManager';
+import { AttributeStatement, ZKProof } from '../../src/types/proof.types';
+import { AttributeSchema } from '../../src/types/credential.types';
+import { ErrorCode } from '../../src/utils/errors';
 import { Logger } from '../../src/utils/logger';
+import { metrics } from '../../src/utils/metrics';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { commitmentFor } from '../fixtures/identities';
 
 const logger = new Logger('test');
 
+/** Registry of conventionally named circuits whose files are not built */
+const registryOf = (...names: string[]): CircuitRegistry =>
+    new CircuitRegistry(
+        { circuits: names.map((name) => circuitsConfig.getConventionalDefinition(name)) },
+        path.join(__dirname, 'missing-circuits'),
+        logger,
+    );
+
 describe('RootManager', () => {
     let rootManager: RootManager;
 
@@ -108,6 +154,38 @@ describe('RootManager', () => {
         });
     });
 
+    describe('root case', () => {
+        const lower = 'ab'.repeat(32);
+        const upper = lower.toUpperCase();
+
+        it('should store roots in lowercase', () => {
+            rootManager.addTrustedRoot({
+                credentialSetId: 'set-1',
+                merkleRoot: upper,
+                addedAt: new Date(),
+            });
+
+            expect(rootManager.getTrustedRoots('set-1')).toEqual([lower]);
+            expect(rootManager.getTrustedRoot('set-1', lower)?.merkleRoot).toBe(lower);
+            expect(rootManager.getAuditLog()[0].merkleRoot).toBe(lower);
+        });
+
+        it('should look roots up in any case', async () => {
+            rootManager.addTrustedRoot({
+                credentialSetId: 'set-1',
+                merkleRoot: lower,
+                addedAt: new Date(),
+            });
+
+            expect(await rootManager.isTrustedRoot('set-1', upper)).toBe(true);
+            expect(rootManager.getTrustedRoot('set-1', upper)).toBeDefined();
+            expect(rootManager.updateRootExpiry('set-1', upper, new Date(0))).toBe(true);
+            expect(rootManager.supersedeRoot('set-1', upper)).toBe(true);
+            expect(rootManager.revokeTrustedRoot('set-1', upper)).toBe(true);
+            expect(rootManager.getTrustedRoots('set-1')).toEqual([]);
+        });
+    });
+
     describe('revokeTrustedRoot', () => {
         it('should revoke an existing root', async () => {
             const root = 'a'.repeat(64);
@@ -130,12 +208,100 @@ describe('RootManager', () => {
         });
     });
 
+    describe('supersedeRoot', () => {
+        it('should keep a superseded root trusted during the grace period', async () => {
+            const root = 'a'.repeat(64);
+            rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: root, addedAt: new Date() });
+
+            expect(rootManager.supersedeRoot('set-1', root)).toBe(true);
+            expect(await rootManager.isTrustedRoot('set-1', root)).toBe(true);
+        });
+
+        it('should expire a superseded root after the grace period', async () => {
+            const root = 'a'.repeat(64);
+            rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: root, addedAt: new Date() });
+
+            const longAgo = new Date(Date.now() - 365 * 24 * 3600000);
+            rootManager.supersedeRoot('set-1', root, longAgo);
+            expect(await rootManager.isTrustedRoot('set-1', root)).toBe(false);
+        });
+
+        it('should not extend an earlier expiry', async () => {
+            const root = 'a'.repeat(64);
+            rootManager.addTrustedRoot({
+                credentialSetId: 'set-1',
+                merkleRoot: root,
+                addedAt: new Date(),
+                expiresAt: new Date(Date.now() - 1000),
+            });
+
+            rootManager.supersedeRoot('set-1', root);
+            expect(await rootManager.isTrustedRoot('set-1', root)).toBe(false);
+        });
+
+        it('should return false for untrusted roots', () => {
+            expect(rootManager.supersedeRoot('set-1', 'a'.repeat(64))).toBe(false);
+        });
+    });
+
     describe('getTrustedRoots', () => {
         it('should return empty array for unknown set', () => {
             expect(rootManager.getTrustedRoots('unknown')).toEqual([]);
         });
     });
 
+    describe('updateRootExpiry', () => {
+        it('should extend an expired root', async () => {
+            const root = 'a'.repeat(64);
+            rootManager.addTrustedRoot({
+                credentialSetId: 'set-1',
+                merkleRoot: root,
+                addedAt: new Date(),
+                expiresAt: new Date(Date.now() - 1000),
+            });
+
+            const later = new Date(Date.now() + 3600000);
+            expect(rootManager.updateRootExpiry('set-1', root, later)).toBe(true);
+            expect(await rootManager.isTrustedRoot('set-1', root)).toBe(true);
+            expect(rootManager.getTrustedRoot('set-1', root)?.expiresAt).toEqual(later);
+        });
+
+        it('should remove the expiry', async () => {
+            const root = 'a'.repeat(64);
+            rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: root, addedAt: new Date() });
+            rootManager.supersedeRoot('set-1', root, new Date(Date.now() - 365 * 24 * 3600000));
+
+            expect(rootManager.updateRootExpiry('set-1', root, undefined)).toBe(true);
+            expect(await rootManager.isTrustedRoot('set-1', root)).toBe(true);
+            expect(rootManager.getTrustedRoot('set-1', root)?.expiresAt).toBeUndefined();
+        });
+
+        it('should return false for untrusted roots', () => {
+            expect(rootManager.updateRootExpiry('set-1', 'a'.repeat(64), new Date())).toBe(false);
+        });
+    });
+
+    describe('listTrustedRoots', () => {
+        it('should list roots with their details, optionally for one set', () => {
+            rootManager.addTrustedRoot({
+                credentialSetId: 'set-1',
+                merkleRoot: 'a'.repeat(64),
+                addedAt: new Date(),
+                metadata: { label: 'cohort-2024' },
+            });
+            rootManager.addTrustedRoot({
+                credentialSetId: 'set-2',
+                merkleRoot: 'b'.repeat(64),
+                addedAt: new Date(),
+            });
+
+            expect(rootManager.listTrustedRoots()).toHaveLength(2);
+            expect(rootManager.listTrustedRoots('set-1')).toEqual([
+                expect.objectContaining({ merkleRoot: 'a'.repeat(64), metadata: { label: 'cohort-2024' } }),
+            ]);
+        });
+    });
+
     describe('getTotalRootCount', () => {
         it('should return 0 initially', () => {
             expect(rootManager.getTotalRootCount()).toBe(0);
@@ -157,6 +323,201 @@ describe('RootManager', () => {
     });
 });
 
+describe('RootLifecyclePolicy', () => {
+    let rootManager: RootManager;
+    let sets: CredentialSetManager;
+
+    const follow = (autoTrust: boolean): void => {
+        const events = new EventBus<CredentialSetEvents>(logger);
+        sets = new CredentialSetManager(logger, undefined, events);
+        rootManager = new RootManager(logger);
+        new RootLifecyclePolicy(rootManager, logger, { autoTrust }).subscribe(events);
+    };
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+    });
+
+    describe('with autoTrust', () => {
+        beforeEach(() => follow(true));
+
+        it('should trust the root of a new set', async () => {
+            const set = sets.createCredentialSet('Members', [commitmentFor('a')]);
+
+            expect(await rootManager.isTrustedRoot(set.id, set.merkleRoot)).toBe(true);
+            expect(rootManager.getAuditLog(set.id)).toEqual([
+                expect.objectContaining({ action: 'add', actor: ROOT_POLICY_ACTOR }),
+            ]);
+        });
+
+        it('should trust the new root and supersede the old one on update', async () => {
+            const set = sets.createCredentialSet('Members', [commitmentFor('a')]);
+            const updated = sets.addCommitments(set.id, [commitmentFor('b')]);
+
+            expect(await rootManager.isTrustedRoot(set.id, updated.merkleRoot)).toBe(true);
+            expect(await rootManager.isTrustedRoot(set.id, set.merkleRoot)).toBe(true);
+            const current = rootManager.getTrustedRoot(set.id, updated.merkleRoot);
+            expect(current?.expiresAt).toBeUndefined();
+            expect(rootManager.getTrustedRoot(set.id, set.merkleRoot)?.expiresAt).toEqual(
+                new Date(
+                    updated.rootHistory[0].supersededAt.getTime() +
+                        config.rootGracePeriodHours * 3600000,
+                ),
+            );
+        });
+
+        it('should revoke every root of a deleted set', async () => {
+            const set = sets.createCredentialSet('Members', [commitmentFor('a')]);
+            const updated = sets.addCommitments(set.id, [commitmentFor('b')]);
+
+            sets.deleteCredentialSet(set.id);
+
+            expect(rootManager.getTrustedRoots(set.id)).toEqual([]);
+            expect(await rootManager.isTrustedRoot(set.id, updated.merkleRoot)).toBe(false);
+        });
+    });
+
+    describe('without autoTrust', () => {
+        beforeEach(() => follow(false));
+
+        it('should leave new roots untrusted', async () => {
+            const set = sets.createCredentialSet('Members', [commitmentFor('a')]);
+            const updated = sets.addCommitments(set.id, [commitmentFor('b')]);
+
+            expect(await rootManager.isTrustedRoot(set.id, set.merkleRoot)).toBe(false);
+            expect(await rootManager.isTrustedRoot(set.id, updated.merkleRoot)).toBe(false);
+            expect(rootManager.getAuditLog()).toEqual([]);
+        });
+
+        it('should still start the grace period of a trusted root on update', () => {
+            const set = sets.createCredentialSet('Members', [commitmentFor('a')]);
+            rootManager.addTrustedRoot({
+                credentialSetId: set.id,
+                merkleRoot: set.merkleRoot,
+                addedAt: new Date(),
+            });
+
+            sets.addCommitments(set.id, [commitmentFor('b')]);
+
+            expect(rootManager.getTrustedRoot(set.id, set.merkleRoot)?.expiresAt).toBeDefined();
+        });
+
+        it('should keep roots of deleted sets', () => {
+            const set = sets.createCredentialSet('Members', [commitmentFor('a')]);
+            rootManager.addTrustedRoot({
+                credentialSetId: set.id,
+                merkleRoot: set.merkleRoot,
+                addedAt: new Date(),
+            });
+
+            sets.deleteCredentialSet(set.id);
+
+            expect(rootManager.getTrustedRoots(set.id)).toEqual([set.merkleRoot]);
+        });
+    });
+});
+
+describe('RootManager persistence', () => {
+    let dir: string;
+    let logPath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(tmpdir(), 'trusted-roots-'));
+        logPath = path.join(dir, 'trusted-roots.log');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should restore trusted roots after a restart', async () => {
+        const first = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        first.addTrustedRoot({
+            credentialSetId: 'set-1',
+            merkleRoot: 'a'.repeat(64),
+            addedAt: new Date(),
+            expiresAt: new Date(Date.now() + 3600000),
+            metadata: { label: 'cohort-2024' },
+        });
+
+        const second = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        expect(await second.isTrustedRoot('set-1', 'a'.repeat(64))).toBe(true);
+        expect(second.getTotalRootCount()).toBe(1);
+    });
+
+    it('should replay superseded roots with their grace expiry', async () => {
+        const first = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        first.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: 'a'.repeat(64), addedAt: new Date() });
+        first.supersedeRoot('set-1', 'a'.repeat(64), new Date(Date.now() - 365 * 24 * 3600000));
+
+        const second = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        expect(await second.isTrustedRoot('set-1', 'a'.repeat(64))).toBe(false);
+        expect(second.getAuditLog().map((e) => e.action)).toEqual(['add', 'supersede']);
+    });
+
+    it('should replay expiry updates', async () => {
+        const first = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        first.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: 'a'.repeat(64), addedAt: new Date() });
+        first.supersedeRoot('set-1', 'a'.repeat(64), new Date(Date.now() - 365 * 24 * 3600000));
+        first.updateRootExpiry('set-1', 'a'.repeat(64), undefined);
+
+        const second = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        expect(await second.isTrustedRoot('set-1', 'a'.repeat(64))).toBe(true);
+        expect(second.getAuditLog().map((e) => e.action)).toEqual(['add', 'supersede', 'expire']);
+    });
+
+    it('should replay revocations', async () => {
+        const first = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        first.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: 'a'.repeat(64), addedAt: new Date() });
+        first.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: 'b'.repeat(64), addedAt: new Date() });
+        first.revokeTrustedRoot('set-1', 'a'.repeat(64));
+
+        const second = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        expect(await second.isTrustedRoot('set-1', 'a'.repeat(64))).toBe(false);
+        expect(second.getTrustedRoots('set-1')).toEqual(['b'.repeat(64)]);
+    });
+
+    it('should record who changed what and when', () => {
+        const manager = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        manager.addTrustedRoot(
+            { credentialSetId: 'set-1', merkleRoot: 'a'.repeat(64), addedAt: new Date() },
+            'admin-1',
+        );
+        manager.revokeTrustedRoot('set-1', 'a'.repeat(64), 'admin-2');
+
+        const log = manager.getAuditLog('set-1');
+        expect(log.map((e) => [e.action, e.actor])).toEqual([
+            ['add', 'admin-1'],
+            ['revoke', 'admin-2'],
+        ]);
+        expect(log[1].at).toBeInstanceOf(Date);
+
+        const lines = readFileSync(logPath, 'utf-8').trim().split('\n');
+        expect(lines).toHaveLength(2);
+    });
+
+    it('should normalize mixed-case roots on replay', async () => {
+        const lower = 'ab'.repeat(32);
+        const upper = lower.toUpperCase();
+        const entry = { actor: 'admin', at: new Date() };
+        const store = new FileTrustedRootStore(logPath, logger);
+        store.append({ ...entry, action: 'add', credentialSetId: 'set-1', merkleRoot: upper });
+        store.append({ ...entry, action: 'revoke', credentialSetId: 'set-1', merkleRoot: lower });
+        store.append({ ...entry, action: 'add', credentialSetId: 'set-2', merkleRoot: upper });
+
+        const manager = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        expect(manager.getTrustedRoots('set-1')).toEqual([]);
+        expect(manager.getTrustedRoots('set-2')).toEqual([lower]);
+        expect(await manager.isTrustedRoot('set-2', upper)).toBe(true);
+    });
+
+    it('should not log revocations of unknown roots', () => {
+        const manager = new RootManager(logger, new FileTrustedRootStore(logPath, logger));
+        expect(manager.revokeTrustedRoot('set-1', 'a'.repeat(64))).toBe(false);
+        expect(manager.getAuditLog()).toEqual([]);
+    });
+});
+
 describe('ProofValidator', () => {
     let validator: ProofValidator;
 
@@ -205,6 +566,20 @@ describe('ProofValidator', () => {
             expect(errors).toContain('Missing proof ID');
         });
 
+        it('should catch unparseable dates', () => {
+            const proof = {
+                ...validProof,
+                metadata: {
+                    ...validProof.metadata,
+                    timestamp: new Date('not a date'),
+                    expiresAt: new Date('not a date'),
+                },
+            };
+            const errors = validator.preValidate(proof as any);
+            expect(errors).toContain('Invalid proof timestamp');
+            expect(errors).toContain('Invalid proof expiration');
+        });
+
         it('should catch future timestamp', () => {
             const proof = {
                 ...validProof,
@@ -242,3 +617,808 @@ describe('ProofValidator', () => {
         });
     });
 });
+
+describe('PublicSignals', () => {
+    const schema = [{ name: 'root', metadataField: 'merkleRoot', encoding: 'hex' }] as const;
+    const root = '0f'.repeat(32);
+    const metadata = {
+        proofId: 'id',
+        credentialSetId: 'set-1',
+        merkleRoot: root,
+        timestamp: new Date(),
+        expiresAt: new Date(Date.now() + 60000),
+        version: '1.0.0',
+        circuitId: 'credential-v1.0.0',
+    };
+
+    it('should decode signals by name', () => {
+        const { values, errors } = decodePublicSignals(schema, ['42']);
+        expect(errors).toEqual([]);
+        expect(values.root).toBe(BigInt(42));
+    });
+
+    it('should reject a signal count mismatch', () => {
+        expect(decodePublicSignals(schema, ['1', '2']).errors).toEqual([
+            'Expected 1 public signals, got 2',
+        ]);
+    });
+
+    it('should reject non-canonical and out-of-field signals', () => {
+        expect(decodePublicSignals(schema, ['0x2a']).errors[0]).toContain('not a canonical decimal');
+        expect(decodePublicSignals(schema, ['007']).errors[0]).toContain('not a canonical decimal');
+        expect(decodePublicSignals(schema, [SNARK_SCALAR_FIELD.toString()]).errors[0]).toContain(
+            'outside the scalar field',
+        );
+    });
+
+    it('should accept a signal equal to its metadata field', () => {
+        const signal = BigInt('0x' + root).toString();
+        expect(checkPublicSignalBinding(schema, [signal], metadata)).toEqual([]);
+    });
+
+    it('should reject a relabeled root', () => {
+        expect(checkPublicSignalBinding(schema, ['12345'], metadata)).toEqual([
+            'Public signal root does not match metadata merkleRoot',
+        ]);
+    });
+});
+
+describe('ZKVerifier', () => {
+    const trustedRoot = '0a'.repeat(32);
+    let rootManager: RootManager;
+    let verifier: ZKVerifier;
+
+    const makeProof = (publicSignals: string[], merkleRoot: string, circuitId = 'credential-v1.0.0'): ZKProof => ({
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals,
+        metadata: {
+            proofId: 'proof-1',
+            credentialSetId: 'set-1',
+            merkleRoot,
+            timestamp: new Date(Date.now() - 1000),
+            expiresAt: new Date(Date.now() + 60000),
+            version: '1.0.0',
+            circuitId,
+        },
+    });
+
+    beforeEach(() => {
+        rootManager = new RootManager(logger);
+        rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: trustedRoot, addedAt: new Date() });
+        verifier = new ZKVerifier(
+            registryOf('credential', 'identity_nullifier'),
+            rootManager,
+            logger,
+        );
+    });
+
+    it('should reject a proof for another tree relabeled with a trusted root', async () => {
+        const otherRoot = BigInt('0x' + '0b'.repeat(32)).toString();
+        const result = await verifier.verifyProof(makeProof([otherRoot], trustedRoot));
+
+        expect(result.valid).toBe(false);
+        expect(result.errors).toContain('Public signal root does not match metadata merkleRoot');
+    });
+
+    it('should reject a proof with extra public signals', async () => {
+        const signal = BigInt('0x' + trustedRoot).toString();
+        const result = await verifier.verifyProof(makeProof([signal, '1'], trustedRoot));
+
+        expect(result.errors).toContain('Expected 1 public signals, got 2');
+    });
+
+    it('should reject an unknown circuit', async () => {
+        const signal = BigInt('0x' + trustedRoot).toString();
+        const result = await verifier.verifyProof(makeProof([signal], trustedRoot, 'other-v1.0.0'));
+
+        expect(result.errors).toEqual(['Unsupported circuit']);
+    });
+
+    it('should pass the binding stage when signals match metadata', async () => {
+        const signal = BigInt('0x' + trustedRoot).toString();
+        const result = await verifier.verifyProof(makeProof([signal], trustedRoot));
+
+        // Binding and trust checks pass; the key was never loaded
+        expect(result.errors).toEqual(['Verifier not initialized']);
+    });
+
+    it('should check signals against the layout of the circuit named in metadata', async () => {
+        const signal = BigInt('0x' + trustedRoot).toString();
+        const result = await verifier.verifyProof(
+            makeProof([signal], trustedRoot, 'identity_nullifier-v1.0.0'),
+        );
+
+        expect(result.errors).toContain('Expected 3 public signals, got 1');
+    });
+
+    it('should count failures by reason without the values they name', async () => {
+        const reason = { reason: 'Unexpected number of public signals' };
+        const before = metrics.verificationFailures.get(reason);
+
+        await verifier.verifyProof(makeProof(['1', '2'], trustedRoot));
+        await verifier.verifyProof(makeProof(['1', '2', '3'], trustedRoot));
+
+        expect(metrics.verificationFailures.get(reason)).toBe(before + 2);
+        expect(metrics.verificationFailures.render().join('\n')).not.toContain('got 3');
+    });
+
+    describe('initialize', () => {
+        let circuitsDir: string;
+
+        beforeEach(() => {
+            circuitsDir = mkdtempSync(path.join(tmpdir(), 'zkp-circuits-'));
+        });
+
+        afterEach(() => {
+            rmSync(circuitsDir, { recursive: true, force: true });
+        });
+
+        it('should load the keys that exist and skip the rest', async () => {
+            writeFileSync(
+                path.join(circuitsDir, 'identity_verification_key.json'),
+                JSON.stringify({ protocol: 'groth16' }),
+            );
+            const registry = new CircuitRegistry(
+                {
+                    circuits: [
+                        circuitsConfig.getConventionalDefinition('identity'),
+                        circuitsConfig.getConventionalDefinition('identity_nullifier'),
+                    ],
+                },
+                circuitsDir,
+                logger,
+            );
+            const multi = new ZKVerifier(registry, rootManager, logger);
+
+            await multi.initialize();
+
+            expect(multi.hasVerificationKey('identity-v1.0.0')).toBe(true);
+            expect(multi.hasVerificationKey('identity_nullifier-v1.0.0')).toBe(false);
+        });
+
+        it('should fail when no verification key can be loaded', async () => {
+            const multi = new ZKVerifier(registryOf('identity'), rootManager, logger);
+
+            await expect(multi.initialize()).rejects.toThrow('ZK Verifier initialization failed');
+        });
+    });
+});
+
+describe('NullifierRegistry', () => {
+    let registry: NullifierRegistry;
+
+    beforeEach(() => {
+        registry = new NullifierRegistry(logger);
+    });
+
+    it('should consume a fresh nullifier', () => {
+        expect(registry.consume('poll-1', '123', 'proof-1')).toBe(true);
+        expect(registry.isUsed('poll-1', '123')).toBe(true);
+    });
+
+    it('should reject reuse within a scope', () => {
+        registry.consume('poll-1', '123', 'proof-1');
+        expect(registry.consume('poll-1', '123', 'proof-2')).toBe(false);
+        expect(registry.getUsedCount('poll-1')).toBe(1);
+    });
+
+    it('should track scopes independently', () => {
+        registry.consume('poll-1', '123', 'proof-1');
+        expect(registry.isUsed('poll-2', '123')).toBe(false);
+        expect(registry.consume('poll-2', '123', 'proof-2')).toBe(true);
+    });
+
+    describe('persistence', () => {
+        let dir: string;
+        let filePath: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'nullifiers-'));
+            filePath = path.join(dir, 'nullifiers.log');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should remember spent nullifiers across restarts', () => {
+            new NullifierRegistry(logger, new FileNullifierStore(filePath, logger)).consume(
+                'poll-1',
+                '123',
+                'proof-1',
+            );
+
+            const restored = new NullifierRegistry(logger, new FileNullifierStore(filePath, logger));
+            expect(restored.isUsed('poll-1', '123')).toBe(true);
+            expect(restored.consume('poll-1', '123', 'proof-2')).toBe(false);
+        });
+    });
+});
+
+describe('ZKVerifier with nullifiers', () => {
+    const trustedRoot = '0a'.repeat(32);
+    const rootSignal = BigInt('0x' + trustedRoot).toString();
+    let registry: NullifierRegistry;
+    let verifier: ZKVerifier;
+
+    const makeProof = (externalNullifier: string, nullifierHash: string): ZKProof => ({
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: [
+            rootSignal,
+            nullifierHash,
+            PoseidonManager.stringToField(externalNullifier).toString(),
+        ],
+        metadata: {
+            proofId: 'proof-1',
+            credentialSetId: 'set-1',
+            merkleRoot: trustedRoot,
+            timestamp: new Date(Date.now() - 1000),
+            expiresAt: new Date(Date.now() + 60000),
+            version: '1.0.0',
+            circuitId: 'identity_nullifier-v1.0.0',
+            externalNullifier,
+            nullifierHash,
+        },
+    });
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+    });
+
+    beforeEach(() => {
+        const rootManager = new RootManager(logger);
+        rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: trustedRoot, addedAt: new Date() });
+        registry = new NullifierRegistry(logger);
+        verifier = new ZKVerifier(
+            registryOf('identity_nullifier'),
+            rootManager,
+            logger,
+            registry,
+        );
+    });
+
+    it('should reject a relabeled external nullifier', async () => {
+        const proof = makeProof('poll-1', '42');
+        const relabeled = { ...proof, metadata: { ...proof.metadata, externalNullifier: 'poll-2' } };
+
+        const result = await verifier.verifyProof(relabeled);
+        expect(result.errors).toEqual([
+            'Public signal externalNullifier does not match metadata externalNullifier',
+        ]);
+    });
+
+    it('should reject a proof for a different scope than requested', async () => {
+        const result = await verifier.verifyProof(makeProof('poll-1', '42'), {
+            externalNullifier: 'poll-2',
+        });
+
+        expect(result.errors).toEqual(['Proof is bound to a different external nullifier']);
+    });
+
+    it('should reject a spent nullifier before cryptographic verification', async () => {
+        registry.consume('poll-1', '42', 'earlier-proof');
+
+        const result = await verifier.verifyProof(makeProof('poll-1', '42'), {
+            externalNullifier: 'poll-1',
+        });
+
+        expect(result.errors).toEqual(['Nullifier already used']);
+    });
+
+    it('should not spend the nullifier when verification fails', async () => {
+        const result = await verifier.verifyProof(makeProof('poll-1', '42'));
+
+        expect(result.errors).toEqual(['Verifier not initialized']);
+        expect(registry.isUsed('poll-1', '42')).toBe(false);
+    });
+
+    it('should reject a plain membership proof when a scope is requested', async () => {
+        const plain = new ZKVerifier(
+            registryOf('credential'),
+            new RootManager(logger),
+            logger,
+        );
+        const proof: ZKProof = {
+            proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+            publicSignals: [rootSignal],
+            metadata: { ...makeProof('poll-1', '42').metadata, circuitId: 'credential-v1.0.0' },
+        };
+
+        const result = await plain.verifyProof(proof, { externalNullifier: 'poll-1' });
+        expect(result.errors).toEqual(['Proof is not bound to an external nullifier']);
+    });
+});
+
+describe('ZKVerifier with revocation', () => {
+    const trustedRoot = '0a'.repeat(32);
+    let revocations: RevocationRegistry;
+    let rootManager: RootManager;
+
+    const makeProof = (circuitId: string, revocationRoot?: string): ZKProof => ({
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: [trustedRoot, ...(revocationRoot ? [revocationRoot] : [])].map((hex) =>
+            BigInt('0x' + hex).toString(),
+        ),
+        metadata: {
+            proofId: 'proof-1',
+            credentialSetId: 'set-1',
+            merkleRoot: trustedRoot,
+            timestamp: new Date(Date.now() - 1000),
+            expiresAt: new Date(Date.now() + 60000),
+            version: '1.0.0',
+            circuitId,
+            revocationRoot,
+        },
+    });
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+    });
+
+    beforeEach(() => {
+        rootManager = new RootManager(logger);
+        rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: trustedRoot, addedAt: new Date() });
+        revocations = new RevocationRegistry(logger);
+    });
+
+    const verifier = (): ZKVerifier =>
+        new ZKVerifier(
+            registryOf('identity', 'identity_revocation'),
+            rootManager,
+            logger,
+            undefined,
+            revocations,
+        );
+
+    it('should accept plain proofs while nothing is published', async () => {
+        const result = await verifier().verifyProof(makeProof('identity-v1.0.0'));
+
+        // Reaches cryptographic verification
+        expect(result.errors).toEqual(['Verifier not initialized']);
+    });
+
+    it('should require a non-revocation proof once revocations are published', async () => {
+        revocations.revoke('set-1', [commitmentFor('A')]);
+        revocations.publish('set-1');
+
+        const result = await verifier().verifyProof(makeProof('identity-v1.0.0'));
+        expect(result.errors).toEqual(['Credential set requires a non-revocation proof']);
+    });
+
+    it('should accept a proof against the published revocation root', async () => {
+        revocations.revoke('set-1', [commitmentFor('A')]);
+        const { revocationRoot } = revocations.publish('set-1');
+
+        const result = await verifier().verifyProof(
+            makeProof('identity_revocation-v1.0.0', revocationRoot),
+        );
+        expect(result.errors).toEqual(['Verifier not initialized']);
+    });
+
+    it('should reject a proof against a superseded revocation root', async () => {
+        revocations.revoke('set-1', [commitmentFor('A')]);
+        const { revocationRoot } = revocations.publish('set-1');
+        revocations.revoke('set-1', [commitmentFor('B')]);
+        revocations.publish('set-1');
+
+        const result = await verifier().verifyProof(
+            makeProof('identity_revocation-v1.0.0', revocationRoot),
+        );
+        expect(result.errors).toEqual(['Stale or unknown revocation root']);
+    });
+
+    it('should reject a relabeled revocation root', async () => {
+        revocations.revoke('set-1', [commitmentFor('A')]);
+        const { revocationRoot } = revocations.publish('set-1');
+
+        const proof = makeProof('identity_revocation-v1.0.0', '0c'.repeat(32));
+        const relabeled = { ...proof, metadata: { ...proof.metadata, revocationRoot } };
+
+        const result = await verifier().verifyProof(relabeled);
+        expect(result.errors).toEqual([
+            'Public signal revocationRoot does not match metadata revocationRoot',
+        ]);
+    });
+
+    it('should skip the revocation check when no registry is configured', async () => {
+        const unchecked = new ZKVerifier(
+            registryOf('identity_revocation'),
+            rootManager,
+            logger,
+        );
+
+        const result = await unchecked.verifyProof(
+            makeProof('identity_revocation-v1.0.0', '0c'.repeat(32)),
+        );
+        expect(result.errors).toEqual(['Verifier not initialized']);
+    });
+});
+
+describe('AttributeStatement', () => {
+    const schema: AttributeSchema = [
+        { name: 'birthDate', type: 'date' },
+        { name: 'country', type: 'string' },
+        { name: 'score', type: 'integer' },
+    ];
+    let credential: AttributeCredential;
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        credential = new AttributeCredential(schema, {
+            birthDate: '1990-05-17',
+            country: 'NL',
+            score: 720,
+        });
+    });
+
+    it('should encode disclosures, schema hash and predicate slots', () => {
+        const statement = buildAttributeStatement(
+            credential,
+            ['country'],
+            [
+                { attribute: 'score', op: 'gt', value: 700 },
+                { attribute: 'birthDate', op: 'between', min: '1980-01-01', max: '1999-12-31' },
+            ],
+        );
+        const encoded = encodeAttributeStatement(statement);
+
+        expect(statement.disclosed).toEqual({ country: 'NL' });
+        expect(encoded.disclosed[1]).toBe(PoseidonManager.stringToField('NL'));
+        expect(encoded.disclosureMask.map(Number)).toEqual([0, 1, 0, 0, 0, 0, 0, 0]);
+        // gt becomes gte on the next value; between takes a gte and an lte slot
+        expect(encoded.predicateAttribute.map(Number)).toEqual([2, 0, 0, 0]);
+        expect(encoded.predicateOp.map(Number)).toEqual([3, 3, 4, 0]);
+        expect(encoded.predicateValue.map(Number)).toEqual([701, 3652, 10956, 0]);
+        expect(attributeSignals(encoded)).toHaveLength(29);
+    });
+
+    it('should refuse a statement the credential does not satisfy', () => {
+        expect(() =>
+            buildAttributeStatement(credential, [], [{ attribute: 'score', op: 'gte', value: 800 }]),
+        ).toThrow(expect.objectContaining({ code: ErrorCode.ATTRIBUTE_PREDICATE_NOT_SATISFIED }));
+    });
+
+    it('should reject malformed predicates', () => {
+        const build = (predicate: object) => () =>
+            buildAttributeStatement(credential, [], [predicate as never]);
+
+        expect(build({ attribute: 'country', op: 'gt', value: 'A' })).toThrow(
+            'only eq and neq apply to string attributes',
+        );
+        expect(build({ attribute: 'height', op: 'eq', value: 1 })).toThrow('Unknown attribute: height');
+        expect(build({ attribute: 'score', op: 'lt', value: 0 })).toThrow('no value is less');
+        expect(build({ attribute: 'score', op: 'between', min: 9, max: 1 })).toThrow(
+            'min must not exceed max',
+        );
+        expect(() =>
+            buildAttributeStatement(credential, [], [
+                { attribute: 'score', op: 'between', min: 1, max: 900 },
+                { attribute: 'birthDate', op: 'between', min: '1980-01-01', max: '1999-12-31' },
+                { attribute: 'country', op: 'neq', value: 'DE' },
+            ]),
+        ).toThrow('At most 4 predicate slots');
+    });
+
+    describe('checkAttributeRequirements', () => {
+        let statement: AttributeStatement;
+
+        beforeAll(() => {
+            statement = buildAttributeStatement(
+                credential,
+                ['country'],
+                [{ attribute: 'score', op: 'gte', value: 700 }],
+            );
+        });
+
+        it('should accept requirements met by proven predicates or disclosures', () => {
+            expect(
+                checkAttributeRequirements(
+                    statement,
+                    [
+                        { attribute: 'score', op: 'gt', value: 650 },
+                        { attribute: 'country', op: 'neq', value: 'DE' },
+                    ],
+                    ['country'],
+                ),
+            ).toEqual([]);
+        });
+
+        it('should report requirements the proof does not establish', () => {
+            expect(
+                checkAttributeRequirements(
+                    statement,
+                    [
+                        { attribute: 'score', op: 'gte', value: 710 },
+                        { attribute: 'birthDate', op: 'lt', value: '2000-01-01' },
+                    ],
+                    ['birthDate'],
+                ),
+            ).toEqual([
+                'Attribute birthDate is not disclosed',
+                'Predicate on score is not proven',
+                'Predicate on birthDate is not proven',
+            ]);
+        });
+    });
+});
+
+describe('ZKVerifier with attributes', () => {
+    const trustedRoot = '0a'.repeat(32);
+    const schema: AttributeSchema = [
+        { name: 'age', type: 'integer' },
+        { name: 'country', type: 'string' },
+    ];
+    let rootManager: RootManager;
+    let verifier: ZKVerifier;
+    let statement: AttributeStatement;
+
+    const makeProof = (signed: AttributeStatement, claimed: AttributeStatement = signed): ZKProof => ({
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: [
+            BigInt('0x' + trustedRoot),
+            ...attributeSignals(encodeAttributeStatement(signed)),
+        ].map(String),
+        metadata: {
+            proofId: 'proof-1',
+            credentialSetId: 'set-1',
+            merkleRoot: trustedRoot,
+            timestamp: new Date(Date.now() - 1000),
+            expiresAt: new Date(Date.now() + 60000),
+            version: '1.0.0',
+            circuitId: 'attribute_credential-v1.0.0',
+            attributes: claimed,
+        },
+    });
+
+    beforeAll(async () => {
+        await PoseidonManager.initialize();
+        const credential = new AttributeCredential(schema, { age: 34, country: 'NL' });
+        statement = buildAttributeStatement(
+            credential,
+            ['country'],
+            [{ attribute: 'age', op: 'gte', value: 18 }],
+        );
+    });
+
+    beforeEach(() => {
+        rootManager = new RootManager(logger);
+        rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: trustedRoot, addedAt: new Date() });
+        verifier = new ZKVerifier(registryOf('identity', 'attribute_credential'), rootManager, logger);
+    });
+
+    it('should bind the disclosed attributes and predicates to the public signals', async () => {
+        const result = await verifier.verifyProof(makeProof(statement), {
+            predicates: [{ attribute: 'age', op: 'gte', value: 18 }],
+            disclose: ['country'],
+        });
+
+        expect(result.errors).toEqual(['Verifier not initialized']);
+    });
+
+    it('should reject a relabeled disclosed attribute', async () => {
+        const relabeled = { ...statement, disclosed: { country: 'DE' } };
+        const result = await verifier.verifyProof(makeProof(statement, relabeled));
+
+        expect(result.errors).toEqual([
+            'Public signal disclosed[1] does not match metadata attributes',
+        ]);
+    });
+
+    it('should reject a weaker predicate than claimed', async () => {
+        const claimed = { ...statement, predicates: [{ attribute: 'age', op: 'gte' as const, value: 21 }] };
+        const result = await verifier.verifyProof(makeProof(statement, claimed));
+
+        expect(result.errors).toEqual([
+            'Public signal predicateValue[0] does not match metadata attributes',
+        ]);
+    });
+
+    it('should reject a proof that does not establish a required predicate', async () => {
+        const result = await verifier.verifyProof(makeProof(statement), {
+            predicates: [{ attribute: 'age', op: 'gte', value: 21 }],
+        });
+
+        expect(result.errors).toEqual(['Predicate on age is not proven']);
+    });
+
+    it('should reject a membership proof when attributes are required', async () => {
+        const signal = BigInt('0x' + trustedRoot).toString();
+        const plain: ZKProof = {
+            ...makeProof(statement),
+            publicSignals: [signal],
+            metadata: { ...makeProof(statement).metadata, circuitId: 'identity-v1.0.0', attributes: undefined },
+        };
+        const result = await verifier.verifyProof(plain, { disclose: ['country'] });
+
+        expect(result.errors).toEqual(['Proof does not carry attribute claims']);
+    });
+});
+
+describe('IssuerRegistry', () => {
+    const publicKey = { x: '0a'.repeat(32), y: '0b'.repeat(32) };
+    let registry: IssuerRegistry;
+
+    beforeEach(() => {
+        registry = new IssuerRegistry(logger);
+    });
+
+    it('should find a trusted issuer by public key', () => {
+        registry.addTrustedIssuer({ issuerId: 'issuer-1', publicKey, addedAt: new Date() });
+
+        expect(
+            registry.findTrustedIssuer({ x: publicKey.x.toUpperCase(), y: publicKey.y })?.issuerId,
+        ).toBe('issuer-1');
+        expect(registry.findTrustedIssuer({ ...publicKey, y: '0c'.repeat(32) })).toBeUndefined();
+    });
+
+    it('should not find an expired issuer', () => {
+        registry.addTrustedIssuer({
+            issuerId: 'issuer-1',
+            publicKey,
+            addedAt: new Date(),
+            expiresAt: new Date(Date.now() - 1000),
+        });
+
+        expect(registry.findTrustedIssuer(publicKey)).toBeUndefined();
+    });
+
+    it('should replace the key of an issuer trusted again', () => {
+        const rotated = { x: '0c'.repeat(32), y: '0d'.repeat(32) };
+        registry.addTrustedIssuer({ issuerId: 'issuer-1', publicKey, addedAt: new Date() });
+        registry.addTrustedIssuer({ issuerId: 'issuer-1', publicKey: rotated, addedAt: new Date() });
+
+        expect(registry.findTrustedIssuer(publicKey)).toBeUndefined();
+        expect(registry.findTrustedIssuer(rotated)?.issuerId).toBe('issuer-1');
+        expect(registry.getTrustedIssuers()).toHaveLength(1);
+    });
+
+    it('should not let two issuers share a key', () => {
+        registry.addTrustedIssuer({ issuerId: 'issuer-1', publicKey, addedAt: new Date() });
+
+        expect(() =>
+            registry.addTrustedIssuer({ issuerId: 'issuer-2', publicKey, addedAt: new Date() }),
+        ).toThrow('already trusted for another issuer');
+    });
+
+    it('should reject malformed keys', () => {
+        expect(() =>
+            registry.addTrustedIssuer({
+                issuerId: 'issuer-1',
+                publicKey: { ...publicKey, x: 'xyz' },
+                addedAt: new Date(),
+            }),
+        ).toThrow();
+    });
+
+    it('should revoke trusted issuers', () => {
+        registry.addTrustedIssuer({ issuerId: 'issuer-1', publicKey, addedAt: new Date() });
+
+        expect(registry.revokeTrustedIssuer('issuer-1')).toBe(true);
+        expect(registry.revokeTrustedIssuer('issuer-1')).toBe(false);
+        expect(registry.findTrustedIssuer(publicKey)).toBeUndefined();
+    });
+
+    describe('persistence', () => {
+        let dir: string;
+        let logPath: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(path.join(tmpdir(), 'trusted-issuers-'));
+            logPath = path.join(dir, 'trusted-issuers.log');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should replay additions and revocations after a restart', () => {
+            const other = { x: '0c'.repeat(32), y: '0d'.repeat(32) };
+            const first = new IssuerRegistry(logger, new FileTrustedIssuerStore(logPath, logger));
+            first.addTrustedIssuer({ issuerId: 'issuer-1', publicKey, addedAt: new Date() }, 'admin-1');
+            first.addTrustedIssuer({ issuerId: 'issuer-2', publicKey: other, addedAt: new Date() });
+            first.revokeTrustedIssuer('issuer-2', 'admin-2');
+
+            const second = new IssuerRegistry(logger, new FileTrustedIssuerStore(logPath, logger));
+            expect(second.findTrustedIssuer(publicKey)?.issuerId).toBe('issuer-1');
+            expect(second.findTrustedIssuer(other)).toBeUndefined();
+            expect(second.getAuditLog().map((e) => [e.action, e.actor])).toEqual([
+                ['add', 'admin-1'],
+                ['add', 'system'],
+                ['revoke', 'admin-2'],
+            ]);
+        });
+    });
+});
+
+describe('ZKVerifier with issuers', () => {
+    const trustedRoot = '0a'.repeat(32);
+    const publicKey = { x: '01'.repeat(32), y: '02'.repeat(32) };
+    let rootManager: RootManager;
+    let issuers: IssuerRegistry;
+
+    const makeProof = (signedBy = publicKey, claimed = signedBy): ZKProof => ({
+        proof: { pi_a: [], pi_b: [], pi_c: [], protocol: 'groth16', curve: 'bn128' },
+        publicSignals: [trustedRoot, signedBy.x, signedBy.y].map((hex) =>
+            BigInt('0x' + hex).toString(),
+        ),
+        metadata: {
+            proofId: 'proof-1',
+            credentialSetId: 'set-1',
+            merkleRoot: trustedRoot,
+            timestamp: new Date(Date.now() - 1000),
+            expiresAt: new Date(Date.now() + 60000),
+            version: '1.0.0',
+            circuitId: 'identity_issuer-v1.0.0',
+            issuerPublicKey: claimed,
+        },
+    });
+
+    const verifier = (): ZKVerifier =>
+        new ZKVerifier(
+            registryOf('identity', 'identity_issuer'),
+            rootManager,
+            logger,
+            undefined,
+            undefined,
+            issuers,
+        );
+
+    beforeEach(() => {
+        rootManager = new RootManager(logger);
+        rootManager.addTrustedRoot({ credentialSetId: 'set-1', merkleRoot: trustedRoot, addedAt: new Date() });
+        issuers = new IssuerRegistry(logger);
+        issuers.addTrustedIssuer({ issuerId: 'issuer-1', publicKey, addedAt: new Date() });
+    });
+
+    it('should accept a proof signed by a trusted issuer', async () => {
+        const result = await verifier().verifyProof(makeProof(), { issuerId: 'issuer-1' });
+
+        expect(result.errors).toEqual(['Verifier not initialized']);
+    });
+
+    it('should reject a proof signed by an untrusted issuer', async () => {
+        issuers.revokeTrustedIssuer('issuer-1');
+        const result = await verifier().verifyProof(makeProof());
+
+        expect(result.errors).toEqual(['Untrusted issuer']);
+    });
+
+    it('should reject a relabeled issuer key', async () => {
+        const other = { x: '03'.repeat(32), y: '04'.repeat(32) };
+        const result = await verifier().verifyProof(makeProof(other, publicKey));
+
+        expect(result.errors).toEqual([
+            'Public signal issuerAx does not match metadata issuerPublicKey',
+            'Public signal issuerAy does not match metadata issuerPublicKey',
+        ]);
+    });
+
+    it('should reject a proof by another issuer than required', async () => {
+        const result = await verifier().verifyProof(makeProof(), { issuerId: 'issuer-2' });
+
+        expect(result.errors).toEqual(['Proof is signed by a different issuer']);
+    });
+
+    it('should reject an unsigned proof when an issuer is required', async () => {
+        const signal = BigInt('0x' + trustedRoot).toString();
+        const plain: ZKProof = {
+            ...makeProof(),
+            publicSignals: [signal],
+            metadata: { ...makeProof().metadata, circuitId: 'identity-v1.0.0', issuerPublicKey: undefined },
+        };
+        const result = await verifier().verifyProof(plain, { issuerId: 'issuer-1' });
+
+        expect(result.errors).toEqual(['Proof is not signed by an issuer']);
+    });
+
+    it('should skip the issuer check when no registry is configured', async () => {
+        const unchecked = new ZKVerifier(registryOf('identity_issuer'), rootManager, logger);
+
+        expect((await unchecked.verifyProof(makeProof())).errors).toEqual([
+            'Verifier not initialized',
+        ]);
+        expect((await unchecked.verifyProof(makeProof(), { issuerId: 'issuer-1' })).errors).toEqual([
+            'Issuer not checked: no issuer registry configured',
+        ]);
+    });
+});